@@ -26,6 +26,10 @@
 -- - oauth_access_tokens: Opaque access tokens for Alexa Account Linking
 -- - oauth_refresh_tokens: Refresh tokens (optional)
 -- - website_refresh_tokens: Refresh tokens for website JWT sessions
+-- - security_events: Suspicious activity, e.g. a refresh token presented twice
+-- - action_journal: Inverse operations for undoing voice actions
+-- - task_reminders: Alexa reminders created for tasks with a due time
+-- - task_cache: Shared snapshots of users' open tasks (optional, TASK_CACHE_STORE=supabase)
 --
 -- IMPORTANT IDENTITY ALIGNMENT:
 -- - users.id = auth.users.id (one source of truth, no default, no auth_user_id column)
@@ -63,6 +67,14 @@ CREATE TABLE IF NOT EXISTS users (
   notion_setup_complete BOOLEAN DEFAULT FALSE,
   privacy_page_id TEXT,
   tasks_db_id TEXT, -- Active: Used for task management
+  tasks_db_mapping JSONB, -- Property/option names of the Tasks database, auto-detected and editable in the dashboard
+  
+  -- Voice preferences
+  bulk_delete_confirm_threshold INTEGER DEFAULT 2, -- Ask "are you sure?" when a delete affects this many tasks
+  time_zone TEXT, -- IANA time zone of the user's Alexa device, e.g. America/New_York
+  briefing_settings JSONB, -- Sections of the daily briefing, editable in the dashboard
+  notification_settings JSONB, -- Overdue task notifications opt-in and quiet hours, editable in the dashboard
+  overdue_notified_at TIMESTAMP WITH TIME ZONE, -- Last overdue notification sent, at most one a day
   
   -- Onboarding tracking
   onboarding_complete BOOLEAN DEFAULT FALSE,
@@ -178,6 +190,22 @@ BEGIN
   END IF;
 END $$;
 
+-- Voice preferences added after the initial schema
+ALTER TABLE users ADD COLUMN IF NOT EXISTS bulk_delete_confirm_threshold INTEGER DEFAULT 2;
+
+-- Tasks database property mapping added after the initial schema
+ALTER TABLE users ADD COLUMN IF NOT EXISTS tasks_db_mapping JSONB;
+
+-- Device time zone added after the initial schema
+ALTER TABLE users ADD COLUMN IF NOT EXISTS time_zone TEXT;
+
+-- Daily briefing settings added after the initial schema
+ALTER TABLE users ADD COLUMN IF NOT EXISTS briefing_settings JSONB;
+
+-- Overdue task notifications (Proactive Events) added after the initial schema
+ALTER TABLE users ADD COLUMN IF NOT EXISTS notification_settings JSONB;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS overdue_notified_at TIMESTAMP WITH TIME ZONE;
+
 -- ============================================================================
 -- LICENSES TABLE
 -- ============================================================================
@@ -385,6 +413,17 @@ CREATE TABLE IF NOT EXISTS oauth_refresh_tokens (
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Refresh token rotation added after the initial schema: each refresh consumes
+-- the token and issues its replacement in the same family. A consumed token
+-- presented again after a short grace window means it leaked, and the family
+-- is revoked, access tokens included.
+ALTER TABLE oauth_refresh_tokens ADD COLUMN IF NOT EXISTS family_id UUID NOT NULL DEFAULT uuid_generate_v4();
+ALTER TABLE oauth_refresh_tokens ADD COLUMN IF NOT EXISTS parent_token TEXT; -- The token this one replaced
+ALTER TABLE oauth_refresh_tokens ADD COLUMN IF NOT EXISTS scope TEXT NOT NULL DEFAULT 'alexa';
+ALTER TABLE oauth_refresh_tokens ADD COLUMN IF NOT EXISTS consumed_at TIMESTAMPTZ;
+ALTER TABLE oauth_refresh_tokens ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ; -- NULL for tokens issued before expiry
+ALTER TABLE oauth_access_tokens ADD COLUMN IF NOT EXISTS family_id UUID; -- Refresh token family (grant) it was issued with
+
 -- ============================================================================
 -- WEBSITE REFRESH TOKENS TABLE
 -- Stores refresh tokens for website JWT sessions
@@ -399,6 +438,61 @@ CREATE TABLE IF NOT EXISTS website_refresh_tokens (
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- ============================================================================
+-- SECURITY EVENTS TABLE
+-- Suspicious activity worth a look, e.g. refresh token reuse
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS security_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL, -- e.g. 'refresh_token_reuse'
+  details JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- ACTION JOURNAL TABLE
+-- Stores how to reverse each add/update/delete made by voice ("undo that")
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS action_journal (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('add', 'update', 'delete', 'add_step')),
+  description TEXT NOT NULL, -- Spoken summary, e.g. 'deleting "Buy milk"'
+  inverse JSONB NOT NULL, -- Array of restore / archive / unarchive / remove operations
+  undone_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- TASK REMINDERS TABLE
+-- Alexa reminder for each Notion page, so rescheduling or deleting the task
+-- can update or cancel it
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS task_reminders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  page_id TEXT NOT NULL, -- Notion page ID of the task
+  reminder_id TEXT NOT NULL, -- alertToken returned by the Alexa Reminders API
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, page_id)
+);
+
+-- ============================================================================
+-- TASK CACHE TABLE
+-- Open tasks as last read from Notion, shared by all Lambda instances when
+-- TASK_CACHE_STORE=supabase. Rows are dropped when the skill changes the
+-- user's tasks; the Lambda decides freshness from fetched_at.
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS task_cache (
+  cache_key TEXT PRIMARY KEY, -- users.id and a hash of its field mapping
+  database_id TEXT NOT NULL, -- Notion Tasks database the snapshot came from
+  tasks JSONB NOT NULL,
+  fetched_at TIMESTAMPTZ NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
 -- ============================================================================
 -- INDEXES
 -- ============================================================================
@@ -437,12 +531,26 @@ CREATE INDEX IF NOT EXISTS idx_oauth_access_tokens_expires_at ON oauth_access_to
 -- OAuth2 refresh tokens indexes
 CREATE INDEX IF NOT EXISTS idx_oauth_refresh_tokens_user_id ON oauth_refresh_tokens(user_id);
 CREATE INDEX IF NOT EXISTS idx_oauth_refresh_tokens_revoked ON oauth_refresh_tokens(revoked);
+CREATE INDEX IF NOT EXISTS idx_oauth_refresh_tokens_family_id ON oauth_refresh_tokens(family_id);
+CREATE INDEX IF NOT EXISTS idx_oauth_refresh_tokens_parent_token ON oauth_refresh_tokens(parent_token);
+CREATE INDEX IF NOT EXISTS idx_oauth_access_tokens_family_id ON oauth_access_tokens(family_id);
 
 -- Website refresh tokens indexes
 CREATE INDEX IF NOT EXISTS idx_website_refresh_tokens_user_id ON website_refresh_tokens(user_id);
 CREATE INDEX IF NOT EXISTS idx_website_refresh_tokens_expires_at ON website_refresh_tokens(expires_at);
 CREATE INDEX IF NOT EXISTS idx_website_refresh_tokens_revoked ON website_refresh_tokens(revoked, expires_at);
 
+-- Security events indexes
+CREATE INDEX IF NOT EXISTS idx_security_events_user_created ON security_events(user_id, created_at DESC);
+
+-- Action journal indexes
+CREATE INDEX IF NOT EXISTS idx_action_journal_user_created ON action_journal(user_id, created_at DESC) WHERE undone_at IS NULL;
+
+-- Task reminders are looked up by (user_id, page_id), covered by the unique constraint
+
+-- Task cache cleanup
+CREATE INDEX IF NOT EXISTS idx_task_cache_expires_at ON task_cache(expires_at);
+
 -- ============================================================================
 -- TRIGGERS
 -- ============================================================================
@@ -503,6 +611,10 @@ ALTER TABLE oauth_authorization_codes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE oauth_access_tokens ENABLE ROW LEVEL SECURITY;
 ALTER TABLE oauth_refresh_tokens ENABLE ROW LEVEL SECURITY;
 ALTER TABLE website_refresh_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE security_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE action_journal ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_reminders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_cache ENABLE ROW LEVEL SECURITY;
 
 -- RLS Policies for users table
 -- Service role can do everything (USING for SELECT, WITH CHECK for INSERT/UPDATE)
@@ -540,6 +652,22 @@ DROP POLICY IF EXISTS "Service role can manage website_refresh_tokens" ON websit
 CREATE POLICY "Service role can manage website_refresh_tokens" ON website_refresh_tokens
   FOR ALL USING (true) WITH CHECK (true);
 
+DROP POLICY IF EXISTS "Service role can manage security_events" ON security_events;
+CREATE POLICY "Service role can manage security_events" ON security_events
+  FOR ALL USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Service role can manage action_journal" ON action_journal;
+CREATE POLICY "Service role can manage action_journal" ON action_journal
+  FOR ALL USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Service role can manage task_reminders" ON task_reminders;
+CREATE POLICY "Service role can manage task_reminders" ON task_reminders
+  FOR ALL USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Service role can manage task_cache" ON task_cache;
+CREATE POLICY "Service role can manage task_cache" ON task_cache
+  FOR ALL USING (true) WITH CHECK (true);
+
 -- ============================================================================
 -- UTILITY FUNCTIONS
 -- ============================================================================
@@ -572,6 +700,10 @@ BEGIN
   DELETE FROM oauth_refresh_tokens 
   WHERE revoked = TRUE AND revoked_at < NOW() - INTERVAL '30 days';
   
+  -- Delete old consumed refresh tokens (after 30 days; reuse is detected until then)
+  DELETE FROM oauth_refresh_tokens 
+  WHERE consumed_at < NOW() - INTERVAL '30 days';
+  
   -- Delete expired website refresh tokens (keep revoked for 30 days for audit)
   DELETE FROM website_refresh_tokens 
   WHERE expires_at < NOW() - INTERVAL '7 days' AND revoked = FALSE;
@@ -581,3 +713,27 @@ BEGIN
   WHERE revoked = TRUE AND revoked_at < NOW() - INTERVAL '30 days';
 END;
 $$ LANGUAGE plpgsql;
+
+-- Function to clean up old security events
+CREATE OR REPLACE FUNCTION cleanup_security_events()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM security_events WHERE created_at < NOW() - INTERVAL '90 days';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to clean up old action journal entries (only recent actions can be undone)
+CREATE OR REPLACE FUNCTION cleanup_action_journal()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM action_journal WHERE created_at < NOW() - INTERVAL '1 day';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to clean up expired task cache rows
+CREATE OR REPLACE FUNCTION cleanup_task_cache()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM task_cache WHERE expires_at < NOW();
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,121 @@
+jest.mock('../../utils/notion', () => ({
+  findDatabaseByName: jest.fn(),
+  updateTask: jest.fn(),
+}));
+
+jest.mock('../../utils/database', () => ({
+  recordJournalEntry: jest.fn(),
+}));
+
+jest.mock('../../utils/taskCache', () => ({
+  getOpenTasks: jest.fn(),
+  invalidateTaskCache: jest.fn(),
+}));
+
+jest.mock('../../utils/reminders', () => ({
+  scheduleTaskReminder: jest.fn(),
+  cancelTaskReminder: jest.fn(),
+  askForReminderPermission: jest.fn(() => ''),
+}));
+
+import { UpdateTaskHandler } from '../../handlers/UpdateTaskHandler';
+import { updateTask } from '../../utils/notion';
+import { recordJournalEntry } from '../../utils/database';
+import { scheduleTaskReminder, cancelTaskReminder } from '../../utils/reminders';
+import { NotionTask } from '../../types';
+
+const waterPlants: NotionTask = {
+  id: 'page-1',
+  name: 'Water plants',
+  parsedName: 'water plants',
+  priority: 'NORMAL',
+  dueDateTime: '2024-03-02',
+  status: 'TO DO',
+  category: 'PERSONAL',
+  notes: null,
+  recurrence: 'FREQ=WEEKLY;BYDAY=SA',
+};
+
+const mockHandlerInput = (): any => {
+  const attributes: Record<string, any> = { user: { id: 'user-1', timezone: 'America/New_York' } };
+  const responseBuilder: any = {
+    speak: jest.fn(() => responseBuilder),
+    reprompt: jest.fn(() => responseBuilder),
+    withShouldEndSession: jest.fn(() => responseBuilder),
+    getResponse: jest.fn(() => ({ speech: responseBuilder.speak.mock.calls[0]?.[0] })),
+  };
+  return {
+    requestEnvelope: { request: { type: 'IntentRequest', locale: 'en-US' } },
+    attributesManager: {
+      getSessionAttributes: () => attributes,
+      setSessionAttributes: jest.fn(),
+    },
+    responseBuilder,
+  };
+};
+
+describe('UpdateTaskHandler', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should complete a recurring task by voice without clearing its due date', async () => {
+    (updateTask as jest.Mock).mockResolvedValue({ pageId: 'page-2', dueDateTime: '2024-03-09' });
+    const handlerInput = mockHandlerInput();
+
+    const response: any = await new UpdateTaskHandler().applyUpdate(
+      handlerInput, {} as any, waterPlants, 'mark water plants done'
+    );
+
+    const updates = (updateTask as jest.Mock).mock.calls[0][2];
+    expect(updates).toEqual({ status: 'DONE' });
+    expect(cancelTaskReminder).toHaveBeenCalledWith(handlerInput, 'user-1', 'page-1');
+    expect(scheduleTaskReminder).toHaveBeenCalledWith(
+      handlerInput, 'user-1', expect.objectContaining({ id: 'page-2', dueDateTime: '2024-03-09' }), expect.any(String)
+    );
+    expect(recordJournalEntry).toHaveBeenCalledWith('user-1', 'update', expect.any(String), [
+      { type: 'restore', pageId: 'page-1', properties: { status: 'TO DO', recurrence: 'FREQ=WEEKLY;BYDAY=SA' } },
+      { type: 'archive', pageId: 'page-2' },
+    ]);
+    expect(response.speech).toMatch(/The next one is due Saturday/);
+  });
+
+  it('should apply a list or screen action as a status change only', async () => {
+    (updateTask as jest.Mock).mockResolvedValue(null);
+
+    const response: any = await new UpdateTaskHandler().applyChanges(
+      mockHandlerInput(), {} as any, waterPlants, { status: 'IN_PROCESS' }
+    );
+
+    expect((updateTask as jest.Mock).mock.calls[0][2]).toEqual({ status: 'IN_PROCESS' });
+    expect(scheduleTaskReminder).not.toHaveBeenCalled();
+    expect(response.speech).toBe('Updated "Water plants": status to in progress.');
+  });
+
+  it('should leave the reminder alone when the due date stays the same', async () => {
+    (updateTask as jest.Mock).mockResolvedValue(null);
+    const handler = new UpdateTaskHandler();
+
+    await handler.applyUpdate(mockHandlerInput(), {} as any, waterPlants, 'set water plants to high priority');
+    await handler.applyChanges(mockHandlerInput(), {} as any, waterPlants, { dueDateTime: waterPlants.dueDateTime });
+
+    expect((updateTask as jest.Mock).mock.calls[0][2]).toEqual({ priority: 'HIGH' });
+    expect(scheduleTaskReminder).not.toHaveBeenCalled();
+    expect(cancelTaskReminder).not.toHaveBeenCalled();
+  });
+
+  it('should clear the due date only when asked to', async () => {
+    (updateTask as jest.Mock).mockResolvedValue(null);
+
+    await new UpdateTaskHandler().applyUpdate(
+      mockHandlerInput(), {} as any, { ...waterPlants, recurrence: null }, 'water plants has no due date'
+    );
+
+    expect((updateTask as jest.Mock).mock.calls[0][2]).toEqual({ dueDateTime: null });
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  findMatchingTask,
+  rankMatchingTasks,
+  getAmbiguousCandidates,
+} from '../../utils/alexa';
+
+describe('Alexa Utils', () => {
+  const tasks = [
+    { id: '1', name: 'Finish quarterly report' },
+    { id: '2', name: 'Submit expense report' },
+    { id: '3', name: 'Buy groceries' },
+  ];
+
+  describe('rankMatchingTasks', () => {
+    it('should rank every matching task, best first', () => {
+      const ranked = rankMatchingTasks('report', tasks);
+      expect(ranked.map(r => r.task.id)).toEqual(['1', '2']);
+      expect(ranked[0].score).toBeGreaterThan(0);
+    });
+
+    it('should prefer an exact match over partial matches', () => {
+      const ranked = rankMatchingTasks('buy groceries', [
+        { id: 'a', name: 'buy groceries for party' },
+        { id: 'b', name: 'Buy groceries' },
+      ]);
+      expect(ranked[0].task.id).toBe('b');
+    });
+
+    it('should return nothing when no task matches', () => {
+      expect(rankMatchingTasks('walk the dog', tasks)).toEqual([]);
+      expect(rankMatchingTasks('', tasks)).toEqual([]);
+    });
+  });
+
+  describe('getAmbiguousCandidates', () => {
+    it('should return close candidates', () => {
+      const candidates = getAmbiguousCandidates(rankMatchingTasks('report', tasks));
+      expect(candidates.map(c => c.task.name)).toEqual(['Finish quarterly report', 'Submit expense report']);
+    });
+
+    it('should return nothing when the best match is clear', () => {
+      expect(getAmbiguousCandidates(rankMatchingTasks('quarterly report', tasks))).toEqual([]);
+      expect(getAmbiguousCandidates(rankMatchingTasks('buy groceries', tasks))).toEqual([]);
+    });
+  });
+
+  describe('findMatchingTask', () => {
+    it('should return the best match', () => {
+      expect(findMatchingTask('mark expense report as done', tasks)?.id).toBe('2');
+      expect(findMatchingTask('report quarterly', tasks)?.id).toBe('1');
+      expect(findMatchingTask('walk the dog', tasks)).toBeNull();
+    });
+  });
+});
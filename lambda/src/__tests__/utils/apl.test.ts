@@ -0,0 +1,74 @@
+import { supportsAPL, toTaskViewItem, renderTaskList, TASK_LIST_TOKEN } from '../../utils/apl';
+import { NotionTask } from '../../types';
+
+const task = (overrides: Partial<NotionTask> = {}): NotionTask => ({
+  id: 'task-1',
+  name: 'Pay rent',
+  parsedName: 'Pay rent',
+  priority: 'HIGH',
+  dueDateTime: '2024-03-02T02:30:00.000Z',
+  status: 'TO DO',
+  category: 'PERSONAL',
+  notes: null,
+  ...overrides,
+});
+
+const mockHandlerInput = (withScreen: boolean): any => ({
+  requestEnvelope: {
+    context: {
+      System: {
+        device: {
+          deviceId: 'device-1',
+          supportedInterfaces: withScreen ? { 'Alexa.Presentation.APL': { runtime: { maxVersion: '2023.3' } } } : {},
+        },
+      },
+    },
+  },
+  responseBuilder: { addDirective: jest.fn() },
+});
+
+describe('APL Utils', () => {
+  it('should detect devices with a screen', () => {
+    expect(supportsAPL(mockHandlerInput(true))).toBe(true);
+    expect(supportsAPL(mockHandlerInput(false))).toBe(false);
+  });
+
+  it('should show due dates and priority colours for the user', () => {
+    expect(toTaskViewItem(task(), 3, 'America/New_York')).toEqual({
+      id: 'task-1',
+      number: 3,
+      name: 'Pay rent',
+      due: 'Fri, Mar 1, 9:30 PM',
+      dueLabel: 'Due Fri, Mar 1, 9:30 PM',
+      priority: 'High',
+      priorityLabel: 'High priority',
+      priorityColor: '#E5484D',
+      status: 'To do',
+      done: false,
+    });
+    expect(toTaskViewItem(task({ priority: 'LOW', status: 'DONE', dueDateTime: null }), 1, 'UTC'))
+      .toMatchObject({ due: '', dueLabel: 'No due date', priority: 'Low', status: 'Done', done: true });
+  });
+
+  it('should format labels in the user\'s language', () => {
+    expect(toTaskViewItem(task(), 3, 'Europe/Berlin', 'de-DE')).toMatchObject({
+      due: 'Sa., 2. März, 3:30',
+      dueLabel: 'Fällig Sa., 2. März, 3:30',
+      priorityLabel: 'Priorität Hoch',
+      status: 'Zu erledigen',
+    });
+  });
+
+  it('should only render on devices with a screen', () => {
+    const withScreen = mockHandlerInput(true);
+    renderTaskList(withScreen, 'Tasks for today', [task(), task({ id: 'task-2' })], 'UTC');
+    const directive = withScreen.responseBuilder.addDirective.mock.calls[0][0];
+    expect(directive.type).toBe('Alexa.Presentation.APL.RenderDocument');
+    expect(directive.token).toBe(TASK_LIST_TOKEN);
+    expect(directive.datasources.taskList.items.map((item: any) => item.number)).toEqual([1, 2]);
+
+    const voiceOnly = mockHandlerInput(false);
+    renderTaskList(voiceOnly, 'Tasks for today', [task()], 'UTC');
+    expect(voiceOnly.responseBuilder.addDirective).not.toHaveBeenCalled();
+  });
+});
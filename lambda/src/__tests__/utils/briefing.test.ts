@@ -0,0 +1,85 @@
+import { getBriefingSettings, prioritizeTasks, DEFAULT_BRIEFING_SETTINGS, DailyBriefing } from '../../utils/briefing';
+import { speakBriefing, ITEM_PAUSE } from '../../utils/speech';
+import { NotionTask } from '../../types';
+
+const NEW_YORK = 'America/New_York';
+// 8am on Friday, March 1 in New York
+const NOW = new Date('2024-03-01T13:00:00Z');
+
+const task = (name: string, overrides: Partial<NotionTask> = {}): NotionTask => ({
+  id: name,
+  name,
+  parsedName: name,
+  priority: 'NORMAL',
+  dueDateTime: null,
+  status: 'TO DO',
+  category: 'PERSONAL',
+  notes: null,
+  ...overrides,
+});
+
+const emptyBriefing: DailyBriefing = { overdue: [], today: [], tomorrow: [], nextDeadline: null, summary: null };
+
+describe('Briefing Utils', () => {
+  describe('getBriefingSettings', () => {
+    it('should fill in defaults for missing and invalid settings', () => {
+      expect(getBriefingSettings(null)).toEqual(DEFAULT_BRIEFING_SETTINGS);
+      expect(getBriefingSettings({ briefing_settings: { tomorrow: false, maxTasksPerSection: 0 } })).toEqual({
+        ...DEFAULT_BRIEFING_SETTINGS,
+        tomorrow: false,
+      });
+      expect(getBriefingSettings({ briefing_settings: { maxTasksPerSection: 50 } }).maxTasksPerSection).toBe(10);
+    });
+  });
+
+  describe('prioritizeTasks', () => {
+    it('should read high priority first and skip done tasks', () => {
+      const tasks = [
+        task('later', { dueDateTime: '2024-03-01T20:00:00.000Z' }),
+        task('done', { status: 'DONE' }),
+        task('urgent', { priority: 'HIGH', dueDateTime: '2024-03-01T22:00:00.000Z' }),
+        task('sooner', { dueDateTime: '2024-03-01T15:00:00.000Z' }),
+      ];
+      expect(prioritizeTasks(tasks, DEFAULT_BRIEFING_SETTINGS).map(t => t.name)).toEqual(['urgent', 'sooner', 'later']);
+      expect(prioritizeTasks(tasks, { ...DEFAULT_BRIEFING_SETTINGS, highPriorityOnly: true }).map(t => t.name))
+        .toEqual(['urgent']);
+    });
+  });
+
+  describe('speakBriefing', () => {
+    it('should read overdue, today and tomorrow in order', () => {
+      const speech = speakBriefing({
+        ...emptyBriefing,
+        overdue: [task('Pay rent', { dueDateTime: '2024-02-28', priority: 'HIGH' })],
+        today: [task('Call mom', { dueDateTime: '2024-03-01T22:00:00.000Z' }), task('Buy milk')],
+        tomorrow: [task('Gym')],
+      }, DEFAULT_BRIEFING_SETTINGS, NEW_YORK, NOW);
+
+      expect(speech).toBe(
+        'Good morning! You have one overdue task: Pay rent, due <say-as interpret-as="date">????0228</say-as>, high priority.' +
+        `${ITEM_PAUSE} Due today: Call mom at 5:00 PM and Buy milk.` +
+        `${ITEM_PAUSE} Tomorrow: Gym.`
+      );
+    });
+
+    it('should count tasks beyond the limit', () => {
+      const speech = speakBriefing({
+        ...emptyBriefing,
+        today: ['a', 'b', 'c', 'd', 'e'].map(name => task(name)),
+      }, { ...DEFAULT_BRIEFING_SETTINGS, maxTasksPerSection: 2 }, NEW_YORK, NOW);
+      expect(speech).toBe(`Good morning! Due today: a,${ITEM_PAUSE} b and 3 more.`);
+    });
+
+    it('should fall back to the next deadline', () => {
+      const speech = speakBriefing({
+        ...emptyBriefing,
+        nextDeadline: task('File taxes', { dueDateTime: '2024-04-15' }),
+        summary: { pendingTasks: 4, completedTasks: 9 },
+      }, DEFAULT_BRIEFING_SETTINGS, NEW_YORK, NOW);
+      expect(speech).toBe(
+        'Good morning! Your next deadline is File taxes, due <say-as interpret-as="date">????0415</say-as>.' +
+        `${ITEM_PAUSE} Overall, you have 4 open tasks and 9 done.`
+      );
+    });
+  });
+});
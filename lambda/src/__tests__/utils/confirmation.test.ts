@@ -0,0 +1,36 @@
+import {
+  buildBulkDeletePrompt,
+  getBulkDeleteThreshold,
+  DEFAULT_BULK_DELETE_THRESHOLD,
+} from '../../utils/confirmation';
+
+describe('Confirmation Utils', () => {
+  describe('buildBulkDeletePrompt', () => {
+    it('should read the count and a sample of task names', () => {
+      const tasks = ['Buy milk', 'Call mom', 'Pay rent', 'Walk dog', 'Water plants'].map(name => ({ name }));
+      expect(buildBulkDeletePrompt('5 completed tasks', tasks))
+        .toBe('This will delete 5 completed tasks: "Buy milk", "Call mom", "Pay rent", and 2 more. Are you sure?');
+    });
+
+    it('should list every name when there are only a few', () => {
+      expect(buildBulkDeletePrompt('2 completed tasks', [{ name: 'Buy milk' }, { name: 'Call mom' }]))
+        .toBe('This will delete 2 completed tasks: "Buy milk" and "Call mom". Are you sure?');
+    });
+
+    it('should escape task names for SSML', () => {
+      expect(buildBulkDeletePrompt('1 completed task', [{ name: 'Salt & pepper' }]))
+        .toBe('This will delete 1 completed task: "Salt &amp; pepper". Are you sure?');
+    });
+  });
+
+  describe('getBulkDeleteThreshold', () => {
+    it('should use the user setting when present', () => {
+      expect(getBulkDeleteThreshold({ bulk_delete_confirm_threshold: 5 })).toBe(5);
+    });
+
+    it('should fall back to the default', () => {
+      expect(getBulkDeleteThreshold({ bulk_delete_confirm_threshold: null })).toBe(DEFAULT_BULK_DELETE_THRESHOLD);
+      expect(getBulkDeleteThreshold(null)).toBe(DEFAULT_BULK_DELETE_THRESHOLD);
+    });
+  });
+});
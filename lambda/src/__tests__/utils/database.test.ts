@@ -10,7 +10,7 @@ jest.mock('@supabase/supabase-js', () => ({
   })),
 }));
 
-import { validateLicense, getUserByAmazonId } from '../../utils/database';
+import { validateLicense, getUserByAmazonId, toSessionUser } from '../../utils/database';
 
 describe('Database Utils', () => {
   beforeEach(() => {
@@ -110,5 +110,16 @@ describe('Database Utils', () => {
       expect(result).toBeNull();
     });
   });
-});
 
+  describe('toSessionUser', () => {
+    it('should leave the Notion token out of the session copy', () => {
+      const user: any = { id: 'user-123', tasks_db_id: 'db-1', notion_token: 'secret_abc' };
+
+      const sessionUser = toSessionUser(user);
+
+      expect(sessionUser).toEqual({ id: 'user-123', tasks_db_id: 'db-1' });
+      expect(JSON.stringify(sessionUser)).not.toContain('secret_abc');
+      expect(user.notion_token).toBe('secret_abc');
+    });
+  });
+});
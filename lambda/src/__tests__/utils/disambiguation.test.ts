@@ -0,0 +1,37 @@
+import { buildDisambiguationPrompt, resolveDisambiguationAnswer } from '../../utils/disambiguation';
+import { NotionTask } from '../../types';
+
+describe('Disambiguation Utils', () => {
+  const candidates = [
+    { id: '1', name: 'Finish quarterly report', priority: 'NORMAL', status: 'TO DO', category: 'WORK' },
+    { id: '2', name: 'Submit expense report', priority: 'NORMAL', status: 'TO DO', category: 'WORK' },
+  ] as NotionTask[];
+
+  it('should ask between the candidates', () => {
+    expect(buildDisambiguationPrompt(candidates))
+      .toBe('Did you mean "Finish quarterly report" or "Submit expense report"?');
+    expect(buildDisambiguationPrompt([...candidates, { name: 'Print report' }]))
+      .toBe('Did you mean "Finish quarterly report", "Submit expense report", or "Print report"?');
+  });
+
+  it('should escape task names for SSML', () => {
+    expect(buildDisambiguationPrompt([{ name: 'Salt & pepper' }, { name: 'Read <draft>' }]))
+      .toBe('Did you mean "Salt &amp; pepper" or "Read &lt;draft&gt;"?');
+  });
+
+  it('should resolve ordinals', () => {
+    expect(resolveDisambiguationAnswer(candidates, null, '2')?.id).toBe('2');
+    expect(resolveDisambiguationAnswer(candidates, 'the first one')?.id).toBe('1');
+    expect(resolveDisambiguationAnswer(candidates, null, '5')).toBeNull();
+  });
+
+  it('should resolve task names', () => {
+    expect(resolveDisambiguationAnswer(candidates, 'the expense one')?.id).toBe('2');
+    expect(resolveDisambiguationAnswer(candidates, 'I meant quarterly report')?.id).toBe('1');
+  });
+
+  it('should not guess when the answer is still ambiguous', () => {
+    expect(resolveDisambiguationAnswer(candidates, 'report')).toBeNull();
+    expect(resolveDisambiguationAnswer(candidates, '')).toBeNull();
+  });
+});
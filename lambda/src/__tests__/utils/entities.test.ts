@@ -0,0 +1,121 @@
+jest.mock('../../utils/notion', () => ({
+  getAllTasks: jest.fn(),
+}));
+
+jest.mock('../../utils/database', () => ({}));
+
+import {
+  buildTaskEntities,
+  addTaskEntities,
+  hasTaskEntities,
+  loadTaskEntities,
+  getTaskEntityIds,
+  findTaskByEntity,
+  MAX_TASK_ENTITIES,
+  TASK_ENTITY_TYPE,
+} from '../../utils/entities';
+import { getAllTasks } from '../../utils/notion';
+
+const makeTask = (id: string, name: string, parsedName: string = name): any => ({
+  id,
+  name,
+  parsedName,
+  priority: 'NORMAL',
+  status: 'TO DO',
+  category: 'PERSONAL',
+  dueDateTime: null,
+  notes: null,
+});
+
+const mockHandlerInput = (): any => {
+  const attributes: Record<string, any> = {};
+  return {
+    attributesManager: {
+      getSessionAttributes: () => attributes,
+      setSessionAttributes: jest.fn(),
+    },
+    responseBuilder: { addDirective: jest.fn() },
+  };
+};
+
+const intentWith = (slotName: string, resolutionsPerAuthority: any[]): any => ({
+  name: 'DeleteTaskIntent',
+  confirmationStatus: 'NONE',
+  slots: {
+    [slotName]: { name: slotName, value: 'call mom', confirmationStatus: 'NONE', resolutions: { resolutionsPerAuthority } },
+  },
+});
+
+const dynamicMatch = (...ids: string[]) => ({
+  authority: 'amzn1.er-authority.echo-sdk.dynamic.amzn1.ask.skill.test.EXISTING_TASK',
+  status: { code: 'ER_SUCCESS_MATCH' },
+  values: ids.map(id => ({ value: { name: 'call mom', id } })),
+});
+
+const staticMatch = {
+  authority: 'amzn1.er-authority.echo-sdk.amzn1.ask.skill.test.EXISTING_TASK',
+  status: { code: 'ER_SUCCESS_MATCH' },
+  values: [{ value: { name: 'call mom', id: 'static-id' } }],
+};
+
+describe('Task Entity Utils', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should key task names by page ID with the parsed name as a synonym', () => {
+    expect(buildTaskEntities([
+      makeTask('page-1', 'Finish the report', 'finish report'),
+      makeTask('page-2', 'Call mom'),
+      makeTask('page-3', '  '),
+    ])).toEqual([
+      { id: 'page-1', name: { value: 'Finish the report', synonyms: ['finish report'] } },
+      { id: 'page-2', name: { value: 'Call mom', synonyms: [] } },
+    ]);
+  });
+
+  it('should send at most the Alexa limit of names', () => {
+    const tasks = Array.from({ length: MAX_TASK_ENTITIES + 20 }, (_, i) => makeTask(`page-${i}`, `task ${i}`));
+    expect(buildTaskEntities(tasks)).toHaveLength(MAX_TASK_ENTITIES);
+  });
+
+  it('should replace the session\'s task names with a directive', () => {
+    const handlerInput = mockHandlerInput();
+
+    addTaskEntities(handlerInput, [makeTask('page-1', 'Call mom')]);
+
+    expect(handlerInput.responseBuilder.addDirective).toHaveBeenCalledWith({
+      type: 'Dialog.UpdateDynamicEntities',
+      updateBehavior: 'REPLACE',
+      types: [{ name: TASK_ENTITY_TYPE, values: [{ id: 'page-1', name: { value: 'Call mom', synonyms: [] } }] }],
+    });
+    expect(hasTaskEntities(handlerInput)).toBe(true);
+  });
+
+  it('should load open tasks once and skip the directive when there are none', async () => {
+    (getAllTasks as jest.Mock).mockResolvedValue([]);
+    const handlerInput = mockHandlerInput();
+
+    await loadTaskEntities(handlerInput, {} as any, { tasks_db_id: 'db-1' } as any);
+
+    expect(getAllTasks).toHaveBeenCalledWith({}, 'db-1', expect.anything());
+    expect(handlerInput.responseBuilder.addDirective).not.toHaveBeenCalled();
+    expect(hasTaskEntities(handlerInput)).toBe(true);
+  });
+
+  it('should only trust IDs resolved through the dynamic task names', () => {
+    expect(getTaskEntityIds(intentWith('task', [staticMatch, dynamicMatch('page-1')]), 'task')).toEqual(['page-1']);
+    expect(getTaskEntityIds(intentWith('task', [staticMatch]), 'task')).toEqual([]);
+    expect(getTaskEntityIds(intentWith('task', [{ ...dynamicMatch(), status: { code: 'ER_SUCCESS_NO_MATCH' } }]), 'task')).toEqual([]);
+  });
+
+  it('should find the one task a slot resolved to', () => {
+    const tasks = [makeTask('page-1', 'Call mom'), makeTask('page-2', 'Call mom')];
+
+    expect(findTaskByEntity(intentWith('task', [dynamicMatch('page-2')]), 'task', tasks)?.id).toBe('page-2');
+    // Tasks sharing a name still need asking which one
+    expect(findTaskByEntity(intentWith('task', [dynamicMatch('page-1', 'page-2')]), 'task', tasks)).toBeNull();
+    // A task deleted since the names were sent
+    expect(findTaskByEntity(intentWith('task', [dynamicMatch('page-9')]), 'task', tasks)).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+  resolveLocale,
+  getLocale,
+  getLanguage,
+  translate,
+  joinList,
+} from '../../utils/i18n';
+import enUS, { Message, MessageKey } from '../../locales/en-US';
+import deDE from '../../locales/de-DE';
+import esES from '../../locales/es-ES';
+import frFR from '../../locales/fr-FR';
+
+// Parameters passed for a message that English doesn't use: only English
+// says "the 1st", the other languages read the plain day number
+const EXTRA_PARAMS: Partial<Record<MessageKey, string[]>> = {
+  'recurrence.monthDay': ['{day}'],
+};
+
+const placeholders = (message: Message): string[] => {
+  const texts = typeof message === 'string' ? [message] : [message.one, message.other];
+  const names = texts.flatMap(text => (text.match(/\{\w+\}/g) || []));
+  return [...new Set(names)].sort();
+};
+
+describe('i18n Utils', () => {
+  describe('resolveLocale', () => {
+    it('should match a supported locale exactly', () => {
+      expect(resolveLocale('de-DE')).toBe('de-DE');
+      expect(resolveLocale('fr-FR')).toBe('fr-FR');
+    });
+
+    it('should fall back to the same language, then English', () => {
+      expect(resolveLocale('en-GB')).toBe('en-US');
+      expect(resolveLocale('es-MX')).toBe('es-ES');
+      expect(resolveLocale('fr-CA')).toBe('fr-FR');
+      expect(resolveLocale('it-IT')).toBe(DEFAULT_LOCALE);
+      expect(resolveLocale(undefined)).toBe(DEFAULT_LOCALE);
+    });
+
+    it('should read the locale of the request', () => {
+      const handlerInput: any = { requestEnvelope: { request: { type: 'LaunchRequest', locale: 'de-AT' } } };
+      expect(getLocale(handlerInput)).toBe('de-DE');
+      expect(getLanguage('es-US')).toBe('es');
+    });
+  });
+
+  describe('translate', () => {
+    it('should fill in placeholders', () => {
+      expect(translate('en-US', 'taskList.gone', { number: 4 })).toBe('Number 4 isn\'t in your tasks any more.');
+      expect(translate('de-DE', 'taskTouch.alreadyDone', { name: 'Milch kaufen' })).toContain('Milch kaufen');
+    });
+
+    it('should pick the plural form by count', () => {
+      expect(translate('en-US', 'speech.taskCount', { count: 1 })).toBe('You have 1 task.');
+      expect(translate('en-US', 'speech.taskCount', { count: 3 })).toBe('You have 3 tasks.');
+      expect(translate('de-DE', 'speech.taskCount', { count: 1 })).toBe('Du hast 1 Aufgabe.');
+      expect(translate('de-DE', 'speech.taskCount', { count: 2 })).toBe('Du hast 2 Aufgaben.');
+    });
+
+    it('should use English for unsupported locales', () => {
+      expect(translate('it-IT', 'common.whatToDo')).toBe('What would you like to do?');
+    });
+  });
+
+  describe('joinList', () => {
+    it('should join items in the locale\'s words', () => {
+      expect(joinList(['a'], 'en-US')).toBe('a');
+      expect(joinList(['a', 'b', 'c'], 'en-US')).toBe('a, b and c');
+      expect(joinList(['a', 'b'], 'de-DE')).toBe('a und b');
+      expect(joinList(['a', 'b'], 'es-ES')).toBe('a y b');
+      expect(joinList(['a', 'b'], 'fr-FR')).toBe('a et b');
+    });
+  });
+
+  describe('catalogs', () => {
+    const catalogs = { 'de-DE': deDE, 'es-ES': esES, 'fr-FR': frFR };
+
+    it('should cover every supported locale', () => {
+      expect([...SUPPORTED_LOCALES].sort()).toEqual(['de-DE', 'en-US', 'es-ES', 'fr-FR']);
+    });
+
+    it.each(Object.entries(catalogs))('%s should only use placeholders the code fills in', (_, catalog) => {
+      for (const key of Object.keys(enUS) as MessageKey[]) {
+        const known = [...placeholders(enUS[key]), ...(EXTRA_PARAMS[key] || [])];
+        const unknown = placeholders(catalog[key]).filter(name => !known.includes(name));
+        expect([key, unknown]).toEqual([key, []]);
+      }
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import {
+  cacheIntrospection,
+  clearIntrospectionCache,
+  getCachedIntrospection,
+  getIntrospectionCacheTtlMs,
+} from '../../utils/introspectionCache';
+
+const NOW = 1_700_000_000_000;
+const active = { active: true, user_id: 'user-1', exp: NOW / 1000 + 3600 };
+
+describe('Introspection Cache Utils', () => {
+  beforeEach(() => {
+    clearIntrospectionCache();
+    delete process.env.INTROSPECT_CACHE_SECONDS;
+  });
+
+  it('should reuse an answer for the TTL only', () => {
+    cacheIntrospection('token-1', active, NOW);
+
+    expect(getCachedIntrospection('token-1', NOW + 59_000)).toEqual(active);
+    expect(getCachedIntrospection('token-2', NOW)).toBeNull();
+    expect(getCachedIntrospection('token-1', NOW + 60_000)).toBeNull();
+  });
+
+  it('should not keep an answer past the token expiry', () => {
+    cacheIntrospection('token-1', { ...active, exp: NOW / 1000 + 10 }, NOW);
+
+    expect(getCachedIntrospection('token-1', NOW + 9_000)).not.toBeNull();
+    expect(getCachedIntrospection('token-1', NOW + 10_000)).toBeNull();
+  });
+
+  it('should honour INTROSPECT_CACHE_SECONDS, with 0 turning the cache off', () => {
+    process.env.INTROSPECT_CACHE_SECONDS = '5';
+    expect(getIntrospectionCacheTtlMs()).toBe(5000);
+
+    process.env.INTROSPECT_CACHE_SECONDS = '0';
+    cacheIntrospection('token-1', active, NOW);
+    expect(getCachedIntrospection('token-1', NOW)).toBeNull();
+  });
+
+  it('should drop the oldest answers beyond its size limit', () => {
+    for (let i = 0; i <= 500; i++) {
+      cacheIntrospection(`token-${i}`, active, NOW);
+    }
+
+    expect(getCachedIntrospection('token-0', NOW)).toBeNull();
+    expect(getCachedIntrospection('token-500', NOW)).toEqual(active);
+  });
+});
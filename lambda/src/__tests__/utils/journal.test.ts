@@ -0,0 +1,118 @@
+jest.mock('../../utils/database', () => ({
+  recordJournalEntry: jest.fn(),
+  getLastUndoableEntry: jest.fn(),
+  markJournalEntryUndone: jest.fn(),
+}));
+
+jest.mock('../../utils/notion', () => ({
+  restoreTaskProperties: jest.fn(),
+  archiveTask: jest.fn(),
+  unarchiveTask: jest.fn(),
+}));
+
+import { snapshotTask, journalAction, undoLastAction } from '../../utils/journal';
+import { recordJournalEntry, getLastUndoableEntry, markJournalEntryUndone } from '../../utils/database';
+import { restoreTaskProperties, archiveTask, unarchiveTask } from '../../utils/notion';
+import { DEFAULT_PROPERTY_MAPPING } from '../../utils/schema';
+import { NotionTask } from '../../types';
+
+describe('Journal Utils', () => {
+  const task: NotionTask = {
+    id: 'page-1',
+    name: 'Take out the trash',
+    parsedName: 'take out the trash',
+    priority: 'NORMAL',
+    dueDateTime: '2024-01-02',
+    status: 'TO DO',
+    category: 'PERSONAL',
+    notes: null,
+    recurrence: 'FREQ=WEEKLY;BYDAY=TU',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('snapshotTask', () => {
+    it('should capture only the fields being changed', () => {
+      expect(snapshotTask(task, { priority: 'HIGH' })).toEqual({ priority: 'NORMAL' });
+      expect(snapshotTask(task, { dueDateTime: null })).toEqual({ dueDateTime: '2024-01-02' });
+    });
+
+    it('should keep the recurrence rule when the status changes', () => {
+      expect(snapshotTask(task, { status: 'DONE' })).toEqual({
+        status: 'TO DO',
+        recurrence: 'FREQ=WEEKLY;BYDAY=TU',
+      });
+    });
+  });
+
+  describe('journalAction', () => {
+    it('should not throw when the journal write fails', async () => {
+      (recordJournalEntry as jest.Mock).mockRejectedValue(new Error('offline'));
+
+      await expect(
+        journalAction('user-1', 'add', 'adding "milk"', [{ type: 'archive', pageId: 'page-2' }])
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('undoLastAction', () => {
+    it('should apply inverse operations in reverse order and mark the entry undone', async () => {
+      (getLastUndoableEntry as jest.Mock).mockResolvedValue({
+        id: 'entry-1',
+        user_id: 'user-1',
+        action: 'update',
+        description: 'the change to "Take out the trash"',
+        inverse: [
+          { type: 'restore', pageId: 'page-1', properties: { status: 'TO DO' } },
+          { type: 'archive', pageId: 'page-2' },
+        ],
+        undone_at: null,
+        created_at: new Date().toISOString(),
+      });
+
+      const calls: string[] = [];
+      (archiveTask as jest.Mock).mockImplementation(async () => { calls.push('archive'); });
+      (restoreTaskProperties as jest.Mock).mockImplementation(async () => { calls.push('restore'); });
+
+      const entry = await undoLastAction({} as any, 'user-1', 10);
+
+      expect(entry?.id).toBe('entry-1');
+      expect(calls).toEqual(['archive', 'restore']);
+      expect(restoreTaskProperties).toHaveBeenCalledWith({}, 'page-1', { status: 'TO DO' }, DEFAULT_PROPERTY_MAPPING);
+      expect(markJournalEntryUndone).toHaveBeenCalledWith('entry-1');
+    });
+
+    it('should bring back deleted tasks by unarchiving them', async () => {
+      (getLastUndoableEntry as jest.Mock).mockResolvedValue({
+        id: 'entry-2',
+        user_id: 'user-1',
+        action: 'delete',
+        description: 'deleting "Take out the trash"',
+        inverse: [{ type: 'unarchive', pageId: 'page-1' }],
+        undone_at: null,
+        created_at: new Date().toISOString(),
+      });
+
+      await undoLastAction({} as any, 'user-1', 10);
+
+      expect(unarchiveTask).toHaveBeenCalledWith({}, 'page-1');
+      expect(restoreTaskProperties).not.toHaveBeenCalled();
+      expect(markJournalEntryUndone).toHaveBeenCalledWith('entry-2');
+    });
+
+    it('should only look back over the undo window', async () => {
+      (getLastUndoableEntry as jest.Mock).mockResolvedValue(null);
+
+      const before = Date.now();
+      const entry = await undoLastAction({} as any, 'user-1', 5);
+
+      expect(entry).toBeNull();
+      const since = (getLastUndoableEntry as jest.Mock).mock.calls[0][1] as Date;
+      expect(before - since.getTime()).toBeGreaterThanOrEqual(5 * 60 * 1000);
+      expect(before - since.getTime()).toBeLessThan(6 * 60 * 1000);
+      expect(markJournalEntryUndone).not.toHaveBeenCalled();
+    });
+  });
+});
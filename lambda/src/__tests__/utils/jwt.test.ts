@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { verifyAccessToken, setJwks, clearJwksCache } from '../../utils/jwt';
+
+// The fixtures are a test-only key pair per algorithm: jwks.json is what the
+// web login would publish, signing-keys.json holds the private halves
+const JWKS_PATH = path.join(__dirname, '../fixtures/jwks.json');
+const readFixture = (name: string) => JSON.parse(fs.readFileSync(path.join(__dirname, '../fixtures', name), 'utf-8'));
+const jwks = readFixture('jwks.json');
+const signingKeys = readFixture('signing-keys.json');
+const ISSUER = 'https://voice-planner-murex.vercel.app';
+
+const b64url = (value: Buffer | string): string => Buffer.from(value).toString('base64url');
+
+function sign(kid: string, claims: Record<string, any> = {}, headerOverrides: Record<string, any> = {}): string {
+  const jwk = signingKeys.keys.find((key: any) => key.kid === kid);
+  const now = Math.floor(Date.now() / 1000);
+  const header = b64url(JSON.stringify({ alg: jwk.alg, typ: 'JWT', kid, ...headerOverrides }));
+  const payload = b64url(JSON.stringify({
+    iss: ISSUER,
+    sub: 'user-123',
+    email: 'test@example.com',
+    scope: 'alexa',
+    iat: now,
+    exp: now + 3600,
+    ...claims,
+  }));
+  const signature = crypto.sign(
+    'sha256',
+    Buffer.from(`${header}.${payload}`),
+    { key: crypto.createPrivateKey({ key: jwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' }
+  );
+  return `${header}.${payload}.${b64url(signature)}`;
+}
+
+describe('JWT Utils', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.JWKS_PATH = JWKS_PATH;
+    clearJwksCache();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+  });
+
+  it.each(['test-es256', 'test-rs256'])('should verify a token signed with %s', async (kid) => {
+    const payload = await verifyAccessToken(sign(kid, { notion_db_id: 'db-1' }));
+
+    expect(payload).toMatchObject({ sub: 'user-123', scope: 'alexa', notion_db_id: 'db-1' });
+  });
+
+  it('should reject a tampered payload', async () => {
+    const [header, , signature] = sign('test-es256').split('.');
+    const forged = b64url(JSON.stringify({ iss: ISSUER, sub: 'someone-else', exp: Math.floor(Date.now() / 1000) + 3600 }));
+
+    expect(await verifyAccessToken(`${header}.${forged}.${signature}`)).toBeNull();
+  });
+
+  it('should reject expired tokens and other issuers', async () => {
+    expect(await verifyAccessToken(sign('test-es256', { exp: Math.floor(Date.now() / 1000) - 60 }))).toBeNull();
+    expect(await verifyAccessToken(sign('test-es256', { iss: 'https://evil.example.com' }))).toBeNull();
+  });
+
+  it('should reject symmetric and unsigned tokens', async () => {
+    const [, payload] = sign('test-es256').split('.');
+    const hs256Header = b64url(JSON.stringify({ alg: 'HS256', typ: 'JWT', kid: 'test-es256' }));
+    const hs256Signature = crypto.createHmac('sha256', 'secret').update(`${hs256Header}.${payload}`).digest();
+    const noneHeader = b64url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+
+    expect(await verifyAccessToken(`${hs256Header}.${payload}.${b64url(hs256Signature)}`)).toBeNull();
+    expect(await verifyAccessToken(`${noneHeader}.${payload}.`)).toBeNull();
+  });
+
+  it('should reject a token whose alg does not match its key', async () => {
+    const token = sign('test-rs256', {}, { kid: 'test-es256', alg: 'RS256' });
+
+    expect(await verifyAccessToken(token)).toBeNull();
+  });
+
+  it('should reject opaque tokens without loading keys', async () => {
+    delete process.env.JWKS_PATH;
+    const fetchSpy = jest.spyOn(global, 'fetch');
+
+    expect(await verifyAccessToken('opaque-token-value')).toBeNull();
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('should refetch the JWKS for an unknown kid, but not on every request', async () => {
+    delete process.env.JWKS_PATH;
+    const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify(jwks)));
+
+    // The cache only knows the old key, as after a rotation on the web login
+    setJwks({ keys: jwks.keys.filter((key: any) => key.kid === 'test-rs256') });
+
+    expect(await verifyAccessToken(sign('test-es256'))).not.toBeNull();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(fetchSpy.mock.calls[0][0]).toBe(`${ISSUER}/.well-known/jwks.json`);
+
+    expect(await verifyAccessToken(sign('test-es256', {}, { kid: 'retired-key' }))).toBeNull();
+    expect(await verifyAccessToken(sign('test-rs256'))).not.toBeNull();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the cached keys when the JWKS cannot be loaded', async () => {
+    process.env.JWKS_PATH = path.join(__dirname, '../fixtures/missing.json');
+    setJwks(jwks);
+
+    expect(await verifyAccessToken(sign('test-es256', {}, { kid: 'unknown' }))).toBeNull();
+    expect(await verifyAccessToken(sign('test-rs256'))).not.toBeNull();
+  });
+});
@@ -1,8 +1,125 @@
+import {
+  mapPageToTask,
+  getStepProgress,
+  queryDatabase,
+  queryTaskPage,
+  getTaskCount,
+  getCompletedTasksForDeletion,
+  deleteTasksBatch,
+} from '../../utils/notion';
+
 // Tests for removed functions have been deleted
 // These functions (mapEnergyLevel, getTimeOfDay) are no longer part of the codebase
 describe('Notion Utils', () => {
   it('placeholder test', () => {
     expect(true).toBe(true);
   });
-});
 
+  describe('mapPageToTask', () => {
+    const page = {
+      id: 'page-1',
+      properties: {
+        'Task Name': { title: [{ plain_text: 'Pack for trip' }] },
+        Status: { select: { name: 'DONE' } },
+      },
+    };
+
+    it('should report step progress when steps are given', () => {
+      const task = mapPageToTask(page, undefined, [
+        { id: 'b1', text: 'passport', checked: true },
+        { id: 'b2', text: 'charger', checked: true },
+        { id: 'b3', text: 'tickets', checked: false },
+      ]);
+      expect(task.name).toBe('Pack for trip');
+      expect(task.status).toBe('DONE');
+      expect(task.stepProgress).toEqual({ done: 2, total: 3 });
+    });
+
+    it('should leave step progress out for tasks without steps', () => {
+      expect(mapPageToTask(page).stepProgress).toBeUndefined();
+      expect(getStepProgress([])).toBeUndefined();
+    });
+  });
+
+  describe('paginated queries', () => {
+    const pageOf = (ids: string[], nextCursor: string | null) => ({
+      results: ids.map(id => ({ id, properties: { 'Task Name': { title: [{ plain_text: id }] } } })),
+      has_more: !!nextCursor,
+      next_cursor: nextCursor,
+    });
+
+    const mockClient = (pages: any[]) => {
+      const query = jest.fn();
+      pages.forEach(page => query.mockResolvedValueOnce(page));
+      return { client: { databases: { query } } as any, query };
+    };
+
+    it('should follow next_cursor until every result is read', async () => {
+      const { client, query } = mockClient([
+        pageOf(['a', 'b'], 'cursor-1'),
+        pageOf(['c'], null),
+      ]);
+
+      const { results, nextCursor } = await queryDatabase(client, 'db-1', { filter: {} });
+
+      expect(results.map(result => result.id)).toEqual(['a', 'b', 'c']);
+      expect(nextCursor).toBeNull();
+      expect(query).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        database_id: 'db-1',
+        filter: undefined,
+        start_cursor: 'cursor-1',
+      }));
+    });
+
+    it('should stop at the limit and return the cursor for the rest', async () => {
+      const { client, query } = mockClient([pageOf(['a', 'b'], 'cursor-1')]);
+
+      const page = await queryTaskPage(client, 'db-1', {
+        sorts: [{ property: 'Due Date Time', direction: 'ascending' }],
+        limit: 2,
+      });
+
+      expect(page.results.map(task => task.name)).toEqual(['a', 'b']);
+      expect(page.nextCursor).toBe('cursor-1');
+      expect(query).toHaveBeenCalledTimes(1);
+      expect(query).toHaveBeenCalledWith(expect.objectContaining({ page_size: 2 }));
+    });
+
+    it('should count tasks past the first page', async () => {
+      const { client } = mockClient([
+        pageOf(Array.from({ length: 100 }, (_, i) => `task-${i}`), 'cursor-1'),
+        pageOf(['task-100', 'task-101'], null),
+      ]);
+
+      await expect(getTaskCount(client, 'db-1')).resolves.toBe(102);
+    });
+  });
+
+  describe('bulk delete', () => {
+    it('should only collect a bounded number of completed tasks', async () => {
+      const query = jest.fn().mockResolvedValue({ results: [], has_more: false, next_cursor: null });
+
+      await getCompletedTasksForDeletion({ databases: { query } } as any, 'db-1');
+
+      expect(query).toHaveBeenCalledWith(expect.objectContaining({ database_id: 'db-1', page_size: 15 }));
+    });
+
+    it('should archive the pages a few at a time', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const update = jest.fn(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        inFlight--;
+      });
+      const taskIds = Array.from({ length: 7 }, (_, i) => `page-${i}`);
+
+      await deleteTasksBatch({ pages: { update } } as any, 'db-1', taskIds);
+
+      expect(update).toHaveBeenCalledTimes(7);
+      expect(update).toHaveBeenCalledWith({ page_id: 'page-6', archived: true });
+      expect(maxInFlight).toBe(3);
+    });
+  });
+});
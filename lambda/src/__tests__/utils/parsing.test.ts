@@ -0,0 +1,98 @@
+import {
+  isStepRequest,
+  parseChecklist,
+  parseStepRequest,
+  parseStepsQuery,
+  parseTaskFromUserRequest,
+} from '../../utils/parsing';
+import { formatDueTime } from '../../utils/timezone';
+
+describe('Parsing Utils', () => {
+  describe('parseChecklist', () => {
+    it('should split a task from its steps', () => {
+      expect(parseChecklist('pack for trip: passport, charger, tickets')).toEqual({
+        text: 'pack for trip',
+        steps: ['passport', 'charger', 'tickets'],
+      });
+      expect(parseChecklist('pack for trip with steps passport, charger and tickets')).toEqual({
+        text: 'pack for trip',
+        steps: ['passport', 'charger', 'tickets'],
+      });
+    });
+
+    it('should ignore times and ordinary phrases', () => {
+      expect(parseChecklist('call bob at 5:30')).toBeNull();
+      expect(parseChecklist('meet with john and sarah')).toBeNull();
+      expect(parseChecklist('buy milk')).toBeNull();
+    });
+  });
+
+  describe('parseStepRequest', () => {
+    it('should offer every step / task split', () => {
+      expect(parseStepRequest('step talk to bob to prepare meeting')).toEqual([
+        { step: 'talk', taskName: 'bob to prepare meeting' },
+        { step: 'talk to bob', taskName: 'prepare meeting' },
+      ]);
+      expect(parseStepRequest('charger to the task pack for trip')).toEqual([
+        { step: 'charger', taskName: 'pack for trip' },
+        { step: 'charger to the task pack', taskName: 'trip' },
+      ]);
+    });
+  });
+
+  describe('parseStepsQuery', () => {
+    it('should detect step queries', () => {
+      expect(parseStepsQuery('remaining steps for pack for trip')).toBe('pack for trip');
+      expect(parseStepsQuery('steps left on the trip')).toBe('trip');
+      expect(parseStepsQuery('checklist for pack for trip')).toBe('pack for trip');
+    });
+
+    it('should ignore ordinary queries', () => {
+      expect(parseStepsQuery('tasks for today')).toBeNull();
+    });
+  });
+
+  describe('parseTaskFromUserRequest', () => {
+    it('should keep steps out of the task name', () => {
+      const parsed = parseTaskFromUserRequest('pack for trip: passport, charger, work laptop');
+      expect(parsed.parsedName).toBe('pack for trip');
+      expect(parsed.steps).toEqual(['passport', 'charger', 'work laptop']);
+      expect(parsed.category).toBe('PERSONAL');
+    });
+  });
+
+  describe('other languages', () => {
+    it('should read German dates, times and priorities', () => {
+      const parsed = parseTaskFromUserRequest('Zahnarzt anrufen morgen um 17 Uhr', 'Europe/Berlin', 'de-DE');
+      expect(parsed.parsedName).toBe('Zahnarzt anrufen');
+      expect(formatDueTime(parsed.dueDateTime!, 'Europe/Berlin', 'de-DE')).toBe('17:00');
+      expect(parseTaskFromUserRequest('Steuererklärung abgeben dringend', undefined, 'de-DE').priority).toBe('HIGH');
+    });
+
+    it('should read Spanish and French priorities', () => {
+      expect(parseTaskFromUserRequest('llamar al dentista urgente', undefined, 'es-ES').priority).toBe('HIGH');
+      expect(parseTaskFromUserRequest('appeler le dentiste priorité haute', undefined, 'fr-FR').priority).toBe('HIGH');
+      expect(parseTaskFromUserRequest('appeler le dentiste', undefined, 'fr-FR').priority).toBe('NORMAL');
+    });
+
+    it('should split checklists', () => {
+      expect(parseChecklist('Koffer packen mit Schritten Pass, Ladegerät und Tickets', 'de-DE')).toEqual({
+        text: 'Koffer packen',
+        steps: ['Pass', 'Ladegerät', 'Tickets'],
+      });
+      expect(parseChecklist('préparer le voyage avec les étapes passeport, chargeur et billets', 'fr-FR')).toEqual({
+        text: 'préparer le voyage',
+        steps: ['passeport', 'chargeur', 'billets'],
+      });
+    });
+
+    it('should read step requests and queries', () => {
+      expect(isStepRequest('Schritt Ladegerät zu Reise packen hinzu', 'de-DE')).toBe(true);
+      expect(isStepRequest('Ladegerät kaufen', 'de-DE')).toBe(false);
+      expect(parseStepRequest('Schritt Ladegerät zu Reise packen hinzu', 'de-DE')).toEqual([
+        { step: 'Ladegerät', taskName: 'Reise packen' },
+      ]);
+      expect(parseStepsQuery('pasos de hacer la maleta', 'es-ES')).toBe('hacer la maleta');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+jest.mock('../../utils/database', () => ({
+  updateUserOverdueNotifiedAt: jest.fn(),
+}));
+
+jest.mock('../../utils/notion', () => ({
+  createNotionClient: jest.fn(() => ({})),
+  findDatabaseByName: jest.fn(),
+  getOverdueTasks: jest.fn(),
+}));
+
+import {
+  buildOverdueTasksEvent,
+  getNotificationSettings,
+  isQuietHour,
+  notifyOverdueTasks,
+  stubProactiveEvents,
+  DEFAULT_NOTIFICATION_SETTINGS,
+} from '../../utils/proactive';
+import { updateUserOverdueNotifiedAt } from '../../utils/database';
+import { getOverdueTasks } from '../../utils/notion';
+import { User } from '../../types';
+
+const NEW_YORK = 'America/New_York';
+
+// 10:00 AM in New York
+const MORNING = new Date('2024-03-05T15:00:00.000Z');
+
+const makeUser = (overrides: Partial<User> = {}): User => ({
+  id: 'user-1',
+  amazon_account_id: 'amzn1.ask.account.test',
+  email: 'test@example.com',
+  license_key: 'license',
+  notion_token: 'notion-token',
+  notion_setup_complete: true,
+  privacy_page_id: null,
+  tasks_db_id: 'db-1',
+  time_zone: NEW_YORK,
+  notification_settings: { overdueTasks: true, quietHoursStart: 21, quietHoursEnd: 8 },
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const overdueTask = (id: string): any => ({ id, name: id, status: 'TO DO', priority: 'NORMAL' });
+
+describe('Proactive Events Utils', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stubProactiveEvents.length = 0;
+    process.env.PROACTIVE_EVENTS_STUB = 'true';
+  });
+
+  afterEach(() => {
+    delete process.env.PROACTIVE_EVENTS_STUB;
+  });
+
+  it('should fill in defaults for missing or invalid settings', () => {
+    expect(getNotificationSettings(null)).toEqual(DEFAULT_NOTIFICATION_SETTINGS);
+    expect(getNotificationSettings({ notification_settings: { overdueTasks: true, quietHoursStart: 25 } }))
+      .toEqual({ overdueTasks: true, quietHoursStart: 21, quietHoursEnd: 8 });
+  });
+
+  it('should check quiet hours in the user\'s time zone', () => {
+    const settings = { overdueTasks: true, quietHoursStart: 21, quietHoursEnd: 8 };
+    expect(isQuietHour(settings, NEW_YORK, MORNING)).toBe(false);
+    // 11 PM and 7 AM in New York
+    expect(isQuietHour(settings, NEW_YORK, new Date('2024-03-06T04:00:00.000Z'))).toBe(true);
+    expect(isQuietHour(settings, NEW_YORK, new Date('2024-03-05T12:00:00.000Z'))).toBe(true);
+    // Same instant, but 3 PM in UTC
+    expect(isQuietHour(settings, 'UTC', MORNING)).toBe(false);
+  });
+
+  it('should handle quiet hours within a day and no quiet hours', () => {
+    expect(isQuietHour({ overdueTasks: true, quietHoursStart: 9, quietHoursEnd: 17 }, NEW_YORK, MORNING)).toBe(true);
+    expect(isQuietHour({ overdueTasks: true, quietHoursStart: 8, quietHoursEnd: 8 }, NEW_YORK, MORNING)).toBe(false);
+  });
+
+  it('should build a message alert for one user', () => {
+    const event = buildOverdueTasksEvent('amzn1.ask.account.test', 3, 'ref-1', MORNING);
+
+    expect(event.event.payload.messageGroup.count).toBe(3);
+    expect(event.relevantAudience).toEqual({ type: 'Unicast', payload: { user: 'amzn1.ask.account.test' } });
+    expect(event.timestamp).toBe(MORNING.toISOString());
+    expect(new Date(event.expiryTime).getTime()).toBeGreaterThan(MORNING.getTime());
+    expect(event.localizedAttributes.map(attributes => attributes.locale)).toEqual(['en-US', 'de-DE', 'es-ES', 'fr-FR']);
+  });
+
+  it('should send the number of overdue tasks and record the time', async () => {
+    (getOverdueTasks as jest.Mock).mockResolvedValue([overdueTask('a'), overdueTask('b')]);
+
+    const result = await notifyOverdueTasks(makeUser(), MORNING);
+
+    expect(result).toBe('sent');
+    expect(getOverdueTasks).toHaveBeenCalledWith(expect.anything(), 'db-1', expect.anything(), NEW_YORK);
+    expect(stubProactiveEvents).toHaveLength(1);
+    expect(stubProactiveEvents[0].event.payload.messageGroup.count).toBe(2);
+    expect(stubProactiveEvents[0].referenceId).toBe('overdue-user-1-2024-03-05');
+    expect(updateUserOverdueNotifiedAt).toHaveBeenCalledWith('user-1', MORNING);
+  });
+
+  it('should skip users who haven\'t opted in', async () => {
+    const result = await notifyOverdueTasks(makeUser({ notification_settings: null }), MORNING);
+
+    expect(result).toBe('opted_out');
+    expect(getOverdueTasks).not.toHaveBeenCalled();
+  });
+
+  it('should skip users in their quiet hours', async () => {
+    const result = await notifyOverdueTasks(makeUser(), new Date('2024-03-06T04:00:00.000Z'));
+
+    expect(result).toBe('quiet_hours');
+    expect(getOverdueTasks).not.toHaveBeenCalled();
+  });
+
+  it('should notify at most once per local day', async () => {
+    (getOverdueTasks as jest.Mock).mockResolvedValue([overdueTask('a')]);
+
+    // 8 AM the same day in New York
+    const sameDay = await notifyOverdueTasks(makeUser({ overdue_notified_at: '2024-03-05T13:00:00.000Z' }), MORNING);
+    // 8 PM the day before in New York, already March 5 in UTC
+    const dayBefore = await notifyOverdueTasks(makeUser({ overdue_notified_at: '2024-03-05T01:00:00.000Z' }), MORNING);
+
+    expect(sameDay).toBe('already_notified');
+    expect(dayBefore).toBe('sent');
+  });
+
+  it('should not send anything when nothing is overdue', async () => {
+    (getOverdueTasks as jest.Mock).mockResolvedValue([]);
+
+    const result = await notifyOverdueTasks(makeUser(), MORNING);
+
+    expect(result).toBe('nothing_overdue');
+    expect(stubProactiveEvents).toHaveLength(0);
+    expect(updateUserOverdueNotifiedAt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+import { Client } from '@notionhq/client';
+import {
+  reserveRequest,
+  pauseRequests,
+  getRetryAfter,
+  getRetryDelay,
+  isRetryableError,
+} from '../../utils/rateLimit';
+import { createNotionClient } from '../../utils/notion';
+
+const NOW = 1_700_000_000_000;
+
+describe('Rate Limit Utils', () => {
+  describe('reserveRequest', () => {
+    it('should allow a burst, then space requests out', () => {
+      expect(reserveRequest('token-burst', NOW)).toBe(0);
+      expect(reserveRequest('token-burst', NOW)).toBe(0);
+      expect(reserveRequest('token-burst', NOW)).toBe(0);
+      expect(reserveRequest('token-burst', NOW)).toBe(334);
+      expect(reserveRequest('token-burst', NOW)).toBe(667);
+    });
+
+    it('should refill over time', () => {
+      for (let i = 0; i < 3; i++) reserveRequest('token-refill', NOW);
+      expect(reserveRequest('token-refill', NOW + 1000)).toBe(0);
+    });
+
+    it('should keep tokens apart', () => {
+      for (let i = 0; i < 3; i++) reserveRequest('token-a', NOW);
+      expect(reserveRequest('token-b', NOW)).toBe(0);
+    });
+
+    it('should hold requests back while paused', () => {
+      pauseRequests('token-paused', 2000, NOW);
+      expect(reserveRequest('token-paused', NOW)).toBeGreaterThanOrEqual(2000);
+    });
+  });
+
+  describe('retries', () => {
+    it('should read Retry-After in seconds or as a date', () => {
+      expect(getRetryAfter({ headers: { 'retry-after': '2' } }, NOW)).toBe(2000);
+      expect(getRetryAfter({ headers: new Map([['retry-after', new Date(NOW + 5000).toUTCString()]]) }, NOW))
+        .toBe(5000);
+      expect(getRetryAfter({ headers: {} }, NOW)).toBeNull();
+      expect(getRetryAfter(new Error('network'), NOW)).toBeNull();
+    });
+
+    it('should back off exponentially with jitter', () => {
+      const error = { status: 503 };
+      expect(getRetryDelay(error, 0, () => 0)).toBe(250);
+      expect(getRetryDelay(error, 0, () => 1)).toBe(500);
+      expect(getRetryDelay(error, 2, () => 0.5)).toBe(1500);
+      expect(getRetryDelay(error, 10, () => 1)).toBe(8000);
+    });
+
+    it('should prefer Retry-After over backoff', () => {
+      expect(getRetryDelay({ status: 429, headers: { 'retry-after': '1' } }, 3)).toBe(1000);
+    });
+
+    it('should retry rate limits and server errors only', () => {
+      expect(isRetryableError({ status: 429 })).toBe(true);
+      expect(isRetryableError({ status: 502 })).toBe(true);
+      expect(isRetryableError({ status: 400 })).toBe(false);
+      expect(isRetryableError(new Error('network'))).toBe(false);
+    });
+  });
+
+  describe('createNotionClient', () => {
+    let request: jest.SpyInstance;
+
+    beforeEach(() => {
+      request = jest.spyOn(Client.prototype, 'request');
+    });
+
+    afterEach(() => {
+      request.mockRestore();
+    });
+
+    it('should share identical reads in flight', async () => {
+      request.mockResolvedValue({ id: 'page-1' });
+      const client = createNotionClient('token-coalesce');
+
+      const [first, second] = await Promise.all([
+        client.pages.retrieve({ page_id: 'page-1' }),
+        client.pages.retrieve({ page_id: 'page-1' }),
+      ]);
+
+      expect(first).toBe(second);
+      expect(request).toHaveBeenCalledTimes(1);
+
+      await client.pages.retrieve({ page_id: 'page-1' });
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not share writes', async () => {
+      request.mockResolvedValue({ id: 'page-1' });
+      const client = createNotionClient('token-writes');
+
+      await Promise.all([
+        client.pages.update({ page_id: 'page-1', archived: true }),
+        client.pages.update({ page_id: 'page-1', archived: true }),
+      ]);
+
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should pause the token when Notion rate limits it', async () => {
+      request.mockRejectedValue({ status: 429, headers: { 'retry-after': '4' } });
+      const client = createNotionClient('token-limited');
+
+      await expect(client.pages.retrieve({ page_id: 'page-1' })).rejects.toMatchObject({ status: 429 });
+      expect(reserveRequest('token-limited')).toBeGreaterThanOrEqual(3900);
+    });
+
+    it('should keep the token out of session attributes', () => {
+      const client = createNotionClient('secret_token');
+      expect(JSON.stringify(client)).not.toContain('secret_token');
+    });
+  });
+});
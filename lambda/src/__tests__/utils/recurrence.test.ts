@@ -0,0 +1,109 @@
+import {
+  parseRecurrence,
+  parseRecurrenceRule,
+  getNextOccurrence,
+  getFirstOccurrence,
+  describeRecurrence,
+} from '../../utils/recurrence';
+import { parseTaskFromUserRequest } from '../../utils/parsing';
+
+describe('Recurrence Utils', () => {
+  describe('parseRecurrence', () => {
+    it('should parse weekday phrases', () => {
+      expect(parseRecurrence('take out the trash every Tuesday')?.rule).toBe('FREQ=WEEKLY;BYDAY=TU');
+      expect(parseRecurrence('gym every monday and thursday')?.rule).toBe('FREQ=WEEKLY;BYDAY=MO,TH');
+      expect(parseRecurrence('team sync every other friday')?.rule).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=FR');
+      expect(parseRecurrence('stand up every weekday')?.rule).toBe('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+    });
+
+    it('should parse interval phrases', () => {
+      expect(parseRecurrence('water plants every day')?.rule).toBe('FREQ=DAILY');
+      expect(parseRecurrence('water plants every other day')?.rule).toBe('FREQ=DAILY;INTERVAL=2');
+      expect(parseRecurrence('change filter every 3 months')?.rule).toBe('FREQ=MONTHLY;INTERVAL=3');
+      expect(parseRecurrence('call mom weekly')?.rule).toBe('FREQ=WEEKLY');
+    });
+
+    it('should parse day of month phrases', () => {
+      expect(parseRecurrence('pay rent on the 1st of every month')?.rule).toBe('FREQ=MONTHLY;BYMONTHDAY=1');
+      expect(parseRecurrence('invoice every month on the 15th')?.rule).toBe('FREQ=MONTHLY;BYMONTHDAY=15');
+    });
+
+    it('should ignore text without recurrence', () => {
+      expect(parseRecurrence('finish the report tomorrow')).toBeNull();
+      expect(parseRecurrence('write weekly report')).toBeNull();
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    const notBefore = new Date(2024, 0, 1);
+
+    it('should advance weekly rules to the next listed weekday', () => {
+      // Tuesday Jan 2 2024 -> Tuesday Jan 9 2024
+      const next = getNextOccurrence('FREQ=WEEKLY;BYDAY=TU', new Date(2024, 0, 2, 9, 30), notBefore);
+      expect(next).toEqual(new Date(2024, 0, 9, 9, 30));
+    });
+
+    it('should pick the next day in a multi-day rule', () => {
+      // Monday Jan 1 2024 -> Thursday Jan 4 2024
+      const next = getNextOccurrence('FREQ=WEEKLY;BYDAY=MO,TH', new Date(2024, 0, 1), notBefore);
+      expect(next).toEqual(new Date(2024, 0, 4));
+    });
+
+    it('should clamp monthly rules to the end of short months', () => {
+      const next = getNextOccurrence('FREQ=MONTHLY;BYMONTHDAY=31', new Date(2024, 0, 31), notBefore);
+      expect(next).toEqual(new Date(2024, 1, 29));
+    });
+
+    it('should skip occurrences that are already in the past', () => {
+      const next = getNextOccurrence('FREQ=DAILY', new Date(2024, 0, 1), new Date(2024, 0, 10, 15));
+      expect(next).toEqual(new Date(2024, 0, 10));
+    });
+
+    it('should return null for unknown rules', () => {
+      expect(getNextOccurrence('FREQ=HOURLY', new Date(2024, 0, 1), notBefore)).toBeNull();
+      expect(parseRecurrenceRule('not a rule')).toBeNull();
+    });
+  });
+
+  describe('getFirstOccurrence', () => {
+    it('should start on the next matching weekday', () => {
+      // Wednesday Jan 3 2024 -> Tuesday Jan 9 2024
+      expect(getFirstOccurrence('FREQ=WEEKLY;BYDAY=TU', new Date(2024, 0, 3, 18))).toEqual(new Date(2024, 0, 9));
+    });
+
+    it('should start today when today matches', () => {
+      expect(getFirstOccurrence('FREQ=WEEKLY;BYDAY=TU', new Date(2024, 0, 2, 8))).toEqual(new Date(2024, 0, 2));
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it('should describe rules for speech', () => {
+      expect(describeRecurrence('FREQ=WEEKLY;BYDAY=TU')).toBe('every Tuesday');
+      expect(describeRecurrence('FREQ=WEEKLY;BYDAY=MO,TH')).toBe('every Monday and Thursday');
+      expect(describeRecurrence('FREQ=DAILY;INTERVAL=2')).toBe('every other day');
+      expect(describeRecurrence('FREQ=MONTHLY;BYMONTHDAY=1')).toBe('on the 1st of every month');
+    });
+
+    it('should describe rules in the user\'s language', () => {
+      expect(describeRecurrence('FREQ=WEEKLY;BYDAY=MO,TH', 'de-DE')).toBe('jeden Montag und Donnerstag');
+      expect(describeRecurrence('FREQ=MONTHLY;BYMONTHDAY=1', 'es-ES')).toBe('el día 1 de cada mes');
+      expect(describeRecurrence('FREQ=DAILY;INTERVAL=2', 'fr-FR')).toBe('tous les deux jours');
+    });
+  });
+
+  describe('parseTaskFromUserRequest', () => {
+    it('should store the rule and strip it from the task name', () => {
+      const parsed = parseTaskFromUserRequest('take out the trash every Tuesday');
+      expect(parsed.recurrence).toBe('FREQ=WEEKLY;BYDAY=TU');
+      expect(parsed.parsedName).toBe('take out the trash');
+      expect(parsed.dueDateTime).not.toBeNull();
+      expect(new Date(parsed.dueDateTime!).getDay()).toBe(2);
+    });
+
+    it('should leave non-recurring tasks unchanged', () => {
+      const parsed = parseTaskFromUserRequest('buy milk');
+      expect(parsed.recurrence).toBeNull();
+      expect(parsed.parsedName).toBe('buy milk');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+jest.mock('../../utils/database', () => ({
+  saveTaskReminder: jest.fn(),
+  getTaskReminderId: jest.fn(),
+  deleteTaskReminder: jest.fn(),
+}));
+
+import {
+  buildReminderRequest,
+  hasReminderPermission,
+  scheduleTaskReminder,
+  cancelTaskReminder,
+  askForReminderPermission,
+  stubReminders,
+  REMINDERS_PERMISSION,
+} from '../../utils/reminders';
+import { saveTaskReminder, getTaskReminderId, deleteTaskReminder } from '../../utils/database';
+
+const NEW_YORK = 'America/New_York';
+
+const mockHandlerInput = (scopes: Record<string, { status: string }> = {}): any => {
+  const attributes: Record<string, any> = {};
+  return {
+    requestEnvelope: {
+      request: { type: 'IntentRequest', locale: 'en-US' },
+      context: {
+        System: {
+          apiEndpoint: 'https://api.amazonalexa.com',
+          apiAccessToken: 'api-token',
+          user: { userId: 'amzn1.user', permissions: { scopes } },
+        },
+      },
+    },
+    attributesManager: {
+      getSessionAttributes: () => attributes,
+      setSessionAttributes: jest.fn(),
+    },
+    responseBuilder: { withAskForPermissionsConsentCard: jest.fn() },
+  };
+};
+
+describe('Reminder Utils', () => {
+  const tomorrowAt5 = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  tomorrowAt5.setUTCHours(22, 0, 0, 0);
+  const task = { id: 'page-1', name: 'Call mom', dueDateTime: tomorrowAt5.toISOString() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stubReminders.clear();
+    process.env.REMINDERS_STUB = 'true';
+  });
+
+  afterEach(() => {
+    delete process.env.REMINDERS_STUB;
+    jest.restoreAllMocks();
+  });
+
+  it('should schedule reminders at the wall-clock time in the user\'s zone', () => {
+    const request = buildReminderRequest('Call mom', '2024-03-02T22:00:00.000Z', NEW_YORK);
+    expect(request.trigger).toEqual({
+      type: 'SCHEDULED_ABSOLUTE',
+      scheduledTime: '2024-03-02T17:00:00',
+      timeZoneId: NEW_YORK,
+    });
+    expect(request.alertInfo.spokenInfo.content[0].text).toBe('Reminder: Call mom');
+  });
+
+  it('should read the reminders permission', () => {
+    expect(hasReminderPermission(mockHandlerInput({ [REMINDERS_PERMISSION]: { status: 'GRANTED' } }))).toBe(true);
+    expect(hasReminderPermission(mockHandlerInput({ [REMINDERS_PERMISSION]: { status: 'DENIED' } }))).toBe(false);
+    expect(hasReminderPermission(mockHandlerInput())).toBe(false);
+  });
+
+  it('should create a reminder and store its ID against the page', async () => {
+    (getTaskReminderId as jest.Mock).mockResolvedValue(null);
+
+    await expect(scheduleTaskReminder(mockHandlerInput(), 'user-1', task, NEW_YORK)).resolves.toBe('created');
+    expect(saveTaskReminder).toHaveBeenCalledWith('user-1', 'page-1', 'stub-reminder-1');
+    expect(stubReminders.get('stub-reminder-1')!.alertInfo.spokenInfo.content[0].text).toBe('Reminder: Call mom');
+  });
+
+  it('should move the existing reminder when a task is rescheduled', async () => {
+    (getTaskReminderId as jest.Mock).mockResolvedValue(null);
+    await scheduleTaskReminder(mockHandlerInput(), 'user-1', task, NEW_YORK);
+    const [reminderId] = stubReminders.keys();
+
+    (getTaskReminderId as jest.Mock).mockResolvedValue(reminderId);
+    const later = new Date(tomorrowAt5.getTime() + 60 * 60 * 1000).toISOString();
+    await expect(scheduleTaskReminder(mockHandlerInput(), 'user-1', { ...task, dueDateTime: later }, NEW_YORK))
+      .resolves.toBe('updated');
+    expect(stubReminders.size).toBe(1);
+    expect(stubReminders.get(reminderId)!.trigger.scheduledTime).toBe(buildReminderRequest('', later, NEW_YORK).trigger.scheduledTime);
+  });
+
+  it('should skip tasks without a due time', async () => {
+    (getTaskReminderId as jest.Mock).mockResolvedValue(null);
+    await expect(scheduleTaskReminder(mockHandlerInput(), 'user-1', { ...task, dueDateTime: '2099-03-02' }, NEW_YORK))
+      .resolves.toBe('skipped');
+    expect(stubReminders.size).toBe(0);
+  });
+
+  it('should cancel the reminder of a deleted task', async () => {
+    (getTaskReminderId as jest.Mock).mockResolvedValue(null);
+    await scheduleTaskReminder(mockHandlerInput(), 'user-1', task, NEW_YORK);
+    const [reminderId] = stubReminders.keys();
+
+    (getTaskReminderId as jest.Mock).mockResolvedValue(reminderId);
+    await expect(cancelTaskReminder(mockHandlerInput(), 'user-1', 'page-1')).resolves.toBe('cancelled');
+    expect(stubReminders.size).toBe(0);
+    expect(deleteTaskReminder).toHaveBeenCalledWith('user-1', 'page-1');
+  });
+
+  describe('Reminders API', () => {
+    beforeEach(() => {
+      delete process.env.REMINDERS_STUB;
+      (getTaskReminderId as jest.Mock).mockResolvedValue(null);
+    });
+
+    it('should ask for permission before calling the API', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch');
+      await expect(scheduleTaskReminder(mockHandlerInput(), 'user-1', task, NEW_YORK)).resolves.toBe('no_permission');
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should post the reminder with the Alexa API token', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue({
+        ok: true,
+        status: 201,
+        json: async () => ({ alertToken: 'alert-1' }),
+      } as any);
+      const handlerInput = mockHandlerInput({ [REMINDERS_PERMISSION]: { status: 'GRANTED' } });
+
+      await expect(scheduleTaskReminder(handlerInput, 'user-1', task, NEW_YORK)).resolves.toBe('created');
+      expect(fetchSpy).toHaveBeenCalledWith(
+        'https://api.amazonalexa.com/v1/alerts/reminders',
+        expect.objectContaining({ method: 'POST', headers: expect.objectContaining({ 'Authorization': 'Bearer api-token' }) })
+      );
+      expect(saveTaskReminder).toHaveBeenCalledWith('user-1', 'page-1', 'alert-1');
+    });
+
+    it('should treat a rejected token as missing permission', async () => {
+      jest.spyOn(global, 'fetch').mockResolvedValue({ ok: false, status: 401 } as any);
+      const handlerInput = mockHandlerInput({ [REMINDERS_PERMISSION]: { status: 'GRANTED' } });
+      await expect(scheduleTaskReminder(handlerInput, 'user-1', task, NEW_YORK)).resolves.toBe('no_permission');
+    });
+  });
+
+  it('should send the consent card once per session', () => {
+    const handlerInput = mockHandlerInput();
+    expect(askForReminderPermission(handlerInput)).toContain('allow reminders');
+    expect(askForReminderPermission(handlerInput)).toBe('');
+    expect(handlerInput.responseBuilder.withAskForPermissionsConsentCard).toHaveBeenCalledTimes(1);
+    expect(handlerInput.responseBuilder.withAskForPermissionsConsentCard).toHaveBeenCalledWith([REMINDERS_PERMISSION]);
+  });
+});
@@ -0,0 +1,169 @@
+import {
+  DEFAULT_PROPERTY_MAPPING,
+  detectPropertyMapping,
+  resolvePropertyMapping,
+  categoryFilter,
+  openStatusFilter,
+  statusFilter,
+  statusProperty,
+  combineFilters,
+  buildSorts,
+} from '../../utils/schema';
+import { mapPageToTask } from '../../utils/notion';
+import { parseQueryFromUserRequest } from '../../utils/parsing';
+
+const select = (...names: string[]) => ({ type: 'select', select: { options: names.map(name => ({ name })) } });
+
+describe('Schema Utils', () => {
+  describe('detectPropertyMapping', () => {
+    it('should detect the layout of the database the skill creates', () => {
+      const mapping = detectPropertyMapping({
+        'Task Name': { type: 'title' },
+        'Parsed Name': { type: 'rich_text' },
+        Priority: select('HIGH', 'NORMAL', 'LOW'),
+        Status: select('TO DO', 'IN_PROCESS', 'DONE'),
+        Category: select('WORK', 'PERSONAL'),
+        'Due Date Time': { type: 'date' },
+        Notes: { type: 'rich_text' },
+        Recurrence: { type: 'rich_text' },
+        NotionID: { type: 'rich_text' },
+      });
+      expect(mapping).toEqual(DEFAULT_PROPERTY_MAPPING);
+    });
+
+    it('should map an existing team database', () => {
+      const mapping = detectPropertyMapping({
+        Name: { type: 'title' },
+        Stage: select('Not started', 'Doing', 'Complete'),
+        Due: { type: 'date' },
+        Tags: { type: 'multi_select', multi_select: { options: [{ name: 'Work' }, { name: 'Home' }] } },
+        Created: { type: 'created_time' },
+      });
+
+      expect(mapping.title).toBe('Name');
+      expect(mapping.status).toBe('Stage');
+      expect(mapping.statusValues).toEqual({ 'TO DO': 'Not started', IN_PROCESS: 'Doing', DONE: 'Complete' });
+      expect(mapping.dueDate).toBe('Due');
+      expect(mapping.category).toBe('Tags');
+      expect(mapping.categoryType).toBe('multi_select');
+      expect(mapping.categoryValues).toEqual({ PERSONAL: 'Home', WORK: 'Work' });
+      expect(mapping.priority).toBeNull();
+      expect(mapping.parsedName).toBeNull();
+      expect(mapping.notionId).toBeNull();
+    });
+  });
+
+  describe('native status properties', () => {
+    const mapping = resolvePropertyMapping(detectPropertyMapping({
+      Name: { type: 'title' },
+      Status: {
+        type: 'status',
+        status: {
+          options: [
+            { id: 'o1', name: 'Not started' },
+            { id: 'o2', name: 'In progress' },
+            { id: 'o3', name: 'Blocked' },
+            { id: 'o4', name: 'Done' },
+            { id: 'o5', name: 'Archived' },
+          ],
+          groups: [
+            { name: 'To-do', option_ids: ['o1'] },
+            { name: 'In progress', option_ids: ['o2', 'o3'] },
+            { name: 'Complete', option_ids: ['o4', 'o5'] },
+          ],
+        },
+      },
+    }));
+
+    it('should map custom options onto status groups', () => {
+      expect(mapping.statusType).toBe('status');
+      expect(mapping.statusValues).toEqual({ 'TO DO': 'Not started', IN_PROCESS: 'In progress', DONE: 'Done' });
+      expect(mapping.statusOptions).toEqual({ Blocked: 'IN_PROCESS', Archived: 'DONE' });
+    });
+
+    it('should build status filters and updates', () => {
+      expect(statusFilter(mapping, 'DONE')).toEqual({
+        or: [
+          { property: 'Status', status: { equals: 'Done' } },
+          { property: 'Status', status: { equals: 'Archived' } },
+        ],
+      });
+      expect(statusFilter(mapping, 'DONE', 'does_not_equal')).toEqual({
+        and: [
+          { property: 'Status', status: { does_not_equal: 'Done' } },
+          { property: 'Status', status: { does_not_equal: 'Archived' } },
+        ],
+      });
+      expect(openStatusFilter(mapping).or).toHaveLength(3);
+      expect(statusProperty(mapping, 'IN_PROCESS')).toEqual({ Status: { status: { name: 'In progress' } } });
+    });
+
+    it('should read custom options as their group', () => {
+      const task = mapPageToTask({
+        id: 'page-1',
+        properties: {
+          Name: { title: [{ plain_text: 'Fix login' }] },
+          Status: { status: { name: 'Blocked' } },
+        },
+      }, mapping);
+      expect(task.status).toBe('IN_PROCESS');
+    });
+  });
+
+  describe('filters', () => {
+    const mapping = resolvePropertyMapping({
+      title: 'Name',
+      status: 'Stage',
+      priority: null,
+      category: 'Tags',
+      categoryType: 'multi_select',
+      dueDate: 'Due',
+      statusValues: { 'TO DO': 'Not started', IN_PROCESS: 'Doing', DONE: 'Complete' },
+    });
+
+    it('should use the mapped property and option names', () => {
+      expect(openStatusFilter(mapping)).toEqual({
+        or: [
+          { property: 'Stage', select: { equals: 'Not started' } },
+          { property: 'Stage', select: { equals: 'Doing' } },
+        ],
+      });
+      expect(categoryFilter(mapping, 'WORK')).toEqual({ property: 'Tags', multi_select: { contains: 'WORK' } });
+    });
+
+    it('should leave out conditions on missing properties', () => {
+      expect(combineFilters([null, openStatusFilter(mapping)])).toEqual(openStatusFilter(mapping));
+      expect(combineFilters([null])).toBeUndefined();
+      expect(buildSorts(mapping, [
+        { field: 'priority', direction: 'descending' },
+        { field: 'dueDate', direction: 'ascending' },
+      ])).toEqual([{ property: 'Due', direction: 'ascending' }]);
+    });
+
+    it('should build query filters through the mapping', () => {
+      const query = parseQueryFromUserRequest('high priority tasks that are done', mapping);
+      expect(query.filters).toEqual({ property: 'Stage', select: { equals: 'Complete' } });
+    });
+
+    it('should read pages through the mapping', () => {
+      const task = mapPageToTask({
+        id: 'page-1',
+        properties: {
+          Name: { title: [{ plain_text: 'Ship release' }] },
+          Stage: { select: { name: 'Doing' } },
+          Due: { date: { start: '2025-03-01' } },
+          Tags: { multi_select: [{ name: 'WORK' }] },
+        },
+      }, mapping);
+
+      expect(task).toMatchObject({
+        name: 'Ship release',
+        parsedName: 'Ship release',
+        status: 'IN_PROCESS',
+        dueDateTime: '2025-03-01',
+        category: 'WORK',
+        priority: 'NORMAL',
+      });
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { parseScopes, hasScope, requireScope, TASK_SCOPES } from '../../utils/scopes';
+
+const mockHandlerInput = (attributes: Record<string, any> = {}, locale = 'en-US'): any => {
+  const responseBuilder: any = {
+    speak: jest.fn(() => responseBuilder),
+    reprompt: jest.fn(() => responseBuilder),
+    withShouldEndSession: jest.fn(() => responseBuilder),
+    getResponse: jest.fn(() => ({ speech: responseBuilder.speak.mock.calls[0]?.[0] })),
+  };
+  return {
+    requestEnvelope: { request: { type: 'IntentRequest', locale } },
+    attributesManager: {
+      getSessionAttributes: () => attributes,
+      setSessionAttributes: jest.fn(),
+    },
+    responseBuilder,
+  };
+};
+
+describe('Scope Utils', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('parseScopes', () => {
+    it('should pick the task scopes out of a scope string', () => {
+      expect(parseScopes('tasks:write  tasks:read openid')).toEqual(['tasks:read', 'tasks:write']);
+    });
+
+    it('should give tokens with the legacy "alexa" scope full access', () => {
+      expect(parseScopes('alexa')).toEqual([...TASK_SCOPES]);
+      expect(parseScopes('tasks:read alexa')).toEqual([...TASK_SCOPES]);
+    });
+
+    it('should grant nothing to tokens without scopes', () => {
+      expect(parseScopes('')).toEqual([]);
+      expect(parseScopes(undefined)).toEqual([]);
+    });
+  });
+
+  describe('hasScope', () => {
+    it('should check the scopes stored for the session', () => {
+      const handlerInput = mockHandlerInput({ scopes: ['tasks:read'] });
+
+      expect(hasScope(handlerInput, 'tasks:read')).toBe(true);
+      expect(hasScope(handlerInput, 'tasks:delete')).toBe(false);
+    });
+
+    it('should allow everything for sessions found without a token', () => {
+      expect(hasScope(mockHandlerInput({ user: { id: 'user-123' } }), 'tasks:delete')).toBe(true);
+    });
+  });
+
+  describe('requireScope', () => {
+    it('should let the handler continue when the scope was granted', () => {
+      expect(requireScope(mockHandlerInput({ scopes: [...TASK_SCOPES] }), 'tasks:delete')).toBeNull();
+    });
+
+    it('should explain a missing scope, in the device language', () => {
+      const handlerInput = mockHandlerInput({ scopes: ['tasks:read', 'tasks:write'] });
+      const response: any = requireScope(handlerInput, 'tasks:delete');
+
+      expect(response.speech).toMatch(/isn't allowed to delete tasks/);
+      expect(handlerInput.responseBuilder.withShouldEndSession).toHaveBeenCalledWith(false);
+
+      const german: any = requireScope(mockHandlerInput({ scopes: [] }, 'de-DE'), 'tasks:write');
+      expect(german.speech).toMatch(/darf keine Aufgaben hinzufügen/);
+    });
+  });
+});
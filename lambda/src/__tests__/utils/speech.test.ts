@@ -0,0 +1,82 @@
+import {
+  ITEM_PAUSE,
+  escapeSSML,
+  sayDueDate,
+  describeTaskGroups,
+  speakTask,
+  speakTaskList,
+  speakSummary,
+} from '../../utils/speech';
+import { NotionTask } from '../../types';
+
+const NEW_YORK = 'America/New_York';
+// 9:30pm on Friday, March 1 in New York
+const NOW = new Date('2024-03-02T02:30:00Z');
+
+const task = (name: string, overrides: Partial<NotionTask> = {}): NotionTask => ({
+  id: name,
+  name,
+  parsedName: name,
+  priority: 'NORMAL',
+  dueDateTime: null,
+  status: 'TO DO',
+  category: 'PERSONAL',
+  notes: null,
+  ...overrides,
+});
+
+describe('Speech Utils', () => {
+  it('should escape Notion text for SSML', () => {
+    expect(escapeSSML('Q&A <draft>')).toBe('Q&amp;A &lt;draft&gt;');
+    expect(speakTask(task('R&D budget'), NEW_YORK, NOW)).toBe('R&amp;D budget');
+  });
+
+  it('should read due dates as dates in the user\'s zone', () => {
+    expect(sayDueDate('2024-03-02T02:30:00.000Z', NEW_YORK, NOW))
+      .toBe('<say-as interpret-as="date">????0301</say-as> at 9:30 PM');
+    expect(sayDueDate('2025-01-15', NEW_YORK, NOW)).toBe('<say-as interpret-as="date">20250115</say-as>');
+  });
+
+  it('should group tasks due today and overdue', () => {
+    const tasks = [
+      task('a', { dueDateTime: '2024-03-01' }),
+      task('b', { dueDateTime: '2024-03-01T15:00:00.000Z' }),
+      task('c', { dueDateTime: '2024-03-02T03:00:00.000Z' }), // 10pm Friday in New York
+      task('d', { dueDateTime: '2024-02-28' }),
+      task('e', { dueDateTime: '2024-02-27', status: 'DONE' }),
+      task('f', { dueDateTime: '2024-03-05' }),
+    ];
+    expect(describeTaskGroups(tasks, NEW_YORK, NOW)).toBe('three are due today, one is overdue');
+    expect(describeTaskGroups([task('g')], NEW_YORK, NOW)).toBe('');
+  });
+
+  it('should read a list with pauses between items', () => {
+    const speech = speakTaskList([
+      task('Pay rent', { dueDateTime: '2024-03-01', priority: 'HIGH' }),
+      task('Call mom'),
+    ], NEW_YORK, NOW);
+
+    expect(speech).toBe(
+      `You have 2 tasks. One is due today.${ITEM_PAUSE} ` +
+      `1. Pay rent, due <say-as interpret-as="date">????0301</say-as>, high priority.${ITEM_PAUSE} 2. Call mom.`
+    );
+  });
+
+  it('should read the first page of long lists', () => {
+    const tasks = Array.from({ length: 12 }, (_, i) => task(`Task ${i + 1}`));
+    const speech = speakTaskList(tasks, NEW_YORK, NOW);
+    expect(speech).toMatch(/^You have 12 tasks\. Here are the first 10:/);
+    expect(speech).toContain('10. Task 10.');
+    expect(speech).not.toContain('11. Task 11');
+    expect(speech).toMatch(/Say "next" to hear more\.$/);
+  });
+
+  it('should summarize open tasks', () => {
+    expect(speakSummary([
+      task('a', { dueDateTime: '2024-02-28' }),
+      task('b', { dueDateTime: '2024-02-29' }),
+      task('c'),
+    ], NEW_YORK, NOW)).toBe('You have 3 open tasks. Two are overdue.');
+    expect(speakSummary([], NEW_YORK, NOW)).toBe('You\'re all caught up.');
+  });
+});
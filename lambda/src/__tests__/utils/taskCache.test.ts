@@ -0,0 +1,173 @@
+jest.mock('../../utils/notion', () => ({
+  getAllTasks: jest.fn(),
+  queryOpenTasks: jest.fn(),
+}));
+
+jest.mock('../../utils/database', () => ({
+  getTaskCacheEntry: jest.fn(),
+  saveTaskCacheEntry: jest.fn(),
+  deleteTaskCacheEntry: jest.fn(),
+}));
+
+import {
+  createMemoryTaskCacheStore,
+  getOpenTasks,
+  getTaskCacheKey,
+  getTimeRemaining,
+  invalidateTaskCache,
+  setSharedTaskCacheStore,
+  TaskCacheStore,
+} from '../../utils/taskCache';
+import { getAllTasks, queryOpenTasks } from '../../utils/notion';
+
+const makeTask = (id: string): any => ({
+  id,
+  name: id,
+  parsedName: id,
+  priority: 'NORMAL',
+  status: 'TO DO',
+  category: 'PERSONAL',
+  dueDateTime: null,
+  notes: null,
+});
+
+// A request Alexa sent `age` ms ago
+const handlerInputAt = (age: number = 0): any => ({
+  requestEnvelope: { request: { type: 'IntentRequest', timestamp: new Date(Date.now() - age).toISOString() } },
+});
+
+let userCount = 0;
+const newUser = (): any => ({ id: `user-${++userCount}`, tasks_db_id: 'db-1' });
+
+describe('Task Cache Utils', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (queryOpenTasks as jest.Mock).mockResolvedValue([makeTask('a')]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    setSharedTaskCacheStore(null);
+  });
+
+  it('should answer from the snapshot within the TTL', async () => {
+    const user = newUser();
+
+    expect(await getOpenTasks(handlerInputAt(), {} as any, user, 'db-1')).toEqual([makeTask('a')]);
+    expect(await getOpenTasks(handlerInputAt(), {} as any, user, 'db-1')).toEqual([makeTask('a')]);
+
+    expect(queryOpenTasks).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read Notion again after the skill changes tasks', async () => {
+    const user = newUser();
+    await getOpenTasks(handlerInputAt(), {} as any, user, 'db-1');
+
+    await invalidateTaskCache(user);
+    (queryOpenTasks as jest.Mock).mockResolvedValue([makeTask('b')]);
+
+    expect(await getOpenTasks(handlerInputAt(), {} as any, user, 'db-1')).toEqual([makeTask('b')]);
+    expect(queryOpenTasks).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not mix up databases', async () => {
+    const user = newUser();
+    await getOpenTasks(handlerInputAt(), {} as any, user, 'db-1');
+    await getOpenTasks(handlerInputAt(), {} as any, user, 'db-2');
+
+    expect(queryOpenTasks).toHaveBeenCalledTimes(2);
+  });
+
+  it('should read Notion again after the user saves a new field mapping', async () => {
+    const user = newUser();
+    await getOpenTasks(handlerInputAt(), {} as any, user, 'db-1');
+
+    const remapped = { ...user, tasks_db_mapping: { name: 'Title' } };
+    await getOpenTasks(handlerInputAt(), {} as any, remapped, 'db-1');
+
+    expect(queryOpenTasks).toHaveBeenCalledTimes(2);
+    expect(getTaskCacheKey(remapped)).not.toBe(getTaskCacheKey(user));
+  });
+
+  it('should read Notion again after the TTL when there is time', async () => {
+    jest.useFakeTimers({ now: new Date('2024-03-01T12:00:00Z') });
+    const user = newUser();
+    await getOpenTasks(handlerInputAt(), {} as any, user, 'db-1');
+
+    jest.setSystemTime(new Date('2024-03-01T12:02:00Z'));
+    (queryOpenTasks as jest.Mock).mockResolvedValue([makeTask('b')]);
+
+    expect(await getOpenTasks(handlerInputAt(), {} as any, user, 'db-1')).toEqual([makeTask('b')]);
+  });
+
+  it('should answer from an older snapshot close to the deadline and refresh it', async () => {
+    jest.useFakeTimers({ now: new Date('2024-03-01T12:00:00Z') });
+    const user = newUser();
+    await getOpenTasks(handlerInputAt(), {} as any, user, 'db-1');
+
+    jest.setSystemTime(new Date('2024-03-01T12:02:00Z'));
+    (queryOpenTasks as jest.Mock).mockResolvedValue([makeTask('b')]);
+
+    // 6 of Alexa's 8 seconds are gone
+    expect(await getOpenTasks(handlerInputAt(6000), {} as any, user, 'db-1')).toEqual([makeTask('a')]);
+    expect(queryOpenTasks).toHaveBeenCalledTimes(2);
+
+    // The background refresh serves the next request
+    expect(await getOpenTasks(handlerInputAt(), {} as any, user, 'db-1')).toEqual([makeTask('b')]);
+    expect(queryOpenTasks).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to the snapshot when Notion fails', async () => {
+    jest.useFakeTimers({ now: new Date('2024-03-01T12:00:00Z') });
+    const user = newUser();
+    await getOpenTasks(handlerInputAt(), {} as any, user, 'db-1');
+
+    jest.setSystemTime(new Date('2024-03-01T12:02:00Z'));
+    (queryOpenTasks as jest.Mock).mockRejectedValue({ status: 502 });
+
+    expect(await getOpenTasks(handlerInputAt(), {} as any, user, 'db-1')).toEqual([makeTask('a')]);
+    expect(await getOpenTasks(handlerInputAt(), {} as any, newUser(), 'db-1')).toEqual([]);
+  });
+
+  it('should skip the cache for users without an ID', async () => {
+    (getAllTasks as jest.Mock).mockResolvedValue([makeTask('c')]);
+
+    expect(await getOpenTasks(handlerInputAt(), {} as any, { tasks_db_id: 'db-1' } as any, 'db-1'))
+      .toEqual([makeTask('c')]);
+    expect(queryOpenTasks).not.toHaveBeenCalled();
+  });
+
+  it('should share snapshots through the shared store', async () => {
+    const shared: TaskCacheStore = createMemoryTaskCacheStore();
+    setSharedTaskCacheStore(shared);
+    const user = newUser();
+
+    await shared.set(getTaskCacheKey(user), { databaseId: 'db-1', tasks: [makeTask('s')], fetchedAt: Date.now() }, 60000);
+    expect(await getOpenTasks(handlerInputAt(), {} as any, user, 'db-1')).toEqual([makeTask('s')]);
+    expect(queryOpenTasks).not.toHaveBeenCalled();
+
+    await invalidateTaskCache(user);
+    expect(await shared.get(getTaskCacheKey(user))).toBeNull();
+  });
+
+  describe('createMemoryTaskCacheStore', () => {
+    it('should expire entries and evict the oldest', async () => {
+      const store = createMemoryTaskCacheStore(2);
+      const entry = { databaseId: 'db-1', tasks: [], fetchedAt: Date.now() };
+
+      await store.set('a', entry, 60000);
+      await store.set('b', entry, 60000);
+      await store.set('c', entry, 60000);
+      await store.set('d', entry, -1);
+
+      expect(await store.get('a')).toBeNull();
+      expect(await store.get('c')).toEqual(entry);
+      expect(await store.get('d')).toBeNull();
+    });
+  });
+
+  it('should measure time left from the request timestamp', () => {
+    expect(getTimeRemaining(handlerInputAt(3000))).toBeLessThanOrEqual(5000);
+    expect(getTimeRemaining({ requestEnvelope: { request: {} } } as any)).toBe(8000);
+  });
+});
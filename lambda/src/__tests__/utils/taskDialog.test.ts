@@ -0,0 +1,145 @@
+import {
+  resolveTaskDialog,
+  isTaskDialogRequest,
+  getResolvedId,
+  clearSlot,
+  parseDateSlot,
+  parseTimeSlot,
+} from '../../utils/taskDialog';
+
+const NEW_YORK = 'America/New_York';
+
+// 10:00 AM on Tuesday, March 5 in New York
+const NOW = new Date('2024-03-05T15:00:00.000Z');
+
+const resolved = (id: string) => ({
+  resolutionsPerAuthority: [{
+    authority: 'amzn1.er-authority.echo-sdk.skill.TASK_PRIORITY',
+    status: { code: 'ER_SUCCESS_MATCH' },
+    values: [{ value: { name: id.toLowerCase(), id } }],
+  }],
+});
+
+const unresolved = {
+  resolutionsPerAuthority: [{
+    authority: 'amzn1.er-authority.echo-sdk.skill.TASK_PRIORITY',
+    status: { code: 'ER_SUCCESS_NO_MATCH' },
+  }],
+};
+
+const makeIntent = (slots: Record<string, { value?: string; resolutions?: any }>): any => ({
+  name: 'AddTaskIntent',
+  confirmationStatus: 'NONE',
+  slots: Object.fromEntries(
+    Object.entries(slots).map(([name, slot]) => [name, { name, confirmationStatus: 'NONE', ...slot }])
+  ),
+});
+
+describe('Task Dialog Utils', () => {
+  it('should ask for the task name first', () => {
+    const step = resolveTaskDialog(makeIntent({ priority: { value: 'high', resolutions: resolved('HIGH') } }), NEW_YORK, false, NOW);
+    expect(step.elicit?.slot).toBe('taskName');
+  });
+
+  it('should ask when a task without a date is due', () => {
+    const step = resolveTaskDialog(makeIntent({ taskName: { value: 'call mom' } }), NEW_YORK, false, NOW);
+    expect(step.elicit?.slot).toBe('dueDate');
+    expect(step.elicit?.prompt).toContain('When is it due?');
+  });
+
+  it('should add without a due date once the user declined one', () => {
+    const step = resolveTaskDialog(makeIntent({ taskName: { value: 'call mom' } }), NEW_YORK, true, NOW);
+    expect(step.elicit).toBeNull();
+    expect(step.parsed.parsedName).toBe('call mom');
+    expect(step.parsed.dueDateTime).toBeNull();
+    expect(step.needsConfirmation).toBe(false);
+  });
+
+  it('should combine the date and time slots in the user\'s zone', () => {
+    const step = resolveTaskDialog(
+      makeIntent({ taskName: { value: 'call mom' }, dueDate: { value: '2024-03-08' }, dueTime: { value: '17:00' } }),
+      NEW_YORK, false, NOW
+    );
+    expect(step.elicit).toBeNull();
+    expect(step.parsed.dueDateTime).toBe('2024-03-08T22:00:00.000Z');
+    expect(step.needsConfirmation).toBe(false);
+  });
+
+  it('should keep a date without a time as a date-only due date', () => {
+    const step = resolveTaskDialog(
+      makeIntent({ taskName: { value: 'pay rent' }, dueDate: { value: '2024-03-08' } }), NEW_YORK, false, NOW
+    );
+    expect(step.parsed.dueDateTime).toBe('2024-03-08');
+  });
+
+  it('should ask again for vague dates like "next week"', () => {
+    const step = resolveTaskDialog(
+      makeIntent({ taskName: { value: 'pay rent' }, dueDate: { value: '2024-W11' } }), NEW_YORK, false, NOW
+    );
+    expect(step.elicit?.slot).toBe('dueDate');
+    expect(step.elicit?.prompt).toBe('Which day exactly is it due?');
+  });
+
+  it('should guess the day for a time on its own and ask to confirm', () => {
+    const later = resolveTaskDialog(
+      makeIntent({ taskName: { value: 'call mom' }, dueTime: { value: '17:00' } }), NEW_YORK, false, NOW
+    );
+    const passed = resolveTaskDialog(
+      makeIntent({ taskName: { value: 'call mom' }, dueTime: { value: '08:00' } }), NEW_YORK, false, NOW
+    );
+
+    expect(later.parsed.dueDateTime).toBe('2024-03-05T22:00:00.000Z');
+    expect(later.needsConfirmation).toBe(true);
+    expect(passed.parsed.dueDateTime).toBe('2024-03-06T13:00:00.000Z');
+  });
+
+  it('should ask to confirm times guessed from "in the evening"', () => {
+    const step = resolveTaskDialog(
+      makeIntent({ taskName: { value: 'call mom' }, dueDate: { value: '2024-03-08' }, dueTime: { value: 'EV' } }),
+      NEW_YORK, false, NOW
+    );
+    expect(step.parsed.dueDateTime).toBe('2024-03-08T23:00:00.000Z');
+    expect(step.needsConfirmation).toBe(true);
+  });
+
+  it('should use resolved priority and category and ask when they don\'t match', () => {
+    const high = resolveTaskDialog(
+      makeIntent({
+        taskName: { value: 'send invoice' },
+        dueDate: { value: '2024-03-08' },
+        priority: { value: 'urgent', resolutions: resolved('HIGH') },
+        category: { value: 'office', resolutions: resolved('WORK') },
+      }),
+      NEW_YORK, false, NOW
+    );
+    const unknown = resolveTaskDialog(
+      makeIntent({ taskName: { value: 'send invoice' }, priority: { value: 'purple', resolutions: unresolved } }),
+      NEW_YORK, false, NOW
+    );
+
+    expect(high.parsed.priority).toBe('HIGH');
+    expect(high.parsed.category).toBe('WORK');
+    expect(unknown.elicit?.slot).toBe('priority');
+  });
+
+  it('should pick up a date said as part of the task name', () => {
+    const step = resolveTaskDialog(makeIntent({ taskName: { value: 'call mom tomorrow at 5pm' } }), NEW_YORK, false, NOW);
+    expect(step.elicit).toBeNull();
+    expect(step.parsed.dueDateTime).toBeTruthy();
+  });
+
+  it('should tell the free-form path from the dialog', () => {
+    expect(isTaskDialogRequest(makeIntent({ userRequest: { value: 'call mom tomorrow' } }))).toBe(false);
+    expect(isTaskDialogRequest(makeIntent({ taskName: { value: 'call mom' } }))).toBe(true);
+    expect(isTaskDialogRequest(makeIntent({}))).toBe(true);
+  });
+
+  it('should read slot values and resolutions', () => {
+    const intent = makeIntent({ priority: { value: 'urgent', resolutions: resolved('HIGH') } });
+    expect(getResolvedId(intent, 'priority')).toBe('HIGH');
+    expect(getResolvedId(clearSlot(intent, 'priority'), 'priority')).toBeNull();
+    expect(parseDateSlot('PRESENT_REF', NEW_YORK, NOW)).toBe('2024-03-05');
+    expect(parseDateSlot('2024-03', NEW_YORK, NOW)).toBeNull();
+    expect(parseTimeSlot('MO')).toEqual({ time: '09:00', guessed: true });
+  });
+});
@@ -0,0 +1,32 @@
+import {
+  PAGE_SIZE,
+  getPageIds,
+  getTaskIdByNumber,
+} from '../../utils/tasklist';
+
+describe('Task List Utils', () => {
+  const list = {
+    taskIds: Array.from({ length: 23 }, (_, i) => `task-${i + 1}`),
+    position: 0,
+  };
+
+  describe('getPageIds', () => {
+    it('should return one page from the position', () => {
+      expect(getPageIds(list, PAGE_SIZE)).toEqual(list.taskIds.slice(10, 20));
+      expect(getPageIds(list, 20)).toEqual(['task-21', 'task-22', 'task-23']);
+    });
+  });
+
+  describe('getTaskIdByNumber', () => {
+    it('should count numbers through the whole list', () => {
+      expect(getTaskIdByNumber(list, 1)).toBe('task-1');
+      expect(getTaskIdByNumber(list, 12)).toBe('task-12');
+    });
+
+    it('should reject numbers outside the list', () => {
+      expect(getTaskIdByNumber(list, 0)).toBeNull();
+      expect(getTaskIdByNumber(list, 24)).toBeNull();
+      expect(getTaskIdByNumber(list, NaN)).toBeNull();
+    });
+  });
+});
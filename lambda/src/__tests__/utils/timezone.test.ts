@@ -0,0 +1,136 @@
+import {
+  toZonedTime,
+  fromZonedTime,
+  toDateString,
+  getDayRange,
+  getWeekRange,
+  formatDueDate,
+  formatDueTime,
+  fetchDeviceTimeZone,
+  getTimeZone,
+} from '../../utils/timezone';
+import { parseQueryFromUserRequest, parseTaskFromUserRequest } from '../../utils/parsing';
+import { getNextOccurrence } from '../../utils/recurrence';
+
+const NEW_YORK = 'America/New_York';
+// 9:30pm on Friday, March 1 in New York - already Saturday in UTC
+const FRIDAY_EVENING = new Date('2024-03-02T02:30:00Z');
+
+describe('Time Zone Utils', () => {
+  describe('wall-clock conversion', () => {
+    it('should read the clock in the given zone', () => {
+      const zoned = toZonedTime(FRIDAY_EVENING, NEW_YORK);
+      expect(zoned.getDate()).toBe(1);
+      expect(zoned.getHours()).toBe(21);
+      expect(fromZonedTime(zoned, NEW_YORK)).toEqual(FRIDAY_EVENING);
+    });
+
+    it('should handle daylight saving changes', () => {
+      const { start, end } = getDayRange(new Date('2024-03-10T12:00:00Z'), NEW_YORK);
+      expect(start.toISOString()).toBe('2024-03-10T05:00:00.000Z');
+      expect(end.toISOString()).toBe('2024-03-11T03:59:59.999Z');
+    });
+  });
+
+  describe('day boundaries', () => {
+    it('should use the user\'s day, not UTC', () => {
+      expect(toDateString(FRIDAY_EVENING, NEW_YORK)).toBe('2024-03-01');
+      expect(toDateString(FRIDAY_EVENING, 'UTC')).toBe('2024-03-02');
+
+      const tomorrow = getDayRange(FRIDAY_EVENING, NEW_YORK, 1);
+      expect(tomorrow.start.toISOString()).toBe('2024-03-02T05:00:00.000Z');
+
+      const week = getWeekRange(FRIDAY_EVENING, NEW_YORK);
+      expect(week.start.toISOString()).toBe('2024-02-25T05:00:00.000Z');
+      expect(week.end.toISOString()).toBe('2024-03-03T04:59:59.999Z');
+    });
+  });
+
+  describe('parsing', () => {
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(FRIDAY_EVENING);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should build "today" filters for the user\'s day', () => {
+      const query = parseQueryFromUserRequest('what is due today', undefined, NEW_YORK);
+      expect(query.filters).toEqual({
+        property: 'Due Date Time',
+        date: {
+          on_or_after: '2024-03-01T05:00:00.000Z',
+          on_or_before: '2024-03-02T04:59:59.999Z',
+        },
+      });
+    });
+
+    it('should read spoken times in the user\'s zone', () => {
+      const parsed = parseTaskFromUserRequest('call mom tomorrow at 5pm', NEW_YORK);
+      expect(parsed.dueDateTime).toBe('2024-03-02T22:00:00.000Z');
+    });
+
+    it('should repeat timed tasks on the user\'s weekday', () => {
+      // Friday 9:30pm New York is Saturday in UTC
+      const next = getNextOccurrence('FREQ=WEEKLY;BYDAY=FR', FRIDAY_EVENING, FRIDAY_EVENING, NEW_YORK);
+      expect(next!.toISOString()).toBe('2024-03-09T02:30:00.000Z');
+    });
+  });
+
+  describe('speech', () => {
+    it('should speak due dates as the user sees them', () => {
+      expect(formatDueDate('2024-03-02T02:30:00.000Z', NEW_YORK)).toBe('Mar 1');
+      expect(formatDueTime('2024-03-02T02:30:00.000Z', NEW_YORK)).toBe('9:30 PM');
+    });
+
+    it('should read date-only values as written', () => {
+      expect(formatDueDate('2024-03-02', NEW_YORK)).toBe('Mar 2');
+      expect(formatDueTime('2024-03-02', NEW_YORK)).toBeNull();
+    });
+  });
+
+  describe('fetchDeviceTimeZone', () => {
+    const handlerInput: any = {
+      requestEnvelope: {
+        context: {
+          System: {
+            apiEndpoint: 'https://api.amazonalexa.com',
+            apiAccessToken: 'api-token',
+            device: { deviceId: 'device-1' },
+          },
+        },
+      },
+    };
+
+    afterEach(() => {
+      delete process.env.DEVICE_TIME_ZONE;
+      jest.restoreAllMocks();
+    });
+
+    it('should use the stand-in time zone when set', async () => {
+      process.env.DEVICE_TIME_ZONE = 'Europe/Berlin';
+      const fetchSpy = jest.spyOn(global, 'fetch');
+      await expect(fetchDeviceTimeZone(handlerInput)).resolves.toBe('Europe/Berlin');
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should call the Settings API', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue({
+        ok: true,
+        json: async () => NEW_YORK,
+      } as any);
+
+      await expect(fetchDeviceTimeZone(handlerInput)).resolves.toBe(NEW_YORK);
+      expect(fetchSpy).toHaveBeenCalledWith(
+        'https://api.amazonalexa.com/v2/devices/device-1/settings/System.timeZone',
+        { headers: { 'Authorization': 'Bearer api-token' } }
+      );
+    });
+
+    it('should fall back to the default for unknown zones', () => {
+      expect(getTimeZone({ time_zone: 'Not/AZone' } as any)).toBe('UTC');
+      expect(getTimeZone({ time_zone: NEW_YORK } as any)).toBe(NEW_YORK);
+    });
+  });
+});
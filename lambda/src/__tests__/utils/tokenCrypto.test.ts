@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import {
+  parseTokenKey,
+  getTokenKeys,
+  encryptToken,
+  decryptToken,
+  isEncryptedToken,
+  getTokenKeyId,
+} from '../../utils/tokenCrypto';
+
+const makeKeySpec = (id: string): string => `${id}:${crypto.randomBytes(32).toString('base64')}`;
+
+describe('Token Crypto Utils', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.NOTION_TOKEN_KEK = makeKeySpec('k2');
+    process.env.NOTION_TOKEN_KEK_PREVIOUS = '';
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should round-trip a token', () => {
+    const stored = encryptToken('secret_abc123');
+
+    expect(stored).toMatch(/^enc:v1:k2:/);
+    expect(stored).not.toContain('secret_abc123');
+    expect(decryptToken(stored)).toBe('secret_abc123');
+  });
+
+  it('should use a new data key every time', () => {
+    expect(encryptToken('secret_abc123')).not.toBe(encryptToken('secret_abc123'));
+  });
+
+  it('should pass plaintext tokens saved before encryption through', () => {
+    expect(decryptToken('secret_legacy')).toBe('secret_legacy');
+    expect(decryptToken(null)).toBeNull();
+    expect(isEncryptedToken('secret_legacy')).toBe(false);
+    expect(getTokenKeyId('secret_legacy')).toBeNull();
+  });
+
+  it('should decrypt tokens encrypted with a previous key', () => {
+    const oldKey = makeKeySpec('k1');
+    process.env.NOTION_TOKEN_KEK = oldKey;
+    const stored = encryptToken('secret_abc123');
+
+    process.env.NOTION_TOKEN_KEK = makeKeySpec('k2');
+    expect(() => decryptToken(stored)).toThrow('unknown key "k1"');
+
+    process.env.NOTION_TOKEN_KEK_PREVIOUS = oldKey;
+    expect(getTokenKeyId(stored)).toBe('k1');
+    expect(getTokenKeys().map(key => key.id)).toEqual(['k2', 'k1']);
+    expect(decryptToken(stored)).toBe('secret_abc123');
+  });
+
+  it('should reject tampered ciphertext', () => {
+    const parts = encryptToken('secret_abc123').split(':');
+    parts[5] = Buffer.from('secret_xyz789').toString('base64');
+
+    expect(() => decryptToken(parts.join(':'))).toThrow();
+  });
+
+  it('should reject unknown format versions', () => {
+    expect(() => decryptToken('enc:v9:k2:a:b:c:d')).toThrow('Unsupported Notion token format: enc:v9');
+  });
+
+  it('should refuse to encrypt without a key', () => {
+    delete process.env.NOTION_TOKEN_KEK;
+    expect(() => encryptToken('secret_abc123')).toThrow('NOTION_TOKEN_KEK is not set');
+  });
+
+  it('should validate keys', () => {
+    expect(() => parseTokenKey('k1:' + Buffer.alloc(16).toString('base64'))).toThrow('Invalid Notion token key');
+    expect(() => parseTokenKey(Buffer.alloc(32).toString('base64'))).toThrow('Invalid Notion token key');
+    expect(parseTokenKey('k1:' + Buffer.alloc(32).toString('base64')).id).toBe('k1');
+  });
+});
@@ -0,0 +1,137 @@
+import { RequestHandler, HandlerInput } from 'ask-sdk-core';
+import { buildResponse, rankMatchingTasks, RankedTask } from '../utils/alexa';
+import { findDatabaseByName, addTaskSteps } from '../utils/notion';
+import { parseStepRequest } from '../utils/parsing';
+import { journalAction } from '../utils/journal';
+import { escapeSSML } from '../utils/speech';
+import { getOpenTasks } from '../utils/taskCache';
+import { getLocale, t, translate } from '../utils/i18n';
+import { requireScope } from '../utils/scopes';
+import { NotionTask } from '../types';
+
+/**
+ * Handles "add step X to task Y" by appending a to-do block to the task page.
+ */
+export class AddStepHandler implements RequestHandler {
+  canHandle(handlerInput: HandlerInput): boolean {
+    const isIntentRequest = handlerInput.requestEnvelope.request.type === 'IntentRequest';
+    const intentName = isIntentRequest
+      ? (handlerInput.requestEnvelope.request as any).intent?.name
+      : null;
+
+    const canHandle = isIntentRequest && intentName === 'AddStepIntent';
+
+    if (isIntentRequest) {
+      console.log('[AddStepHandler] canHandle check:', {
+        isIntentRequest,
+        intentName,
+        canHandle
+      });
+    }
+
+    return canHandle;
+  }
+
+  async handle(handlerInput: HandlerInput) {
+    console.log('[AddStepHandler] Handler invoked');
+    const request = handlerInput.requestEnvelope.request as any;
+    const slots = request.intent.slots || {};
+
+    // Extract userRequest from AMAZON.SearchQuery slot
+    const userRequest = slots.userRequest?.value;
+    console.log('[AddStepHandler] userRequest:', userRequest);
+
+    if (!userRequest || userRequest.trim().length === 0) {
+      return buildResponse(handlerInput, t(handlerInput, 'addStep.prompt'), t(handlerInput, 'addStep.reprompt'));
+    }
+
+    return this.addStep(handlerInput, userRequest);
+  }
+
+  /**
+   * Adds the step described in userRequest ("charger to pack for trip").
+   * Also used by AddTaskHandler when "add step ..." is routed to AddTaskIntent.
+   */
+  async addStep(handlerInput: HandlerInput, userRequest: string) {
+    const attributes = handlerInput.attributesManager.getSessionAttributes();
+    const user = attributes.user;
+    const notionClient = attributes.notionClient;
+
+    if (!user || !notionClient) {
+      return buildResponse(handlerInput, t(handlerInput, 'addStep.notConnected'), t(handlerInput, 'common.whatToDo'));
+    }
+
+    const denied = requireScope(handlerInput, 'tasks:write');
+    if (denied) {
+      return denied;
+    }
+
+    try {
+      const locale = getLocale(handlerInput);
+      const pairs = parseStepRequest(userRequest, locale);
+      if (pairs.length === 0) {
+        return buildResponse(handlerInput, t(handlerInput, 'addStep.unclear'), t(handlerInput, 'common.whatToDo'));
+      }
+
+      // Try to use stored database ID first, fallback to search
+      let tasksDbId = user.tasks_db_id || null;
+
+      if (!tasksDbId) {
+        console.log('[AddStepHandler] tasks_db_id not found in user record, searching by name...');
+        tasksDbId = await findDatabaseByName(notionClient, 'Tasks');
+      }
+
+      if (!tasksDbId) {
+        return buildResponse(handlerInput, t(handlerInput, 'common.tasksDbMissing'), t(handlerInput, 'common.whatToDo'));
+      }
+
+      // Pick the split whose task part best matches a real task
+      const allTasks = await getOpenTasks(handlerInput, notionClient, user, tasksDbId);
+      let best: { step: string; match: RankedTask<NotionTask> } | null = null;
+
+      for (const pair of pairs) {
+        const match = rankMatchingTasks(pair.taskName, allTasks)[0];
+        if (match && (!best || match.score > best.match.score)) {
+          best = { step: pair.step, match };
+        }
+      }
+
+      if (!best) {
+        const taskName = pairs[0].taskName;
+        console.log('[AddStepHandler] No matching task found for:', pairs.map(p => p.taskName));
+        return buildResponse(
+          handlerInput,
+          t(handlerInput, 'common.taskNotFound', { name: escapeSSML(taskName) }),
+          t(handlerInput, 'common.whatElse')
+        );
+      }
+
+      const task = best.match.task;
+      console.log('[AddStepHandler] Adding step:', { step: best.step, taskId: task.id, taskName: task.name });
+
+      const blockIds = await addTaskSteps(notionClient, task.id, [best.step]);
+
+      await journalAction(
+        user.id,
+        'add_step',
+        translate(locale, 'journal.addStep', { step: best.step, name: task.name }),
+        blockIds.map(blockId => ({ type: 'remove', blockId }))
+      );
+
+      return buildResponse(
+        handlerInput,
+        translate(locale, 'addStep.added', { step: escapeSSML(best.step), name: escapeSSML(task.name) }),
+        t(handlerInput, 'common.whatElse')
+      );
+    } catch (error: any) {
+      console.error('[AddStepHandler] Error adding step:', error);
+      console.error('[AddStepHandler] Error details:', {
+        message: error?.message,
+        status: error?.status,
+        code: error?.code,
+        stack: error?.stack
+      });
+      return buildResponse(handlerInput, t(handlerInput, 'addStep.error'), t(handlerInput, 'common.whatToDo'));
+    }
+  }
+}
@@ -1,8 +1,33 @@
 import { RequestHandler, HandlerInput } from 'ask-sdk-core';
+import { Intent, Response } from 'ask-sdk-model';
 import { buildResponse } from '../utils/alexa';
 import { findDatabaseByName, addTask } from '../utils/notion';
-import { parseTaskFromUserRequest } from '../utils/parsing';
+import { ParsedTask, parseTaskFromUserRequest, isStepRequest } from '../utils/parsing';
+import { describeRecurrence } from '../utils/recurrence';
+import { journalAction } from '../utils/journal';
+import { escapeSSML } from '../utils/speech';
+import { invalidateTaskCache } from '../utils/taskCache';
+import { getTaskMapping } from '../utils/schema';
+import { getTimeZone, getDayRange, getDueDay, toDateString, formatDueDate, formatDueTime } from '../utils/timezone';
+import { hasDueTime, scheduleTaskReminder, askForReminderPermission } from '../utils/reminders';
+import {
+  resolveTaskDialog,
+  isTaskDialogRequest,
+  clearSlot,
+  storePendingAddTask,
+  getPendingAddTask,
+  clearPendingAddTask,
+} from '../utils/taskDialog';
+import { getLocale, t, translate } from '../utils/i18n';
+import { requireScope } from '../utils/scopes';
+import { AddStepHandler } from './AddStepHandler';
 
+/**
+ * Adds a task, either from a free-form request ("add call mom tomorrow at
+ * 5pm") in one go, or through a dialog over the typed slots that asks for
+ * whatever is missing ("when is it due?") and confirms guessed due dates.
+ * While Alexa asks for the due date, "no" means the task has none.
+ */
 export class AddTaskHandler implements RequestHandler {
   canHandle(handlerInput: HandlerInput): boolean {
     const isIntentRequest = handlerInput.requestEnvelope.request.type === 'IntentRequest';
@@ -10,7 +35,10 @@ export class AddTaskHandler implements RequestHandler {
       ? (handlerInput.requestEnvelope.request as any).intent?.name 
       : null;
     
-    const canHandle = isIntentRequest && intentName === 'AddTaskIntent';
+    const canHandle = isIntentRequest && (
+      intentName === 'AddTaskIntent' ||
+      (intentName === 'AMAZON.NoIntent' && !!getPendingAddTask(handlerInput))
+    );
     
     if (isIntentRequest) {
       console.log('[AddTaskHandler] canHandle check:', {
@@ -33,23 +61,23 @@ export class AddTaskHandler implements RequestHandler {
       console.log('[AddTaskHandler] Session check:', {
         hasUser: !!user,
         hasNotionClient: !!notionClient,
-        userId: user?.id,
-        hasNotionToken: !!user?.notion_token
+        userId: user?.id
       });
 
       if (!user || !notionClient) {
         console.warn('[AddTaskHandler] Missing user or Notion client');
-        return buildResponse(
-          handlerInput,
-          'To add tasks, you need to connect your Notion account. ' +
-          'Open the Alexa app, go to Skills, find Voice Planner, and click Link Account. ' +
-          'Once connected, you can add tasks to your Notion workspace.',
-          'What would you like to do?'
-        );
+        return buildResponse(handlerInput, t(handlerInput, 'addTask.notConnected'), t(handlerInput, 'common.whatToDo'));
+      }
+
+      const denied = requireScope(handlerInput, 'tasks:write');
+      if (denied) {
+        return denied;
       }
 
       const request = handlerInput.requestEnvelope.request as any;
       const slots = request.intent.slots || {};
+      const timeZone = getTimeZone(user);
+      const locale = getLocale(handlerInput);
       
       // Extract userRequest from AMAZON.SearchQuery slot
       const userRequest = slots.userRequest?.value;
@@ -58,13 +86,23 @@ export class AddTaskHandler implements RequestHandler {
       console.log('[AddTaskHandler] Intent name:', request.intent.name);
       console.log('[AddTaskHandler] userRequest:', userRequest);
 
-      // userRequest is required
-      if (!userRequest || userRequest.trim().length === 0) {
-        return buildResponse(
-          handlerInput,
-          'What task would you like to add?',
-          'Tell me the task you want to add.'
-        );
+      let parsed: ParsedTask;
+
+      if (request.intent.name === 'AMAZON.NoIntent' || isTaskDialogRequest(request.intent)) {
+        const step = this.continueDialog(handlerInput, timeZone);
+        if (!('parsedName' in step)) {
+          return step;
+        }
+        parsed = step;
+      } else {
+        // "add step X to Y" can be routed here by the "add {userRequest}" sample
+        if (isStepRequest(userRequest, locale)) {
+          console.log('[AddTaskHandler] Step request detected, delegating to AddStepHandler');
+          return new AddStepHandler().addStep(handlerInput, userRequest);
+        }
+
+        // Parse task from natural language using parsing utilities
+        parsed = parseTaskFromUserRequest(userRequest, timeZone, locale);
       }
 
       // Try to use stored database ID first, fallback to search
@@ -83,18 +121,9 @@ export class AddTaskHandler implements RequestHandler {
       }
       
       if (!tasksDbId) {
-        return buildResponse(
-          handlerInput,
-          'I couldn\'t find your Tasks database in Notion. ' +
-          'Please make sure the database exists and is named exactly "Tasks". ' +
-          'You can reconnect your Notion account in the app to set it up again.',
-          'What would you like to do?'
-        );
+        return buildResponse(handlerInput, t(handlerInput, 'addTask.tasksDbMissing'), t(handlerInput, 'common.whatToDo'));
       }
 
-      // Parse task from natural language using parsing utilities
-      const parsed = parseTaskFromUserRequest(userRequest);
-      
       console.log('[AddTaskHandler] Parsed task:', parsed);
 
       // Add task with parsed values
@@ -105,6 +134,7 @@ export class AddTaskHandler implements RequestHandler {
         category: parsed.category,
         dueDateTime: parsed.dueDateTime,
         status: parsed.status,
+        recurrence: parsed.recurrence,
         databaseId: tasksDbId
       });
 
@@ -118,7 +148,10 @@ export class AddTaskHandler implements RequestHandler {
           parsed.priority || 'NORMAL',
           parsed.category || 'PERSONAL',
           parsed.dueDateTime || null,
-          parsed.status || 'TO DO'
+          parsed.status || 'TO DO',
+          parsed.recurrence || null,
+          parsed.steps || [],
+          getTaskMapping(user)
         );
         console.log('[AddTaskHandler] Task added successfully to Notion:', {
           pageId,
@@ -136,47 +169,43 @@ export class AddTaskHandler implements RequestHandler {
         throw notionError; // Re-throw to be caught by outer catch
       }
 
+      await invalidateTaskCache(user);
+
+      // Undoing an add archives the new page
+      await journalAction(user.id, 'add', translate(locale, 'journal.add', { name: parsed.parsedName }), [
+        { type: 'archive', pageId },
+      ]);
+
       // Build confirmation message
-      let confirmation = `Added: ${parsed.parsedName}`;
+      const spokenName = escapeSSML(parsed.parsedName);
+      let confirmation = translate(locale, 'addTask.added', { name: spokenName });
       
       if (parsed.priority === 'HIGH') {
-        confirmation = `Added high priority task: ${parsed.parsedName}`;
+        confirmation = translate(locale, 'addTask.addedHigh', { name: spokenName });
       } else if (parsed.priority === 'LOW') {
-        confirmation = `Added low priority task: ${parsed.parsedName}`;
+        confirmation = translate(locale, 'addTask.addedLow', { name: spokenName });
       }
 
-      if (parsed.dueDateTime) {
-        const dueDateObj = new Date(parsed.dueDateTime);
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        const dueDateOnly = new Date(dueDateObj);
-        dueDateOnly.setHours(0, 0, 0, 0);
-
-        if (dueDateOnly.getTime() === today.getTime()) {
-          confirmation += ', due today';
-        } else if (dueDateOnly.getTime() === today.getTime() + 86400000) {
-          confirmation += ', due tomorrow';
-        } else {
-          confirmation += `, due ${dueDateObj.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
-        }
-        
-        // Add time if specified
-        const hours = dueDateObj.getHours();
-        const minutes = dueDateObj.getMinutes();
-        if (hours !== 0 || minutes !== 0) {
-          const timeStr = dueDateObj.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
-          confirmation += ` at ${timeStr}`;
-        }
-      }
+      confirmation += this.describeDetails(parsed, timeZone, locale) + '.';
 
-      if (parsed.category === 'WORK') {
-        confirmation += ' (work)';
+      // Tasks due at a time of day get an Alexa reminder, once the user allows it
+      if (hasDueTime(parsed.dueDateTime, timeZone)) {
+        const reminder = await scheduleTaskReminder(
+          handlerInput,
+          user.id,
+          { id: pageId, name: parsed.parsedName, dueDateTime: parsed.dueDateTime! },
+          timeZone
+        );
+        if (reminder === 'created') {
+          confirmation += ` ${translate(locale, 'addTask.willRemind')}`;
+        } else if (reminder === 'no_permission') {
+          confirmation += askForReminderPermission(handlerInput);
+        }
       }
 
-      confirmation += '.';
-
-      return buildResponse(handlerInput, confirmation, 'What else would you like to do?');
+      return buildResponse(handlerInput, confirmation, t(handlerInput, 'common.whatElse'));
     } catch (error: any) {
+      clearPendingAddTask(handlerInput);
       console.error('[AddTaskHandler] Error adding task:', error);
       console.error('[AddTaskHandler] Error details:', {
         message: error?.message,
@@ -186,13 +215,95 @@ export class AddTaskHandler implements RequestHandler {
         name: error?.name,
         error: JSON.stringify(error)
       });
-      return buildResponse(
-        handlerInput,
-        'I encountered an error adding your task. Please try again.',
-        'What would you like to do?'
-      );
+      return buildResponse(handlerInput, t(handlerInput, 'addTask.error'), t(handlerInput, 'common.whatToDo'));
     }
   }
+
+  /**
+   * Take the typed-slot dialog one step further. Returns the response asking
+   * for the next slot (or to confirm), or the task once it's complete.
+   */
+  private continueDialog(handlerInput: HandlerInput, timeZone: string): Response | ParsedTask {
+    const request = handlerInput.requestEnvelope.request as any;
+    const dueDateDeclined = request.intent.name === 'AMAZON.NoIntent';
+    const intent: Intent = dueDateDeclined ? getPendingAddTask(handlerInput)! : request.intent;
+    const locale = getLocale(handlerInput);
+    clearPendingAddTask(handlerInput);
+
+    if (intent.confirmationStatus === 'DENIED') {
+      return buildResponse(handlerInput, t(handlerInput, 'addTask.cancelled'), t(handlerInput, 'common.whatElse'));
+    }
+
+    const step = resolveTaskDialog(intent, timeZone, dueDateDeclined, new Date(), locale);
+    console.log('[AddTaskHandler] Dialog step:', {
+      elicit: step.elicit?.slot,
+      needsConfirmation: step.needsConfirmation,
+      confirmationStatus: intent.confirmationStatus
+    });
+
+    if (step.elicit) {
+      const updatedIntent = clearSlot(intent, step.elicit.slot);
+      if (step.elicit.slot === 'dueDate') {
+        storePendingAddTask(handlerInput, updatedIntent);
+      }
+      handlerInput.responseBuilder.addElicitSlotDirective(step.elicit.slot, updatedIntent);
+      return buildResponse(handlerInput, step.elicit.prompt, step.elicit.reprompt);
+    }
+
+    if (step.needsConfirmation && intent.confirmationStatus !== 'CONFIRMED') {
+      handlerInput.responseBuilder.addConfirmIntentDirective(intent);
+      const question = translate(locale, 'addTask.confirm', {
+        name: escapeSSML(step.parsed.parsedName),
+        details: this.describeDetails(step.parsed, timeZone, locale),
+      });
+      return buildResponse(handlerInput, question, question);
+    }
+
+    return step.parsed;
+  }
+
+  /**
+   * The part of the confirmation after the name, e.g.
+   * ", repeating every Monday, due tomorrow at 5:00 PM (work)"
+   */
+  private describeDetails(parsed: ParsedTask, timeZone: string, locale: string): string {
+    let details = '';
+
+    if (parsed.recurrence) {
+      details += translate(locale, 'addTask.repeating', { rule: describeRecurrence(parsed.recurrence, locale) });
+    }
+
+    if (parsed.steps && parsed.steps.length > 0) {
+      details += translate(locale, 'addTask.withSteps', { count: parsed.steps.length });
+    }
+
+    if (parsed.dueDateTime) {
+      const now = new Date();
+      const dueDay = getDueDay(parsed.dueDateTime, timeZone);
+
+      if (dueDay === toDateString(now, timeZone)) {
+        details += translate(locale, 'addTask.dueToday');
+      } else if (dueDay === toDateString(getDayRange(now, timeZone, 1).start, timeZone)) {
+        details += translate(locale, 'addTask.dueTomorrow');
+      } else {
+        details += translate(locale, 'addTask.dueOn', {
+          date: formatDueDate(parsed.dueDateTime, timeZone, undefined, locale),
+        });
+      }
+      
+      // Add time if specified
+      const timeStr = formatDueTime(parsed.dueDateTime, timeZone, locale);
+      if (timeStr) {
+        details += translate(locale, 'addTask.atTime', { time: timeStr });
+      }
+    }
+
+    if (parsed.category === 'WORK') {
+      details += translate(locale, 'addTask.work');
+    }
+
+    return details;
+  }
 }
 
 
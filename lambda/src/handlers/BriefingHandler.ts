@@ -0,0 +1,98 @@
+import { RequestHandler, HandlerInput } from 'ask-sdk-core';
+import { buildResponse, buildSimpleResponse } from '../utils/alexa';
+import { findDatabaseByName } from '../utils/notion';
+import { getTaskMapping } from '../utils/schema';
+import { getTimeZone } from '../utils/timezone';
+import { getBriefingSettings, getDailyBriefing } from '../utils/briefing';
+import { speakBriefing } from '../utils/speech';
+import { getLocale, t } from '../utils/i18n';
+import { requireScope } from '../utils/scopes';
+
+/**
+ * "What's my day look like": overdue, today's and tomorrow's tasks and the
+ * next deadline in one rundown. One-shot requests (including Alexa Routines)
+ * end the session afterwards so the routine can carry on.
+ */
+export class BriefingHandler implements RequestHandler {
+  canHandle(handlerInput: HandlerInput): boolean {
+    const isIntentRequest = handlerInput.requestEnvelope.request.type === 'IntentRequest';
+    const intentName = isIntentRequest
+      ? (handlerInput.requestEnvelope.request as any).intent?.name
+      : null;
+
+    const canHandle = isIntentRequest && intentName === 'BriefingIntent';
+
+    if (isIntentRequest) {
+      console.log('[BriefingHandler] canHandle check:', {
+        isIntentRequest,
+        intentName,
+        canHandle
+      });
+    }
+
+    return canHandle;
+  }
+
+  async handle(handlerInput: HandlerInput) {
+    console.log('[BriefingHandler] Handler invoked');
+    const attributes = handlerInput.attributesManager.getSessionAttributes();
+    const user = attributes.user;
+    const notionClient = attributes.notionClient;
+
+    if (!user || !notionClient) {
+      return buildResponse(
+        handlerInput,
+        t(handlerInput, 'briefing.notConnected'),
+        t(handlerInput, 'common.whatToDo')
+      );
+    }
+
+    const denied = requireScope(handlerInput, 'tasks:read');
+    if (denied) {
+      return denied;
+    }
+
+    try {
+      const tasksDbId = user.tasks_db_id || await findDatabaseByName(notionClient, 'Tasks');
+      if (!tasksDbId) {
+        return buildResponse(
+          handlerInput,
+          t(handlerInput, 'common.tasksDbMissing'),
+          t(handlerInput, 'common.whatToDo')
+        );
+      }
+
+      const settings = getBriefingSettings(user);
+      const timeZone = getTimeZone(user);
+      const briefing = await getDailyBriefing(notionClient, tasksDbId, settings, getTaskMapping(user), timeZone);
+
+      console.log('[BriefingHandler] Briefing:', {
+        overdue: briefing.overdue.length,
+        today: briefing.today.length,
+        tomorrow: briefing.tomorrow.length,
+        hasNextDeadline: !!briefing.nextDeadline
+      });
+
+      const speech = speakBriefing(briefing, settings, timeZone, new Date(), getLocale(handlerInput));
+
+      if (handlerInput.requestEnvelope.session?.new) {
+        return buildSimpleResponse(handlerInput, speech);
+      }
+      const whatToDo = t(handlerInput, 'common.whatToDo');
+      return buildResponse(handlerInput, `${speech} ${whatToDo}`, whatToDo);
+    } catch (error: any) {
+      console.error('[BriefingHandler] Error:', error);
+      console.error('[BriefingHandler] Error details:', {
+        message: error?.message,
+        status: error?.status,
+        code: error?.code,
+        stack: error?.stack
+      });
+      return buildResponse(
+        handlerInput,
+        t(handlerInput, 'briefing.error'),
+        t(handlerInput, 'common.whatToDo')
+      );
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { RequestHandler, HandlerInput } from 'ask-sdk-core';
+import { buildResponse } from '../utils/alexa';
+import { getPendingBulkDelete, clearPendingBulkDelete } from '../utils/confirmation';
+import { t } from '../utils/i18n';
+import { DeleteTaskHandler } from './DeleteTaskHandler';
+
+/**
+ * Handles the "yes" / "no" answer to "This will delete N tasks... Are you sure?"
+ * Only active while a bulk delete is waiting for confirmation.
+ */
+export class BulkDeleteConfirmationHandler implements RequestHandler {
+  canHandle(handlerInput: HandlerInput): boolean {
+    const isIntentRequest = handlerInput.requestEnvelope.request.type === 'IntentRequest';
+    const intentName = isIntentRequest
+      ? (handlerInput.requestEnvelope.request as any).intent?.name
+      : null;
+
+    const canHandle = isIntentRequest &&
+      (intentName === 'AMAZON.YesIntent' || intentName === 'AMAZON.NoIntent') &&
+      !!getPendingBulkDelete(handlerInput);
+
+    if (isIntentRequest) {
+      console.log('[BulkDeleteConfirmationHandler] canHandle check:', {
+        isIntentRequest,
+        intentName,
+        canHandle
+      });
+    }
+
+    return canHandle;
+  }
+
+  async handle(handlerInput: HandlerInput) {
+    console.log('[BulkDeleteConfirmationHandler] Handler invoked');
+    const attributes = handlerInput.attributesManager.getSessionAttributes();
+    const notionClient = attributes.notionClient;
+    const pending = getPendingBulkDelete(handlerInput)!;
+    const intentName = (handlerInput.requestEnvelope.request as any).intent.name;
+
+    // The pending delete is single-use whatever the answer
+    clearPendingBulkDelete(handlerInput);
+
+    if (intentName !== 'AMAZON.YesIntent') {
+      return buildResponse(handlerInput, t(handlerInput, 'bulkDelete.cancelled'), t(handlerInput, 'common.whatElse'));
+    }
+
+    if (!attributes.user || !notionClient) {
+      return buildResponse(handlerInput, t(handlerInput, 'common.notConnected'), t(handlerInput, 'common.whatToDo'));
+    }
+
+    try {
+      console.log('[BulkDeleteConfirmationHandler] Confirmed bulk delete:', { count: pending.tasks.length });
+      return await new DeleteTaskHandler().deleteTasks(
+        handlerInput,
+        notionClient,
+        pending.tasksDbId,
+        pending.description,
+        pending.tasks
+      );
+    } catch (error: any) {
+      console.error('[BulkDeleteConfirmationHandler] Error deleting tasks:', error);
+      console.error('[BulkDeleteConfirmationHandler] Error details:', {
+        message: error?.message,
+        status: error?.status,
+        code: error?.code,
+        stack: error?.stack
+      });
+      return buildResponse(handlerInput, t(handlerInput, 'bulkDelete.error'), t(handlerInput, 'common.whatToDo'));
+    }
+  }
+}
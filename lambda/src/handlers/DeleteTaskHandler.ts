@@ -1,13 +1,24 @@
 import { RequestHandler, HandlerInput } from 'ask-sdk-core';
-import { buildResponse, cleanTaskName, findMatchingTask } from '../utils/alexa';
+import { Client } from '@notionhq/client';
+import { buildResponse, cleanTaskName, rankMatchingTasks, getAmbiguousCandidates } from '../utils/alexa';
+import { buildDisambiguationPrompt, storePendingDisambiguation, clearPendingDisambiguation } from '../utils/disambiguation';
+import { getBulkDeleteThreshold, storePendingBulkDelete, buildBulkDeletePrompt } from '../utils/confirmation';
 import {
   findDatabaseByName,
-  getAllTasks,
   getCompletedTasksForDeletion,
   deleteTask,
   deleteTasksBatch,
-  deleteCompletedTasks,
 } from '../utils/notion';
+import { journalAction } from '../utils/journal';
+import { escapeSSML } from '../utils/speech';
+import { getOpenTasks, invalidateTaskCache } from '../utils/taskCache';
+import { cancelTaskReminder } from '../utils/reminders';
+import { findTaskByEntity } from '../utils/entities';
+import { getTaskMapping } from '../utils/schema';
+import { mentionsCompletedTasks } from '../utils/parsing';
+import { getLocale, t, translate } from '../utils/i18n';
+import { requireScope } from '../utils/scopes';
+import { NotionTask } from '../types';
 
 export class DeleteTaskHandler implements RequestHandler {
   canHandle(handlerInput: HandlerInput): boolean {
@@ -41,63 +52,66 @@ export class DeleteTaskHandler implements RequestHandler {
     });
 
     if (!user || !notionClient) {
-      return buildResponse(
-        handlerInput,
-        'To delete tasks, you need to connect your Notion account. ' +
-        'Open the Alexa app, go to Skills, find Voice Planner, and click Link Account. ' +
-        'Once connected, you can delete tasks from your Notion workspace.',
-        'What would you like to do?'
-      );
+      return buildResponse(handlerInput, t(handlerInput, 'deleteTask.notConnected'), t(handlerInput, 'common.whatToDo'));
+    }
+
+    const denied = requireScope(handlerInput, 'tasks:delete');
+    if (denied) {
+      return denied;
     }
 
     try {
       const request = handlerInput.requestEnvelope.request as any;
       const slots = request.intent.slots || {};
+      const locale = getLocale(handlerInput);
       
-      // Extract userRequest from AMAZON.SearchQuery slot
-      const userRequest = slots.userRequest?.value;
+      // Extract userRequest from AMAZON.SearchQuery slot, or the task slot
+      const userRequest = slots.userRequest?.value || slots.task?.value;
       
       console.log('[DeleteTaskHandler] userRequest:', userRequest);
       
       if (!userRequest || userRequest.trim().length === 0) {
-        return buildResponse(
-          handlerInput,
-          'What task would you like to delete?',
-          'Tell me which task to delete.'
-        );
+        return buildResponse(handlerInput, t(handlerInput, 'deleteTask.prompt'), t(handlerInput, 'deleteTask.reprompt'));
       }
       
       const taskSlot = userRequest;
 
-      const tasksDbId = await findDatabaseByName(notionClient, 'Tasks');
+      // The property mapping belongs to the stored database, so prefer it over search
+      const tasksDbId = user.tasks_db_id || await findDatabaseByName(notionClient, 'Tasks');
       if (!tasksDbId) {
-        return buildResponse(
-          handlerInput,
-          'I couldn\'t find your Tasks database in Notion. Please make sure it exists and try again.',
-          'What would you like to do?'
-        );
+        return buildResponse(handlerInput, t(handlerInput, 'common.tasksDbMissing'), t(handlerInput, 'common.whatToDo'));
       }
 
+      const mapping = getTaskMapping(user);
+
       // Check for batch operations
-      const taskValue = taskSlot?.toLowerCase() || '';
-      
-      if (taskValue.includes('completed') || taskValue.includes('done')) {
+      if (!slots.task?.value && mentionsCompletedTasks(taskSlot, locale)) {
         // Delete all completed tasks
-        const deletedCount = await deleteCompletedTasks(notionClient, tasksDbId);
+        const completedTasks = await getCompletedTasksForDeletion(notionClient, tasksDbId, mapping);
         
-        if (deletedCount === 0) {
+        if (completedTasks.length === 0) {
+          return buildResponse(handlerInput, t(handlerInput, 'deleteTask.noCompleted'), t(handlerInput, 'common.whatElse'));
+        }
+
+        const description = translate(locale, 'deleteTask.completedTasks', { count: completedTasks.length });
+
+        // Bulk deletes only run after an explicit "yes"
+        if (completedTasks.length >= getBulkDeleteThreshold(user)) {
+          console.log('[DeleteTaskHandler] Asking to confirm bulk delete:', { count: completedTasks.length });
+          clearPendingDisambiguation(handlerInput);
+          storePendingBulkDelete(handlerInput, {
+            tasksDbId,
+            description,
+            tasks: completedTasks.map(task => ({ id: task.id, name: task.name, status: task.status })),
+          });
           return buildResponse(
             handlerInput,
-            'You have no completed tasks to delete.',
-            'What else would you like to do?'
+            buildBulkDeletePrompt(description, completedTasks, locale),
+            t(handlerInput, 'bulkDelete.reprompt')
           );
         }
 
-        return buildResponse(
-          handlerInput,
-          `Deleted all completed tasks.`,
-          'What else would you like to do?'
-        );
+        return await this.deleteTasks(handlerInput, notionClient, tasksDbId, description, completedTasks);
       }
 
       // Clean up the task name by removing command words
@@ -107,38 +121,109 @@ export class DeleteTaskHandler implements RequestHandler {
 
       console.log('[DeleteTaskHandler] Searching for task:', cleanedTaskName);
       
-      const allTasks = await getAllTasks(notionClient, tasksDbId);
+      const allTasks = await getOpenTasks(handlerInput, notionClient, user, tasksDbId);
       console.log('[DeleteTaskHandler] Found tasks:', allTasks.length);
       console.log('[DeleteTaskHandler] Task names:', allTasks.map(t => t.name));
 
+      // A name Alexa resolved to one of the session's task names needs no guessing
+      const entityMatch = findTaskByEntity(request.intent, 'task', allTasks);
+      if (entityMatch) {
+        console.log('[DeleteTaskHandler] Resolved task by entity:', { taskId: entityMatch.id });
+        return await this.deleteMatchedTask(handlerInput, notionClient, entityMatch);
+      }
+
       // Hybrid matching: exact -> word token -> substring
-      const matchingTask = findMatchingTask(cleanedTaskName, allTasks);
+      const ranked = rankMatchingTasks(cleanedTaskName, allTasks);
 
-      console.log('[DeleteTaskHandler] Matching task:', matchingTask ? matchingTask.name : 'none found');
+      console.log('[DeleteTaskHandler] Matching task:', ranked.length > 0 ? ranked[0].task.name : 'none found');
 
-      if (!matchingTask) {
+      if (ranked.length === 0) {
         return buildResponse(
           handlerInput,
-          `I couldn't find "${cleanedTaskName}" in your tasks. Please try saying the full task name.`,
-          'What else would you like to do?'
+          t(handlerInput, 'common.taskNotFound', { name: escapeSSML(cleanedTaskName) }),
+          t(handlerInput, 'common.whatElse')
         );
       }
 
-      await deleteTask(notionClient, matchingTask.id);
+      // Never guess which task to delete - ask when several match equally well
+      const candidates = getAmbiguousCandidates(ranked);
+      if (candidates.length > 0) {
+        console.log('[DeleteTaskHandler] Ambiguous match:', candidates.map(c => ({ name: c.task.name, score: c.score })));
+        storePendingDisambiguation(handlerInput, {
+          action: 'delete',
+          userRequest,
+          candidates: candidates.map(c => c.task),
+        });
+        const prompt = buildDisambiguationPrompt(candidates.map(c => c.task), locale);
+        return buildResponse(handlerInput, prompt, prompt);
+      }
 
-      return buildResponse(
-        handlerInput,
-        `Deleted: ${matchingTask.name} from your list.`,
-        'What else would you like to do?'
-      );
+      return await this.deleteMatchedTask(handlerInput, notionClient, ranked[0].task);
     } catch (error) {
       console.error('Error deleting task:', error);
-      return buildResponse(
-        handlerInput,
-        'I encountered an error deleting your task. Please try again.',
-        'What would you like to do?'
-      );
+      return buildResponse(handlerInput, t(handlerInput, 'deleteTask.error'), t(handlerInput, 'common.whatToDo'));
     }
   }
-}
 
+  /**
+   * Deletes several tasks at once as a single undoable action. Also used
+   * once the user confirms a bulk delete.
+   */
+  async deleteTasks(
+    handlerInput: HandlerInput,
+    notionClient: Client,
+    tasksDbId: string,
+    description: string,
+    tasks: Pick<NotionTask, 'id' | 'name' | 'status'>[]
+  ) {
+    const denied = requireScope(handlerInput, 'tasks:delete');
+    if (denied) {
+      return denied;
+    }
+
+    const user = handlerInput.attributesManager.getSessionAttributes().user;
+    await deleteTasksBatch(notionClient, tasksDbId, tasks.map(task => task.id), getTaskMapping(user));
+    await invalidateTaskCache(user);
+    await Promise.all(tasks.map(task => cancelTaskReminder(handlerInput, user?.id, task.id)));
+
+    await journalAction(
+      user?.id,
+      'delete',
+      t(handlerInput, 'journal.deleteMany', { description }),
+      tasks.map(task => ({ type: 'unarchive', pageId: task.id }))
+    );
+
+    return buildResponse(
+      handlerInput,
+      t(handlerInput, 'deleteTask.deletedMany', { description }),
+      t(handlerInput, 'common.whatElse')
+    );
+  }
+
+  /**
+   * Deletes an already identified task. Also used to finish a delete after
+   * disambiguation and by list actions, so it checks the scope itself.
+   */
+  async deleteMatchedTask(handlerInput: HandlerInput, notionClient: Client, task: NotionTask) {
+    const denied = requireScope(handlerInput, 'tasks:delete');
+    if (denied) {
+      return denied;
+    }
+
+    const user = handlerInput.attributesManager.getSessionAttributes().user;
+    await deleteTask(notionClient, task.id, true, getTaskMapping(user));
+    await invalidateTaskCache(user);
+    await cancelTaskReminder(handlerInput, user?.id, task.id);
+
+    // The page is archived, so undo brings it back as it was
+    await journalAction(user?.id, 'delete', t(handlerInput, 'journal.delete', { name: task.name }), [
+      { type: 'unarchive', pageId: task.id },
+    ]);
+
+    return buildResponse(
+      handlerInput,
+      t(handlerInput, 'deleteTask.deleted', { name: escapeSSML(task.name) }),
+      t(handlerInput, 'common.whatElse')
+    );
+  }
+}
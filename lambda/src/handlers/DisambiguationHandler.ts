@@ -0,0 +1,99 @@
+import { RequestHandler, HandlerInput } from 'ask-sdk-core';
+import { buildResponse } from '../utils/alexa';
+import {
+  getPendingDisambiguation,
+  clearPendingDisambiguation,
+  resolveDisambiguationAnswer,
+  buildDisambiguationPrompt,
+} from '../utils/disambiguation';
+import { findTaskByEntity } from '../utils/entities';
+import { getLocale, t } from '../utils/i18n';
+import { UpdateTaskHandler } from './UpdateTaskHandler';
+import { DeleteTaskHandler } from './DeleteTaskHandler';
+
+/**
+ * Handles the answer to "Did you mean X or Y?" after an update or delete
+ * matched several tasks, and finishes the original action on the chosen one.
+ */
+export class DisambiguationHandler implements RequestHandler {
+  canHandle(handlerInput: HandlerInput): boolean {
+    const isIntentRequest = handlerInput.requestEnvelope.request.type === 'IntentRequest';
+    const intentName = isIntentRequest
+      ? (handlerInput.requestEnvelope.request as any).intent?.name
+      : null;
+
+    const canHandle = isIntentRequest && (
+      intentName === 'SelectTaskIntent' ||
+      (intentName === 'AMAZON.NoIntent' && !!getPendingDisambiguation(handlerInput))
+    );
+
+    if (isIntentRequest) {
+      console.log('[DisambiguationHandler] canHandle check:', {
+        isIntentRequest,
+        intentName,
+        canHandle
+      });
+    }
+
+    return canHandle;
+  }
+
+  async handle(handlerInput: HandlerInput) {
+    console.log('[DisambiguationHandler] Handler invoked');
+    const attributes = handlerInput.attributesManager.getSessionAttributes();
+    const user = attributes.user;
+    const notionClient = attributes.notionClient;
+    const pending = getPendingDisambiguation(handlerInput);
+
+    if (!pending) {
+      return buildResponse(handlerInput, t(handlerInput, 'disambiguation.noPending'), t(handlerInput, 'common.whatToDo'));
+    }
+
+    const request = handlerInput.requestEnvelope.request as any;
+    if (request.intent.name === 'AMAZON.NoIntent') {
+      clearPendingDisambiguation(handlerInput);
+      return buildResponse(handlerInput, t(handlerInput, 'disambiguation.cancelled'), t(handlerInput, 'common.whatToDo'));
+    }
+
+    if (!user || !notionClient) {
+      clearPendingDisambiguation(handlerInput);
+      return buildResponse(handlerInput, t(handlerInput, 'common.notConnected'), t(handlerInput, 'common.whatToDo'));
+    }
+
+    try {
+      const slots = request.intent.slots || {};
+      const answer = slots.taskChoice?.value;
+      const ordinal = slots.ordinal?.value;
+
+      console.log('[DisambiguationHandler] Answer:', { answer, ordinal, action: pending.action });
+
+      // Prefer the page a task name resolved to over matching the words
+      const chosen = findTaskByEntity(request.intent, 'taskChoice', pending.candidates) ||
+        resolveDisambiguationAnswer(pending.candidates, answer, ordinal);
+
+      if (!chosen) {
+        // Keep the pending choice so the user can answer again
+        const prompt = buildDisambiguationPrompt(pending.candidates, getLocale(handlerInput));
+        return buildResponse(handlerInput, t(handlerInput, 'disambiguation.notCaught', { prompt }), prompt);
+      }
+
+      clearPendingDisambiguation(handlerInput);
+      console.log('[DisambiguationHandler] Resolved to task:', { taskId: chosen.id, taskName: chosen.name });
+
+      if (pending.action === 'delete') {
+        return await new DeleteTaskHandler().deleteMatchedTask(handlerInput, notionClient, chosen);
+      }
+      return await new UpdateTaskHandler().applyUpdate(handlerInput, notionClient, chosen, pending.userRequest);
+    } catch (error: any) {
+      console.error('[DisambiguationHandler] Error completing action:', error);
+      console.error('[DisambiguationHandler] Error details:', {
+        message: error?.message,
+        status: error?.status,
+        code: error?.code,
+        stack: error?.stack
+      });
+      clearPendingDisambiguation(handlerInput);
+      return buildResponse(handlerInput, t(handlerInput, 'updateTask.error'), t(handlerInput, 'common.whatToDo'));
+    }
+  }
+}
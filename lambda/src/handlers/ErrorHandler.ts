@@ -1,5 +1,6 @@
 import { ErrorHandler as AskErrorHandler, HandlerInput } from 'ask-sdk-core';
 import { buildSimpleResponse } from '../utils/alexa';
+import { t } from '../utils/i18n';
 
 export class ErrorHandler implements AskErrorHandler {
   canHandle(handlerInput: HandlerInput): boolean {
@@ -23,46 +24,29 @@ export class ErrorHandler implements AskErrorHandler {
     // Handle specific error types
     if (error?.name === 'AskSdk.RequestEnvelopeError') {
       console.error('[ErrorHandler] Request envelope error');
-      return buildSimpleResponse(
-        handlerInput,
-        'I encountered an error processing your request. Please try again.'
-      );
+      return buildSimpleResponse(handlerInput, t(handlerInput, 'error.request'));
     }
 
     if (error?.message === 'Invalid license' || error?.message?.includes('license')) {
       console.error('[ErrorHandler] License validation error');
-      return buildSimpleResponse(
-        handlerInput,
-        'Your license key is invalid. Please contact support.'
-      );
+      return buildSimpleResponse(handlerInput, t(handlerInput, 'error.license'));
     }
 
     if (error?.message === 'User not found' || error?.message === 'Missing user ID') {
       console.error('[ErrorHandler] User authentication error');
-      return buildSimpleResponse(
-        handlerInput,
-        'Please link your account in the Alexa app to use this skill.'
-      );
+      return buildSimpleResponse(handlerInput, t(handlerInput, 'error.linkAccount'));
     }
 
     // Check if this is an unhandled intent (no handler matched)
     if (requestType === 'IntentRequest' && !error) {
       const intentName = (request as any).intent?.name;
       console.error('[ErrorHandler] Unhandled intent:', intentName);
-      return buildSimpleResponse(
-        handlerInput,
-        'I\'m not sure how to help with that. ' +
-        'You can add tasks, list tasks, mark them complete, update them, or delete them. ' +
-        'What would you like to do?'
-      );
+      return buildSimpleResponse(handlerInput, t(handlerInput, 'error.unhandledIntent'));
     }
 
     // Generic error response
     console.error('[ErrorHandler] Generic error, returning default message');
-    return buildSimpleResponse(
-      handlerInput,
-      'Sorry, I encountered an error. Please try again later.'
-    );
+    return buildSimpleResponse(handlerInput, t(handlerInput, 'error.generic'));
   }
 }
 
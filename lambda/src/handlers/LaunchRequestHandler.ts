@@ -4,9 +4,40 @@ import {
   RequestInterceptor,
 } from 'ask-sdk-core';
 import { Request } from 'ask-sdk-model';
-import { getUserByAmazonId } from '../utils/database';
+import { Client } from '@notionhq/client';
+import { getUserByAmazonId, toSessionUser } from '../utils/database';
 // import { validateLicense } from '../utils/database'; // Disabled for MVP
 import { buildSimpleResponse, buildResponse, buildLinkAccountResponse } from '../utils/alexa';
+import { queryTasks } from '../utils/notion';
+import { getTaskMapping, openStatusFilter, combineFilters } from '../utils/schema';
+import { getTimeZone } from '../utils/timezone';
+import { speakSummary } from '../utils/speech';
+import { addTaskEntities } from '../utils/entities';
+import { getLocale, t } from '../utils/i18n';
+import { User } from '../types';
+
+/**
+ * Summary of the user's open tasks for the welcome message, or null if it
+ * can't be read - the welcome shouldn't fail because Notion is slow.
+ * The same tasks are sent to Alexa as this session's task names.
+ */
+async function getLaunchSummary(handlerInput: HandlerInput, user: User, notionClient?: Client): Promise<string | null> {
+  if (!user.tasks_db_id || !notionClient) {
+    return null;
+  }
+
+  try {
+    const mapping = getTaskMapping(user);
+    const tasks = await queryTasks(notionClient, user.tasks_db_id, {
+      filter: combineFilters([openStatusFilter(mapping)]),
+    }, mapping);
+    addTaskEntities(handlerInput, tasks);
+    return speakSummary(tasks, getTimeZone(user), new Date(), getLocale(handlerInput));
+  } catch (error: any) {
+    console.warn('[LaunchRequestHandler] Could not read task summary:', error?.message);
+    return null;
+  }
+}
 
 export class LaunchRequestHandler implements RequestHandler {
   canHandle(handlerInput: HandlerInput): boolean {
@@ -56,7 +87,7 @@ export class LaunchRequestHandler implements RequestHandler {
           
           if (user) {
             // Store user in session for backward compatibility
-            attributes.user = user;
+            attributes.user = toSessionUser(user);
             if (user.notion_token) {
               const { createNotionClient } = await import('../utils/notion');
               attributes.notionClient = createNotionClient(user.notion_token);
@@ -79,8 +110,7 @@ export class LaunchRequestHandler implements RequestHandler {
       
       console.log('[LaunchRequestHandler] User lookup result:', {
         found: !!user,
-        hasNotionToken: !!user?.notion_token,
-        notionTokenLength: user?.notion_token?.length || 0,
+        hasNotionClient: !!attributes.notionClient,
         email: user?.email
       });
       
@@ -110,41 +140,39 @@ export class LaunchRequestHandler implements RequestHandler {
 
       // License validation disabled for MVP - focus on CRUD operations only
 
-      // Check if Notion is connected
-      if (!user.notion_token) {
-        console.log('[LaunchRequestHandler] No notion_token found - returning link account response');
+      // Check if Notion is connected (a Notion client was created from the user's token)
+      if (!attributes.notionClient) {
+        console.log('[LaunchRequestHandler] No Notion client - returning link account response');
         try {
           const response = buildResponse(
             handlerInput,
-            'To use Voice Planner, you need to connect your Notion account. ' +
-            'Open the Alexa app, go to Skills, find Voice Planner, and click Link Account. ' +
-            'Once connected, I can help you manage your tasks in Notion. ' +
-            'Would you like help connecting your account?',
-            'Would you like help connecting your account?'
+            t(handlerInput, 'launch.notionRequired'),
+            t(handlerInput, 'launch.notionRequiredReprompt')
           );
           console.log('[LaunchRequestHandler] Returning Notion connection required response');
           return response;
         } catch (buildError: any) {
           console.error('[LaunchRequestHandler] Error building Notion response:', buildError);
           return handlerInput.responseBuilder
-            .speak('Please connect your Notion account in the Alexa app.')
+            .speak(t(handlerInput, 'launch.notionRequiredFallback'))
             .withShouldEndSession(true)
             .getResponse();
         }
       }
       
-      console.log('[LaunchRequestHandler] User has notion_token - proceeding with welcome message');
+      console.log('[LaunchRequestHandler] User has a Notion client - proceeding with welcome message');
 
       // Store user in session (attributes already declared above)
-      attributes.user = user;
+      attributes.user = toSessionUser(user);
       handlerInput.attributesManager.setSessionAttributes(attributes);
 
+      // A quick overview of open tasks, e.g. "Three are due today, two are overdue"
+      const summary = await getLaunchSummary(handlerInput, user, attributes.notionClient);
+
       const response = buildResponse(
         handlerInput,
-        'Welcome to Voice Planner! I can help you manage your tasks. ' +
-        'You can add tasks, list your tasks, mark them complete, update their status, or delete them. ' +
-        'You can also check your connection status. What would you like to do?',
-        'What would you like to do?'
+        `${t(handlerInput, 'launch.welcome')} ` + (summary ? `${summary} ` : '') + t(handlerInput, 'launch.intro'),
+        t(handlerInput, 'common.whatToDo')
       );
       
       console.log('[LaunchRequestHandler] Returning welcome response');
@@ -160,9 +188,8 @@ export class LaunchRequestHandler implements RequestHandler {
       try {
         const errorResponse = buildResponse(
           handlerInput,
-          'Welcome to Voice Planner! I encountered an issue connecting to your account. ' +
-          'Please try again in a moment, or open the Alexa app to check your account settings.',
-          'What would you like to do?'
+          t(handlerInput, 'launch.error'),
+          t(handlerInput, 'common.whatToDo')
         );
         console.log('[LaunchRequestHandler] Returning error response');
         return errorResponse;
@@ -170,7 +197,7 @@ export class LaunchRequestHandler implements RequestHandler {
         console.error('[LaunchRequestHandler] Failed to build error response:', responseError);
         // Last resort - return a simple response
         return handlerInput.responseBuilder
-          .speak('Welcome to Voice Planner. Please try again later.')
+          .speak(t(handlerInput, 'launch.errorFallback'))
           .withShouldEndSession(true)
           .getResponse();
       }
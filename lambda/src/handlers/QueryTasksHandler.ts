@@ -1,130 +1,56 @@
 import { RequestHandler, HandlerInput } from 'ask-sdk-core';
-import { buildResponse } from '../utils/alexa';
-import { findDatabaseByName, mapPageToTask } from '../utils/notion';
-import { parseQueryFromUserRequest } from '../utils/parsing';
-import { Client } from '@notionhq/client';
-import { NotionTask } from '../types';
+import { buildResponse, findMatchingTask } from '../utils/alexa';
+import { findDatabaseByName, getTaskSteps, getStepProgress, queryTasks } from '../utils/notion';
+import { parseQueryFromUserRequest, parseStepsQuery } from '../utils/parsing';
+import { getTaskMapping, buildSorts } from '../utils/schema';
+import { getTimeZone } from '../utils/timezone';
+import { getOpenTasks } from '../utils/taskCache';
+import { PAGE_SIZE, storeTaskList } from '../utils/tasklist';
+import { escapeSSML, speakTaskList } from '../utils/speech';
+import { renderTaskList, renderTaskDetail } from '../utils/apl';
+import { getLocale, t, translate, joinList } from '../utils/i18n';
+import { requireScope } from '../utils/scopes';
+import { NotionTask, TaskStep } from '../types';
 
-const MAX_RETRIES = 3;
-const RETRY_DELAY = 1000;
-
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
-async function withRetry<T>(
-  fn: () => Promise<T>,
-  retries: number = MAX_RETRIES
-): Promise<T> {
-  try {
-    return await fn();
-  } catch (error: any) {
-    if (retries > 0 && (error.status === 429 || error.status >= 500)) {
-      await sleep(RETRY_DELAY);
-      return withRetry(fn, retries - 1);
-    }
-    throw error;
-  }
+/**
+ * Notion can't search text inside a database query, so keywords are matched
+ * against the fetched tasks
+ */
+function matchesKeyword(task: NotionTask, keyword: string): boolean {
+  const keywordLower = keyword.toLowerCase();
+  return task.name.toLowerCase().includes(keywordLower) ||
+    task.parsedName.toLowerCase().includes(keywordLower) ||
+    (!!task.notes && task.notes.toLowerCase().includes(keywordLower));
 }
 
 /**
- * Query tasks from Notion database with filters
+ * Screen title for a query, e.g. "what's due this week" -> "What's due this week"
  */
-async function queryTasks(
-  client: Client,
-  databaseId: string,
-  filter: any,
-  keyword?: string
-): Promise<NotionTask[]> {
-  try {
-    let queryFilter = filter;
-    
-    // If keyword is provided, add text search filter
-    if (keyword) {
-      // Notion doesn't support full-text search in database queries
-      // We'll need to filter results after fetching
-      // For now, we'll use the filter and then filter by keyword in memory
-    }
-    
-    const response = await withRetry(() =>
-      client.databases.query({
-        database_id: databaseId,
-        filter: Object.keys(queryFilter).length > 0 ? queryFilter : undefined,
-        sorts: [
-          { property: 'Due Date Time', direction: 'ascending' },
-          { property: 'Priority', direction: 'descending' },
-        ],
-      })
-    );
-
-    let tasks = response.results.map(mapPageToTask);
-    
-    // Filter by keyword if provided
-    if (keyword) {
-      const keywordLower = keyword.toLowerCase();
-      tasks = tasks.filter(task => 
-        task.name.toLowerCase().includes(keywordLower) ||
-        task.parsedName.toLowerCase().includes(keywordLower) ||
-        (task.notes && task.notes.toLowerCase().includes(keywordLower))
-      );
-    }
-    
-    return tasks;
-  } catch (error) {
-    console.error('[QueryTasksHandler] Error querying tasks:', error);
-    return [];
-  }
+function describeQuery(userRequest: string): string {
+  const title = userRequest.trim().replace(/\?$/, '');
+  return title.charAt(0).toUpperCase() + title.slice(1);
 }
 
 /**
- * Format task list for speech response
+ * Format a task's remaining steps for speech
  */
-function formatTaskList(tasks: NotionTask[]): string {
-  if (tasks.length === 0) {
-    return 'You have no tasks matching that criteria.';
-  }
-  
-  if (tasks.length === 1) {
-    const task = tasks[0];
-    let response = task.parsedName || task.name;
-    if (task.dueDateTime) {
-      const dueDate = new Date(task.dueDateTime);
-      const dateStr = dueDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-      const hours = dueDate.getHours();
-      const minutes = dueDate.getMinutes();
-      if (hours !== 0 || minutes !== 0) {
-        const timeStr = dueDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
-        response += `, due ${dateStr} at ${timeStr}`;
-      } else {
-        response += `, due ${dateStr}`;
-      }
-    }
-    if (task.priority === 'HIGH') {
-      response += ' (high priority)';
-    }
-    return response;
+function formatRemainingSteps(task: NotionTask, steps: TaskStep[], locale: string): string {
+  const name = escapeSSML(task.parsedName || task.name);
+  if (steps.length === 0) {
+    return translate(locale, 'steps.none', { name });
   }
-  
-  // Limit to 10 tasks for speech
-  const displayTasks = tasks.slice(0, 10);
-  const taskList = displayTasks.map((task, index) => {
-    let taskStr = `${index + 1}. ${task.parsedName || task.name}`;
-    if (task.dueDateTime) {
-      const dueDate = new Date(task.dueDateTime);
-      const dateStr = dueDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-      taskStr += `, due ${dateStr}`;
-    }
-    if (task.priority === 'HIGH') {
-      taskStr += ' (high priority)';
-    }
-    return taskStr;
-  }).join('. ');
-  
-  if (tasks.length > 10) {
-    return `You have ${tasks.length} tasks. Here are the first 10: ${taskList}.`;
+
+  const remaining = steps.filter(step => !step.checked).map(step => escapeSSML(step.text));
+  if (remaining.length === 0) {
+    return translate(locale, 'steps.allDone', { name, count: steps.length });
   }
-  
-  return `You have ${tasks.length} tasks: ${taskList}.`;
+
+  return translate(locale, 'steps.remaining', {
+    name,
+    remaining: remaining.length,
+    total: steps.length,
+    list: joinList(remaining, locale),
+  });
 }
 
 export class QueryTasksHandler implements RequestHandler {
@@ -160,18 +86,18 @@ export class QueryTasksHandler implements RequestHandler {
     });
 
     if (!user || !notionClient) {
-      return buildResponse(
-        handlerInput,
-        'To view your tasks, you need to connect your Notion account. ' +
-        'Open the Alexa app, go to Skills, find Voice Planner, and click Link Account. ' +
-        'Once connected, I can show you your tasks from Notion.',
-        'What would you like to do?'
-      );
+      return buildResponse(handlerInput, t(handlerInput, 'queryTasks.notConnected'), t(handlerInput, 'common.whatToDo'));
+    }
+
+    const denied = requireScope(handlerInput, 'tasks:read');
+    if (denied) {
+      return denied;
     }
 
     try {
       const request = handlerInput.requestEnvelope.request as any;
       const slots = request.intent.slots || {};
+      const locale = getLocale(handlerInput);
       
       // Extract userRequest from AMAZON.SearchQuery slot
       const userRequest = slots.userRequest?.value;
@@ -179,11 +105,7 @@ export class QueryTasksHandler implements RequestHandler {
       console.log('[QueryTasksHandler] userRequest:', userRequest);
 
       if (!userRequest || userRequest.trim().length === 0) {
-        return buildResponse(
-          handlerInput,
-          'What tasks would you like to see? For example, say "tasks for today" or "high priority tasks".',
-          'What would you like to do?'
-        );
+        return buildResponse(handlerInput, t(handlerInput, 'queryTasks.prompt'), t(handlerInput, 'common.whatToDo'));
       }
 
       // Try to use stored database ID first, fallback to search
@@ -197,15 +119,33 @@ export class QueryTasksHandler implements RequestHandler {
       }
       
       if (!tasksDbId) {
-        return buildResponse(
-          handlerInput,
-          'I couldn\'t find your Tasks database in Notion. Please make sure it exists and try again.',
-          'What would you like to do?'
-        );
+        return buildResponse(handlerInput, t(handlerInput, 'common.tasksDbMissing'), t(handlerInput, 'common.whatToDo'));
+      }
+
+      const mapping = getTaskMapping(user);
+
+      // "steps for pack for trip" reads back one task's remaining steps
+      const stepsTaskName = parseStepsQuery(userRequest, locale);
+      if (stepsTaskName) {
+        const allTasks = await getOpenTasks(handlerInput, notionClient, user, tasksDbId);
+        const task = findMatchingTask(stepsTaskName, allTasks);
+
+        if (!task) {
+          return buildResponse(
+            handlerInput,
+            t(handlerInput, 'common.taskNotFound', { name: escapeSSML(stepsTaskName) }),
+            t(handlerInput, 'common.whatElse')
+          );
+        }
+
+        const steps = await getTaskSteps(notionClient, task.id);
+        console.log('[QueryTasksHandler] Steps for task:', { taskId: task.id, steps: steps.length });
+        return buildResponse(handlerInput, formatRemainingSteps(task, steps, locale), t(handlerInput, 'common.whatElse'));
       }
 
       // Parse query from userRequest
-      const queryFilter = parseQueryFromUserRequest(userRequest);
+      const timeZone = getTimeZone(user);
+      const queryFilter = parseQueryFromUserRequest(userRequest, mapping, timeZone, locale);
       
       console.log('[QueryTasksHandler] Parsed query filter:', {
         type: queryFilter.type,
@@ -213,20 +153,44 @@ export class QueryTasksHandler implements RequestHandler {
         keyword: queryFilter.keyword
       });
 
-      // Query tasks with filter
-      const tasks = await queryTasks(
-        notionClient,
-        tasksDbId,
-        queryFilter.filters,
-        queryFilter.keyword
-      );
+      // Query tasks with filter, reading every page of results
+      let tasks = await queryTasks(notionClient, tasksDbId, {
+        filter: queryFilter.filters,
+        sorts: buildSorts(mapping, [
+          { field: 'dueDate', direction: 'ascending' },
+          { field: 'priority', direction: 'descending' },
+        ]),
+      }, mapping);
+
+      if (queryFilter.keyword) {
+        tasks = tasks.filter(task => matchesKeyword(task, queryFilter.keyword!));
+      }
 
       console.log('[QueryTasksHandler] Found tasks:', tasks.length);
 
+      // A single result is read in detail, including step progress
+      if (tasks.length === 1) {
+        const steps = await getTaskSteps(notionClient, tasks[0].id).catch(() => [] as TaskStep[]);
+        tasks = [{ ...tasks[0], stepProgress: getStepProgress(steps) }];
+      }
+
+      // Keep the whole result for "next", "read number 7" and "mark number 3 done"
+      storeTaskList(handlerInput, tasks.map(task => task.id));
+
+      // Show the list (or the single task) on devices with a screen
+      if (tasks.length === 1) {
+        renderTaskDetail(handlerInput, tasks[0], timeZone, 1);
+      } else {
+        renderTaskList(handlerInput, describeQuery(userRequest), tasks, timeZone);
+      }
+
       // Format response
-      const responseText = formatTaskList(tasks);
+      const responseText = speakTaskList(tasks, timeZone, new Date(), locale);
+      const reprompt = tasks.length > PAGE_SIZE
+        ? t(handlerInput, 'list.nextReprompt')
+        : t(handlerInput, 'common.whatElse');
 
-      return buildResponse(handlerInput, responseText, 'What else would you like to do?');
+      return buildResponse(handlerInput, responseText, reprompt);
     } catch (error: any) {
       console.error('[QueryTasksHandler] Error querying tasks:', error);
       console.error('[QueryTasksHandler] Error details:', {
@@ -235,11 +199,7 @@ export class QueryTasksHandler implements RequestHandler {
         code: error?.code,
         stack: error?.stack
       });
-      return buildResponse(
-        handlerInput,
-        'I encountered an error retrieving your tasks. Please try again.',
-        'What would you like to do?'
-      );
+      return buildResponse(handlerInput, t(handlerInput, 'queryTasks.error'), t(handlerInput, 'common.whatToDo'));
     }
   }
 }
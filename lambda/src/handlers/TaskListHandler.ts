@@ -0,0 +1,226 @@
+import { RequestHandler, HandlerInput } from 'ask-sdk-core';
+import { Client } from '@notionhq/client';
+import { buildResponse } from '../utils/alexa';
+import { getTasksByIds, getTaskSteps, getStepProgress } from '../utils/notion';
+import { getTaskMapping } from '../utils/schema';
+import { getTimeZone } from '../utils/timezone';
+import {
+  PAGE_SIZE,
+  TaskListSession,
+  NumberedTask,
+  getTaskList,
+  storeTaskList,
+  getPageIds,
+  getTaskIdByNumber,
+} from '../utils/tasklist';
+import { ITEM_PAUSE, escapeSSML, speakTask, speakTaskPage } from '../utils/speech';
+import { renderTaskDetail } from '../utils/apl';
+import { UpdateTaskHandler } from './UpdateTaskHandler';
+import { DeleteTaskHandler } from './DeleteTaskHandler';
+import { getLocale, t } from '../utils/i18n';
+import { requireScope } from '../utils/scopes';
+import { NotionTask, TaskStep } from '../types';
+
+const LIST_INTENTS = [
+  'AMAZON.NextIntent',
+  'AMAZON.MoreIntent',
+  'AMAZON.PreviousIntent',
+  'ReadListItemIntent',
+  'ListItemActionIntent',
+];
+
+// The status each LIST_ACTION slot value sets
+const ACTION_STATUSES: Record<string, 'TO DO' | 'IN_PROCESS' | 'DONE'> = {
+  DONE: 'DONE',
+  IN_PROGRESS: 'IN_PROCESS',
+  TO_DO: 'TO DO',
+};
+
+/**
+ * Handles follow-ups to a task list read by QueryTasksHandler: "next",
+ * "more", "previous", "read number 7" and "mark number 3 done".
+ */
+export class TaskListHandler implements RequestHandler {
+  canHandle(handlerInput: HandlerInput): boolean {
+    const isIntentRequest = handlerInput.requestEnvelope.request.type === 'IntentRequest';
+    const intentName = isIntentRequest
+      ? (handlerInput.requestEnvelope.request as any).intent?.name
+      : null;
+
+    const canHandle = isIntentRequest && LIST_INTENTS.includes(intentName);
+
+    if (isIntentRequest) {
+      console.log('[TaskListHandler] canHandle check:', {
+        isIntentRequest,
+        intentName,
+        canHandle
+      });
+    }
+
+    return canHandle;
+  }
+
+  async handle(handlerInput: HandlerInput) {
+    console.log('[TaskListHandler] Handler invoked');
+    const attributes = handlerInput.attributesManager.getSessionAttributes();
+    const user = attributes.user;
+    const notionClient = attributes.notionClient;
+    const request = handlerInput.requestEnvelope.request as any;
+    const intentName = request.intent.name;
+
+    if (!user || !notionClient) {
+      return buildResponse(
+        handlerInput,
+        t(handlerInput, 'common.notConnected'),
+        t(handlerInput, 'common.whatToDo')
+      );
+    }
+
+    const denied = requireScope(handlerInput, 'tasks:read');
+    if (denied) {
+      return denied;
+    }
+
+    const list = getTaskList(handlerInput);
+    if (!list || list.taskIds.length === 0) {
+      return buildResponse(
+        handlerInput,
+        t(handlerInput, 'taskList.noList'),
+        t(handlerInput, 'common.whatToDo')
+      );
+    }
+
+    try {
+      if (intentName === 'AMAZON.NextIntent' || intentName === 'AMAZON.MoreIntent') {
+        const position = list.position + PAGE_SIZE;
+        if (position >= list.taskIds.length) {
+          return buildResponse(
+            handlerInput,
+            t(handlerInput, 'taskList.end', { count: list.taskIds.length }),
+            t(handlerInput, 'common.whatElse')
+          );
+        }
+        return await this.readPage(handlerInput, notionClient, list, position);
+      }
+
+      if (intentName === 'AMAZON.PreviousIntent') {
+        if (list.position === 0) {
+          return buildResponse(
+            handlerInput,
+            t(handlerInput, 'taskList.atStart'),
+            t(handlerInput, 'common.whatElse')
+          );
+        }
+        return await this.readPage(handlerInput, notionClient, list, Math.max(0, list.position - PAGE_SIZE));
+      }
+
+      const itemNumber = parseInt(request.intent.slots?.itemNumber?.value, 10);
+      const taskId = getTaskIdByNumber(list, itemNumber);
+      if (!taskId) {
+        return buildResponse(
+          handlerInput,
+          isNaN(itemNumber)
+            ? t(handlerInput, 'taskList.noNumber', { count: list.taskIds.length })
+            : t(handlerInput, 'taskList.noSuchNumber', { number: itemNumber, count: list.taskIds.length }),
+          t(handlerInput, 'taskList.whichNumber')
+        );
+      }
+
+      const [task] = await getTasksByIds(notionClient, [taskId], getTaskMapping(user));
+      if (!task) {
+        return buildResponse(
+          handlerInput,
+          t(handlerInput, 'taskList.gone', { number: itemNumber }),
+          t(handlerInput, 'common.whatElse')
+        );
+      }
+
+      console.log('[TaskListHandler] Item:', { itemNumber, taskId: task.id, taskName: task.name });
+
+      if (intentName === 'ReadListItemIntent') {
+        const steps = await getTaskSteps(notionClient, task.id).catch(() => [] as TaskStep[]);
+        const detailed = { ...task, stepProgress: getStepProgress(steps) };
+        renderTaskDetail(handlerInput, detailed, getTimeZone(user), itemNumber);
+        const detail = speakTask(detailed, getTimeZone(user), new Date(), getLocale(handlerInput));
+        return buildResponse(
+          handlerInput,
+          t(handlerInput, 'taskList.item', { number: itemNumber, detail }),
+          t(handlerInput, 'common.whatElse')
+        );
+      }
+
+      return await this.actOnItem(handlerInput, notionClient, task, itemNumber, request.intent.slots?.listAction);
+    } catch (error: any) {
+      console.error('[TaskListHandler] Error:', error);
+      console.error('[TaskListHandler] Error details:', {
+        message: error?.message,
+        status: error?.status,
+        code: error?.code,
+        stack: error?.stack
+      });
+      return buildResponse(
+        handlerInput,
+        t(handlerInput, 'taskList.error'),
+        t(handlerInput, 'common.whatToDo')
+      );
+    }
+  }
+
+  /**
+   * Reads the page starting at `position` and remembers it as the current page
+   */
+  private async readPage(handlerInput: HandlerInput, notionClient: Client, list: TaskListSession, position: number) {
+    const user = handlerInput.attributesManager.getSessionAttributes().user;
+    const pageIds = getPageIds(list, position);
+    const tasks = await getTasksByIds(notionClient, pageIds, getTaskMapping(user));
+    const byId = new Map(tasks.map(task => [task.id, task]));
+
+    const numbered = pageIds
+      .map((id, index) => ({ number: position + index + 1, task: byId.get(id) }))
+      .filter((item): item is NumberedTask => !!item.task);
+
+    storeTaskList(handlerInput, list.taskIds, position);
+
+    const last = position + pageIds.length;
+    const hasMore = last < list.taskIds.length;
+    const page = t(handlerInput, 'taskList.page', { from: position + 1, to: last, total: list.taskIds.length });
+    const speech = `${page}${ITEM_PAUSE} ` +
+      `${speakTaskPage(numbered, getTimeZone(user), new Date(), getLocale(handlerInput))}.${ITEM_PAUSE} ` +
+      t(handlerInput, hasMore ? 'list.sayNext' : 'taskList.endShort');
+
+    return buildResponse(
+      handlerInput,
+      speech,
+      t(handlerInput, hasMore ? 'list.nextReprompt' : 'common.whatElse')
+    );
+  }
+
+  /**
+   * Runs "mark number 3 done" / "delete number 3" through the regular update
+   * and delete flows, so journaling and recurring tasks work the same way
+   */
+  private async actOnItem(
+    handlerInput: HandlerInput,
+    notionClient: Client,
+    task: NotionTask,
+    itemNumber: number,
+    actionSlot: any
+  ) {
+    const action = actionSlot?.resolutions?.resolutionsPerAuthority?.[0]?.values?.[0]?.value?.id;
+
+    if (action === 'DELETE') {
+      return new DeleteTaskHandler().deleteMatchedTask(handlerInput, notionClient, task);
+    }
+
+    const status = ACTION_STATUSES[action];
+    if (!status) {
+      return buildResponse(
+        handlerInput,
+        t(handlerInput, 'taskList.itemHelp', { number: itemNumber, name: escapeSSML(task.name) }),
+        t(handlerInput, 'common.whatToDo')
+      );
+    }
+
+    return new UpdateTaskHandler().applyChanges(handlerInput, notionClient, task, { status });
+  }
+}
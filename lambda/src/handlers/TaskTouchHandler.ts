@@ -0,0 +1,109 @@
+import { RequestHandler, HandlerInput } from 'ask-sdk-core';
+import { buildResponse } from '../utils/alexa';
+import { getTasksByIds, getTaskSteps, getStepProgress } from '../utils/notion';
+import { getTaskMapping } from '../utils/schema';
+import { getTimeZone } from '../utils/timezone';
+import { getTaskList } from '../utils/tasklist';
+import { escapeSSML, speakTask } from '../utils/speech';
+import { SHOW_TASK_EVENT, COMPLETE_TASK_EVENT, renderTaskDetail } from '../utils/apl';
+import { UpdateTaskHandler } from './UpdateTaskHandler';
+import { getLocale, t } from '../utils/i18n';
+import { requireScope } from '../utils/scopes';
+import { TaskStep } from '../types';
+
+/**
+ * Handles taps on the Echo Show task screens (Alexa.Presentation.APL.UserEvent):
+ * tapping a task opens its detail card, tapping the check mark completes it.
+ */
+export class TaskTouchHandler implements RequestHandler {
+  canHandle(handlerInput: HandlerInput): boolean {
+    const requestType = handlerInput.requestEnvelope.request.type;
+    const canHandle = requestType === 'Alexa.Presentation.APL.UserEvent';
+
+    if (canHandle) {
+      console.log('[TaskTouchHandler] canHandle check:', {
+        requestType,
+        arguments: (handlerInput.requestEnvelope.request as any).arguments,
+        canHandle
+      });
+    }
+
+    return canHandle;
+  }
+
+  async handle(handlerInput: HandlerInput) {
+    console.log('[TaskTouchHandler] Handler invoked');
+    const attributes = handlerInput.attributesManager.getSessionAttributes();
+    const user = attributes.user;
+    const notionClient = attributes.notionClient;
+    const [action, taskId] = (handlerInput.requestEnvelope.request as any).arguments || [];
+
+    if (!user || !notionClient) {
+      return buildResponse(
+        handlerInput,
+        t(handlerInput, 'common.notConnected'),
+        t(handlerInput, 'common.whatToDo')
+      );
+    }
+
+    const denied = requireScope(handlerInput, 'tasks:read');
+    if (denied) {
+      return denied;
+    }
+
+    if ((action !== SHOW_TASK_EVENT && action !== COMPLETE_TASK_EVENT) || !taskId) {
+      console.warn('[TaskTouchHandler] Unknown event:', { action, taskId });
+      return buildResponse(handlerInput, t(handlerInput, 'taskTouch.unsupported'), t(handlerInput, 'common.whatToDo'));
+    }
+
+    try {
+      const [task] = await getTasksByIds(notionClient, [taskId], getTaskMapping(user));
+      if (!task) {
+        return buildResponse(
+          handlerInput,
+          t(handlerInput, 'taskTouch.gone'),
+          t(handlerInput, 'common.whatElse')
+        );
+      }
+
+      if (action === COMPLETE_TASK_EVENT) {
+        if (task.status === 'DONE') {
+          return buildResponse(
+            handlerInput,
+            t(handlerInput, 'taskTouch.alreadyDone', { name: escapeSSML(task.name) }),
+            t(handlerInput, 'common.whatElse')
+          );
+        }
+        return await new UpdateTaskHandler().applyChanges(handlerInput, notionClient, task, { status: 'DONE' });
+      }
+
+      // Keep the number the task has in the spoken list, if it's on it
+      const list = getTaskList(handlerInput);
+      const number = list ? list.taskIds.indexOf(task.id) + 1 : 0;
+
+      const timeZone = getTimeZone(user);
+      const steps = await getTaskSteps(notionClient, task.id).catch(() => [] as TaskStep[]);
+      const detailed = { ...task, stepProgress: getStepProgress(steps) };
+
+      renderTaskDetail(handlerInput, detailed, timeZone, number);
+      return buildResponse(
+        handlerInput,
+        `${speakTask(detailed, timeZone, new Date(), getLocale(handlerInput))}.`,
+        t(handlerInput, 'common.whatElse')
+      );
+    } catch (error: any) {
+      console.error('[TaskTouchHandler] Error:', error);
+      console.error('[TaskTouchHandler] Error details:', {
+        message: error?.message,
+        status: error?.status,
+        code: error?.code,
+        stack: error?.stack
+      });
+      return buildResponse(
+        handlerInput,
+        t(handlerInput, 'updateTask.error'),
+        t(handlerInput, 'common.whatToDo')
+      );
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { RequestHandler, HandlerInput } from 'ask-sdk-core';
+import { buildResponse } from '../utils/alexa';
+import { undoLastAction, getUndoWindowMinutes } from '../utils/journal';
+import { getTaskMapping } from '../utils/schema';
+import { invalidateTaskCache } from '../utils/taskCache';
+import { escapeSSML } from '../utils/speech';
+import { t } from '../utils/i18n';
+import { requireScope } from '../utils/scopes';
+
+/**
+ * Handles "undo that" by reversing the user's last add, update or delete
+ * from the action journal.
+ */
+export class UndoHandler implements RequestHandler {
+  canHandle(handlerInput: HandlerInput): boolean {
+    const isIntentRequest = handlerInput.requestEnvelope.request.type === 'IntentRequest';
+    const intentName = isIntentRequest
+      ? (handlerInput.requestEnvelope.request as any).intent?.name
+      : null;
+
+    const canHandle = isIntentRequest && intentName === 'UndoIntent';
+
+    if (isIntentRequest) {
+      console.log('[UndoHandler] canHandle check:', {
+        isIntentRequest,
+        intentName,
+        canHandle
+      });
+    }
+
+    return canHandle;
+  }
+
+  async handle(handlerInput: HandlerInput) {
+    console.log('[UndoHandler] Handler invoked');
+    const attributes = handlerInput.attributesManager.getSessionAttributes();
+    const user = attributes.user;
+    const notionClient = attributes.notionClient;
+
+    if (!user || !notionClient) {
+      return buildResponse(handlerInput, t(handlerInput, 'undo.notConnected'), t(handlerInput, 'common.whatToDo'));
+    }
+
+    const denied = requireScope(handlerInput, 'tasks:write');
+    if (denied) {
+      return denied;
+    }
+
+    try {
+      const windowMinutes = getUndoWindowMinutes();
+      const entry = await undoLastAction(notionClient, user.id, windowMinutes, getTaskMapping(user));
+
+      if (!entry) {
+        return buildResponse(
+          handlerInput,
+          t(handlerInput, 'undo.nothing', { count: windowMinutes }),
+          t(handlerInput, 'common.whatElse')
+        );
+      }
+
+      await invalidateTaskCache(user);
+
+      console.log('[UndoHandler] Undid action:', {
+        entryId: entry.id,
+        action: entry.action,
+        operations: entry.inverse.length
+      });
+
+      return buildResponse(
+        handlerInput,
+        t(handlerInput, 'undo.done', { description: escapeSSML(entry.description) }),
+        t(handlerInput, 'common.whatElse')
+      );
+    } catch (error: any) {
+      console.error('[UndoHandler] Error undoing action:', error);
+      console.error('[UndoHandler] Error details:', {
+        message: error?.message,
+        status: error?.status,
+        code: error?.code,
+        stack: error?.stack
+      });
+      return buildResponse(handlerInput, t(handlerInput, 'undo.error'), t(handlerInput, 'common.whatToDo'));
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { RequestHandler, HandlerInput } from 'ask-sdk-core';
 import { buildResponse } from '../utils/alexa';
+import { t } from '../utils/i18n';
 
 /**
  * Handles intents that don't match any specific handler.
@@ -23,39 +24,19 @@ export class UnhandledIntentHandler implements RequestHandler {
     if (intentName?.startsWith('AMAZON.')) {
       // Handle common Amazon intents
       if (intentName === 'AMAZON.HelpIntent') {
-        return buildResponse(
-          handlerInput,
-          'I can help you manage your tasks in Notion. ' +
-          'You can add tasks, query your tasks, update tasks, or delete them. ' +
-          'For example, say "add finish the report tomorrow at 5pm" or "what are my tasks for today". ' +
-          'What would you like to do?',
-          'What would you like to do?'
-        );
+        return buildResponse(handlerInput, t(handlerInput, 'help.text'), t(handlerInput, 'common.whatToDo'));
       }
       
       if (intentName === 'AMAZON.StopIntent' || intentName === 'AMAZON.CancelIntent') {
         return handlerInput.responseBuilder
-          .speak('Goodbye!')
+          .speak(t(handlerInput, 'help.goodbye'))
           .withShouldEndSession(true)
           .getResponse();
       }
     }
     
     // For other unhandled intents, provide helpful guidance
-    const availableCommands = [
-      'add a task',
-      'query your tasks',
-      'update a task',
-      'delete a task'
-    ];
-    
-    return buildResponse(
-      handlerInput,
-      `I'm not sure how to help with that. I can help you manage your tasks in Notion. ` +
-      `You can ${availableCommands.join(', ')}, or say "help" to learn more. ` +
-      `What would you like to do?`,
-      'What would you like to do?'
-    );
+    return buildResponse(handlerInput, t(handlerInput, 'help.unhandled'), t(handlerInput, 'common.whatToDo'));
   }
 }
 
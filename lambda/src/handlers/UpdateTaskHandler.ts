@@ -1,7 +1,61 @@
 import { RequestHandler, HandlerInput } from 'ask-sdk-core';
-import { buildResponse, cleanTaskName, findMatchingTask } from '../utils/alexa';
-import { findDatabaseByName, getAllTasks, updateTask } from '../utils/notion';
+import { Intent } from 'ask-sdk-model';
+import { Client } from '@notionhq/client';
+import { buildResponse, cleanTaskName, rankMatchingTasks, getAmbiguousCandidates } from '../utils/alexa';
+import { buildDisambiguationPrompt, storePendingDisambiguation } from '../utils/disambiguation';
+import { findDatabaseByName, updateTask } from '../utils/notion';
 import { parseTaskFromUserRequest } from '../utils/parsing';
+import { describeRecurrence } from '../utils/recurrence';
+import { escapeSSML } from '../utils/speech';
+import { journalAction, snapshotTask } from '../utils/journal';
+import { getOpenTasks, invalidateTaskCache } from '../utils/taskCache';
+import { getTaskMapping } from '../utils/schema';
+import { getTimeZone, formatDueDate, formatDueTime } from '../utils/timezone';
+import { scheduleTaskReminder, cancelTaskReminder, askForReminderPermission } from '../utils/reminders';
+import { findTaskByEntity } from '../utils/entities';
+import { getResolvedId } from '../utils/taskDialog';
+import { getLocale, t, translate, MessageKey } from '../utils/i18n';
+import { requireScope } from '../utils/scopes';
+import { NotionTask, InverseOperation, TaskSnapshot } from '../types';
+
+// How each LIST_ACTION value is said, for parseTaskFromUserRequest
+const LIST_ACTION_REQUESTS: Record<string, MessageKey> = {
+  DONE: 'request.taskDone',
+  IN_PROGRESS: 'request.taskInProgress',
+  TO_DO: 'request.taskToDo',
+};
+
+const PRIORITY_REQUESTS: Record<string, MessageKey> = {
+  HIGH: 'request.taskHighPriority',
+  NORMAL: 'request.taskNormalPriority',
+  LOW: 'request.taskLowPriority',
+};
+
+/**
+ * Spell out what the typed slots ask for, e.g. "mark call mom as done", so
+ * it goes through the same parsing as a free-form request
+ */
+function describeSlotUpdate(intent: Intent, locale: string): string | null {
+  const taskName = intent.slots?.task?.value;
+  if (!taskName) {
+    return null;
+  }
+
+  const action = getResolvedId(intent, 'listAction');
+  const priority = getResolvedId(intent, 'priority');
+  const dueDate = intent.slots?.dueDate?.value;
+
+  if (action && LIST_ACTION_REQUESTS[action]) {
+    return translate(locale, LIST_ACTION_REQUESTS[action], { task: taskName });
+  }
+  if (priority && PRIORITY_REQUESTS[priority]) {
+    return translate(locale, PRIORITY_REQUESTS[priority], { task: taskName });
+  }
+  if (dueDate) {
+    return translate(locale, 'request.taskDueDate', { task: taskName, date: dueDate });
+  }
+  return taskName;
+}
 
 export class UpdateTaskHandler implements RequestHandler {
   canHandle(handlerInput: HandlerInput): boolean {
@@ -36,31 +90,28 @@ export class UpdateTaskHandler implements RequestHandler {
     });
 
     if (!user || !notionClient) {
-      return buildResponse(
-        handlerInput,
-        'To update tasks, you need to connect your Notion account. ' +
-        'Open the Alexa app, go to Skills, find Voice Planner, and click Link Account. ' +
-        'Once connected, you can update your tasks.',
-        'What would you like to do?'
-      );
+      return buildResponse(handlerInput, t(handlerInput, 'updateTask.notConnected'), t(handlerInput, 'common.whatToDo'));
+    }
+
+    const denied = requireScope(handlerInput, 'tasks:write');
+    if (denied) {
+      return denied;
     }
 
     try {
       const request = handlerInput.requestEnvelope.request as any;
       const slots = request.intent.slots || {};
+      const locale = getLocale(handlerInput);
       
-      // Extract userRequest from AMAZON.SearchQuery slot
-      const userRequest = slots.userRequest?.value;
+      // Extract userRequest from AMAZON.SearchQuery slot, or spell out the typed slots
+      const userRequest = slots.userRequest?.value || describeSlotUpdate(request.intent, locale);
+      const taskSlotValue = slots.task?.value;
 
       console.log('[UpdateTaskHandler] Intent name:', request.intent.name);
       console.log('[UpdateTaskHandler] userRequest:', userRequest);
 
       if (!userRequest || userRequest.trim().length === 0) {
-        return buildResponse(
-          handlerInput,
-          'What task would you like to update?',
-          'Tell me which task to update and what to change.'
-        );
+        return buildResponse(handlerInput, t(handlerInput, 'updateTask.prompt'), t(handlerInput, 'updateTask.reprompt'));
       }
 
       // Try to use stored database ID first, fallback to search
@@ -74,19 +125,11 @@ export class UpdateTaskHandler implements RequestHandler {
       }
       
       if (!tasksDbId) {
-        return buildResponse(
-          handlerInput,
-          'I couldn\'t find your Tasks database in Notion. Please make sure it exists and try again.',
-          'What would you like to do?'
-        );
+        return buildResponse(handlerInput, t(handlerInput, 'common.tasksDbMissing'), t(handlerInput, 'common.whatToDo'));
       }
 
-      // Parse the update request to extract task name and updates
-      const parsed = parseTaskFromUserRequest(userRequest);
-      const lowerRequest = userRequest.toLowerCase();
-      
       // Extract task name (remove update keywords)
-      let taskNameText = userRequest;
+      let taskNameText = taskSlotValue || userRequest;
       const updateKeywords = ['update', 'change', 'modify', 'set', 'move', 'reschedule', 'rename'];
       for (const keyword of updateKeywords) {
         taskNameText = taskNameText.replace(new RegExp(`^${keyword}\\s+`, 'i'), '');
@@ -95,127 +138,235 @@ export class UpdateTaskHandler implements RequestHandler {
       // Clean task name
       const cleanedTaskName = cleanTaskName(taskNameText);
       
-      console.log('[UpdateTaskHandler] Parsed update:', {
-        cleanedTaskName,
-        parsedStatus: parsed.status,
-        parsedPriority: parsed.priority,
-        parsedDueDateTime: parsed.dueDateTime
-      });
+      console.log('[UpdateTaskHandler] Cleaned task name:', cleanedTaskName);
 
       // Get all tasks to find matching task
-      const allTasks = await getAllTasks(notionClient, tasksDbId);
-      const matchingTask = findMatchingTask(cleanedTaskName, allTasks);
+      const allTasks = await getOpenTasks(handlerInput, notionClient, user, tasksDbId);
+
+      // A name Alexa resolved to one of the session's task names needs no guessing
+      const entityMatch = findTaskByEntity(request.intent, 'task', allTasks);
+      if (entityMatch) {
+        console.log('[UpdateTaskHandler] Resolved task by entity:', { taskId: entityMatch.id });
+        return await this.applyUpdate(handlerInput, notionClient, entityMatch, userRequest);
+      }
+
+      const ranked = rankMatchingTasks(cleanedTaskName, allTasks);
       
-      if (!matchingTask) {
+      if (ranked.length === 0) {
         console.log('[UpdateTaskHandler] No matching task found for:', cleanedTaskName);
         return buildResponse(
           handlerInput,
-          `I couldn't find "${cleanedTaskName}" in your tasks. Please try saying the full task name.`,
-          'What else would you like to do?'
+          t(handlerInput, 'common.taskNotFound', { name: escapeSSML(cleanedTaskName) }),
+          t(handlerInput, 'common.whatElse')
         );
       }
 
-      console.log('[UpdateTaskHandler] Found matching task:', {
-        taskId: matchingTask.id,
-        taskName: matchingTask.name,
-        currentStatus: matchingTask.status,
-        currentPriority: matchingTask.priority,
-        currentDueDateTime: matchingTask.dueDateTime
+      // Several tasks match equally well - ask which one and finish next turn
+      const candidates = getAmbiguousCandidates(ranked);
+      if (candidates.length > 0) {
+        console.log('[UpdateTaskHandler] Ambiguous match:', candidates.map(c => ({ name: c.task.name, score: c.score })));
+        storePendingDisambiguation(handlerInput, {
+          action: 'update',
+          userRequest,
+          candidates: candidates.map(c => c.task),
+        });
+        const prompt = buildDisambiguationPrompt(candidates.map(c => c.task), locale);
+        return buildResponse(handlerInput, prompt, prompt);
+      }
+
+      return await this.applyUpdate(handlerInput, notionClient, ranked[0].task, userRequest);
+    } catch (error: any) {
+      console.error('[UpdateTaskHandler] Error updating task:', error);
+      console.error('[UpdateTaskHandler] Error details:', {
+        message: error?.message,
+        status: error?.status,
+        code: error?.code,
+        stack: error?.stack
       });
+      return buildResponse(handlerInput, t(handlerInput, 'updateTask.error'), t(handlerInput, 'common.whatToDo'));
+    }
+  }
 
-      // Build update object
-      const updates: {
-        status?: 'TO DO' | 'IN_PROCESS' | 'DONE';
-        priority?: 'LOW' | 'NORMAL' | 'HIGH';
-        dueDateTime?: string | null;
-      } = {};
+  /**
+   * Applies the changes described in userRequest to an already identified
+   * task. Also used to finish an update after disambiguation, and by list
+   * and screen actions, so it checks the scope itself.
+   */
+  async applyUpdate(
+    handlerInput: HandlerInput,
+    notionClient: Client,
+    matchingTask: NotionTask,
+    userRequest: string
+  ) {
+    const denied = requireScope(handlerInput, 'tasks:write');
+    if (denied) {
+      return denied;
+    }
 
-      // Determine what to update based on parsed values and request text
-      if (parsed.status && parsed.status !== matchingTask.status) {
-        updates.status = parsed.status;
-      }
-      
-      if (parsed.priority && parsed.priority !== matchingTask.priority) {
-        updates.priority = parsed.priority;
+    // Parse the update request to extract updates
+    const user = handlerInput.attributesManager.getSessionAttributes().user;
+    const timeZone = getTimeZone(user);
+    const locale = getLocale(handlerInput);
+    const parsed = parseTaskFromUserRequest(userRequest, timeZone, locale);
+    const lowerRequest = userRequest.toLowerCase();
+
+    console.log('[UpdateTaskHandler] Found matching task:', {
+      taskId: matchingTask.id,
+      taskName: matchingTask.name,
+      currentStatus: matchingTask.status,
+      currentPriority: matchingTask.priority,
+      currentDueDateTime: matchingTask.dueDateTime
+    });
+
+    // Build update object
+    const updates: TaskSnapshot = {};
+
+    // Determine what to update based on parsed values and request text
+    if (parsed.status && parsed.status !== matchingTask.status) {
+      updates.status = parsed.status;
+    }
+    
+    if (parsed.priority && parsed.priority !== matchingTask.priority) {
+      updates.priority = parsed.priority;
+    }
+    
+    if (parsed.recurrence && parsed.recurrence !== matchingTask.recurrence) {
+      updates.recurrence = parsed.recurrence;
+    } else if (/\b(stop|no longer|don't)\s+repeat/i.test(userRequest) && matchingTask.recurrence) {
+      updates.recurrence = null;
+    }
+    
+    // A recurrence phrase without an explicit date only changes the schedule,
+    // and a request without any date keeps the due date unless it says so
+    if (parsed.dueDateTime != null && parsed.dueDateTime !== matchingTask.dueDateTime &&
+        !(parsed.recurrence && matchingTask.dueDateTime)) {
+      updates.dueDateTime = parsed.dueDateTime;
+    } else if (/\b(no|remove the|clear the)\s+due\s+date\b/i.test(userRequest) && matchingTask.dueDateTime) {
+      updates.dueDateTime = null;
+    }
+
+    // If no updates detected, try to infer from (English) keywords
+    if (Object.keys(updates).length === 0) {
+      if (lowerRequest.includes('done') || lowerRequest.includes('complete') || lowerRequest.includes('finish')) {
+        updates.status = 'DONE';
+      } else if (lowerRequest.includes('in progress') || lowerRequest.includes('working on')) {
+        updates.status = 'IN_PROCESS';
+      } else if (lowerRequest.includes('to do') || lowerRequest.includes('todo')) {
+        updates.status = 'TO DO';
       }
       
-      if (parsed.dueDateTime !== undefined && parsed.dueDateTime !== matchingTask.dueDateTime) {
-        updates.dueDateTime = parsed.dueDateTime;
+      if (lowerRequest.includes('high priority') || lowerRequest.includes('urgent')) {
+        updates.priority = 'HIGH';
+      } else if (lowerRequest.includes('low priority') || lowerRequest.includes('low')) {
+        updates.priority = 'LOW';
+      } else if (lowerRequest.includes('normal priority') || lowerRequest.includes('medium priority')) {
+        updates.priority = 'NORMAL';
       }
+    }
 
-      // If no updates detected, try to infer from keywords
-      if (Object.keys(updates).length === 0) {
-        if (lowerRequest.includes('done') || lowerRequest.includes('complete') || lowerRequest.includes('finish')) {
-          updates.status = 'DONE';
-        } else if (lowerRequest.includes('in progress') || lowerRequest.includes('working on')) {
-          updates.status = 'IN_PROCESS';
-        } else if (lowerRequest.includes('to do') || lowerRequest.includes('todo')) {
-          updates.status = 'TO DO';
-        }
-        
-        if (lowerRequest.includes('high priority') || lowerRequest.includes('urgent')) {
-          updates.priority = 'HIGH';
-        } else if (lowerRequest.includes('low priority') || lowerRequest.includes('low')) {
-          updates.priority = 'LOW';
-        } else if (lowerRequest.includes('normal priority') || lowerRequest.includes('medium priority')) {
-          updates.priority = 'NORMAL';
-        }
-      }
+    if (Object.keys(updates).length === 0) {
+      return buildResponse(
+        handlerInput,
+        t(handlerInput, 'updateTask.unclear', { name: escapeSSML(matchingTask.name) }),
+        t(handlerInput, 'common.whatToDo')
+      );
+    }
 
-      if (Object.keys(updates).length === 0) {
-        return buildResponse(
-          handlerInput,
-          `I found "${matchingTask.name}", but I'm not sure what you'd like to update. ` +
-          'You can update the status, priority, or due date. For example, say "mark it as done" or "set priority to high".',
-          'What would you like to do?'
-        );
-      }
+    return this.applyChanges(handlerInput, notionClient, matchingTask, updates);
+  }
+
+  /**
+   * Writes already known changes to a task, then journals them and keeps its
+   * reminder in step. Used directly by list and screen actions, whose
+   * changes need no parsing.
+   */
+  async applyChanges(
+    handlerInput: HandlerInput,
+    notionClient: Client,
+    matchingTask: NotionTask,
+    updates: TaskSnapshot
+  ) {
+    const denied = requireScope(handlerInput, 'tasks:write');
+    if (denied) {
+      return denied;
+    }
+
+    const user = handlerInput.attributesManager.getSessionAttributes().user;
+    const timeZone = getTimeZone(user);
+    const locale = getLocale(handlerInput);
 
-      // Update the task
-      await updateTask(notionClient, matchingTask.id, updates);
+    // Update the task (completing a recurring task schedules the next one)
+    const nextOccurrence = await updateTask(notionClient, matchingTask.id, updates, getTaskMapping(user), timeZone);
+    await invalidateTaskCache(user);
 
-      // Build confirmation message
-      const updateParts: string[] = [];
-      if (updates.status) {
-        const statusText = updates.status === 'DONE' ? 'done' : 
-                          updates.status === 'IN_PROCESS' ? 'in progress' : 'to do';
-        updateParts.push(`status to ${statusText}`);
+    const inverse: InverseOperation[] = [
+      { type: 'restore', pageId: matchingTask.id, properties: snapshotTask(matchingTask, updates) },
+    ];
+    if (nextOccurrence) {
+      inverse.push({ type: 'archive', pageId: nextOccurrence.pageId });
+    }
+    await journalAction(user?.id, 'update', translate(locale, 'journal.update', { name: matchingTask.name }), inverse);
+
+    // Keep the Alexa reminder in step: completed tasks lose it, rescheduled tasks move it
+    let reminderNote = '';
+    if (updates.status === 'DONE') {
+      await cancelTaskReminder(handlerInput, user.id, matchingTask.id);
+      if (nextOccurrence) {
+        await scheduleTaskReminder(handlerInput, user.id, {
+          id: nextOccurrence.pageId,
+          name: matchingTask.name,
+          dueDateTime: nextOccurrence.dueDateTime,
+        }, timeZone);
       }
-      if (updates.priority) {
-        const priorityText = updates.priority === 'HIGH' ? 'high' :
-                            updates.priority === 'LOW' ? 'low' : 'normal';
-        updateParts.push(`priority to ${priorityText}`);
+    } else if (updates.dueDateTime !== undefined && updates.dueDateTime !== matchingTask.dueDateTime) {
+      const reminder = await scheduleTaskReminder(handlerInput, user.id, {
+        id: matchingTask.id,
+        name: matchingTask.name,
+        dueDateTime: updates.dueDateTime,
+      }, timeZone);
+      if (reminder === 'no_permission') {
+        reminderNote = askForReminderPermission(handlerInput);
       }
-      if (updates.dueDateTime) {
-        const dueDate = new Date(updates.dueDateTime);
-        const dateStr = dueDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-        const hours = dueDate.getHours();
-        const minutes = dueDate.getMinutes();
-        if (hours !== 0 || minutes !== 0) {
-          const timeStr = dueDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
-          updateParts.push(`due date to ${dateStr} at ${timeStr}`);
-        } else {
-          updateParts.push(`due date to ${dateStr}`);
-        }
+    }
+
+    // Build confirmation message
+    const updateParts: string[] = [];
+    if (updates.status) {
+      updateParts.push(translate(locale, 'updateTask.status', { status: translate(locale, `status.${updates.status}`) }));
+    }
+    if (updates.priority) {
+      updateParts.push(translate(locale, 'updateTask.priority', { priority: translate(locale, `priority.${updates.priority}`) }));
+    }
+    if (updates.dueDateTime) {
+      const dateStr = formatDueDate(updates.dueDateTime, timeZone, undefined, locale);
+      const timeStr = formatDueTime(updates.dueDateTime, timeZone, locale);
+      if (timeStr) {
+        updateParts.push(translate(locale, 'updateTask.dueDateTime', { date: dateStr, time: timeStr }));
+      } else {
+        updateParts.push(translate(locale, 'updateTask.dueDate', { date: dateStr }));
       }
+    } else if (updates.dueDateTime === null) {
+      updateParts.push(translate(locale, 'updateTask.noDueDate'));
+    }
 
-      const confirmation = `Updated "${matchingTask.name}": ${updateParts.join(', ')}.`;
+    if (updates.recurrence) {
+      updateParts.push(translate(locale, 'updateTask.repeating', { rule: describeRecurrence(updates.recurrence, locale) }));
+    } else if (updates.recurrence === null) {
+      updateParts.push(translate(locale, 'updateTask.notRepeating'));
+    }
 
-      return buildResponse(handlerInput, confirmation, 'What else would you like to do?');
-    } catch (error: any) {
-      console.error('[UpdateTaskHandler] Error updating task:', error);
-      console.error('[UpdateTaskHandler] Error details:', {
-        message: error?.message,
-        status: error?.status,
-        code: error?.code,
-        stack: error?.stack
-      });
-      return buildResponse(
-        handlerInput,
-        'I encountered an error updating your task. Please try again.',
-        'What would you like to do?'
+    let confirmation = translate(locale, 'updateTask.updated', { name: escapeSSML(matchingTask.name), changes: updateParts.join(', ') });
+
+    if (nextOccurrence) {
+      const nextDate = formatDueDate(
+        nextOccurrence.dueDateTime,
+        timeZone,
+        { weekday: 'long', month: 'short', day: 'numeric' },
+        locale
       );
+      confirmation += ` ${translate(locale, 'updateTask.nextDue', { date: nextDate })}`;
     }
+
+    return buildResponse(handlerInput, confirmation + reminderNote, t(handlerInput, 'common.whatElse'));
   }
 }
-
@@ -2,14 +2,25 @@ import { SkillBuilders } from 'ask-sdk-core';
 import { LaunchRequestHandler } from './handlers/LaunchRequestHandler';
 import { QueryTasksHandler } from './handlers/QueryTasksHandler';
 import { AddTaskHandler } from './handlers/AddTaskHandler';
+import { AddStepHandler } from './handlers/AddStepHandler';
 import { UpdateTaskHandler } from './handlers/UpdateTaskHandler';
 import { DeleteTaskHandler } from './handlers/DeleteTaskHandler';
+import { DisambiguationHandler } from './handlers/DisambiguationHandler';
+import { UndoHandler } from './handlers/UndoHandler';
+import { BulkDeleteConfirmationHandler } from './handlers/BulkDeleteConfirmationHandler';
+import { TaskListHandler } from './handlers/TaskListHandler';
+import { TaskTouchHandler } from './handlers/TaskTouchHandler';
+import { BriefingHandler } from './handlers/BriefingHandler';
 import { UnhandledIntentHandler } from './handlers/UnhandledIntentHandler';
 import { SessionEndedHandler } from './handlers/SessionEndedHandler';
 import { ErrorHandler } from './handlers/ErrorHandler';
 
 import { AuthInterceptor, handleAuthError } from './middleware/auth';
 import { NotionConnectionInterceptor } from './interceptors/NotionConnectionInterceptor';
+import { PendingConfirmationInterceptor } from './interceptors/PendingConfirmationInterceptor';
+import { TaskEntitiesInterceptor } from './interceptors/TaskEntitiesInterceptor';
+import { TimeZoneInterceptor } from './interceptors/TimeZoneInterceptor';
+import { resolveLocale, translate } from './utils/i18n';
 
 // ======================================================================
 // BUILD SKILL
@@ -20,9 +31,16 @@ const skill = SkillBuilders.custom()
     new LaunchRequestHandler(),
     // Task handlers (new interaction model)
     new QueryTasksHandler(),
+    new TaskListHandler(),
+    new TaskTouchHandler(),
+    new BriefingHandler(),
     new AddTaskHandler(),
+    new AddStepHandler(),
     new UpdateTaskHandler(),
     new DeleteTaskHandler(),
+    new BulkDeleteConfirmationHandler(),
+    new DisambiguationHandler(),
+    new UndoHandler(),
     // Utility handlers
     new UnhandledIntentHandler(),
     new SessionEndedHandler()
@@ -36,7 +54,10 @@ const skill = SkillBuilders.custom()
       }
     },
     new AuthInterceptor(),
-    new NotionConnectionInterceptor()
+    new TimeZoneInterceptor(),
+    new NotionConnectionInterceptor(),
+    new TaskEntitiesInterceptor(),
+    new PendingConfirmationInterceptor()
   )
   .addErrorHandlers({
     canHandle() {
@@ -67,7 +88,7 @@ export const handler = async (event: any, context: any) => {
           response: {
             outputSpeech: {
               type: 'PlainText',
-              text: 'Sorry, something went wrong. Please try again.'
+              text: translate(resolveLocale(event?.request?.locale), 'common.fatalError')
             },
             shouldEndSession: true
           }
@@ -4,6 +4,7 @@ import {
   ResponseBuilder,
 } from 'ask-sdk-core';
 import { getUserByAmazonId, validateLicense } from '../utils/database';
+import { t } from '../utils/i18n';
 
 export class LicenseValidationInterceptor implements RequestInterceptor {
   async process(handlerInput: HandlerInput): Promise<void> {
@@ -55,7 +56,7 @@ export class LicenseValidationInterceptor implements RequestInterceptor {
         console.error('[LicenseValidationInterceptor] Invalid license for user:', userId);
         const responseBuilder = handlerInput.responseBuilder;
         responseBuilder
-          .speak('Your license key is invalid or has been deactivated. Please contact support.')
+          .speak(t(handlerInput, 'error.licenseDeactivated'))
           .withShouldEndSession(true);
         
         throw new Error('Invalid license');
@@ -1,6 +1,8 @@
 import { RequestInterceptor, HandlerInput } from 'ask-sdk-core';
-import { getUserByAmazonId } from '../utils/database';
-import { createNotionClient } from '../utils/notion';
+import { Client } from '@notionhq/client';
+import { updateUserTaskMapping } from '../utils/database';
+import { detectTaskPropertyMapping } from '../utils/notion';
+import { User } from '../types';
 
 export class NotionConnectionInterceptor implements RequestInterceptor {
   async process(handlerInput: HandlerInput): Promise<void> {
@@ -17,25 +19,27 @@ export class NotionConnectionInterceptor implements RequestInterceptor {
 
     const attributes = handlerInput.attributesManager.getSessionAttributes();
     const user = attributes.user;
+    // Created by AuthInterceptor; the session copy of the user has no Notion token
+    const notionClient: Client | undefined = attributes.notionClient;
 
     console.log('[NotionConnectionInterceptor] User check:', {
       hasUser: !!user,
-      hasNotionToken: !!user?.notion_token,
-      tokenLength: user?.notion_token?.length || 0
+      hasNotionClient: !!notionClient
     });
 
-    if (!user || !user.notion_token) {
-      console.log('[NotionConnectionInterceptor] Missing user or notion_token');
+    if (!user || !notionClient) {
+      console.log('[NotionConnectionInterceptor] Missing user or Notion client');
       // This will be handled by individual handlers
       return;
     }
 
-    // Create Notion client and store in session
-    console.log('[NotionConnectionInterceptor] Creating Notion client...');
-    const notionClient = createNotionClient(user.notion_token);
-    attributes.notionClient = notionClient;
+    // Existing databases may use their own property names - detect them once
+    if (user.tasks_db_id && !user.tasks_db_mapping) {
+      attributes.user = await detectMapping(notionClient, user);
+    }
+
     handlerInput.attributesManager.setSessionAttributes(attributes);
-    console.log('[NotionConnectionInterceptor] Notion client created and stored');
+    console.log('[NotionConnectionInterceptor] Notion connection checked');
     } catch (error: any) {
       console.error('[NotionConnectionInterceptor] Error:', error);
       console.error('[NotionConnectionInterceptor] Error stack:', error?.stack);
@@ -44,3 +48,18 @@ export class NotionConnectionInterceptor implements RequestInterceptor {
   }
 }
 
+/**
+ * Detect and save the property mapping of the user's Tasks database.
+ * Falls back to the default layout when detection fails.
+ */
+async function detectMapping<T extends Pick<User, 'id' | 'tasks_db_id'>>(client: Client, user: T): Promise<T> {
+  try {
+    const mapping = await detectTaskPropertyMapping(client, user.tasks_db_id!);
+    console.log('[NotionConnectionInterceptor] Detected task property mapping:', mapping);
+    await updateUserTaskMapping(user.id, mapping);
+    return { ...user, tasks_db_mapping: mapping };
+  } catch (error: any) {
+    console.warn('[NotionConnectionInterceptor] Could not detect task property mapping:', error?.message);
+    return user;
+  }
+}
@@ -0,0 +1,40 @@
+import { RequestInterceptor, HandlerInput } from 'ask-sdk-core';
+import { getPendingBulkDelete, clearPendingBulkDelete } from '../utils/confirmation';
+import { getPendingAddTask, clearPendingAddTask } from '../utils/taskDialog';
+import { getPendingDisambiguation, clearPendingDisambiguation } from '../utils/disambiguation';
+
+/**
+ * Drops a pending bulk delete as soon as the user says anything other than
+ * yes or no, so a later, unrelated "yes" can never trigger it. Likewise a
+ * task whose due date Alexa asked for, or a "did you mean X or Y?" that
+ * went unanswered, is dropped when the user moves on.
+ */
+export class PendingConfirmationInterceptor implements RequestInterceptor {
+  async process(handlerInput: HandlerInput): Promise<void> {
+    const request = handlerInput.requestEnvelope.request as any;
+    if (request.type !== 'IntentRequest') {
+      return;
+    }
+
+    const intentName = request.intent?.name;
+
+    if (intentName !== 'AddTaskIntent' && intentName !== 'AMAZON.NoIntent' && getPendingAddTask(handlerInput)) {
+      console.log('[PendingConfirmationInterceptor] Discarding unfinished task for intent:', intentName);
+      clearPendingAddTask(handlerInput);
+    }
+
+    if (intentName !== 'SelectTaskIntent' && intentName !== 'AMAZON.NoIntent' && getPendingDisambiguation(handlerInput)) {
+      console.log('[PendingConfirmationInterceptor] Discarding unanswered disambiguation for intent:', intentName);
+      clearPendingDisambiguation(handlerInput);
+    }
+
+    if (intentName === 'AMAZON.YesIntent' || intentName === 'AMAZON.NoIntent') {
+      return;
+    }
+
+    if (getPendingBulkDelete(handlerInput)) {
+      console.log('[PendingConfirmationInterceptor] Discarding unconfirmed bulk delete for intent:', intentName);
+      clearPendingBulkDelete(handlerInput);
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { RequestInterceptor, HandlerInput } from 'ask-sdk-core';
+import { hasTaskEntities, loadTaskEntities } from '../utils/entities';
+
+/**
+ * Sends the user's task names to Alexa on the first request of a session,
+ * so later turns recognize them and resolve them to their Notion pages.
+ * LaunchRequestHandler sends them itself from the tasks it already reads.
+ */
+export class TaskEntitiesInterceptor implements RequestInterceptor {
+  async process(handlerInput: HandlerInput): Promise<void> {
+    if (handlerInput.requestEnvelope.request.type !== 'IntentRequest') {
+      return;
+    }
+
+    const attributes = handlerInput.attributesManager.getSessionAttributes();
+    if (!attributes.user || !attributes.notionClient || hasTaskEntities(handlerInput)) {
+      return;
+    }
+
+    await loadTaskEntities(handlerInput, attributes.notionClient, attributes.user);
+  }
+}
@@ -0,0 +1,39 @@
+import { RequestInterceptor, HandlerInput } from 'ask-sdk-core';
+import { updateUserTimeZone } from '../utils/database';
+import { fetchDeviceTimeZone } from '../utils/timezone';
+
+/**
+ * Looks up the device's time zone once per session and caches it on the
+ * user row, so "today" and "tomorrow" mean the user's day rather than UTC.
+ */
+export class TimeZoneInterceptor implements RequestInterceptor {
+  async process(handlerInput: HandlerInput): Promise<void> {
+    try {
+      if (handlerInput.requestEnvelope.request.type === 'SessionEndedRequest') {
+        return;
+      }
+
+      const attributes = handlerInput.attributesManager.getSessionAttributes();
+      const user = attributes.user;
+      if (!user || attributes.timeZoneChecked) {
+        return;
+      }
+
+      attributes.timeZoneChecked = true;
+      handlerInput.attributesManager.setSessionAttributes(attributes);
+
+      const timeZone = await fetchDeviceTimeZone(handlerInput);
+      if (!timeZone || timeZone === user.time_zone) {
+        return;
+      }
+
+      console.log('[TimeZoneInterceptor] Device time zone changed:', { from: user.time_zone, to: timeZone });
+      attributes.user = { ...user, time_zone: timeZone };
+      handlerInput.attributesManager.setSessionAttributes(attributes);
+      await updateUserTimeZone(user.id, timeZone);
+    } catch (error: any) {
+      // Keep using the cached (or default) time zone
+      console.warn('[TimeZoneInterceptor] Could not update time zone:', error?.message);
+    }
+  }
+}
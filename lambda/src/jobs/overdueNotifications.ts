@@ -0,0 +1,39 @@
+import { getUsersWithOverdueNotifications } from '../utils/database';
+import { notifyOverdueTasks, OverdueNotificationResult } from '../utils/proactive';
+
+// ======================================================================
+// OVERDUE TASK NOTIFICATIONS
+// Runs hourly on an EventBridge schedule (see template.yaml), so every
+// user is reached soon after their quiet hours end
+// ======================================================================
+
+export const handler = async () => {
+  const users = await getUsersWithOverdueNotifications();
+  console.log('[OverdueNotifications] Users opted in:', users.length);
+
+  const counts: Record<OverdueNotificationResult | 'failed', number> = {
+    sent: 0,
+    opted_out: 0,
+    quiet_hours: 0,
+    already_notified: 0,
+    nothing_overdue: 0,
+    failed: 0,
+  };
+
+  // One at a time keeps well within Notion's rate limit
+  for (const user of users) {
+    try {
+      counts[await notifyOverdueTasks(user)]++;
+    } catch (error: any) {
+      counts.failed++;
+      console.error('[OverdueNotifications] Error notifying user:', {
+        userId: user.id,
+        message: error?.message,
+        stack: error?.stack
+      });
+    }
+  }
+
+  console.log('[OverdueNotifications] Done:', counts);
+  return counts;
+};
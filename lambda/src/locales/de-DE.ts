@@ -0,0 +1,288 @@
+import { Catalog } from './en-US';
+
+const messages: Catalog = {
+  // ==========================================================================
+  // COMMON
+  // ==========================================================================
+  'common.whatToDo': 'Was möchtest du tun?',
+  'common.whatElse': 'Was möchtest du sonst noch tun?',
+  'common.tasksDbMissing': 'Ich konnte deine Tasks-Datenbank in Notion nicht finden. Bitte prüfe, ob sie existiert, und versuche es noch einmal.',
+  'common.taskNotFound': 'Ich konnte „{name}“ nicht in deinen Aufgaben finden. Bitte sag den vollständigen Namen der Aufgabe.',
+  'common.notConnected':
+    'Um Aufgaben zu verwalten, musst du dein Notion-Konto verbinden. ' +
+    'Öffne die Alexa-App, gehe zu Skills, suche Voice Planner und tippe auf Konto verknüpfen.',
+  'common.linkAccount': 'Bitte verknüpfe dein Notion-Konto in der Alexa-App, um fortzufahren.',
+  'common.fatalError': 'Entschuldigung, da ist etwas schiefgelaufen. Bitte versuche es noch einmal.',
+  'list.and': '{items} und {last}',
+  'list.sayNext': 'Sag „weiter“, um mehr zu hören.',
+  'list.nextReprompt': 'Sag „weiter“, um mehr zu hören, oder „lies Nummer 3“ für Details.',
+  'status.TO DO': 'zu erledigen',
+  'status.IN_PROCESS': 'in Arbeit',
+  'status.DONE': 'erledigt',
+  'priority.HIGH': 'hoch',
+  'priority.NORMAL': 'normal',
+  'priority.LOW': 'niedrig',
+
+  // ==========================================================================
+  // LAUNCH, HELP AND ERRORS
+  // ==========================================================================
+  'launch.welcome': 'Willkommen bei Voice Planner!',
+  'launch.intro':
+    'Ich helfe dir, deine Aufgaben zu verwalten. ' +
+    'Du kannst Aufgaben hinzufügen, auflisten, als erledigt markieren, ihren Status ändern oder sie löschen. ' +
+    'Du kannst auch deinen Verbindungsstatus prüfen. Was möchtest du tun?',
+  'launch.notionRequired':
+    'Um Voice Planner zu nutzen, musst du dein Notion-Konto verbinden. ' +
+    'Öffne die Alexa-App, gehe zu Skills, suche Voice Planner und tippe auf Konto verknüpfen. ' +
+    'Danach helfe ich dir, deine Aufgaben in Notion zu verwalten. ' +
+    'Möchtest du Hilfe beim Verbinden deines Kontos?',
+  'launch.notionRequiredReprompt': 'Möchtest du Hilfe beim Verbinden deines Kontos?',
+  'launch.notionRequiredFallback': 'Bitte verbinde dein Notion-Konto in der Alexa-App.',
+  'launch.error':
+    'Willkommen bei Voice Planner! Beim Verbinden mit deinem Konto ist ein Problem aufgetreten. ' +
+    'Bitte versuche es gleich noch einmal oder prüfe deine Kontoeinstellungen in der Alexa-App.',
+  'launch.errorFallback': 'Willkommen bei Voice Planner. Bitte versuche es später noch einmal.',
+  'help.text':
+    'Ich helfe dir, deine Aufgaben in Notion zu verwalten. ' +
+    'Du kannst Aufgaben hinzufügen, abfragen, ändern oder löschen. ' +
+    'Sag zum Beispiel „füge Bericht fertigstellen morgen um 17 Uhr hinzu“ oder „was sind meine Aufgaben für heute“. ' +
+    'Was möchtest du tun?',
+  'help.goodbye': 'Tschüss!',
+  'help.unhandled':
+    'Dabei kann ich leider nicht helfen. Ich helfe dir, deine Aufgaben in Notion zu verwalten. ' +
+    'Du kannst eine Aufgabe hinzufügen, deine Aufgaben abfragen, eine Aufgabe ändern oder löschen, oder „Hilfe“ sagen, um mehr zu erfahren. ' +
+    'Was möchtest du tun?',
+  'error.request': 'Bei deiner Anfrage ist ein Fehler aufgetreten. Bitte versuche es noch einmal.',
+  'error.license': 'Dein Lizenzschlüssel ist ungültig. Bitte wende dich an den Support.',
+  'error.licenseInactive': 'Deine Lizenz ist nicht aktiv. Bitte kaufe oder aktiviere deine Lizenz in der App.',
+  'error.licenseDeactivated': 'Dein Lizenzschlüssel ist ungültig oder wurde deaktiviert. Bitte wende dich an den Support.',
+  'error.linkAccount': 'Bitte verknüpfe dein Konto in der Alexa-App, um diesen Skill zu nutzen.',
+  'error.unhandledIntent':
+    'Dabei kann ich leider nicht helfen. ' +
+    'Du kannst Aufgaben hinzufügen, auflisten, als erledigt markieren, ändern oder löschen. ' +
+    'Was möchtest du tun?',
+  'error.generic': 'Entschuldigung, es ist ein Fehler aufgetreten. Bitte versuche es später noch einmal.',
+  'scope.missingRead':
+    'Dieses Gerät darf deine Aufgaben nicht lesen. ' +
+    'Um das zu ändern, verknüpfe Voice Planner in der Alexa-App neu und erlaube das Lesen von Aufgaben.',
+  'scope.missingWrite':
+    'Dieses Gerät darf keine Aufgaben hinzufügen oder ändern. ' +
+    'Um das zu ändern, verknüpfe Voice Planner in der Alexa-App neu und erlaube das Hinzufügen und Ändern von Aufgaben.',
+  'scope.missingDelete':
+    'Dieses Gerät darf keine Aufgaben löschen. ' +
+    'Um das zu ändern, verknüpfe Voice Planner in der Alexa-App neu und erlaube das Löschen von Aufgaben.',
+
+  // ==========================================================================
+  // ADDING TASKS AND STEPS
+  // ==========================================================================
+  'addTask.notConnected':
+    'Um Aufgaben hinzuzufügen, musst du dein Notion-Konto verbinden. ' +
+    'Öffne die Alexa-App, gehe zu Skills, suche Voice Planner und tippe auf Konto verknüpfen. ' +
+    'Danach kannst du Aufgaben zu deinem Notion-Workspace hinzufügen.',
+  'addTask.tasksDbMissing':
+    'Ich konnte deine Tasks-Datenbank in Notion nicht finden. ' +
+    'Bitte prüfe, ob die Datenbank existiert und genau „Tasks“ heißt. ' +
+    'Du kannst dein Notion-Konto in der App neu verbinden, um sie wieder einzurichten.',
+  'addTask.added': 'Hinzugefügt: {name}',
+  'addTask.addedHigh': 'Aufgabe mit hoher Priorität hinzugefügt: {name}',
+  'addTask.addedLow': 'Aufgabe mit niedriger Priorität hinzugefügt: {name}',
+  'addTask.willRemind': 'Ich erinnere dich daran.',
+  'addTask.cancelled': 'Okay, ich habe sie nicht hinzugefügt.',
+  'addTask.confirm': 'Soll ich {name}{details} hinzufügen?',
+  'addTask.repeating': ', wiederholt {rule}',
+  'addTask.withSteps': { one: ', mit {count} Schritt', other: ', mit {count} Schritten' },
+  'addTask.dueToday': ', fällig heute',
+  'addTask.dueTomorrow': ', fällig morgen',
+  'addTask.dueOn': ', fällig am {date}',
+  'addTask.atTime': ' um {time}',
+  'addTask.work': ' (Arbeit)',
+  'addTask.error': 'Beim Hinzufügen deiner Aufgabe ist ein Fehler aufgetreten. Bitte versuche es noch einmal.',
+  'dialog.taskName': 'Welche Aufgabe möchtest du hinzufügen?',
+  'dialog.taskNameReprompt': 'Sag mir die Aufgabe, die du hinzufügen möchtest.',
+  'dialog.dueDate': 'Wann ist sie fällig? Wenn sie kein Fälligkeitsdatum hat, sag einfach nein.',
+  'dialog.dueDateReprompt': 'Sag mir, an welchem Tag sie fällig ist, oder sag nein.',
+  'dialog.ambiguousDueDate': 'An welchem Tag genau ist sie fällig?',
+  'dialog.ambiguousDueDateReprompt': 'Sag mir den Tag, an dem sie fällig ist, zum Beispiel Freitag oder 5. März.',
+  'dialog.priority': 'Soll sie hohe, normale oder niedrige Priorität haben?',
+  'dialog.priorityReprompt': 'Sag hoch, normal oder niedrig.',
+  'dialog.category': 'Ist das eine Arbeitsaufgabe oder eine private Aufgabe?',
+  'dialog.categoryReprompt': 'Sag Arbeit oder privat.',
+  'addStep.prompt': 'Welchen Schritt möchtest du hinzufügen? Sag zum Beispiel „füge Schritt Ladegerät zu Reise packen hinzu“.',
+  'addStep.reprompt': 'Sag mir den Schritt und die Aufgabe, zu der er gehört.',
+  'addStep.notConnected':
+    'Um Schritte hinzuzufügen, musst du dein Notion-Konto verbinden. ' +
+    'Öffne die Alexa-App, gehe zu Skills, suche Voice Planner und tippe auf Konto verknüpfen.',
+  'addStep.unclear': 'Bitte sag mir den Schritt und die Aufgabe, zum Beispiel „füge Schritt Ladegerät zu Reise packen hinzu“.',
+  'addStep.added': 'Schritt „{step}“ zu „{name}“ hinzugefügt.',
+  'addStep.error': 'Beim Hinzufügen des Schritts ist ein Fehler aufgetreten. Bitte versuche es noch einmal.',
+  'reminders.text': 'Erinnerung: {name}',
+  'reminders.askPermission': 'Damit ich dich erinnern kann, wenn sie fällig ist, erlaube Erinnerungen in der Karte, die ich an deine Alexa-App gesendet habe.',
+
+  // ==========================================================================
+  // UPDATING AND DELETING TASKS
+  // ==========================================================================
+  'updateTask.notConnected':
+    'Um Aufgaben zu ändern, musst du dein Notion-Konto verbinden. ' +
+    'Öffne die Alexa-App, gehe zu Skills, suche Voice Planner und tippe auf Konto verknüpfen. ' +
+    'Danach kannst du deine Aufgaben ändern.',
+  'updateTask.prompt': 'Welche Aufgabe möchtest du ändern?',
+  'updateTask.reprompt': 'Sag mir, welche Aufgabe ich ändern soll und was sich ändern soll.',
+  'updateTask.unclear':
+    'Ich habe „{name}“ gefunden, aber ich weiß nicht, was du ändern möchtest. ' +
+    'Du kannst den Status, die Priorität oder das Fälligkeitsdatum ändern. Sag zum Beispiel „als erledigt markieren“ oder „auf hohe Priorität setzen“.',
+  'updateTask.status': 'Status auf {status}',
+  'updateTask.priority': 'Priorität auf {priority}',
+  'updateTask.dueDate': 'Fälligkeitsdatum auf {date}',
+  'updateTask.dueDateTime': 'Fälligkeitsdatum auf {date} um {time}',
+  'updateTask.noDueDate': 'kein Fälligkeitsdatum',
+  'updateTask.repeating': 'wiederholt {rule}',
+  'updateTask.notRepeating': 'wiederholt sich nicht mehr',
+  'updateTask.updated': '„{name}“ geändert: {changes}.',
+  'updateTask.nextDue': 'Die nächste ist am {date} fällig.',
+  'updateTask.error': 'Beim Ändern deiner Aufgabe ist ein Fehler aufgetreten. Bitte versuche es noch einmal.',
+  'deleteTask.notConnected':
+    'Um Aufgaben zu löschen, musst du dein Notion-Konto verbinden. ' +
+    'Öffne die Alexa-App, gehe zu Skills, suche Voice Planner und tippe auf Konto verknüpfen. ' +
+    'Danach kannst du Aufgaben aus deinem Notion-Workspace löschen.',
+  'deleteTask.prompt': 'Welche Aufgabe möchtest du löschen?',
+  'deleteTask.reprompt': 'Sag mir, welche Aufgabe ich löschen soll.',
+  'deleteTask.noCompleted': 'Du hast keine erledigten Aufgaben zum Löschen.',
+  'deleteTask.completedTasks': { one: '{count} erledigte Aufgabe', other: '{count} erledigte Aufgaben' },
+  'deleteTask.deleted': '{name} aus deiner Liste gelöscht.',
+  'deleteTask.deletedMany': '{description} gelöscht.',
+  'deleteTask.error': 'Beim Löschen deiner Aufgabe ist ein Fehler aufgetreten. Bitte versuche es noch einmal.',
+  'bulkDelete.prompt': 'Dadurch werden {description} gelöscht: {list}. Bist du sicher?',
+  'bulkDelete.reprompt': 'Sag ja, um sie zu löschen, oder nein, um sie zu behalten.',
+  'bulkDelete.listTwo': '{first} und {second}',
+  'bulkDelete.listMany': '{items} und {last}',
+  'bulkDelete.more': '{count} weitere',
+  'bulkDelete.cancelled': 'Okay, ich habe nichts gelöscht.',
+  'bulkDelete.error': 'Beim Löschen deiner Aufgaben ist ein Fehler aufgetreten. Bitte versuche es noch einmal.',
+  'disambiguation.promptOne': 'Meintest du {first}?',
+  'disambiguation.promptTwo': 'Meintest du {first} oder {second}?',
+  'disambiguation.promptMany': 'Meintest du {items} oder {last}?',
+  'disambiguation.noPending':
+    'Ich weiß nicht, welche Aufgabe du meinst. Sag den vollständigen Namen der Aufgabe, zum Beispiel „markiere Bericht fertigstellen als erledigt“.',
+  'disambiguation.cancelled': 'Okay, ich ändere nichts. Sag den vollständigen Namen der Aufgabe.',
+  'disambiguation.notCaught': 'Entschuldigung, ich habe nicht verstanden, welche. {prompt}',
+  'undo.notConnected':
+    'Um Änderungen rückgängig zu machen, musst du dein Notion-Konto verbinden. ' +
+    'Öffne die Alexa-App, gehe zu Skills, suche Voice Planner und tippe auf Konto verknüpfen.',
+  'undo.nothing': {
+    one: 'In der letzten Minute gibt es nichts rückgängig zu machen.',
+    other: 'In den letzten {count} Minuten gibt es nichts rückgängig zu machen.',
+  },
+  'undo.done': 'Okay, ich habe {description} rückgängig gemacht.',
+  'undo.error': 'Ich konnte das nicht rückgängig machen. Bitte prüfe die Aufgabe in Notion.',
+
+  'journal.add': 'das Hinzufügen von „{name}“',
+  'journal.addStep': 'das Hinzufügen von „{step}“ zu „{name}“',
+  'journal.update': 'die Änderung an „{name}“',
+  'journal.delete': 'das Löschen von „{name}“',
+  'journal.deleteMany': 'das Löschen von {description}',
+
+  'request.taskDone': '{task} als erledigt markieren',
+  'request.taskInProgress': '{task} als in Arbeit markieren',
+  'request.taskToDo': '{task} als zu erledigen markieren',
+  'request.taskHighPriority': '{task} auf hohe Priorität setzen',
+  'request.taskNormalPriority': '{task} auf normale Priorität setzen',
+  'request.taskLowPriority': '{task} auf niedrige Priorität setzen',
+  'request.taskDueDate': '{task} auf {date} verschieben',
+
+  // ==========================================================================
+  // READING TASKS
+  // ==========================================================================
+  'queryTasks.notConnected':
+    'Um deine Aufgaben zu sehen, musst du dein Notion-Konto verbinden. ' +
+    'Öffne die Alexa-App, gehe zu Skills, suche Voice Planner und tippe auf Konto verknüpfen. ' +
+    'Danach kann ich dir deine Aufgaben aus Notion zeigen.',
+  'queryTasks.prompt': 'Welche Aufgaben möchtest du sehen? Sag zum Beispiel „Aufgaben für heute“ oder „Aufgaben mit hoher Priorität“.',
+  'queryTasks.error': 'Beim Abrufen deiner Aufgaben ist ein Fehler aufgetreten. Bitte versuche es noch einmal.',
+  'steps.none': '{name} hat keine Schritte.',
+  'steps.allDone': 'Alle {count} Schritte von {name} sind erledigt.',
+  'steps.remaining': 'Bei {name} sind noch {remaining} von {total} Schritten offen: {list}.',
+  'taskList.noList': 'Ich habe noch keine Liste zum Durchgehen. Frag mich zuerst etwas wie „was sind meine Aufgaben“.',
+  'taskList.end': { one: 'Das ist das Ende der Liste.', other: 'Das ist das Ende der Liste. Du hast alle {count} Aufgaben gehört.' },
+  'taskList.atStart': 'Du bist schon am Anfang der Liste. Sag „weiter“, um fortzufahren.',
+  'taskList.noSuchNumber': { one: 'Nummer {number} gibt es auf der Liste nicht. Sie hat {count} Aufgabe.', other: 'Nummer {number} gibt es auf der Liste nicht. Sie hat {count} Aufgaben.' },
+  'taskList.noNumber': { one: 'Diese Nummer gibt es auf der Liste nicht. Sie hat {count} Aufgabe.', other: 'Diese Nummer gibt es auf der Liste nicht. Sie hat {count} Aufgaben.' },
+  'taskList.whichNumber': 'Welche Nummer möchtest du?',
+  'taskList.gone': 'Nummer {number} ist nicht mehr in deinen Aufgaben.',
+  'taskList.item': 'Nummer {number}: {detail}.',
+  'taskList.page': 'Aufgaben {from} bis {to} von {total}:',
+  'taskList.endShort': 'Das ist das Ende der Liste.',
+  'taskList.itemHelp':
+    'Nummer {number} ist „{name}“. Du kannst „markiere Nummer {number} als erledigt“, ' +
+    '„markiere Nummer {number} als in Arbeit“ oder „lösche Nummer {number}“ sagen.',
+  'taskList.error': 'Beim Durchgehen deiner Liste ist ein Fehler aufgetreten. Bitte versuche es noch einmal.',
+  'taskTouch.unsupported': 'Entschuldigung, das kann ich noch nicht.',
+  'taskTouch.gone': 'Diese Aufgabe ist nicht mehr in deiner Notion-Datenbank.',
+  'taskTouch.alreadyDone': '„{name}“ ist bereits erledigt.',
+
+  // ==========================================================================
+  // SPEECH (see utils/speech.ts)
+  // ==========================================================================
+  'speech.numberWords': 'null eins zwei drei vier fünf sechs sieben acht neun zehn',
+  'speech.dateAtTime': '{date} um {time}',
+  'speech.dueToday': { one: 'eine ist heute fällig', other: '{number} sind heute fällig' },
+  'speech.overdue': { one: 'eine ist überfällig', other: '{number} sind überfällig' },
+  'speech.due': ', fällig am {date}',
+  'speech.highPriority': ', hohe Priorität',
+  'speech.stepProgress': ', {done} von {total} Schritten erledigt',
+  'speech.noMatches': 'Du hast keine Aufgaben, die dazu passen.',
+  'speech.taskCount': { one: 'Du hast {count} Aufgabe.', other: 'Du hast {count} Aufgaben.' },
+  'speech.firstPage': 'Hier sind die ersten {count}:',
+  'speech.openTasks': { one: 'Du hast {count} offene Aufgabe.', other: 'Du hast {count} offene Aufgaben.' },
+  'speech.caughtUp': 'Du hast alles erledigt.',
+  'briefing.notConnected':
+    'Um dein Briefing zu hören, musst du dein Notion-Konto verbinden. ' +
+    'Öffne die Alexa-App, gehe zu Skills, suche Voice Planner und tippe auf Konto verknüpfen.',
+  'briefing.error': 'Beim Zusammenstellen deines Briefings ist ein Fehler aufgetreten. Bitte versuche es noch einmal.',
+  'briefing.morning': 'Guten Morgen!',
+  'briefing.afternoon': 'Guten Tag!',
+  'briefing.evening': 'Guten Abend!',
+  'briefing.more': '{count} weitere',
+  'briefing.atTime': ' um {time}',
+  'briefing.overdue': { one: 'Du hast eine überfällige Aufgabe: {items}.', other: 'Du hast {number} überfällige Aufgaben: {items}.' },
+  'briefing.today': 'Heute fällig: {items}.',
+  'briefing.tomorrow': 'Morgen: {items}.',
+  'briefing.nextDeadline': 'Deine nächste Frist ist {item}.',
+  'briefing.nothingDue': 'Nichts ist überfällig oder heute fällig.',
+  'briefing.summary': {
+    one: 'Insgesamt hast du {count} offene Aufgabe und {done} erledigte.',
+    other: 'Insgesamt hast du {count} offene Aufgaben und {done} erledigte.',
+  },
+
+  // ==========================================================================
+  // RECURRENCE (see describeRecurrence)
+  // ==========================================================================
+  'recurrence.weekdays': 'jeden Werktag',
+  'recurrence.weekends': 'jedes Wochenende',
+  'recurrence.days': 'jeden {days}',
+  'recurrence.otherDays': 'jeden zweiten {days}',
+  'recurrence.monthDay': 'am {day}. jedes Monats',
+  'recurrence.DAILY': 'jeden Tag',
+  'recurrence.DAILY.other': 'jeden zweiten Tag',
+  'recurrence.DAILY.interval': 'alle {count} Tage',
+  'recurrence.WEEKLY': 'jede Woche',
+  'recurrence.WEEKLY.other': 'jede zweite Woche',
+  'recurrence.WEEKLY.interval': 'alle {count} Wochen',
+  'recurrence.MONTHLY': 'jeden Monat',
+  'recurrence.MONTHLY.other': 'jeden zweiten Monat',
+  'recurrence.MONTHLY.interval': 'alle {count} Monate',
+  'recurrence.YEARLY': 'jedes Jahr',
+  'recurrence.YEARLY.other': 'jedes zweite Jahr',
+  'recurrence.YEARLY.interval': 'alle {count} Jahre',
+
+  // ==========================================================================
+  // SCREENS (see utils/apl.ts)
+  // ==========================================================================
+  'apl.due': 'Fällig {date}',
+  'apl.noDueDate': 'Kein Fälligkeitsdatum',
+  'apl.priority': 'Priorität {priority}',
+  'apl.completed': 'Erledigt',
+  'apl.tapToComplete': 'Zum Erledigen tippen',
+  'apl.stepProgress': '{done} von {total} Schritten erledigt',
+};
+
+export default messages;
@@ -0,0 +1,300 @@
+/**
+ * A catalog entry: plain text, or one text per plural category (picked by
+ * the `count` parameter). `{name}` placeholders are filled in by translate().
+ */
+export type Message = string | { one: string; other: string };
+
+// English is the reference catalog: every other locale must have its keys
+const messages = {
+  // ==========================================================================
+  // COMMON
+  // ==========================================================================
+  'common.whatToDo': 'What would you like to do?',
+  'common.whatElse': 'What else would you like to do?',
+  'common.tasksDbMissing': 'I couldn\'t find your Tasks database in Notion. Please make sure it exists and try again.',
+  'common.taskNotFound': 'I couldn\'t find "{name}" in your tasks. Please try saying the full task name.',
+  'common.notConnected':
+    'To manage tasks, you need to connect your Notion account. ' +
+    'Open the Alexa app, go to Skills, find Voice Planner, and click Link Account.',
+  'common.linkAccount': 'Please link your Notion account in the Alexa app to continue.',
+  'common.fatalError': 'Sorry, something went wrong. Please try again.',
+  'list.and': '{items} and {last}',
+  'list.sayNext': 'Say "next" to hear more.',
+  'list.nextReprompt': 'Say "next" to hear more, or "read number 3" for details.',
+  'status.TO DO': 'to do',
+  'status.IN_PROCESS': 'in progress',
+  'status.DONE': 'done',
+  'priority.HIGH': 'high',
+  'priority.NORMAL': 'normal',
+  'priority.LOW': 'low',
+
+  // ==========================================================================
+  // LAUNCH, HELP AND ERRORS
+  // ==========================================================================
+  'launch.welcome': 'Welcome to Voice Planner!',
+  'launch.intro':
+    'I can help you manage your tasks. ' +
+    'You can add tasks, list your tasks, mark them complete, update their status, or delete them. ' +
+    'You can also check your connection status. What would you like to do?',
+  'launch.notionRequired':
+    'To use Voice Planner, you need to connect your Notion account. ' +
+    'Open the Alexa app, go to Skills, find Voice Planner, and click Link Account. ' +
+    'Once connected, I can help you manage your tasks in Notion. ' +
+    'Would you like help connecting your account?',
+  'launch.notionRequiredReprompt': 'Would you like help connecting your account?',
+  'launch.notionRequiredFallback': 'Please connect your Notion account in the Alexa app.',
+  'launch.error':
+    'Welcome to Voice Planner! I encountered an issue connecting to your account. ' +
+    'Please try again in a moment, or open the Alexa app to check your account settings.',
+  'launch.errorFallback': 'Welcome to Voice Planner. Please try again later.',
+  'help.text':
+    'I can help you manage your tasks in Notion. ' +
+    'You can add tasks, query your tasks, update tasks, or delete them. ' +
+    'For example, say "add finish the report tomorrow at 5pm" or "what are my tasks for today". ' +
+    'What would you like to do?',
+  'help.goodbye': 'Goodbye!',
+  'help.unhandled':
+    'I\'m not sure how to help with that. I can help you manage your tasks in Notion. ' +
+    'You can add a task, query your tasks, update a task, delete a task, or say "help" to learn more. ' +
+    'What would you like to do?',
+  'error.request': 'I encountered an error processing your request. Please try again.',
+  'error.license': 'Your license key is invalid. Please contact support.',
+  'error.licenseInactive': 'Your license is not active. Please visit the app to purchase or activate your license.',
+  'error.licenseDeactivated': 'Your license key is invalid or has been deactivated. Please contact support.',
+  'error.linkAccount': 'Please link your account in the Alexa app to use this skill.',
+  'error.unhandledIntent':
+    'I\'m not sure how to help with that. ' +
+    'You can add tasks, list tasks, mark them complete, update them, or delete them. ' +
+    'What would you like to do?',
+  'error.generic': 'Sorry, I encountered an error. Please try again later.',
+  'scope.missingRead':
+    'This device isn\'t allowed to read your tasks. ' +
+    'To change that, link Voice Planner again in the Alexa app and allow reading tasks.',
+  'scope.missingWrite':
+    'This device isn\'t allowed to add or change tasks. ' +
+    'To change that, link Voice Planner again in the Alexa app and allow adding and updating tasks.',
+  'scope.missingDelete':
+    'This device isn\'t allowed to delete tasks. ' +
+    'To change that, link Voice Planner again in the Alexa app and allow deleting tasks.',
+
+  // ==========================================================================
+  // ADDING TASKS AND STEPS
+  // ==========================================================================
+  'addTask.notConnected':
+    'To add tasks, you need to connect your Notion account. ' +
+    'Open the Alexa app, go to Skills, find Voice Planner, and click Link Account. ' +
+    'Once connected, you can add tasks to your Notion workspace.',
+  'addTask.tasksDbMissing':
+    'I couldn\'t find your Tasks database in Notion. ' +
+    'Please make sure the database exists and is named exactly "Tasks". ' +
+    'You can reconnect your Notion account in the app to set it up again.',
+  'addTask.added': 'Added: {name}',
+  'addTask.addedHigh': 'Added high priority task: {name}',
+  'addTask.addedLow': 'Added low priority task: {name}',
+  'addTask.willRemind': 'I\'ll remind you.',
+  'addTask.cancelled': 'Okay, I didn\'t add it.',
+  'addTask.confirm': 'Should I add {name}{details}?',
+  'addTask.repeating': ', repeating {rule}',
+  'addTask.withSteps': { one: ', with {count} step', other: ', with {count} steps' },
+  'addTask.dueToday': ', due today',
+  'addTask.dueTomorrow': ', due tomorrow',
+  'addTask.dueOn': ', due {date}',
+  'addTask.atTime': ' at {time}',
+  'addTask.work': ' (work)',
+  'addTask.error': 'I encountered an error adding your task. Please try again.',
+  'dialog.taskName': 'What task would you like to add?',
+  'dialog.taskNameReprompt': 'Tell me the task you want to add.',
+  'dialog.dueDate': 'When is it due? If it has no due date, just say no.',
+  'dialog.dueDateReprompt': 'Tell me the day it\'s due, or say no.',
+  'dialog.ambiguousDueDate': 'Which day exactly is it due?',
+  'dialog.ambiguousDueDateReprompt': 'Tell me the day it\'s due, for example Friday or March 5th.',
+  'dialog.priority': 'Should that be high, normal, or low priority?',
+  'dialog.priorityReprompt': 'Say high, normal, or low.',
+  'dialog.category': 'Is that a work or a personal task?',
+  'dialog.categoryReprompt': 'Say work or personal.',
+  'addStep.prompt': 'What step would you like to add? For example, say "add step charger to pack for trip".',
+  'addStep.reprompt': 'Tell me the step and the task to add it to.',
+  'addStep.notConnected':
+    'To add steps, you need to connect your Notion account. ' +
+    'Open the Alexa app, go to Skills, find Voice Planner, and click Link Account.',
+  'addStep.unclear': 'Please tell me the step and the task, for example "add step charger to pack for trip".',
+  'addStep.added': 'Added step "{step}" to "{name}".',
+  'addStep.error': 'I encountered an error adding that step. Please try again.',
+  'reminders.text': 'Reminder: {name}',
+  'reminders.askPermission': 'To get a reminder when it\'s due, allow reminders in the card I sent to your Alexa app.',
+
+  // ==========================================================================
+  // UPDATING AND DELETING TASKS
+  // ==========================================================================
+  'updateTask.notConnected':
+    'To update tasks, you need to connect your Notion account. ' +
+    'Open the Alexa app, go to Skills, find Voice Planner, and click Link Account. ' +
+    'Once connected, you can update your tasks.',
+  'updateTask.prompt': 'What task would you like to update?',
+  'updateTask.reprompt': 'Tell me which task to update and what to change.',
+  'updateTask.unclear':
+    'I found "{name}", but I\'m not sure what you\'d like to update. ' +
+    'You can update the status, priority, or due date. For example, say "mark it as done" or "set priority to high".',
+  'updateTask.status': 'status to {status}',
+  'updateTask.priority': 'priority to {priority}',
+  'updateTask.dueDate': 'due date to {date}',
+  'updateTask.dueDateTime': 'due date to {date} at {time}',
+  'updateTask.noDueDate': 'no due date',
+  'updateTask.repeating': 'repeating {rule}',
+  'updateTask.notRepeating': 'no longer repeating',
+  'updateTask.updated': 'Updated "{name}": {changes}.',
+  'updateTask.nextDue': 'The next one is due {date}.',
+  'updateTask.error': 'I encountered an error updating your task. Please try again.',
+  'deleteTask.notConnected':
+    'To delete tasks, you need to connect your Notion account. ' +
+    'Open the Alexa app, go to Skills, find Voice Planner, and click Link Account. ' +
+    'Once connected, you can delete tasks from your Notion workspace.',
+  'deleteTask.prompt': 'What task would you like to delete?',
+  'deleteTask.reprompt': 'Tell me which task to delete.',
+  'deleteTask.noCompleted': 'You have no completed tasks to delete.',
+  'deleteTask.completedTasks': { one: '{count} completed task', other: '{count} completed tasks' },
+  'deleteTask.deleted': 'Deleted: {name} from your list.',
+  'deleteTask.deletedMany': 'Deleted {description}.',
+  'deleteTask.error': 'I encountered an error deleting your task. Please try again.',
+  'bulkDelete.prompt': 'This will delete {description}: {list}. Are you sure?',
+  'bulkDelete.reprompt': 'Say yes to delete them, or no to keep them.',
+  'bulkDelete.listTwo': '{first} and {second}',
+  'bulkDelete.listMany': '{items}, and {last}',
+  'bulkDelete.more': '{count} more',
+  'bulkDelete.cancelled': 'Okay, I didn\'t delete anything.',
+  'bulkDelete.error': 'I encountered an error deleting your tasks. Please try again.',
+  'disambiguation.promptOne': 'Did you mean {first}?',
+  'disambiguation.promptTwo': 'Did you mean {first} or {second}?',
+  'disambiguation.promptMany': 'Did you mean {items}, or {last}?',
+  'disambiguation.noPending':
+    'I\'m not sure which task you mean. Try saying the full task name, for example "mark finish the report as done".',
+  'disambiguation.cancelled': 'Okay, I won\'t change anything. Try saying the full task name.',
+  'disambiguation.notCaught': 'Sorry, I didn\'t catch which one. {prompt}',
+  'undo.notConnected':
+    'To undo changes, you need to connect your Notion account. ' +
+    'Open the Alexa app, go to Skills, find Voice Planner, and click Link Account.',
+  'undo.nothing': {
+    one: 'There\'s nothing to undo from the last minute.',
+    other: 'There\'s nothing to undo from the last {count} minutes.',
+  },
+  'undo.done': 'Okay, I undid {description}.',
+  'undo.error': 'I couldn\'t undo that. Please check the task in Notion.',
+
+  // What "undo" reverses, as in "Okay, I undid adding "call mom"."
+  'journal.add': 'adding "{name}"',
+  'journal.addStep': 'adding "{step}" to "{name}"',
+  'journal.update': 'the change to "{name}"',
+  'journal.delete': 'deleting "{name}"',
+  'journal.deleteMany': 'deleting {description}',
+
+  // Update requests built from slots; parsed like spoken ones,
+  // so they must use this language's status and priority keywords
+  'request.taskDone': 'mark {task} as done',
+  'request.taskInProgress': 'mark {task} as in progress',
+  'request.taskToDo': 'mark {task} as to do',
+  'request.taskHighPriority': 'set {task} to high priority',
+  'request.taskNormalPriority': 'set {task} to normal priority',
+  'request.taskLowPriority': 'set {task} to low priority',
+  'request.taskDueDate': 'move {task} to {date}',
+
+  // ==========================================================================
+  // READING TASKS
+  // ==========================================================================
+  'queryTasks.notConnected':
+    'To view your tasks, you need to connect your Notion account. ' +
+    'Open the Alexa app, go to Skills, find Voice Planner, and click Link Account. ' +
+    'Once connected, I can show you your tasks from Notion.',
+  'queryTasks.prompt': 'What tasks would you like to see? For example, say "tasks for today" or "high priority tasks".',
+  'queryTasks.error': 'I encountered an error retrieving your tasks. Please try again.',
+  'steps.none': '{name} doesn\'t have any steps.',
+  'steps.allDone': 'All {count} steps of {name} are done.',
+  'steps.remaining': '{name} has {remaining} of {total} steps left: {list}.',
+  'taskList.noList': 'I don\'t have a list to go through yet. Ask me something like "what are my tasks" first.',
+  'taskList.end': { one: 'That\'s the end of the list.', other: 'That\'s the end of the list. You\'ve heard all {count} tasks.' },
+  'taskList.atStart': 'You\'re already at the start of the list. Say "next" to keep going.',
+  'taskList.noSuchNumber': { one: 'There\'s no number {number} on the list. It has {count} task.', other: 'There\'s no number {number} on the list. It has {count} tasks.' },
+  'taskList.noNumber': { one: 'There\'s no number like that on the list. It has {count} task.', other: 'There\'s no number like that on the list. It has {count} tasks.' },
+  'taskList.whichNumber': 'Which number would you like?',
+  'taskList.gone': 'Number {number} isn\'t in your tasks any more.',
+  'taskList.item': 'Number {number}: {detail}.',
+  'taskList.page': 'Tasks {from} to {to} of {total}:',
+  'taskList.endShort': 'That\'s the end of the list.',
+  'taskList.itemHelp':
+    'Number {number} is "{name}". You can say "mark number {number} done", ' +
+    '"mark number {number} in progress", or "delete number {number}".',
+  'taskList.error': 'I encountered an error going through your list. Please try again.',
+  'taskTouch.unsupported': 'Sorry, I can\'t do that yet.',
+  'taskTouch.gone': 'That task isn\'t in your Notion database any more.',
+  'taskTouch.alreadyDone': '"{name}" is already done.',
+
+  // ==========================================================================
+  // SPEECH (see utils/speech.ts)
+  // ==========================================================================
+  'speech.numberWords': 'zero one two three four five six seven eight nine ten',
+  'speech.dateAtTime': '{date} at {time}',
+  'speech.dueToday': { one: 'one is due today', other: '{number} are due today' },
+  'speech.overdue': { one: 'one is overdue', other: '{number} are overdue' },
+  'speech.due': ', due {date}',
+  'speech.highPriority': ', high priority',
+  'speech.stepProgress': ', {done} of {total} steps done',
+  'speech.noMatches': 'You have no tasks matching that criteria.',
+  'speech.taskCount': { one: 'You have {count} task.', other: 'You have {count} tasks.' },
+  'speech.firstPage': 'Here are the first {count}:',
+  'speech.openTasks': { one: 'You have {count} open task.', other: 'You have {count} open tasks.' },
+  'speech.caughtUp': 'You\'re all caught up.',
+  'briefing.notConnected':
+    'To hear your briefing, you need to connect your Notion account. ' +
+    'Open the Alexa app, go to Skills, find Voice Planner, and click Link Account.',
+  'briefing.error': 'I encountered an error putting together your briefing. Please try again.',
+  'briefing.morning': 'Good morning!',
+  'briefing.afternoon': 'Good afternoon!',
+  'briefing.evening': 'Good evening!',
+  'briefing.more': '{count} more',
+  'briefing.atTime': ' at {time}',
+  'briefing.overdue': { one: 'You have one overdue task: {items}.', other: 'You have {number} overdue tasks: {items}.' },
+  'briefing.today': 'Due today: {items}.',
+  'briefing.tomorrow': 'Tomorrow: {items}.',
+  'briefing.nextDeadline': 'Your next deadline is {item}.',
+  'briefing.nothingDue': 'Nothing is overdue or due today.',
+  'briefing.summary': {
+    one: 'Overall, you have {count} open task and {done} done.',
+    other: 'Overall, you have {count} open tasks and {done} done.',
+  },
+
+  // ==========================================================================
+  // RECURRENCE (see describeRecurrence)
+  // ==========================================================================
+  'recurrence.weekdays': 'every weekday',
+  'recurrence.weekends': 'every weekend',
+  'recurrence.days': 'every {days}',
+  'recurrence.otherDays': 'every other {days}',
+  'recurrence.monthDay': 'on the {ordinal} of every month',
+  'recurrence.DAILY': 'every day',
+  'recurrence.DAILY.other': 'every other day',
+  'recurrence.DAILY.interval': 'every {count} days',
+  'recurrence.WEEKLY': 'every week',
+  'recurrence.WEEKLY.other': 'every other week',
+  'recurrence.WEEKLY.interval': 'every {count} weeks',
+  'recurrence.MONTHLY': 'every month',
+  'recurrence.MONTHLY.other': 'every other month',
+  'recurrence.MONTHLY.interval': 'every {count} months',
+  'recurrence.YEARLY': 'every year',
+  'recurrence.YEARLY.other': 'every other year',
+  'recurrence.YEARLY.interval': 'every {count} years',
+
+  // ==========================================================================
+  // SCREENS (see utils/apl.ts)
+  // ==========================================================================
+  'apl.due': 'Due {date}',
+  'apl.noDueDate': 'No due date',
+  'apl.priority': '{priority} priority',
+  'apl.completed': 'Completed',
+  'apl.tapToComplete': 'Tap to complete',
+  'apl.stepProgress': '{done} of {total} steps done',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof messages;
+
+export type Catalog = Record<MessageKey, Message>;
+
+export default messages as Catalog;
@@ -0,0 +1,288 @@
+import { Catalog } from './en-US';
+
+const messages: Catalog = {
+  // ==========================================================================
+  // COMMON
+  // ==========================================================================
+  'common.whatToDo': '¿Qué quieres hacer?',
+  'common.whatElse': '¿Qué más quieres hacer?',
+  'common.tasksDbMissing': 'No he encontrado tu base de datos Tasks en Notion. Comprueba que existe y vuelve a intentarlo.',
+  'common.taskNotFound': 'No he encontrado "{name}" en tus tareas. Prueba a decir el nombre completo de la tarea.',
+  'common.notConnected':
+    'Para gestionar tareas, tienes que conectar tu cuenta de Notion. ' +
+    'Abre la app de Alexa, ve a Skills, busca Voice Planner y pulsa Vincular cuenta.',
+  'common.linkAccount': 'Vincula tu cuenta de Notion en la app de Alexa para continuar.',
+  'common.fatalError': 'Lo siento, algo ha salido mal. Vuelve a intentarlo.',
+  'list.and': '{items} y {last}',
+  'list.sayNext': 'Di "siguiente" para escuchar más.',
+  'list.nextReprompt': 'Di "siguiente" para escuchar más, o "lee el número 3" para ver los detalles.',
+  'status.TO DO': 'por hacer',
+  'status.IN_PROCESS': 'en curso',
+  'status.DONE': 'hecha',
+  'priority.HIGH': 'alta',
+  'priority.NORMAL': 'normal',
+  'priority.LOW': 'baja',
+
+  // ==========================================================================
+  // LAUNCH, HELP AND ERRORS
+  // ==========================================================================
+  'launch.welcome': '¡Bienvenido a Voice Planner!',
+  'launch.intro':
+    'Puedo ayudarte a gestionar tus tareas. ' +
+    'Puedes añadir tareas, listarlas, marcarlas como hechas, cambiar su estado o borrarlas. ' +
+    'También puedes comprobar el estado de tu conexión. ¿Qué quieres hacer?',
+  'launch.notionRequired':
+    'Para usar Voice Planner, tienes que conectar tu cuenta de Notion. ' +
+    'Abre la app de Alexa, ve a Skills, busca Voice Planner y pulsa Vincular cuenta. ' +
+    'Una vez conectada, podré ayudarte a gestionar tus tareas en Notion. ' +
+    '¿Quieres ayuda para conectar tu cuenta?',
+  'launch.notionRequiredReprompt': '¿Quieres ayuda para conectar tu cuenta?',
+  'launch.notionRequiredFallback': 'Conecta tu cuenta de Notion en la app de Alexa.',
+  'launch.error':
+    '¡Bienvenido a Voice Planner! He tenido un problema al conectar con tu cuenta. ' +
+    'Vuelve a intentarlo en un momento o abre la app de Alexa para revisar la configuración de tu cuenta.',
+  'launch.errorFallback': 'Bienvenido a Voice Planner. Vuelve a intentarlo más tarde.',
+  'help.text':
+    'Puedo ayudarte a gestionar tus tareas en Notion. ' +
+    'Puedes añadir tareas, consultarlas, cambiarlas o borrarlas. ' +
+    'Por ejemplo, di "añade terminar el informe mañana a las 5 de la tarde" o "cuáles son mis tareas para hoy". ' +
+    '¿Qué quieres hacer?',
+  'help.goodbye': '¡Adiós!',
+  'help.unhandled':
+    'No sé cómo ayudarte con eso. Puedo ayudarte a gestionar tus tareas en Notion. ' +
+    'Puedes añadir una tarea, consultar tus tareas, cambiar una tarea, borrar una tarea o decir "ayuda" para saber más. ' +
+    '¿Qué quieres hacer?',
+  'error.request': 'He tenido un error al procesar tu petición. Vuelve a intentarlo.',
+  'error.license': 'Tu clave de licencia no es válida. Ponte en contacto con el soporte.',
+  'error.licenseInactive': 'Tu licencia no está activa. Visita la app para comprar o activar tu licencia.',
+  'error.licenseDeactivated': 'Tu clave de licencia no es válida o se ha desactivado. Ponte en contacto con el soporte.',
+  'error.linkAccount': 'Vincula tu cuenta en la app de Alexa para usar esta skill.',
+  'error.unhandledIntent':
+    'No sé cómo ayudarte con eso. ' +
+    'Puedes añadir tareas, listarlas, marcarlas como hechas, cambiarlas o borrarlas. ' +
+    '¿Qué quieres hacer?',
+  'error.generic': 'Lo siento, he tenido un error. Vuelve a intentarlo más tarde.',
+  'scope.missingRead':
+    'Este dispositivo no tiene permiso para leer tus tareas. ' +
+    'Para cambiarlo, vuelve a vincular Voice Planner en la app de Alexa y permite leer tareas.',
+  'scope.missingWrite':
+    'Este dispositivo no tiene permiso para añadir ni cambiar tareas. ' +
+    'Para cambiarlo, vuelve a vincular Voice Planner en la app de Alexa y permite añadir y actualizar tareas.',
+  'scope.missingDelete':
+    'Este dispositivo no tiene permiso para eliminar tareas. ' +
+    'Para cambiarlo, vuelve a vincular Voice Planner en la app de Alexa y permite eliminar tareas.',
+
+  // ==========================================================================
+  // ADDING TASKS AND STEPS
+  // ==========================================================================
+  'addTask.notConnected':
+    'Para añadir tareas, tienes que conectar tu cuenta de Notion. ' +
+    'Abre la app de Alexa, ve a Skills, busca Voice Planner y pulsa Vincular cuenta. ' +
+    'Una vez conectada, podrás añadir tareas a tu espacio de trabajo de Notion.',
+  'addTask.tasksDbMissing':
+    'No he encontrado tu base de datos Tasks en Notion. ' +
+    'Comprueba que la base de datos existe y se llama exactamente "Tasks". ' +
+    'Puedes volver a conectar tu cuenta de Notion en la app para configurarla de nuevo.',
+  'addTask.added': 'Añadida: {name}',
+  'addTask.addedHigh': 'Añadida tarea de prioridad alta: {name}',
+  'addTask.addedLow': 'Añadida tarea de prioridad baja: {name}',
+  'addTask.willRemind': 'Te lo recordaré.',
+  'addTask.cancelled': 'Vale, no la he añadido.',
+  'addTask.confirm': '¿Añado {name}{details}?',
+  'addTask.repeating': ', que se repite {rule}',
+  'addTask.withSteps': { one: ', con {count} paso', other: ', con {count} pasos' },
+  'addTask.dueToday': ', para hoy',
+  'addTask.dueTomorrow': ', para mañana',
+  'addTask.dueOn': ', para el {date}',
+  'addTask.atTime': ' a las {time}',
+  'addTask.work': ' (trabajo)',
+  'addTask.error': 'He tenido un error al añadir tu tarea. Vuelve a intentarlo.',
+  'dialog.taskName': '¿Qué tarea quieres añadir?',
+  'dialog.taskNameReprompt': 'Dime la tarea que quieres añadir.',
+  'dialog.dueDate': '¿Para cuándo es? Si no tiene fecha, di simplemente no.',
+  'dialog.dueDateReprompt': 'Dime el día en que vence, o di no.',
+  'dialog.ambiguousDueDate': '¿Qué día exactamente vence?',
+  'dialog.ambiguousDueDateReprompt': 'Dime el día en que vence, por ejemplo el viernes o el 5 de marzo.',
+  'dialog.priority': '¿Debe tener prioridad alta, normal o baja?',
+  'dialog.priorityReprompt': 'Di alta, normal o baja.',
+  'dialog.category': '¿Es una tarea de trabajo o personal?',
+  'dialog.categoryReprompt': 'Di trabajo o personal.',
+  'addStep.prompt': '¿Qué paso quieres añadir? Por ejemplo, di "añade el paso cargador a preparar el viaje".',
+  'addStep.reprompt': 'Dime el paso y la tarea a la que quieres añadirlo.',
+  'addStep.notConnected':
+    'Para añadir pasos, tienes que conectar tu cuenta de Notion. ' +
+    'Abre la app de Alexa, ve a Skills, busca Voice Planner y pulsa Vincular cuenta.',
+  'addStep.unclear': 'Dime el paso y la tarea, por ejemplo "añade el paso cargador a preparar el viaje".',
+  'addStep.added': 'He añadido el paso "{step}" a "{name}".',
+  'addStep.error': 'He tenido un error al añadir ese paso. Vuelve a intentarlo.',
+  'reminders.text': 'Recordatorio: {name}',
+  'reminders.askPermission': 'Para recibir un recordatorio cuando venza, permite los recordatorios en la tarjeta que he enviado a tu app de Alexa.',
+
+  // ==========================================================================
+  // UPDATING AND DELETING TASKS
+  // ==========================================================================
+  'updateTask.notConnected':
+    'Para cambiar tareas, tienes que conectar tu cuenta de Notion. ' +
+    'Abre la app de Alexa, ve a Skills, busca Voice Planner y pulsa Vincular cuenta. ' +
+    'Una vez conectada, podrás cambiar tus tareas.',
+  'updateTask.prompt': '¿Qué tarea quieres cambiar?',
+  'updateTask.reprompt': 'Dime qué tarea quieres cambiar y qué quieres cambiar.',
+  'updateTask.unclear':
+    'He encontrado "{name}", pero no sé qué quieres cambiar. ' +
+    'Puedes cambiar el estado, la prioridad o la fecha de vencimiento. Por ejemplo, di "márcala como hecha" o "ponle prioridad alta".',
+  'updateTask.status': 'estado a {status}',
+  'updateTask.priority': 'prioridad a {priority}',
+  'updateTask.dueDate': 'fecha de vencimiento al {date}',
+  'updateTask.dueDateTime': 'fecha de vencimiento al {date} a las {time}',
+  'updateTask.noDueDate': 'sin fecha de vencimiento',
+  'updateTask.repeating': 'se repite {rule}',
+  'updateTask.notRepeating': 'ya no se repite',
+  'updateTask.updated': 'He cambiado "{name}": {changes}.',
+  'updateTask.nextDue': 'La siguiente vence el {date}.',
+  'updateTask.error': 'He tenido un error al cambiar tu tarea. Vuelve a intentarlo.',
+  'deleteTask.notConnected':
+    'Para borrar tareas, tienes que conectar tu cuenta de Notion. ' +
+    'Abre la app de Alexa, ve a Skills, busca Voice Planner y pulsa Vincular cuenta. ' +
+    'Una vez conectada, podrás borrar tareas de tu espacio de trabajo de Notion.',
+  'deleteTask.prompt': '¿Qué tarea quieres borrar?',
+  'deleteTask.reprompt': 'Dime qué tarea quieres borrar.',
+  'deleteTask.noCompleted': 'No tienes tareas terminadas que borrar.',
+  'deleteTask.completedTasks': { one: '{count} tarea terminada', other: '{count} tareas terminadas' },
+  'deleteTask.deleted': 'He borrado {name} de tu lista.',
+  'deleteTask.deletedMany': 'He borrado {description}.',
+  'deleteTask.error': 'He tenido un error al borrar tu tarea. Vuelve a intentarlo.',
+  'bulkDelete.prompt': 'Esto borrará {description}: {list}. ¿Estás seguro?',
+  'bulkDelete.reprompt': 'Di sí para borrarlas, o no para conservarlas.',
+  'bulkDelete.listTwo': '{first} y {second}',
+  'bulkDelete.listMany': '{items} y {last}',
+  'bulkDelete.more': '{count} más',
+  'bulkDelete.cancelled': 'Vale, no he borrado nada.',
+  'bulkDelete.error': 'He tenido un error al borrar tus tareas. Vuelve a intentarlo.',
+  'disambiguation.promptOne': '¿Te refieres a {first}?',
+  'disambiguation.promptTwo': '¿Te refieres a {first} o a {second}?',
+  'disambiguation.promptMany': '¿Te refieres a {items} o a {last}?',
+  'disambiguation.noPending':
+    'No sé a qué tarea te refieres. Prueba a decir el nombre completo de la tarea, por ejemplo "marca terminar el informe como hecha".',
+  'disambiguation.cancelled': 'Vale, no cambiaré nada. Prueba a decir el nombre completo de la tarea.',
+  'disambiguation.notCaught': 'Perdona, no he entendido cuál. {prompt}',
+  'undo.notConnected':
+    'Para deshacer cambios, tienes que conectar tu cuenta de Notion. ' +
+    'Abre la app de Alexa, ve a Skills, busca Voice Planner y pulsa Vincular cuenta.',
+  'undo.nothing': {
+    one: 'No hay nada que deshacer del último minuto.',
+    other: 'No hay nada que deshacer de los últimos {count} minutos.',
+  },
+  'undo.done': 'Vale, he deshecho {description}.',
+  'undo.error': 'No he podido deshacerlo. Revisa la tarea en Notion.',
+
+  'journal.add': 'la tarea "{name}" que añadiste',
+  'journal.addStep': 'el paso "{step}" que añadiste a "{name}"',
+  'journal.update': 'el cambio en "{name}"',
+  'journal.delete': 'el borrado de "{name}"',
+  'journal.deleteMany': 'el borrado de {description}',
+
+  'request.taskDone': 'marcar {task} como hecha',
+  'request.taskInProgress': 'marcar {task} como en curso',
+  'request.taskToDo': 'marcar {task} como por hacer',
+  'request.taskHighPriority': 'poner {task} con prioridad alta',
+  'request.taskNormalPriority': 'poner {task} con prioridad normal',
+  'request.taskLowPriority': 'poner {task} con prioridad baja',
+  'request.taskDueDate': 'mover {task} al {date}',
+
+  // ==========================================================================
+  // READING TASKS
+  // ==========================================================================
+  'queryTasks.notConnected':
+    'Para ver tus tareas, tienes que conectar tu cuenta de Notion. ' +
+    'Abre la app de Alexa, ve a Skills, busca Voice Planner y pulsa Vincular cuenta. ' +
+    'Una vez conectada, podré mostrarte tus tareas de Notion.',
+  'queryTasks.prompt': '¿Qué tareas quieres ver? Por ejemplo, di "tareas para hoy" o "tareas de prioridad alta".',
+  'queryTasks.error': 'He tenido un error al obtener tus tareas. Vuelve a intentarlo.',
+  'steps.none': '{name} no tiene pasos.',
+  'steps.allDone': 'Los {count} pasos de {name} están hechos.',
+  'steps.remaining': 'A {name} le quedan {remaining} de {total} pasos: {list}.',
+  'taskList.noList': 'Todavía no tengo ninguna lista que recorrer. Pregúntame primero algo como "cuáles son mis tareas".',
+  'taskList.end': { one: 'Ese es el final de la lista.', other: 'Ese es el final de la lista. Ya has escuchado las {count} tareas.' },
+  'taskList.atStart': 'Ya estás al principio de la lista. Di "siguiente" para continuar.',
+  'taskList.noSuchNumber': { one: 'No hay ningún número {number} en la lista. Tiene {count} tarea.', other: 'No hay ningún número {number} en la lista. Tiene {count} tareas.' },
+  'taskList.noNumber': { one: 'No hay ningún número así en la lista. Tiene {count} tarea.', other: 'No hay ningún número así en la lista. Tiene {count} tareas.' },
+  'taskList.whichNumber': '¿Qué número quieres?',
+  'taskList.gone': 'El número {number} ya no está en tus tareas.',
+  'taskList.item': 'Número {number}: {detail}.',
+  'taskList.page': 'Tareas {from} a {to} de {total}:',
+  'taskList.endShort': 'Ese es el final de la lista.',
+  'taskList.itemHelp':
+    'El número {number} es "{name}". Puedes decir "marca el número {number} como hecho", ' +
+    '"marca el número {number} como en curso" o "borra el número {number}".',
+  'taskList.error': 'He tenido un error al recorrer tu lista. Vuelve a intentarlo.',
+  'taskTouch.unsupported': 'Lo siento, todavía no puedo hacer eso.',
+  'taskTouch.gone': 'Esa tarea ya no está en tu base de datos de Notion.',
+  'taskTouch.alreadyDone': '"{name}" ya está hecha.',
+
+  // ==========================================================================
+  // SPEECH (see utils/speech.ts)
+  // ==========================================================================
+  'speech.numberWords': 'cero una dos tres cuatro cinco seis siete ocho nueve diez',
+  'speech.dateAtTime': '{date} a las {time}',
+  'speech.dueToday': { one: 'una vence hoy', other: '{number} vencen hoy' },
+  'speech.overdue': { one: 'una está vencida', other: '{number} están vencidas' },
+  'speech.due': ', vence el {date}',
+  'speech.highPriority': ', prioridad alta',
+  'speech.stepProgress': ', {done} de {total} pasos hechos',
+  'speech.noMatches': 'No tienes tareas que coincidan con eso.',
+  'speech.taskCount': { one: 'Tienes {count} tarea.', other: 'Tienes {count} tareas.' },
+  'speech.firstPage': 'Aquí están las primeras {count}:',
+  'speech.openTasks': { one: 'Tienes {count} tarea pendiente.', other: 'Tienes {count} tareas pendientes.' },
+  'speech.caughtUp': 'Lo tienes todo al día.',
+  'briefing.notConnected':
+    'Para escuchar tu resumen, tienes que conectar tu cuenta de Notion. ' +
+    'Abre la app de Alexa, ve a Skills, busca Voice Planner y pulsa Vincular cuenta.',
+  'briefing.error': 'He tenido un error al preparar tu resumen. Vuelve a intentarlo.',
+  'briefing.morning': '¡Buenos días!',
+  'briefing.afternoon': '¡Buenas tardes!',
+  'briefing.evening': '¡Buenas noches!',
+  'briefing.more': '{count} más',
+  'briefing.atTime': ' a las {time}',
+  'briefing.overdue': { one: 'Tienes una tarea vencida: {items}.', other: 'Tienes {number} tareas vencidas: {items}.' },
+  'briefing.today': 'Para hoy: {items}.',
+  'briefing.tomorrow': 'Mañana: {items}.',
+  'briefing.nextDeadline': 'Tu próximo plazo es {item}.',
+  'briefing.nothingDue': 'No tienes nada vencido ni para hoy.',
+  'briefing.summary': {
+    one: 'En total, tienes {count} tarea pendiente y {done} hechas.',
+    other: 'En total, tienes {count} tareas pendientes y {done} hechas.',
+  },
+
+  // ==========================================================================
+  // RECURRENCE (see describeRecurrence)
+  // ==========================================================================
+  'recurrence.weekdays': 'todos los días laborables',
+  'recurrence.weekends': 'todos los fines de semana',
+  'recurrence.days': 'cada {days}',
+  'recurrence.otherDays': 'cada dos {days}',
+  'recurrence.monthDay': 'el día {day} de cada mes',
+  'recurrence.DAILY': 'todos los días',
+  'recurrence.DAILY.other': 'cada dos días',
+  'recurrence.DAILY.interval': 'cada {count} días',
+  'recurrence.WEEKLY': 'todas las semanas',
+  'recurrence.WEEKLY.other': 'cada dos semanas',
+  'recurrence.WEEKLY.interval': 'cada {count} semanas',
+  'recurrence.MONTHLY': 'todos los meses',
+  'recurrence.MONTHLY.other': 'cada dos meses',
+  'recurrence.MONTHLY.interval': 'cada {count} meses',
+  'recurrence.YEARLY': 'todos los años',
+  'recurrence.YEARLY.other': 'cada dos años',
+  'recurrence.YEARLY.interval': 'cada {count} años',
+
+  // ==========================================================================
+  // SCREENS (see utils/apl.ts)
+  // ==========================================================================
+  'apl.due': 'Vence {date}',
+  'apl.noDueDate': 'Sin fecha de vencimiento',
+  'apl.priority': 'Prioridad {priority}',
+  'apl.completed': 'Hecha',
+  'apl.tapToComplete': 'Toca para completar',
+  'apl.stepProgress': '{done} de {total} pasos hechos',
+};
+
+export default messages;
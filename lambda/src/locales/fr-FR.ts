@@ -0,0 +1,288 @@
+import { Catalog } from './en-US';
+
+const messages: Catalog = {
+  // ==========================================================================
+  // COMMON
+  // ==========================================================================
+  'common.whatToDo': 'Que voulez-vous faire ?',
+  'common.whatElse': 'Que voulez-vous faire d\'autre ?',
+  'common.tasksDbMissing': 'Je n\'ai pas trouvé votre base de données Tasks dans Notion. Vérifiez qu\'elle existe et réessayez.',
+  'common.taskNotFound': 'Je n\'ai pas trouvé "{name}" dans vos tâches. Essayez de dire le nom complet de la tâche.',
+  'common.notConnected':
+    'Pour gérer vos tâches, vous devez connecter votre compte Notion. ' +
+    'Ouvrez l\'application Alexa, allez dans Skills, cherchez Voice Planner et touchez Associer le compte.',
+  'common.linkAccount': 'Associez votre compte Notion dans l\'application Alexa pour continuer.',
+  'common.fatalError': 'Désolé, un problème est survenu. Veuillez réessayer.',
+  'list.and': '{items} et {last}',
+  'list.sayNext': 'Dites "suivant" pour en entendre plus.',
+  'list.nextReprompt': 'Dites "suivant" pour en entendre plus, ou "lis le numéro 3" pour les détails.',
+  'status.TO DO': 'à faire',
+  'status.IN_PROCESS': 'en cours',
+  'status.DONE': 'terminée',
+  'priority.HIGH': 'haute',
+  'priority.NORMAL': 'normale',
+  'priority.LOW': 'basse',
+
+  // ==========================================================================
+  // LAUNCH, HELP AND ERRORS
+  // ==========================================================================
+  'launch.welcome': 'Bienvenue dans Voice Planner !',
+  'launch.intro':
+    'Je peux vous aider à gérer vos tâches. ' +
+    'Vous pouvez ajouter des tâches, les lister, les marquer comme terminées, changer leur statut ou les supprimer. ' +
+    'Vous pouvez aussi vérifier l\'état de votre connexion. Que voulez-vous faire ?',
+  'launch.notionRequired':
+    'Pour utiliser Voice Planner, vous devez connecter votre compte Notion. ' +
+    'Ouvrez l\'application Alexa, allez dans Skills, cherchez Voice Planner et touchez Associer le compte. ' +
+    'Une fois connecté, je pourrai vous aider à gérer vos tâches dans Notion. ' +
+    'Voulez-vous de l\'aide pour connecter votre compte ?',
+  'launch.notionRequiredReprompt': 'Voulez-vous de l\'aide pour connecter votre compte ?',
+  'launch.notionRequiredFallback': 'Connectez votre compte Notion dans l\'application Alexa.',
+  'launch.error':
+    'Bienvenue dans Voice Planner ! J\'ai eu un problème pour accéder à votre compte. ' +
+    'Réessayez dans un instant ou ouvrez l\'application Alexa pour vérifier les paramètres de votre compte.',
+  'launch.errorFallback': 'Bienvenue dans Voice Planner. Veuillez réessayer plus tard.',
+  'help.text':
+    'Je peux vous aider à gérer vos tâches dans Notion. ' +
+    'Vous pouvez ajouter, consulter, modifier ou supprimer des tâches. ' +
+    'Par exemple, dites "ajoute terminer le rapport demain à 17 heures" ou "quelles sont mes tâches pour aujourd\'hui". ' +
+    'Que voulez-vous faire ?',
+  'help.goodbye': 'Au revoir !',
+  'help.unhandled':
+    'Je ne sais pas comment vous aider avec ça. Je peux vous aider à gérer vos tâches dans Notion. ' +
+    'Vous pouvez ajouter une tâche, consulter vos tâches, modifier une tâche, supprimer une tâche, ou dire "aide" pour en savoir plus. ' +
+    'Que voulez-vous faire ?',
+  'error.request': 'J\'ai rencontré une erreur en traitant votre demande. Veuillez réessayer.',
+  'error.license': 'Votre clé de licence n\'est pas valide. Veuillez contacter le support.',
+  'error.licenseInactive': 'Votre licence n\'est pas active. Rendez-vous sur l\'application pour acheter ou activer votre licence.',
+  'error.licenseDeactivated': 'Votre clé de licence n\'est pas valide ou a été désactivée. Veuillez contacter le support.',
+  'error.linkAccount': 'Associez votre compte dans l\'application Alexa pour utiliser cette skill.',
+  'error.unhandledIntent':
+    'Je ne sais pas comment vous aider avec ça. ' +
+    'Vous pouvez ajouter des tâches, les lister, les marquer comme terminées, les modifier ou les supprimer. ' +
+    'Que voulez-vous faire ?',
+  'error.generic': 'Désolé, j\'ai rencontré une erreur. Veuillez réessayer plus tard.',
+  'scope.missingRead':
+    'Cet appareil n\'est pas autorisé à lire vos tâches. ' +
+    'Pour changer cela, associez à nouveau Voice Planner dans l\'application Alexa et autorisez la lecture des tâches.',
+  'scope.missingWrite':
+    'Cet appareil n\'est pas autorisé à ajouter ou modifier des tâches. ' +
+    'Pour changer cela, associez à nouveau Voice Planner dans l\'application Alexa et autorisez l\'ajout et la modification des tâches.',
+  'scope.missingDelete':
+    'Cet appareil n\'est pas autorisé à supprimer des tâches. ' +
+    'Pour changer cela, associez à nouveau Voice Planner dans l\'application Alexa et autorisez la suppression des tâches.',
+
+  // ==========================================================================
+  // ADDING TASKS AND STEPS
+  // ==========================================================================
+  'addTask.notConnected':
+    'Pour ajouter des tâches, vous devez connecter votre compte Notion. ' +
+    'Ouvrez l\'application Alexa, allez dans Skills, cherchez Voice Planner et touchez Associer le compte. ' +
+    'Une fois connecté, vous pourrez ajouter des tâches à votre espace de travail Notion.',
+  'addTask.tasksDbMissing':
+    'Je n\'ai pas trouvé votre base de données Tasks dans Notion. ' +
+    'Vérifiez que la base de données existe et s\'appelle exactement "Tasks". ' +
+    'Vous pouvez reconnecter votre compte Notion dans l\'application pour la configurer à nouveau.',
+  'addTask.added': 'Ajoutée : {name}',
+  'addTask.addedHigh': 'Tâche prioritaire ajoutée : {name}',
+  'addTask.addedLow': 'Tâche de basse priorité ajoutée : {name}',
+  'addTask.willRemind': 'Je vous le rappellerai.',
+  'addTask.cancelled': 'D\'accord, je ne l\'ai pas ajoutée.',
+  'addTask.confirm': 'Dois-je ajouter {name}{details} ?',
+  'addTask.repeating': ', qui se répète {rule}',
+  'addTask.withSteps': { one: ', avec {count} étape', other: ', avec {count} étapes' },
+  'addTask.dueToday': ', pour aujourd\'hui',
+  'addTask.dueTomorrow': ', pour demain',
+  'addTask.dueOn': ', pour le {date}',
+  'addTask.atTime': ' à {time}',
+  'addTask.work': ' (travail)',
+  'addTask.error': 'J\'ai rencontré une erreur en ajoutant votre tâche. Veuillez réessayer.',
+  'dialog.taskName': 'Quelle tâche voulez-vous ajouter ?',
+  'dialog.taskNameReprompt': 'Dites-moi la tâche à ajouter.',
+  'dialog.dueDate': 'Pour quand est-elle ? S\'il n\'y a pas d\'échéance, dites simplement non.',
+  'dialog.dueDateReprompt': 'Dites-moi le jour de l\'échéance, ou dites non.',
+  'dialog.ambiguousDueDate': 'Quel jour exactement est l\'échéance ?',
+  'dialog.ambiguousDueDateReprompt': 'Dites-moi le jour de l\'échéance, par exemple vendredi ou le 5 mars.',
+  'dialog.priority': 'Doit-elle être de priorité haute, normale ou basse ?',
+  'dialog.priorityReprompt': 'Dites haute, normale ou basse.',
+  'dialog.category': 'Est-ce une tâche professionnelle ou personnelle ?',
+  'dialog.categoryReprompt': 'Dites travail ou personnel.',
+  'addStep.prompt': 'Quelle étape voulez-vous ajouter ? Par exemple, dites "ajoute l\'étape chargeur à préparer le voyage".',
+  'addStep.reprompt': 'Dites-moi l\'étape et la tâche à laquelle l\'ajouter.',
+  'addStep.notConnected':
+    'Pour ajouter des étapes, vous devez connecter votre compte Notion. ' +
+    'Ouvrez l\'application Alexa, allez dans Skills, cherchez Voice Planner et touchez Associer le compte.',
+  'addStep.unclear': 'Dites-moi l\'étape et la tâche, par exemple "ajoute l\'étape chargeur à préparer le voyage".',
+  'addStep.added': 'J\'ai ajouté l\'étape "{step}" à "{name}".',
+  'addStep.error': 'J\'ai rencontré une erreur en ajoutant cette étape. Veuillez réessayer.',
+  'reminders.text': 'Rappel : {name}',
+  'reminders.askPermission': 'Pour recevoir un rappel à l\'échéance, autorisez les rappels sur la carte que j\'ai envoyée dans votre application Alexa.',
+
+  // ==========================================================================
+  // UPDATING AND DELETING TASKS
+  // ==========================================================================
+  'updateTask.notConnected':
+    'Pour modifier des tâches, vous devez connecter votre compte Notion. ' +
+    'Ouvrez l\'application Alexa, allez dans Skills, cherchez Voice Planner et touchez Associer le compte. ' +
+    'Une fois connecté, vous pourrez modifier vos tâches.',
+  'updateTask.prompt': 'Quelle tâche voulez-vous modifier ?',
+  'updateTask.reprompt': 'Dites-moi quelle tâche modifier et ce qu\'il faut changer.',
+  'updateTask.unclear':
+    'J\'ai trouvé "{name}", mais je ne sais pas ce que vous voulez changer. ' +
+    'Vous pouvez changer le statut, la priorité ou l\'échéance. Par exemple, dites "marque-la comme faite" ou "mets-la en priorité haute".',
+  'updateTask.status': 'statut : {status}',
+  'updateTask.priority': 'priorité : {priority}',
+  'updateTask.dueDate': 'échéance : {date}',
+  'updateTask.dueDateTime': 'échéance : {date} à {time}',
+  'updateTask.noDueDate': 'sans échéance',
+  'updateTask.repeating': 'se répète {rule}',
+  'updateTask.notRepeating': 'ne se répète plus',
+  'updateTask.updated': 'J\'ai modifié "{name}" : {changes}.',
+  'updateTask.nextDue': 'La prochaine est pour le {date}.',
+  'updateTask.error': 'J\'ai rencontré une erreur en modifiant votre tâche. Veuillez réessayer.',
+  'deleteTask.notConnected':
+    'Pour supprimer des tâches, vous devez connecter votre compte Notion. ' +
+    'Ouvrez l\'application Alexa, allez dans Skills, cherchez Voice Planner et touchez Associer le compte. ' +
+    'Une fois connecté, vous pourrez supprimer des tâches de votre espace de travail Notion.',
+  'deleteTask.prompt': 'Quelle tâche voulez-vous supprimer ?',
+  'deleteTask.reprompt': 'Dites-moi quelle tâche supprimer.',
+  'deleteTask.noCompleted': 'Vous n\'avez aucune tâche terminée à supprimer.',
+  'deleteTask.completedTasks': { one: '{count} tâche terminée', other: '{count} tâches terminées' },
+  'deleteTask.deleted': 'J\'ai supprimé {name} de votre liste.',
+  'deleteTask.deletedMany': 'J\'ai supprimé {description}.',
+  'deleteTask.error': 'J\'ai rencontré une erreur en supprimant votre tâche. Veuillez réessayer.',
+  'bulkDelete.prompt': 'Cela supprimera {description} : {list}. Êtes-vous sûr ?',
+  'bulkDelete.reprompt': 'Dites oui pour les supprimer, ou non pour les garder.',
+  'bulkDelete.listTwo': '{first} et {second}',
+  'bulkDelete.listMany': '{items} et {last}',
+  'bulkDelete.more': '{count} autres',
+  'bulkDelete.cancelled': 'D\'accord, je n\'ai rien supprimé.',
+  'bulkDelete.error': 'J\'ai rencontré une erreur en supprimant vos tâches. Veuillez réessayer.',
+  'disambiguation.promptOne': 'Vouliez-vous dire {first} ?',
+  'disambiguation.promptTwo': 'Vouliez-vous dire {first} ou {second} ?',
+  'disambiguation.promptMany': 'Vouliez-vous dire {items} ou {last} ?',
+  'disambiguation.noPending':
+    'Je ne sais pas de quelle tâche vous parlez. Essayez de dire le nom complet, par exemple "marque terminer le rapport comme fait".',
+  'disambiguation.cancelled': 'D\'accord, je ne change rien. Essayez de dire le nom complet de la tâche.',
+  'disambiguation.notCaught': 'Désolé, je n\'ai pas compris laquelle. {prompt}',
+  'undo.notConnected':
+    'Pour annuler des modifications, vous devez connecter votre compte Notion. ' +
+    'Ouvrez l\'application Alexa, allez dans Skills, cherchez Voice Planner et touchez Associer le compte.',
+  'undo.nothing': {
+    one: 'Il n\'y a rien à annuler depuis la dernière minute.',
+    other: 'Il n\'y a rien à annuler depuis les {count} dernières minutes.',
+  },
+  'undo.done': 'D\'accord, j\'ai annulé {description}.',
+  'undo.error': 'Je n\'ai pas pu annuler. Vérifiez la tâche dans Notion.',
+
+  'journal.add': 'l\'ajout de "{name}"',
+  'journal.addStep': 'l\'ajout de l\'étape "{step}" à "{name}"',
+  'journal.update': 'la modification de "{name}"',
+  'journal.delete': 'la suppression de "{name}"',
+  'journal.deleteMany': 'la suppression de {description}',
+
+  'request.taskDone': 'marquer {task} comme fait',
+  'request.taskInProgress': 'marquer {task} comme en cours',
+  'request.taskToDo': 'marquer {task} comme à faire',
+  'request.taskHighPriority': 'mettre {task} en priorité haute',
+  'request.taskNormalPriority': 'mettre {task} en priorité normale',
+  'request.taskLowPriority': 'mettre {task} en priorité basse',
+  'request.taskDueDate': 'déplacer {task} au {date}',
+
+  // ==========================================================================
+  // READING TASKS
+  // ==========================================================================
+  'queryTasks.notConnected':
+    'Pour voir vos tâches, vous devez connecter votre compte Notion. ' +
+    'Ouvrez l\'application Alexa, allez dans Skills, cherchez Voice Planner et touchez Associer le compte. ' +
+    'Une fois connecté, je pourrai vous montrer vos tâches Notion.',
+  'queryTasks.prompt': 'Quelles tâches voulez-vous voir ? Par exemple, dites "tâches pour aujourd\'hui" ou "tâches prioritaires".',
+  'queryTasks.error': 'J\'ai rencontré une erreur en récupérant vos tâches. Veuillez réessayer.',
+  'steps.none': '{name} n\'a aucune étape.',
+  'steps.allDone': 'Les {count} étapes de {name} sont terminées.',
+  'steps.remaining': 'Il reste {remaining} étapes sur {total} pour {name} : {list}.',
+  'taskList.noList': 'Je n\'ai pas encore de liste à parcourir. Demandez-moi d\'abord quelque chose comme "quelles sont mes tâches".',
+  'taskList.end': { one: 'C\'est la fin de la liste.', other: 'C\'est la fin de la liste. Vous avez entendu les {count} tâches.' },
+  'taskList.atStart': 'Vous êtes déjà au début de la liste. Dites "suivant" pour continuer.',
+  'taskList.noSuchNumber': { one: 'Il n\'y a pas de numéro {number} dans la liste. Elle contient {count} tâche.', other: 'Il n\'y a pas de numéro {number} dans la liste. Elle contient {count} tâches.' },
+  'taskList.noNumber': { one: 'Ce numéro n\'est pas dans la liste. Elle contient {count} tâche.', other: 'Ce numéro n\'est pas dans la liste. Elle contient {count} tâches.' },
+  'taskList.whichNumber': 'Quel numéro voulez-vous ?',
+  'taskList.gone': 'Le numéro {number} n\'est plus dans vos tâches.',
+  'taskList.item': 'Numéro {number} : {detail}.',
+  'taskList.page': 'Tâches {from} à {to} sur {total} :',
+  'taskList.endShort': 'C\'est la fin de la liste.',
+  'taskList.itemHelp':
+    'Le numéro {number} est "{name}". Vous pouvez dire "marque le numéro {number} comme fait", ' +
+    '"marque le numéro {number} comme en cours" ou "supprime le numéro {number}".',
+  'taskList.error': 'J\'ai rencontré une erreur en parcourant votre liste. Veuillez réessayer.',
+  'taskTouch.unsupported': 'Désolé, je ne peux pas encore faire ça.',
+  'taskTouch.gone': 'Cette tâche n\'est plus dans votre base de données Notion.',
+  'taskTouch.alreadyDone': '"{name}" est déjà terminée.',
+
+  // ==========================================================================
+  // SPEECH (see utils/speech.ts)
+  // ==========================================================================
+  'speech.numberWords': 'zéro une deux trois quatre cinq six sept huit neuf dix',
+  'speech.dateAtTime': '{date} à {time}',
+  'speech.dueToday': { one: 'une est pour aujourd\'hui', other: '{number} sont pour aujourd\'hui' },
+  'speech.overdue': { one: 'une est en retard', other: '{number} sont en retard' },
+  'speech.due': ', pour le {date}',
+  'speech.highPriority': ', priorité haute',
+  'speech.stepProgress': ', {done} étapes sur {total} terminées',
+  'speech.noMatches': 'Vous n\'avez aucune tâche correspondante.',
+  'speech.taskCount': { one: 'Vous avez {count} tâche.', other: 'Vous avez {count} tâches.' },
+  'speech.firstPage': 'Voici les {count} premières :',
+  'speech.openTasks': { one: 'Vous avez {count} tâche en cours.', other: 'Vous avez {count} tâches en cours.' },
+  'speech.caughtUp': 'Vous êtes à jour.',
+  'briefing.notConnected':
+    'Pour entendre votre résumé, vous devez connecter votre compte Notion. ' +
+    'Ouvrez l\'application Alexa, allez dans Skills, cherchez Voice Planner et touchez Associer le compte.',
+  'briefing.error': 'J\'ai rencontré une erreur en préparant votre résumé. Veuillez réessayer.',
+  'briefing.morning': 'Bonjour !',
+  'briefing.afternoon': 'Bon après-midi !',
+  'briefing.evening': 'Bonsoir !',
+  'briefing.more': '{count} autres',
+  'briefing.atTime': ' à {time}',
+  'briefing.overdue': { one: 'Vous avez une tâche en retard : {items}.', other: 'Vous avez {number} tâches en retard : {items}.' },
+  'briefing.today': 'Pour aujourd\'hui : {items}.',
+  'briefing.tomorrow': 'Demain : {items}.',
+  'briefing.nextDeadline': 'Votre prochaine échéance est {item}.',
+  'briefing.nothingDue': 'Rien n\'est en retard ni prévu pour aujourd\'hui.',
+  'briefing.summary': {
+    one: 'Au total, vous avez {count} tâche en cours et {done} terminées.',
+    other: 'Au total, vous avez {count} tâches en cours et {done} terminées.',
+  },
+
+  // ==========================================================================
+  // RECURRENCE (see describeRecurrence)
+  // ==========================================================================
+  'recurrence.weekdays': 'chaque jour de semaine',
+  'recurrence.weekends': 'chaque week-end',
+  'recurrence.days': 'chaque {days}',
+  'recurrence.otherDays': 'un {days} sur deux',
+  'recurrence.monthDay': 'le {day} de chaque mois',
+  'recurrence.DAILY': 'tous les jours',
+  'recurrence.DAILY.other': 'tous les deux jours',
+  'recurrence.DAILY.interval': 'tous les {count} jours',
+  'recurrence.WEEKLY': 'toutes les semaines',
+  'recurrence.WEEKLY.other': 'toutes les deux semaines',
+  'recurrence.WEEKLY.interval': 'toutes les {count} semaines',
+  'recurrence.MONTHLY': 'tous les mois',
+  'recurrence.MONTHLY.other': 'tous les deux mois',
+  'recurrence.MONTHLY.interval': 'tous les {count} mois',
+  'recurrence.YEARLY': 'tous les ans',
+  'recurrence.YEARLY.other': 'tous les deux ans',
+  'recurrence.YEARLY.interval': 'tous les {count} ans',
+
+  // ==========================================================================
+  // SCREENS (see utils/apl.ts)
+  // ==========================================================================
+  'apl.due': 'Échéance {date}',
+  'apl.noDueDate': 'Pas d\'échéance',
+  'apl.priority': 'Priorité {priority}',
+  'apl.completed': 'Terminée',
+  'apl.tapToComplete': 'Touchez pour terminer',
+  'apl.stepProgress': '{done} étapes sur {total} terminées',
+};
+
+export default messages;
@@ -1,16 +1,25 @@
 import { RequestInterceptor, HandlerInput } from 'ask-sdk-core';
 import { Response } from 'ask-sdk-model';
 import { buildLinkAccountResponse } from '../utils/alexa';
-import { verifyAccessToken, isLegacyToken, parseLegacyToken } from '../utils/jwt';
-import { getUserByAmazonId, getUserByAuthUserId } from '../utils/database';
+import { isLegacyToken, parseLegacyToken } from '../utils/jwt';
+import { getUserByAmazonId, getUserByAuthUserId, toSessionUser } from '../utils/database';
 import { createNotionClient } from '../utils/notion';
+import { t } from '../utils/i18n';
+import { parseScopes } from '../utils/scopes';
+import { cacheIntrospection, getCachedIntrospection } from '../utils/introspectionCache';
 
 const INTROSPECT_URL = process.env.INTROSPECT_URL || 'https://voice-planner-murex.vercel.app/api/auth/introspect';
-const JWT_SECRET = process.env.JWT_SECRET || '';
 const LEGACY_TOKEN_SUPPORT_ENABLED = process.env.LEGACY_TOKEN_SUPPORT === 'true';
+const INTROSPECT_CLIENT_ID = process.env.INTROSPECT_CLIENT_ID || '';
+const INTROSPECT_CLIENT_SECRET = process.env.INTROSPECT_CLIENT_SECRET || '';
 
+// RFC 7662 response, plus the user fields the web login adds
 interface IntrospectResponse {
   active: boolean;
+  scope?: string;
+  client_id?: string;
+  sub?: string;
+  exp?: number;
   user_id?: string;
   email?: string;
   license_active?: boolean;
@@ -19,6 +28,37 @@ interface IntrospectResponse {
   token_type?: string;
 }
 
+/**
+ * Introspection request for the token Alexa sent: the standard form with this
+ * Lambda's client credentials, or (without INTROSPECT_CLIENT_ID) the token
+ * itself as a Bearer header
+ */
+function buildIntrospectRequest(accessToken: string): RequestInit {
+  if (!INTROSPECT_CLIENT_ID || !INTROSPECT_CLIENT_SECRET) {
+    return {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+    };
+  }
+
+  const credentials = Buffer.from(
+    `${encodeURIComponent(INTROSPECT_CLIENT_ID)}:${encodeURIComponent(INTROSPECT_CLIENT_SECRET)}`
+  ).toString('base64');
+
+  return {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${credentials}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+    },
+    body: new URLSearchParams({ token: accessToken, token_type_hint: 'access_token' }).toString(),
+  };
+}
+
 /**
  * Auth Middleware Interceptor
  * Validates access tokens (opaque tokens or JWTs) from Alexa requests via introspection endpoint
@@ -61,7 +101,7 @@ export class AuthInterceptor implements RequestInterceptor {
           try {
             const user = await getUserByAmazonId(userId);
             if (user) {
-              attributes.user = user;
+              attributes.user = toSessionUser(user);
               if (user.notion_token) {
                 attributes.notionClient = createNotionClient(user.notion_token);
               }
@@ -83,86 +123,85 @@ export class AuthInterceptor implements RequestInterceptor {
       }
 
       // Validate token
-      let userInfo: IntrospectResponse | null = null;
-
       // Check if token is opaque (not JWT format)
       // Opaque tokens are random strings, not JWTs (which have 3 parts separated by dots)
       const isOpaqueToken = !accessToken.includes('.') || accessToken.split('.').length !== 3;
 
-      // Try local JWT verification first (only for JWT tokens, not opaque)
-      // Opaque tokens must always go through introspection since they're stored in DB
-      if (JWT_SECRET && !isLegacyToken(accessToken) && !isOpaqueToken) {
-        const payload = verifyAccessToken(accessToken);
-        if (payload) {
-          // Token is valid JWT, but we need to check revocation and get user info
-          // For now, we'll use introspection for full validation
-          // In production, you could cache user info or verify locally
-        }
+      // Every token, JWTs included, is checked by introspection: only the web
+      // login knows whether it was revoked and whether the license is active.
+      // Answers are reused for INTROSPECT_CACHE_SECONDS.
+      let userInfo = getCachedIntrospection<IntrospectResponse>(accessToken);
+      if (userInfo) {
+        console.log('[AuthInterceptor] Using cached introspection result');
       }
 
-      // Use introspection endpoint (supports opaque tokens, JWT tokens, and legacy tokens)
-      try {
-        console.log('[AuthInterceptor] Calling introspection endpoint:', {
-          url: INTROSPECT_URL,
-          tokenPreview: accessToken.substring(0, 20) + '...',
-          tokenLength: accessToken.length,
-        });
-        
-        const introspectResponse = await fetch(INTROSPECT_URL, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json',
-          },
-        });
-
-        console.log('[AuthInterceptor] Introspection response status:', introspectResponse.status);
-
-        if (!introspectResponse.ok) {
-          const errorText = await introspectResponse.text();
-          console.warn('[AuthInterceptor] Introspection failed:', {
-            status: introspectResponse.status,
-            statusText: introspectResponse.statusText,
-            errorBody: errorText,
+      if (!userInfo) {
+        // Use introspection endpoint (supports opaque tokens, JWT tokens, and legacy tokens)
+        try {
+          console.log('[AuthInterceptor] Calling introspection endpoint:', {
+            url: INTROSPECT_URL,
+            tokenPreview: accessToken.substring(0, 20) + '...',
+            tokenLength: accessToken.length,
           });
-          throw new Error('TOKEN_INVALID');
-        }
+        
+          const introspectResponse = await fetch(INTROSPECT_URL, buildIntrospectRequest(accessToken));
 
-        userInfo = await introspectResponse.json() as IntrospectResponse;
+          console.log('[AuthInterceptor] Introspection response status:', introspectResponse.status);
 
-        if (!userInfo.active) {
-          console.warn('[AuthInterceptor] Token is not active');
-          throw new Error('TOKEN_INVALID');
-        }
+          if (!introspectResponse.ok) {
+            const errorText = await introspectResponse.text();
+            console.warn('[AuthInterceptor] Introspection failed:', {
+              status: introspectResponse.status,
+              statusText: introspectResponse.statusText,
+              errorBody: errorText,
+            });
+            throw new Error('TOKEN_INVALID');
+          }
 
-        // Log token type for debugging
-        if (isOpaqueToken) {
-          console.log('[AuthInterceptor] Validated opaque token via introspection');
-        } else {
-          console.log('[AuthInterceptor] Validated JWT token via introspection');
-        }
-      } catch (fetchError: any) {
-        console.error('[AuthInterceptor] Introspection error:', fetchError);
+          userInfo = await introspectResponse.json() as IntrospectResponse;
+
+          if (!userInfo.active) {
+            console.warn('[AuthInterceptor] Token is not active');
+            throw new Error('TOKEN_INVALID');
+          }
+
+          // Introspection also knows refresh tokens, which don't grant access
+          if (userInfo.token_type !== 'Bearer') {
+            console.warn('[AuthInterceptor] Token is not an access token:', userInfo.token_type);
+            throw new Error('TOKEN_INVALID');
+          }
+
+          cacheIntrospection(accessToken, userInfo);
+
+          // Log token type for debugging
+          if (isOpaqueToken) {
+            console.log('[AuthInterceptor] Validated opaque token via introspection');
+          } else {
+            console.log('[AuthInterceptor] Validated JWT token via introspection');
+          }
+        } catch (fetchError: any) {
+          console.error('[AuthInterceptor] Introspection error:', fetchError);
         
-        // Fallback to legacy token handling if enabled
-        if (LEGACY_TOKEN_SUPPORT_ENABLED && isLegacyToken(accessToken)) {
-          console.log('[AuthInterceptor] Processing legacy token as fallback');
-          const legacyData = parseLegacyToken(accessToken);
+          // Fallback to legacy token handling if enabled
+          if (LEGACY_TOKEN_SUPPORT_ENABLED && isLegacyToken(accessToken)) {
+            console.log('[AuthInterceptor] Processing legacy token as fallback');
+            const legacyData = parseLegacyToken(accessToken);
           
-          if (legacyData?.amazon_account_id) {
-            const user = await getUserByAmazonId(legacyData.amazon_account_id);
-            if (user) {
-              attributes.user = user;
-              if (user.notion_token) {
-                attributes.notionClient = createNotionClient(user.notion_token);
+            if (legacyData?.amazon_account_id) {
+              const user = await getUserByAmazonId(legacyData.amazon_account_id);
+              if (user) {
+                attributes.user = toSessionUser(user);
+                if (user.notion_token) {
+                  attributes.notionClient = createNotionClient(user.notion_token);
+                }
+                handlerInput.attributesManager.setSessionAttributes(attributes);
+                return;
               }
-              handlerInput.attributesManager.setSessionAttributes(attributes);
-              return;
             }
           }
-        }
 
-        throw new Error('TOKEN_INVALID');
+          throw new Error('TOKEN_INVALID');
+        }
       }
 
       // Check license status
@@ -173,7 +212,7 @@ export class AuthInterceptor implements RequestInterceptor {
 
       // Get full user record from database using user_id (OAuth2 flow)
       // user_id now matches users.id which matches Supabase Auth user id
-      const userId = userInfo.user_id;
+      const userId = userInfo.user_id || userInfo.sub;
       
       if (!userId) {
         console.error('[AuthInterceptor] No user_id in token');
@@ -224,15 +263,19 @@ export class AuthInterceptor implements RequestInterceptor {
       }
 
       // Attach user info to session attributes
-      attributes.user = user;
+      attributes.user = toSessionUser(user);
       attributes.userId = userInfo.user_id;
       attributes.email = userInfo.email;
       attributes.licenseActive = userInfo.license_active;
       attributes.notionDbId = userInfo.notion_db_id || user.tasks_db_id;
+      // What the user allowed this device to do, checked per handler
+      attributes.scopes = parseScopes(userInfo.scope);
 
       // Create Notion client if token exists
       if (user.notion_token) {
         attributes.notionClient = createNotionClient(user.notion_token);
+      } else {
+        delete attributes.notionClient;
       }
 
       // Update amazon_account_id if missing (first request after account linking)
@@ -244,7 +287,7 @@ export class AuthInterceptor implements RequestInterceptor {
           await updateUserAmazonAccountId(user.id, amazonUserId);
           // Update local user object
           user.amazon_account_id = amazonUserId;
-          attributes.user = user;
+          attributes.user = toSessionUser(user);
           console.log('[AuthInterceptor] Successfully updated amazon_account_id');
         } catch (updateError: any) {
           console.error('[AuthInterceptor] Failed to update amazon_account_id:', updateError);
@@ -298,7 +341,7 @@ export function handleAuthError(error: any, handlerInput: HandlerInput): Respons
 
   if (error?.message === 'LICENSE_INACTIVE') {
     return handlerInput.responseBuilder
-      .speak('Your license is not active. Please visit the app to purchase or activate your license.')
+      .speak(t(handlerInput, 'error.licenseInactive'))
       .withShouldEndSession(true)
       .getResponse();
   }
@@ -7,6 +7,12 @@ export interface User {
   notion_setup_complete: boolean;
   privacy_page_id: string | null;
   tasks_db_id: string | null;
+  tasks_db_mapping?: TaskPropertyMapping | null;
+  bulk_delete_confirm_threshold?: number | null;
+  time_zone?: string | null;
+  briefing_settings?: Partial<BriefingSettings> | null;
+  notification_settings?: Partial<NotificationSettings> | null;
+  overdue_notified_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -28,12 +34,116 @@ export interface NotionTask {
   status: 'TO DO' | 'IN_PROCESS' | 'DONE';
   category: 'PERSONAL' | 'WORK';
   notes: string | null;
+  recurrence?: string | null;
+  stepProgress?: StepProgress;
   createdAt?: string;
   updatedAt?: string;
   notionId?: string;
 }
 
+/**
+ * A checklist item (to-do block) inside a task page
+ */
+export interface TaskStep {
+  id: string;
+  text: string;
+  checked: boolean;
+}
+
+export interface StepProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Which properties and options of the user's Tasks database hold each task
+ * field. Null means the database has no such property.
+ */
+export interface TaskPropertyMapping {
+  title: string;
+  parsedName: string | null;
+  status: string | null;
+  statusType: 'select' | 'status';
+  priority: string | null;
+  category: string | null;
+  categoryType: 'select' | 'multi_select';
+  dueDate: string | null;
+  notes: string | null;
+  recurrence: string;
+  notionId: string | null;
+  // Option names used for each of the skill's values, e.g. { DONE: 'Complete' }
+  statusValues: Record<NotionTask['status'], string>;
+  // Other status options and the value they count as, e.g. { Blocked: 'IN_PROCESS' }
+  statusOptions: Record<string, NotionTask['status']>;
+  priorityValues: Record<NotionTask['priority'], string>;
+  categoryValues: Record<NotionTask['category'], string>;
+}
+
+/**
+ * What the daily briefing covers, set from the web dashboard.
+ * Mirrors web-login/lib/briefing.ts - keep the two in sync.
+ */
+export interface BriefingSettings {
+  overdue: boolean;
+  today: boolean;
+  tomorrow: boolean;
+  nextDeadline: boolean;
+  summary: boolean;
+  // Task names read per section; the rest are counted ("and 2 more")
+  maxTasksPerSection: number;
+  highPriorityOnly: boolean;
+}
+
+/**
+ * Push notifications for overdue tasks, set from the web dashboard.
+ * Mirrors web-login/lib/notifications.ts - keep the two in sync.
+ */
+export interface NotificationSettings {
+  overdueTasks: boolean;
+  // Hours of the day (0-23, user's time zone) with no notifications; may wrap past midnight
+  quietHoursStart: number;
+  quietHoursEnd: number;
+}
+
 export interface DatabaseConfig {
   tasksDatabaseId: string
 }
 
+
+/**
+ * Property values needed to put a task back the way it was
+ */
+export interface TaskSnapshot {
+  status?: 'TO DO' | 'IN_PROCESS' | 'DONE';
+  priority?: 'LOW' | 'NORMAL' | 'HIGH';
+  dueDateTime?: string | null;
+  recurrence?: string | null;
+}
+
+/**
+ * One step that reverses part of a voice action
+ */
+export type InverseOperation =
+  | { type: 'restore'; pageId: string; properties: TaskSnapshot }
+  | { type: 'archive'; pageId: string }
+  | { type: 'unarchive'; pageId: string }
+  | { type: 'remove'; blockId: string };
+
+export interface ActionJournalEntry {
+  id: string;
+  user_id: string;
+  action: 'add' | 'update' | 'delete' | 'add_step';
+  description: string;
+  inverse: InverseOperation[];
+  undone_at: string | null;
+  created_at: string;
+}
+
+/**
+ * A user's open tasks as last read from Notion
+ */
+export interface CachedTaskList {
+  databaseId: string;
+  tasks: NotionTask[];
+  fetchedAt: number; // ms since epoch
+}
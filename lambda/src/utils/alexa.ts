@@ -1,5 +1,6 @@
 import { HandlerInput } from 'ask-sdk-core';
 import { Response } from 'ask-sdk-model';
+import { t } from './i18n';
 
 export function buildResponse(handlerInput: HandlerInput, speechText: string, repromptText?: string): Response {
   const responseBuilder = handlerInput.responseBuilder;
@@ -23,7 +24,7 @@ export function buildSimpleResponse(handlerInput: HandlerInput, speechText: stri
 
 export function buildLinkAccountResponse(handlerInput: HandlerInput): Response {
   return handlerInput.responseBuilder
-    .speak('Please link your Notion account in the Alexa app to continue.')
+    .speak(t(handlerInput, 'common.linkAccount'))
     .withLinkAccountCard()
     .withShouldEndSession(true)
     .getResponse();
@@ -103,94 +104,98 @@ function levenshtein(a: string, b: string): number {
 }
 
 
+export interface RankedTask<T> {
+  task: T;
+  score: number;
+}
+
+// Score for each matching tier (best tier wins). Ties within a tier are
+// broken by how much of the task name the search covers.
+const TIER_SCORES = [1, 0.95, 0.85, 0.7, 0.55, 0.4];
+const COVERAGE_WEIGHT = 0.04;
+
+// Candidates scoring within this margin of the best match are considered
+// ambiguous and the user is asked to choose.
+export const AMBIGUITY_MARGIN = 0.05;
+
 /**
- * Finds a matching task using a hybrid approach:
+ * Scores every task against the search using a hybrid approach:
  * 1. Exact match (case-insensitive)
- * 2. Word token matching (all search words must be present in task name)
- * 3. Substring matching (fallback)
- * 
- * This handles cases like:
- * - "quarterly report" matching "finish quarterly report"
- * - "finish report" matching "finish quarterly report"
- * - "report quarterly" matching "finish quarterly report" (word order)
+ * 2. Exact stemmed match
+ * 3. Word token matching (all search words must be present in task name)
+ * 4. Partial word matching (singular/plural, tense)
+ * 5. Fuzzy word matching (Levenshtein ≤ 2)
+ * 6. Substring matching (fallback)
+ *
+ * Returns matching tasks sorted by score (highest first); tasks that pass
+ * no tier are omitted.
  */
-export function findMatchingTask<T extends { name: string; [key: string]: any }>(
+export function rankMatchingTasks<T extends { name: string; [key: string]: any }>(
   rawSearch: string,
   tasks: T[]
-): T | null {
-  if (!rawSearch || tasks.length === 0) return null;
+): RankedTask<T>[] {
+  if (!rawSearch || tasks.length === 0) return [];
 
   const cleaned = cleanTaskName(rawSearch);
   const search = cleaned.toLowerCase();
   const searchWords = search.split(/\s+/).map(stem);
 
-  // Normalize task names (preserve all original properties)
-  const normalizedTasks = tasks.map((t) => ({
-    ...t,
-    raw: t.name,
-    lower: t.name.toLowerCase(),
-    words: t.name
-      .toLowerCase()
-      .split(/\s+/)
-      .map(stem),
-  }));
-
-  // 1. Exact match
-  let match = normalizedTasks.find((t) => t.lower === search);
-  if (match) {
-    // Return original task object (remove normalization properties)
-    const { raw, lower, words, ...originalTask } = match;
-    return originalTask as unknown as T;
-  }
+  const ranked: RankedTask<T>[] = [];
 
-  // 2. Exact stemmed match
-  match = normalizedTasks.find((t) => t.words.join(" ") === searchWords.join(" "));
-  if (match) {
-    const { raw, lower, words, ...originalTask } = match;
-    return originalTask as unknown as T;
-  }
+  for (const task of tasks) {
+    const lower = task.name.toLowerCase();
+    const words = lower.split(/\s+/).map(stem);
 
-  // 3. All search words exist inside task words (bag-of-words)
-  match = normalizedTasks.find((t) =>
-    searchWords.every((w) => t.words.some((tw) => tw === w))
-  );
-  if (match) {
-    const { raw, lower, words, ...originalTask } = match;
-    return originalTask as unknown as T;
-  }
+    const tiers = [
+      () => lower === search,
+      () => words.join(" ") === searchWords.join(" "),
+      () => searchWords.every((w) => words.some((tw) => tw === w)),
+      () => searchWords.every((w) => words.some((tw) => tw.includes(w) || w.includes(tw))),
+      () => searchWords.every((w) => words.some((tw) => levenshtein(w, tw) <= 2)),
+      () => lower.includes(search) || search.includes(lower),
+    ];
 
-  // 4. Contains partial word (singular/plural, tense)
-  match = normalizedTasks.find((t) =>
-    searchWords.every((w) =>
-      t.words.some((tw) => tw.includes(w) || w.includes(tw))
-    )
-  );
-  if (match) {
-    const { raw, lower, words, ...originalTask } = match;
-    return originalTask as unknown as T;
-  }
+    const tier = tiers.findIndex((test) => test());
+    if (tier === -1) continue;
 
-  // 5. Fuzzy word match (Levenshtein ≤ 2)
-  match = normalizedTasks.find((t) =>
-    searchWords.every((w) =>
-      t.words.some((tw) => levenshtein(w, tw) <= 2)
-    )
-  );
-  if (match) {
-    const { raw, lower, words, ...originalTask } = match;
-    return originalTask as unknown as T;
-  }
+    const covered = words.filter((tw) => searchWords.includes(tw)).length;
+    const coverage = words.length > 0 ? covered / words.length : 0;
 
-  // 6. Substring match (final fallback)
-  match = normalizedTasks.find(
-    (t) => t.lower.includes(search) || search.includes(t.lower)
-  );
-  if (match) {
-    const { raw, lower, words, ...originalTask } = match;
-    return originalTask as unknown as T;
+    ranked.push({ task, score: TIER_SCORES[tier] + coverage * COVERAGE_WEIGHT });
   }
 
-  return null;
+  // Stable sort keeps the original (priority/due date) order for equal scores
+  return ranked.sort((a, b) => b.score - a.score);
 }
 
+/**
+ * Returns the candidates that are too close to the best match to pick one
+ * automatically (at most `limit`). An empty array means the top match is
+ * clear (or there is no match at all).
+ */
+export function getAmbiguousCandidates<T>(
+  ranked: RankedTask<T>[],
+  limit: number = 3
+): RankedTask<T>[] {
+  if (ranked.length < 2) return [];
+
+  const best = ranked[0].score;
+  const close = ranked.filter((r) => best - r.score < AMBIGUITY_MARGIN);
+  return close.length > 1 ? close.slice(0, limit) : [];
+}
 
+/**
+ * Finds the best matching task (see rankMatchingTasks for the tiers).
+ *
+ * This handles cases like:
+ * - "quarterly report" matching "finish quarterly report"
+ * - "finish report" matching "finish quarterly report"
+ * - "report quarterly" matching "finish quarterly report" (word order)
+ */
+export function findMatchingTask<T extends { name: string; [key: string]: any }>(
+  rawSearch: string,
+  tasks: T[]
+): T | null {
+  const ranked = rankMatchingTasks(rawSearch, tasks);
+  return ranked.length > 0 ? ranked[0].task : null;
+}
@@ -0,0 +1,304 @@
+import { HandlerInput, getSupportedInterfaces } from 'ask-sdk-core';
+import { NotionTask } from '../types';
+import { formatDueDate, formatDueTime } from './timezone';
+import { capitalize } from './speech';
+import { DEFAULT_LOCALE, getLocale, translate } from './i18n';
+
+// Tokens identify which document a UserEvent came from
+export const TASK_LIST_TOKEN = 'taskList';
+export const TASK_DETAIL_TOKEN = 'taskDetail';
+
+// SendEvent arguments are [action, taskId]
+export const SHOW_TASK_EVENT = 'showTask';
+export const COMPLETE_TASK_EVENT = 'completeTask';
+
+// Keeps the RenderDocument directive well under the response size limit
+const MAX_LIST_ITEMS = 100;
+
+const PRIORITY_COLORS: Record<NotionTask['priority'], string> = {
+  HIGH: '#E5484D',
+  NORMAL: '#F5A524',
+  LOW: '#46A758',
+};
+
+/**
+ * A task as shown on screen, with dates and labels already formatted for
+ * the user's locale
+ */
+export interface TaskViewItem {
+  id: string;
+  number: number;
+  name: string;
+  due: string;
+  dueLabel: string;
+  priority: string;
+  priorityLabel: string;
+  priorityColor: string;
+  status: string;
+  done: boolean;
+}
+
+/**
+ * Whether the device has a screen that can render APL (e.g. Echo Show)
+ */
+export function supportsAPL(handlerInput: HandlerInput): boolean {
+  return !!getSupportedInterfaces(handlerInput.requestEnvelope)?.['Alexa.Presentation.APL'];
+}
+
+function formatDue(task: NotionTask, timeZone: string, locale: string): string {
+  if (!task.dueDateTime) return '';
+  const dateStr = formatDueDate(task.dueDateTime, timeZone, { weekday: 'short', month: 'short', day: 'numeric' }, locale);
+  const timeStr = formatDueTime(task.dueDateTime, timeZone, locale);
+  return timeStr ? `${dateStr}, ${timeStr}` : dateStr;
+}
+
+export function toTaskViewItem(
+  task: NotionTask,
+  number: number,
+  timeZone: string,
+  locale: string = DEFAULT_LOCALE
+): TaskViewItem {
+  const due = formatDue(task, timeZone, locale);
+  const priority = capitalize(translate(locale, `priority.${task.priority}`));
+  return {
+    id: task.id,
+    number,
+    name: task.parsedName || task.name,
+    due,
+    dueLabel: due ? translate(locale, 'apl.due', { date: due }) : translate(locale, 'apl.noDueDate'),
+    priority,
+    priorityLabel: translate(locale, 'apl.priority', { priority }),
+    priorityColor: PRIORITY_COLORS[task.priority] || PRIORITY_COLORS.NORMAL,
+    status: capitalize(translate(locale, `status.${task.status}`)),
+    done: task.status === 'DONE',
+  };
+}
+
+// ============================================================================
+// DOCUMENTS
+// ============================================================================
+
+// An APL data-binding expression, e.g. expr('data.id') -> '${data.id}'
+const expr = (expression: string) => '${' + expression + '}';
+
+// Tapping the check mark dims the row right away, before the skill answers
+const completeButton = (componentId: string, ref: string) => ({
+  type: 'TouchWrapper',
+  disabled: expr(`${ref}.done`),
+  onPress: [
+    { type: 'SetValue', componentId, property: 'opacity', value: 0.4 },
+    { type: 'SendEvent', arguments: [COMPLETE_TASK_EVENT, expr(`${ref}.id`)] },
+  ],
+  item: {
+    type: 'Frame',
+    width: '56dp',
+    height: '56dp',
+    borderRadius: '28dp',
+    borderWidth: '2dp',
+    borderColor: expr(`${ref}.priorityColor`),
+    backgroundColor: expr(`${ref}.done ? ${ref}.priorityColor : 'transparent'`),
+    item: {
+      type: 'Text',
+      text: '✓',
+      width: '100%',
+      height: '100%',
+      textAlign: 'center',
+      textAlignVertical: 'center',
+      color: expr(`${ref}.done ? '#FFFFFF' : ${ref}.priorityColor`),
+    },
+  },
+});
+
+const TASK_LIST_DOCUMENT = {
+  type: 'APL',
+  version: '2023.3',
+  theme: 'dark',
+  mainTemplate: {
+    parameters: ['payload'],
+    item: {
+      type: 'Container',
+      width: '100vw',
+      height: '100vh',
+      paddingLeft: '@spacingLarge',
+      paddingRight: '@spacingLarge',
+      items: [
+        {
+          type: 'Text',
+          text: '${payload.taskList.title}',
+          style: 'textStyleDisplay4',
+          paddingTop: '@spacingMedium',
+          paddingBottom: '@spacingSmall',
+        },
+        {
+          type: 'Sequence',
+          grow: 1,
+          data: '${payload.taskList.items}',
+          items: [{
+            type: 'Container',
+            id: "${'row-' + data.id}",
+            direction: 'row',
+            alignItems: 'center',
+            paddingTop: '@spacingSmall',
+            paddingBottom: '@spacingSmall',
+            opacity: '${data.done ? 0.4 : 1}',
+            items: [
+              {
+                type: 'Frame',
+                width: '8dp',
+                height: '64dp',
+                borderRadius: '4dp',
+                backgroundColor: '${data.priorityColor}',
+              },
+              {
+                type: 'TouchWrapper',
+                grow: 1,
+                shrink: 1,
+                paddingLeft: '@spacingMedium',
+                onPress: { type: 'SendEvent', arguments: [SHOW_TASK_EVENT, '${data.id}'] },
+                item: {
+                  type: 'Container',
+                  items: [
+                    {
+                      type: 'Text',
+                      text: '${data.number}. ${data.name}',
+                      style: 'textStyleBody',
+                      maxLines: 2,
+                    },
+                    {
+                      type: 'Text',
+                      text: '${data.dueLabel}',
+                      style: 'textStyleDetail',
+                      color: '${data.priorityColor}',
+                    },
+                  ],
+                },
+              },
+              completeButton("${'row-' + data.id}", 'data'),
+            ],
+          }],
+        },
+      ],
+    },
+  },
+};
+
+const TASK_DETAIL_DOCUMENT = {
+  type: 'APL',
+  version: '2023.3',
+  theme: 'dark',
+  mainTemplate: {
+    parameters: ['payload'],
+    item: {
+      type: 'Container',
+      width: '100vw',
+      height: '100vh',
+      bind: [{ name: 'task', value: '${payload.task}' }],
+      paddingLeft: '@spacingLarge',
+      paddingRight: '@spacingLarge',
+      paddingTop: '@spacingLarge',
+      items: [
+        {
+          type: 'Frame',
+          height: '8dp',
+          width: '25vw',
+          borderRadius: '4dp',
+          backgroundColor: '${task.priorityColor}',
+        },
+        {
+          type: 'Text',
+          text: '${task.name}',
+          style: 'textStyleDisplay4',
+          paddingTop: '@spacingMedium',
+          maxLines: 3,
+        },
+        {
+          type: 'Text',
+          text: '${task.dueLabel}',
+          style: 'textStyleBody',
+          paddingTop: '@spacingSmall',
+        },
+        {
+          type: 'Text',
+          text: '${task.priorityLabel} · ${task.status}',
+          style: 'textStyleDetail',
+          color: '${task.priorityColor}',
+          paddingTop: '@spacingXSmall',
+        },
+        {
+          type: 'Text',
+          text: '${task.details}',
+          style: 'textStyleCallout',
+          paddingTop: '@spacingMedium',
+          grow: 1,
+          shrink: 1,
+        },
+        {
+          type: 'Container',
+          id: 'taskDetailActions',
+          direction: 'row',
+          alignItems: 'center',
+          paddingBottom: '@spacingLarge',
+          items: [
+            completeButton('taskDetailActions', 'task'),
+            {
+              type: 'Text',
+              text: '${task.action}',
+              style: 'textStyleBody',
+              paddingLeft: '@spacingMedium',
+            },
+          ],
+        },
+      ],
+    },
+  },
+};
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Shows a scrollable list of tasks, numbered to match the spoken list.
+ * Does nothing on devices without a screen.
+ */
+export function renderTaskList(handlerInput: HandlerInput, title: string, tasks: NotionTask[], timeZone: string): void {
+  if (!supportsAPL(handlerInput) || tasks.length === 0) return;
+
+  const locale = getLocale(handlerInput);
+  handlerInput.responseBuilder.addDirective({
+    type: 'Alexa.Presentation.APL.RenderDocument',
+    token: TASK_LIST_TOKEN,
+    document: TASK_LIST_DOCUMENT,
+    datasources: {
+      taskList: {
+        title,
+        items: tasks.slice(0, MAX_LIST_ITEMS).map((task, index) => toTaskViewItem(task, index + 1, timeZone, locale)),
+      },
+    },
+  });
+}
+
+/**
+ * Shows one task as a card with a button to complete it.
+ * Does nothing on devices without a screen.
+ */
+export function renderTaskDetail(handlerInput: HandlerInput, task: NotionTask, timeZone: string, number: number = 0): void {
+  if (!supportsAPL(handlerInput)) return;
+
+  const locale = getLocale(handlerInput);
+  const view = toTaskViewItem(task, number, timeZone, locale);
+  const details = [
+    task.stepProgress ? translate(locale, 'apl.stepProgress', { ...task.stepProgress }) : '',
+    task.notes || '',
+  ].filter(Boolean).join('\n');
+  const action = translate(locale, view.done ? 'apl.completed' : 'apl.tapToComplete');
+
+  handlerInput.responseBuilder.addDirective({
+    type: 'Alexa.Presentation.APL.RenderDocument',
+    token: TASK_DETAIL_TOKEN,
+    document: TASK_DETAIL_DOCUMENT,
+    datasources: {
+      task: { ...view, details, action },
+    },
+  });
+}
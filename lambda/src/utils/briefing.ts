@@ -0,0 +1,84 @@
+import { Client } from '@notionhq/client';
+import { BriefingSettings, NotionTask, TaskPropertyMapping, User } from '../types';
+import { getOverdueTasks, getTodayTasks, getTasksDueTomorrow, getNextDeadline, getSummary } from './notion';
+import { DEFAULT_PROPERTY_MAPPING } from './schema';
+
+export const DEFAULT_BRIEFING_SETTINGS: BriefingSettings = {
+  overdue: true,
+  today: true,
+  tomorrow: true,
+  nextDeadline: true,
+  summary: false,
+  maxTasksPerSection: 3,
+  highPriorityOnly: false,
+};
+
+export const MAX_TASKS_PER_SECTION = 10;
+
+/**
+ * Everything the briefing reads out. Sections turned off in the settings
+ * are empty (or null) and not fetched.
+ */
+export interface DailyBriefing {
+  overdue: NotionTask[];
+  today: NotionTask[];
+  tomorrow: NotionTask[];
+  nextDeadline: NotionTask | null;
+  summary: { pendingTasks: number; completedTasks: number } | null;
+}
+
+/**
+ * The user's briefing settings; settings saved before a field existed pick
+ * up its default
+ */
+export function getBriefingSettings(user: Partial<User> | null | undefined): BriefingSettings {
+  const settings = { ...DEFAULT_BRIEFING_SETTINGS, ...(user?.briefing_settings || {}) };
+  const max = Number(settings.maxTasksPerSection);
+  settings.maxTasksPerSection = Number.isInteger(max) && max >= 1
+    ? Math.min(max, MAX_TASKS_PER_SECTION)
+    : DEFAULT_BRIEFING_SETTINGS.maxTasksPerSection;
+  return settings;
+}
+
+const PRIORITY_ORDER: Record<NotionTask['priority'], number> = { HIGH: 0, NORMAL: 1, LOW: 2 };
+
+/**
+ * High priority first, then by due date; drops done tasks and, if the user
+ * only wants them, everything but high priority
+ */
+export function prioritizeTasks(tasks: NotionTask[], settings: BriefingSettings): NotionTask[] {
+  return tasks
+    .filter(task => task.status !== 'DONE')
+    .filter(task => !settings.highPriorityOnly || task.priority === 'HIGH')
+    .sort((a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+      (a.dueDateTime || '').localeCompare(b.dueDateTime || '')
+    );
+}
+
+/**
+ * Fetch the enabled sections of the briefing in parallel
+ */
+export async function getDailyBriefing(
+  client: Client,
+  databaseId: string,
+  settings: BriefingSettings,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  timeZone?: string
+): Promise<DailyBriefing> {
+  const [overdue, today, tomorrow, nextDeadline, summary] = await Promise.all([
+    settings.overdue ? getOverdueTasks(client, databaseId, mapping, timeZone) : [],
+    settings.today ? getTodayTasks(client, databaseId, mapping, timeZone) : [],
+    settings.tomorrow ? getTasksDueTomorrow(client, databaseId, mapping, timeZone) : [],
+    settings.nextDeadline ? getNextDeadline(client, databaseId, mapping, timeZone) : null,
+    settings.summary ? getSummary(client, databaseId, mapping, timeZone) : null,
+  ]);
+
+  return {
+    overdue: prioritizeTasks(overdue, settings),
+    today: prioritizeTasks(today, settings),
+    tomorrow: prioritizeTasks(tomorrow, settings),
+    nextDeadline,
+    summary: summary && { pendingTasks: summary.pendingTasks, completedTasks: summary.completedTasks },
+  };
+}
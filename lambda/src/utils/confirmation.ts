@@ -0,0 +1,72 @@
+import { HandlerInput } from 'ask-sdk-core';
+import { NotionTask, User } from '../types';
+import { DEFAULT_LOCALE, translate } from './i18n';
+import { escapeSSML } from './speech';
+
+/**
+ * A bulk delete waiting for the user to say "yes". Stored in session
+ * attributes between the question and the answer.
+ */
+export interface PendingBulkDelete {
+  tasksDbId: string;
+  description: string;
+  tasks: Pick<NotionTask, 'id' | 'name' | 'status'>[];
+}
+
+const SESSION_KEY = 'pendingBulkDelete';
+
+// Ask for confirmation when a delete affects at least this many tasks
+export const DEFAULT_BULK_DELETE_THRESHOLD = 2;
+
+// Number of task names read out in the confirmation question
+const SAMPLE_SIZE = 3;
+
+export function getBulkDeleteThreshold(user: Partial<User> | null | undefined): number {
+  const threshold = user?.bulk_delete_confirm_threshold;
+  return typeof threshold === 'number' && threshold > 0 ? threshold : DEFAULT_BULK_DELETE_THRESHOLD;
+}
+
+export function storePendingBulkDelete(handlerInput: HandlerInput, pending: PendingBulkDelete): void {
+  const attributes = handlerInput.attributesManager.getSessionAttributes();
+  attributes[SESSION_KEY] = pending;
+  handlerInput.attributesManager.setSessionAttributes(attributes);
+}
+
+export function getPendingBulkDelete(handlerInput: HandlerInput): PendingBulkDelete | null {
+  const attributes = handlerInput.attributesManager.getSessionAttributes();
+  return attributes[SESSION_KEY] || null;
+}
+
+export function clearPendingBulkDelete(handlerInput: HandlerInput): void {
+  const attributes = handlerInput.attributesManager.getSessionAttributes();
+  delete attributes[SESSION_KEY];
+  handlerInput.attributesManager.setSessionAttributes(attributes);
+}
+
+/**
+ * Builds the confirmation question, e.g.
+ * 'This will delete 5 completed tasks: "A", "B", "C", and 2 more. Are you sure?'
+ */
+export function buildBulkDeletePrompt(
+  description: string,
+  tasks: { name: string }[],
+  locale: string = DEFAULT_LOCALE
+): string {
+  const parts = tasks.slice(0, SAMPLE_SIZE).map((t) => `"${escapeSSML(t.name)}"`);
+  const remaining = tasks.length - parts.length;
+  if (remaining > 0) {
+    parts.push(translate(locale, 'bulkDelete.more', { count: remaining }));
+  }
+
+  let list = parts[0] || '';
+  if (parts.length === 2) {
+    list = translate(locale, 'bulkDelete.listTwo', { first: parts[0], second: parts[1] });
+  } else if (parts.length > 2) {
+    list = translate(locale, 'bulkDelete.listMany', {
+      items: parts.slice(0, -1).join(', '),
+      last: parts[parts.length - 1],
+    });
+  }
+
+  return translate(locale, 'bulkDelete.prompt', { description, list });
+}
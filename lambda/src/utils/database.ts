@@ -1,5 +1,6 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { User, License } from '../types';
+import { User, License, ActionJournalEntry, InverseOperation, TaskPropertyMapping, CachedTaskList } from '../types';
+import { encryptToken, decryptToken } from './tokenCrypto';
 
 const supabaseUrl = process.env.SUPABASE_URL || '';
 const supabaseKey = process.env.SUPABASE_SERVICE_KEY || '';
@@ -28,6 +29,24 @@ export const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey, {
 });
 console.log('[Database] Supabase client created successfully');
 
+/**
+ * A users row with its Notion token decrypted. Tokens are stored encrypted
+ * (see tokenCrypto.ts); rows saved before that hold plaintext.
+ */
+function toUser(row: any): User {
+  return { ...row, notion_token: decryptToken(row.notion_token) } as User;
+}
+
+/**
+ * The user as kept in session attributes, which Alexa sends back with every
+ * response: without the Notion token. Handlers use the Notion client the
+ * interceptors create instead.
+ */
+export function toSessionUser(user: User): Omit<User, 'notion_token'> {
+  const { notion_token: _notionToken, ...sessionUser } = user;
+  return sessionUser;
+}
+
 /**
  * Get user by Supabase Auth user ID (OAuth2 flow)
  * This is the primary method for OAuth2 users
@@ -123,7 +142,7 @@ export async function getUserByAuthUserId(authUserId: string): Promise<User | nu
       notionTokenLength: data.notion_token?.length || 0
     });
 
-    return data as User;
+    return toUser(data);
   } catch (err: any) {
     console.error('[getUserByAuthUserId] Unexpected error:', {
       message: err?.message,
@@ -255,7 +274,7 @@ export async function getUserByAmazonId(amazonAccountId: string): Promise<User |
       notionTokenLength: data.notion_token?.length || 0
     });
 
-    return data as User;
+    return toUser(data);
   } catch (err: any) {
     console.error('[getUserByAmazonId] Unexpected error:', {
       message: err?.message,
@@ -277,7 +296,7 @@ export async function createUser(
       amazon_account_id: amazonAccountId,
       email,
       license_key: licenseKey,
-      notion_token: notionToken,
+      notion_token: notionToken !== null ? encryptToken(notionToken) : null,
       notion_setup_complete: notionToken !== null,
     })
     .select()
@@ -287,7 +306,7 @@ export async function createUser(
     throw new Error(`Failed to create user: ${error.message}`);
   }
 
-  return data as User;
+  return toUser(data);
 }
 
 export async function updateUserNotionToken(
@@ -297,7 +316,7 @@ export async function updateUserNotionToken(
   const { error } = await supabase
     .from('users')
     .update({
-      notion_token: notionToken,
+      notion_token: encryptToken(notionToken),
       updated_at: new Date().toISOString(),
     })
     .eq('id', userId);
@@ -339,6 +358,46 @@ export async function updateUserNotionSetup(
   }
 }
 
+/**
+ * Store the property mapping of the user's Tasks database
+ */
+export async function updateUserTaskMapping(
+  userId: string,
+  mapping: TaskPropertyMapping
+): Promise<void> {
+  const { error } = await supabase
+    .from('users')
+    .update({
+      tasks_db_mapping: mapping,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', userId);
+
+  if (error) {
+    throw new Error(`Failed to update task property mapping: ${error.message}`);
+  }
+}
+
+/**
+ * Cache the time zone of the user's Alexa device
+ */
+export async function updateUserTimeZone(
+  userId: string,
+  timeZone: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('users')
+    .update({
+      time_zone: timeZone,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', userId);
+
+  if (error) {
+    throw new Error(`Failed to update time zone: ${error.message}`);
+  }
+}
+
 /**
  * Update user's Amazon account ID
  * Called after successful account linking to store the Amazon user ID
@@ -402,7 +461,7 @@ export async function getUserByEmailAndLicense(
     return null;
   }
 
-  return data as User;
+  return toUser(data);
 }
 
 export async function createOrUpdateUser(
@@ -424,7 +483,7 @@ export async function createOrUpdateUser(
     
     // Only update notion_token if provided
     if (notionToken !== null) {
-      updateData.notion_token = notionToken;
+      updateData.notion_token = encryptToken(notionToken);
       // If token is being set, mark setup as incomplete (will be completed after database creation)
       updateData.notion_setup_complete = false;
     }
@@ -440,10 +499,219 @@ export async function createOrUpdateUser(
       throw new Error(`Failed to update user: ${error.message}`);
     }
 
-    return data as User;
+    return toUser(data);
   } else {
     // Create new user
     return await createUser(amazonAccountId, email, licenseKey, notionToken);
   }
 }
 
+
+// ============================================================================
+// ACTION JOURNAL (undo)
+// ============================================================================
+
+export async function recordJournalEntry(
+  userId: string,
+  action: ActionJournalEntry['action'],
+  description: string,
+  inverse: InverseOperation[]
+): Promise<void> {
+  const { error } = await supabase
+    .from('action_journal')
+    .insert({
+      user_id: userId,
+      action,
+      description,
+      inverse,
+    });
+
+  if (error) {
+    throw new Error(`Failed to record journal entry: ${error.message}`);
+  }
+}
+
+/**
+ * Most recent action that hasn't been undone yet, created after `since`
+ */
+export async function getLastUndoableEntry(
+  userId: string,
+  since: Date
+): Promise<ActionJournalEntry | null> {
+  const { data, error } = await supabase
+    .from('action_journal')
+    .select('*')
+    .eq('user_id', userId)
+    .is('undone_at', null)
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to read journal: ${error.message}`);
+  }
+
+  return (data as ActionJournalEntry) || null;
+}
+
+export async function markJournalEntryUndone(entryId: string): Promise<void> {
+  const { error } = await supabase
+    .from('action_journal')
+    .update({ undone_at: new Date().toISOString() })
+    .eq('id', entryId);
+
+  if (error) {
+    throw new Error(`Failed to update journal entry: ${error.message}`);
+  }
+}
+
+/**
+ * Alexa reminder created for a task, keyed by its Notion page
+ */
+export async function saveTaskReminder(
+  userId: string,
+  pageId: string,
+  reminderId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('task_reminders')
+    .upsert({
+      user_id: userId,
+      page_id: pageId,
+      reminder_id: reminderId,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,page_id' });
+
+  if (error) {
+    throw new Error(`Failed to save task reminder: ${error.message}`);
+  }
+}
+
+export async function getTaskReminderId(userId: string, pageId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('task_reminders')
+    .select('reminder_id')
+    .eq('user_id', userId)
+    .eq('page_id', pageId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to read task reminder: ${error.message}`);
+  }
+
+  return data?.reminder_id || null;
+}
+
+export async function deleteTaskReminder(userId: string, pageId: string): Promise<void> {
+  const { error } = await supabase
+    .from('task_reminders')
+    .delete()
+    .eq('user_id', userId)
+    .eq('page_id', pageId);
+
+  if (error) {
+    throw new Error(`Failed to delete task reminder: ${error.message}`);
+  }
+}
+
+/**
+ * Linked users who turned on overdue task notifications
+ */
+export async function getUsersWithOverdueNotifications(): Promise<User[]> {
+  const pageSize = 500;
+  const users: User[] = [];
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('notion_setup_complete', true)
+      .eq('notification_settings->>overdueTasks', 'true')
+      .not('notion_token', 'is', null)
+      .not('amazon_account_id', 'is', null)
+      .order('id')
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      throw new Error(`Failed to list users for notifications: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      try {
+        users.push(toUser(row));
+      } catch (decryptError: any) {
+        // One unreadable token shouldn't hold up everyone else's notifications
+        console.error('[getUsersWithOverdueNotifications] Could not decrypt Notion token:', {
+          userId: row.id,
+          message: decryptError?.message,
+        });
+      }
+    }
+    if (!data || data.length < pageSize) {
+      return users;
+    }
+  }
+}
+
+export async function updateUserOverdueNotifiedAt(userId: string, notifiedAt: Date): Promise<void> {
+  const { error } = await supabase
+    .from('users')
+    .update({ overdue_notified_at: notifiedAt.toISOString() })
+    .eq('id', userId);
+
+  if (error) {
+    throw new Error(`Failed to update overdue notification time: ${error.message}`);
+  }
+}
+
+/**
+ * Shared task cache entry, or null when there is none or it has expired
+ */
+export async function getTaskCacheEntry(cacheKey: string): Promise<CachedTaskList | null> {
+  const { data, error } = await supabase
+    .from('task_cache')
+    .select('database_id, tasks, fetched_at')
+    .eq('cache_key', cacheKey)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to read task cache: ${error.message}`);
+  }
+
+  return data
+    ? { databaseId: data.database_id, tasks: data.tasks, fetchedAt: new Date(data.fetched_at).getTime() }
+    : null;
+}
+
+export async function saveTaskCacheEntry(
+  cacheKey: string,
+  entry: CachedTaskList,
+  expiresAt: Date
+): Promise<void> {
+  const { error } = await supabase
+    .from('task_cache')
+    .upsert({
+      cache_key: cacheKey,
+      database_id: entry.databaseId,
+      tasks: entry.tasks,
+      fetched_at: new Date(entry.fetchedAt).toISOString(),
+      expires_at: expiresAt.toISOString(),
+    }, { onConflict: 'cache_key' });
+
+  if (error) {
+    throw new Error(`Failed to save task cache: ${error.message}`);
+  }
+}
+
+export async function deleteTaskCacheEntry(cacheKey: string): Promise<void> {
+  const { error } = await supabase
+    .from('task_cache')
+    .delete()
+    .eq('cache_key', cacheKey);
+
+  if (error) {
+    throw new Error(`Failed to delete task cache: ${error.message}`);
+  }
+}
@@ -0,0 +1,112 @@
+import { HandlerInput } from 'ask-sdk-core';
+import { NotionTask } from '../types';
+import { rankMatchingTasks } from './alexa';
+import { DEFAULT_LOCALE, translate } from './i18n';
+import { escapeSSML } from './speech';
+
+export type DisambiguationAction = 'update' | 'delete';
+
+/**
+ * A task lookup that matched several tasks equally well. Stored in session
+ * attributes until the user picks one on the next turn.
+ */
+export interface PendingDisambiguation {
+  action: DisambiguationAction;
+  userRequest: string;
+  candidates: NotionTask[];
+}
+
+const SESSION_KEY = 'pendingDisambiguation';
+
+// English, German, Spanish and French
+const ORDINALS: Record<string, number> = {
+  first: 1, '1st': 1, one: 1,
+  second: 2, '2nd': 2, two: 2,
+  third: 3, '3rd': 3, three: 3,
+  erste: 1, ersten: 1, zweite: 2, zweiten: 2, dritte: 3, dritten: 3,
+  primera: 1, primero: 1, segunda: 2, segundo: 2, tercera: 3, tercero: 3,
+  premier: 1, 'première': 1, 'deuxième': 2, seconde: 2, 'troisième': 3,
+};
+
+export function storePendingDisambiguation(
+  handlerInput: HandlerInput,
+  pending: PendingDisambiguation
+): void {
+  const attributes = handlerInput.attributesManager.getSessionAttributes();
+  attributes[SESSION_KEY] = pending;
+  handlerInput.attributesManager.setSessionAttributes(attributes);
+}
+
+export function getPendingDisambiguation(handlerInput: HandlerInput): PendingDisambiguation | null {
+  const attributes = handlerInput.attributesManager.getSessionAttributes();
+  return attributes[SESSION_KEY] || null;
+}
+
+export function clearPendingDisambiguation(handlerInput: HandlerInput): void {
+  const attributes = handlerInput.attributesManager.getSessionAttributes();
+  delete attributes[SESSION_KEY];
+  handlerInput.attributesManager.setSessionAttributes(attributes);
+}
+
+/**
+ * Builds the spoken question, e.g.
+ * "Did you mean the quarterly report or the expense report?"
+ */
+export function buildDisambiguationPrompt(candidates: { name: string }[], locale: string = DEFAULT_LOCALE): string {
+  const names = candidates.map((c) => `"${escapeSSML(c.name)}"`);
+  if (names.length === 1) {
+    return translate(locale, 'disambiguation.promptOne', { first: names[0] });
+  }
+  if (names.length === 2) {
+    return translate(locale, 'disambiguation.promptTwo', { first: names[0], second: names[1] });
+  }
+  return translate(locale, 'disambiguation.promptMany', {
+    items: names.slice(0, -1).join(', '),
+    last: names[names.length - 1],
+  });
+}
+
+/**
+ * Resolves the user's answer against the stored candidates. Accepts an
+ * ordinal ("the second one") or a (partial) task name ("the expense one").
+ * Returns null when the answer doesn't single out one candidate.
+ */
+export function resolveDisambiguationAnswer(
+  candidates: NotionTask[],
+  answer?: string | null,
+  ordinal?: string | null
+): NotionTask | null {
+  const position = parseOrdinal(ordinal) ?? parseOrdinal(answer);
+  if (position !== null) {
+    return candidates[position - 1] || null;
+  }
+
+  if (!answer || answer.trim().length === 0) {
+    return null;
+  }
+
+  const search = answer
+    .toLowerCase()
+    .replace(/^(i meant|i mean|it's|it is)\s+/, '')
+    .replace(/\s+(one|task)$/, '');
+
+  const ranked = rankMatchingTasks(search, candidates);
+  if (ranked.length === 0) return null;
+  if (ranked.length > 1 && ranked[0].score === ranked[1].score) return null;
+
+  return ranked[0].task;
+}
+
+function parseOrdinal(value?: string | null): number | null {
+  if (!value) return null;
+
+  const text = value.toLowerCase().trim();
+  if (/^\d+$/.test(text)) {
+    return parseInt(text, 10);
+  }
+
+  const words = text
+    .replace(/^(the|number|der|die|das|el|la|le|l')\s*/, '')
+    .replace(/\s+(one|eine|uno|una)$/, '');
+  return ORDINALS[words] ?? null;
+}
@@ -0,0 +1,98 @@
+import { HandlerInput } from 'ask-sdk-core';
+import { Intent } from 'ask-sdk-model';
+import { Client } from '@notionhq/client';
+import { NotionTask, User } from '../types';
+import { getOpenTasks } from './taskCache';
+
+// Slot type the user's own task names are pushed into (see the interaction model)
+export const TASK_ENTITY_TYPE = 'EXISTING_TASK';
+
+// Alexa accepts at most 100 dynamic values per response
+export const MAX_TASK_ENTITIES = 100;
+
+const SESSION_KEY = 'taskEntitiesLoaded';
+
+// Authorities of values pushed with Dialog.UpdateDynamicEntities; static
+// values of the slot type use "amzn1.er-authority.echo-sdk.<skill id>.<type>"
+const DYNAMIC_AUTHORITY = /^amzn1\.er-authority\.echo-sdk\.dynamic\./;
+
+/**
+ * Dynamic slot values for the user's tasks, keyed by Notion page ID, so
+ * the names are recognized and resolve straight to their page
+ */
+export function buildTaskEntities(tasks: Pick<NotionTask, 'id' | 'name' | 'parsedName'>[]) {
+  return tasks
+    .filter(task => task.name && task.name.trim().length > 0)
+    .slice(0, MAX_TASK_ENTITIES)
+    .map(task => {
+      const synonyms = task.parsedName && task.parsedName.toLowerCase() !== task.name.toLowerCase()
+        ? [task.parsedName]
+        : [];
+      return { id: task.id, name: { value: task.name, synonyms } };
+    });
+}
+
+/**
+ * Replace this session's task names with `tasks`
+ */
+export function addTaskEntities(handlerInput: HandlerInput, tasks: NotionTask[]): void {
+  const attributes = handlerInput.attributesManager.getSessionAttributes();
+  attributes[SESSION_KEY] = true;
+  handlerInput.attributesManager.setSessionAttributes(attributes);
+
+  const values = buildTaskEntities(tasks);
+  if (values.length === 0) {
+    return;
+  }
+
+  handlerInput.responseBuilder.addDirective({
+    type: 'Dialog.UpdateDynamicEntities',
+    updateBehavior: 'REPLACE',
+    types: [{ name: TASK_ENTITY_TYPE, values }],
+  });
+  console.log('[addTaskEntities] Sent task names:', values.length);
+}
+
+export function hasTaskEntities(handlerInput: HandlerInput): boolean {
+  return !!handlerInput.attributesManager.getSessionAttributes()[SESSION_KEY];
+}
+
+/**
+ * Send the user's open task names, once per session. Failures are logged;
+ * matching falls back to the spoken name.
+ */
+export async function loadTaskEntities(handlerInput: HandlerInput, client: Client, user: User): Promise<void> {
+  if (!user.tasks_db_id) {
+    return;
+  }
+
+  try {
+    const tasks = await getOpenTasks(handlerInput, client, user, user.tasks_db_id);
+    addTaskEntities(handlerInput, tasks);
+  } catch (error: any) {
+    console.warn('[loadTaskEntities] Could not send task names:', error?.message);
+  }
+}
+
+/**
+ * Page IDs the slot resolved to through the dynamic task names. Several IDs
+ * mean tasks share the name; none means fall back to fuzzy matching.
+ */
+export function getTaskEntityIds(intent: Intent, slotName: string): string[] {
+  const authorities = intent.slots?.[slotName]?.resolutions?.resolutionsPerAuthority || [];
+  const match = authorities.find(authority =>
+    DYNAMIC_AUTHORITY.test(authority.authority) && authority.status.code === 'ER_SUCCESS_MATCH'
+  );
+  return match ? match.values.map(value => value.value.id) : [];
+}
+
+/**
+ * The one task among `tasks` the slot resolved to, if any
+ */
+export function findTaskByEntity<T extends { id: string }>(intent: Intent, slotName: string, tasks: T[]): T | null {
+  const ids = getTaskEntityIds(intent, slotName);
+  if (ids.length !== 1) {
+    return null;
+  }
+  return tasks.find(task => task.id === ids[0]) || null;
+}
@@ -0,0 +1,86 @@
+import { HandlerInput } from 'ask-sdk-core';
+import enUS, { Catalog, Message, MessageKey } from '../locales/en-US';
+import deDE from '../locales/de-DE';
+import esES from '../locales/es-ES';
+import frFR from '../locales/fr-FR';
+
+export type { MessageKey };
+
+export const DEFAULT_LOCALE = 'en-US';
+
+const CATALOGS: Record<string, Catalog> = {
+  'en-US': enUS,
+  'de-DE': deDE,
+  'es-ES': esES,
+  'fr-FR': frFR,
+};
+
+export const SUPPORTED_LOCALES = Object.keys(CATALOGS);
+
+export type TranslationParams = Record<string, string | number>;
+
+/**
+ * The catalog locale for a requested one: an exact match, else another
+ * locale of the same language ("en-GB" -> "en-US", "es-MX" -> "es-ES"),
+ * else English
+ */
+export function resolveLocale(requested?: string | null): string {
+  if (!requested) return DEFAULT_LOCALE;
+  if (CATALOGS[requested]) return requested;
+
+  const language = requested.split('-')[0].toLowerCase();
+  return SUPPORTED_LOCALES.find(locale => locale.startsWith(`${language}-`)) || DEFAULT_LOCALE;
+}
+
+/**
+ * The locale of the request (the device's language), resolved to a catalog
+ */
+export function getLocale(handlerInput: HandlerInput): string {
+  return resolveLocale((handlerInput.requestEnvelope.request as any)?.locale);
+}
+
+/**
+ * Language part of a supported locale, e.g. "de" for "de-AT"
+ */
+export function getLanguage(locale: string): string {
+  return resolveLocale(locale).split('-')[0];
+}
+
+function selectPlural(locale: string, message: Exclude<Message, string>, count: unknown): string {
+  if (typeof count !== 'number') return message.other;
+  const category = new Intl.PluralRules(locale).select(count);
+  return category === 'one' ? message.one : message.other;
+}
+
+/**
+ * The text for `key` in `locale` with its `{placeholders}` filled in. Plural
+ * entries are picked by `params.count`.
+ */
+export function translate(locale: string, key: MessageKey, params: TranslationParams = {}): string {
+  const resolved = resolveLocale(locale);
+  const message = CATALOGS[resolved][key] ?? enUS[key];
+  const text = typeof message === 'string' ? message : selectPlural(resolved, message, params.count);
+
+  return text.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * translate() in the request's locale
+ */
+export function t(handlerInput: HandlerInput, key: MessageKey, params?: TranslationParams): string {
+  return translate(getLocale(handlerInput), key, params);
+}
+
+/**
+ * "a and b", "a, b and c" in `locale`. `separator` goes between all but the
+ * last two items (e.g. with a pause).
+ */
+export function joinList(items: string[], locale: string, separator: string = ', '): string {
+  if (items.length <= 1) return items[0] || '';
+  return translate(locale, 'list.and', {
+    items: items.slice(0, -1).join(separator),
+    last: items[items.length - 1],
+  });
+}
@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+
+// The web login's introspection endpoint is the authority on whether an
+// access token was revoked and whether its user's license is active. Warm
+// Lambda instances reuse an answer for a short time, so a revocation or
+// license change takes effect within INTROSPECT_CACHE_SECONDS.
+const DEFAULT_TTL_SECONDS = 60;
+const MAX_ENTRIES = 500;
+
+interface CachedIntrospection<T> {
+  result: T;
+  expiresAt: number;
+}
+
+// By token hash, so warm instances don't hold the tokens themselves
+const entries = new Map<string, CachedIntrospection<unknown>>();
+
+/**
+ * How long an introspection answer is reused (INTROSPECT_CACHE_SECONDS,
+ * default 60; 0 turns the cache off)
+ */
+export function getIntrospectionCacheTtlMs(): number {
+  const configured = parseInt(process.env.INTROSPECT_CACHE_SECONDS ?? '', 10);
+  return (configured >= 0 ? configured : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+function cacheKey(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * The answer cached for `token`, or null once it is older than the TTL or the
+ * token has expired
+ */
+export function getCachedIntrospection<T>(token: string, now: number = Date.now()): T | null {
+  const key = cacheKey(token);
+  const cached = entries.get(key);
+  if (!cached) return null;
+  if (cached.expiresAt <= now) {
+    entries.delete(key);
+    return null;
+  }
+  return cached.result as T;
+}
+
+/**
+ * Cache an active token's introspection answer, never past the token's `exp`
+ */
+export function cacheIntrospection<T extends { exp?: number }>(
+  token: string,
+  result: T,
+  now: number = Date.now()
+): void {
+  const ttlMs = getIntrospectionCacheTtlMs();
+  if (ttlMs <= 0) return;
+
+  const expiresAt = Math.min(now + ttlMs, result.exp ? result.exp * 1000 : Infinity);
+  if (expiresAt <= now) return;
+
+  const key = cacheKey(token);
+  // Re-inserted so the Map stays in least recently written order
+  entries.delete(key);
+  entries.set(key, { result, expiresAt });
+  if (entries.size > MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value as string);
+  }
+}
+
+export function clearIntrospectionCache(): void {
+  entries.clear();
+}
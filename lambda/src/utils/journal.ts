@@ -0,0 +1,92 @@
+import { Client } from '@notionhq/client';
+import { ActionJournalEntry, InverseOperation, NotionTask, TaskPropertyMapping, TaskSnapshot } from '../types';
+import { recordJournalEntry, getLastUndoableEntry, markJournalEntryUndone } from './database';
+import { restoreTaskProperties, archiveTask, unarchiveTask, removeBlock } from './notion';
+import { DEFAULT_PROPERTY_MAPPING } from './schema';
+
+const DEFAULT_UNDO_WINDOW_MINUTES = 10;
+
+/**
+ * How far back "undo that" reaches (UNDO_WINDOW_MINUTES, default 10)
+ */
+export function getUndoWindowMinutes(): number {
+  const configured = parseInt(process.env.UNDO_WINDOW_MINUTES || '', 10);
+  return configured > 0 ? configured : DEFAULT_UNDO_WINDOW_MINUTES;
+}
+
+/**
+ * Capture the task properties that an update is about to change.
+ * Completing a recurring task also clears its rule, so the rule is kept
+ * whenever the status changes.
+ */
+export function snapshotTask(task: NotionTask, updates: TaskSnapshot): TaskSnapshot {
+  const snapshot: TaskSnapshot = {};
+
+  if (updates.status !== undefined) snapshot.status = task.status;
+  if (updates.priority !== undefined) snapshot.priority = task.priority;
+  if (updates.dueDateTime !== undefined) snapshot.dueDateTime = task.dueDateTime;
+  if (updates.recurrence !== undefined || (updates.status !== undefined && task.recurrence)) {
+    snapshot.recurrence = task.recurrence ?? null;
+  }
+
+  return snapshot;
+}
+
+/**
+ * Record how to reverse a voice action. Journal failures are logged but
+ * never fail the action itself.
+ */
+export async function journalAction(
+  userId: string,
+  action: ActionJournalEntry['action'],
+  description: string,
+  inverse: InverseOperation[]
+): Promise<void> {
+  if (!userId || inverse.length === 0) {
+    return;
+  }
+
+  try {
+    await recordJournalEntry(userId, action, description, inverse);
+  } catch (error: any) {
+    console.error('[journalAction] Could not record undo entry:', {
+      userId,
+      action,
+      message: error?.message,
+    });
+  }
+}
+
+/**
+ * Reverse the user's most recent action within the undo window.
+ * Returns the undone entry, or null when there is nothing to undo.
+ */
+export async function undoLastAction(
+  client: Client,
+  userId: string,
+  windowMinutes: number = getUndoWindowMinutes(),
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
+): Promise<ActionJournalEntry | null> {
+  const since = new Date(Date.now() - windowMinutes * 60 * 1000);
+  const entry = await getLastUndoableEntry(userId, since);
+
+  if (!entry) {
+    return null;
+  }
+
+  // Apply in reverse so later steps are undone first
+  for (const op of [...entry.inverse].reverse()) {
+    if (op.type === 'restore') {
+      await restoreTaskProperties(client, op.pageId, op.properties, mapping);
+    } else if (op.type === 'archive') {
+      await archiveTask(client, op.pageId);
+    } else if (op.type === 'unarchive') {
+      await unarchiveTask(client, op.pageId);
+    } else if (op.type === 'remove') {
+      await removeBlock(client, op.blockId);
+    }
+  }
+
+  await markJournalEntryUndone(entry.id);
+  return entry;
+}
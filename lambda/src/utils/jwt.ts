@@ -1,9 +1,26 @@
 // JWT utilities for Lambda (lightweight, no external dependencies)
-// Uses Node.js crypto for HMAC verification
+// Access tokens are signed by the web login with RS256 or ES256. This Lambda
+// only holds the public keys, fetched from the web login's JWKS, so it can
+// verify tokens but never mint them.
 
 import crypto from 'crypto';
+import fs from 'fs';
 
-const JWT_SECRET = process.env.JWT_SECRET || '';
+const APP_ISS = process.env.APP_ISS || 'https://voice-planner-murex.vercel.app';
+const JWKS_URL = process.env.JWKS_URL || `${APP_ISS}/.well-known/jwks.json`;
+
+// Keys are refetched once the cache is this old, or sooner when a token names
+// a key we haven't seen (the web login started signing with a new key), but
+// never more often than JWKS_MIN_REFRESH_MS
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+const JWKS_MIN_REFRESH_MS = 30 * 1000;
+const JWKS_FETCH_TIMEOUT_MS = 2000;
+
+// Only asymmetric algorithms are accepted; "none" and HS256 never verify
+const ALGORITHMS: Record<string, { hash: string; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { hash: 'sha256' },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+};
 
 export interface JWTPayload {
   iss: string;
@@ -16,6 +33,19 @@ export interface JWTPayload {
   amazon_account_id?: string;
 }
 
+export interface JsonWebKeySet {
+  keys: (crypto.JsonWebKey & { kid?: string; alg?: string; use?: string })[];
+}
+
+interface VerificationKey {
+  alg: string;
+  key: crypto.KeyObject;
+}
+
+let cachedKeys = new Map<string, VerificationKey>();
+let cachedAt = 0;
+let lastLoadAttempt = 0;
+
 /**
  * Base64 URL decode
  */
@@ -29,15 +59,77 @@ function base64UrlDecode(str: string): Buffer {
 }
 
 /**
- * Verify JWT token signature (HS256)
- * Note: This only works for JWT tokens. Opaque tokens must be validated via introspection endpoint.
+ * Replace the cached verification keys with the signing keys in a JWKS.
+ * Keys without a kid or with an unsupported alg are skipped.
  */
-export function verifyAccessToken(token: string): JWTPayload | null {
-  if (!JWT_SECRET) {
-    console.warn('[JWT] JWT_SECRET not set, cannot verify tokens locally');
-    return null;
+export function setJwks(jwks: JsonWebKeySet): void {
+  const keys = new Map<string, VerificationKey>();
+  for (const jwk of jwks.keys || []) {
+    if (!jwk.kid || !jwk.alg || !ALGORITHMS[jwk.alg] || (jwk.use && jwk.use !== 'sig')) {
+      continue;
+    }
+    try {
+      keys.set(jwk.kid, { alg: jwk.alg, key: crypto.createPublicKey({ key: jwk, format: 'jwk' }) });
+    } catch (error: any) {
+      console.warn('[JWT] Skipping unusable JWKS key:', jwk.kid, error.message);
+    }
+  }
+  cachedKeys = keys;
+  cachedAt = Date.now();
+}
+
+/**
+ * Forget the cached keys, so the next verification loads the JWKS again
+ */
+export function clearJwksCache(): void {
+  cachedKeys = new Map();
+  cachedAt = 0;
+  lastLoadAttempt = 0;
+}
+
+/**
+ * Load the JWKS from JWKS_PATH when set (tests and offline runs use a bundled
+ * copy), otherwise from the web login
+ */
+async function loadJwks(): Promise<JsonWebKeySet> {
+  if (process.env.JWKS_PATH) {
+    return JSON.parse(fs.readFileSync(process.env.JWKS_PATH, 'utf-8'));
+  }
+
+  const response = await fetch(JWKS_URL, {
+    signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`JWKS request failed with status ${response.status}`);
+  }
+  return await response.json() as JsonWebKeySet;
+}
+
+/**
+ * Find the key a token was signed with, reloading the JWKS when the cache is
+ * stale or doesn't know the kid. If loading fails the old keys stay in use.
+ */
+async function getVerificationKey(kid: string): Promise<VerificationKey | null> {
+  const now = Date.now();
+  const stale = now - cachedAt >= JWKS_CACHE_TTL_MS;
+
+  if ((stale || !cachedKeys.has(kid)) && now - lastLoadAttempt >= JWKS_MIN_REFRESH_MS) {
+    lastLoadAttempt = now;
+    try {
+      setJwks(await loadJwks());
+    } catch (error: any) {
+      console.warn('[JWT] Could not load JWKS:', error.message);
+    }
   }
 
+  return cachedKeys.get(kid) || null;
+}
+
+/**
+ * Verify a JWT access token signed by the web login (RS256 or ES256)
+ * Note: This only works for JWT tokens. Opaque tokens must be validated via introspection endpoint.
+ */
+export async function verifyAccessToken(token: string): Promise<JWTPayload | null> {
   try {
     const parts = token.split('.');
     // JWT tokens have exactly 3 parts (header.payload.signature)
@@ -47,16 +139,32 @@ export function verifyAccessToken(token: string): JWTPayload | null {
     }
 
     const [headerB64, payloadB64, signatureB64] = parts;
+    const header = JSON.parse(base64UrlDecode(headerB64).toString('utf-8'));
+
+    const algorithm = ALGORITHMS[header.alg];
+    if (!algorithm || typeof header.kid !== 'string') {
+      console.warn('[JWT] Unsupported token header:', { alg: header.alg, kid: header.kid });
+      return null;
+    }
+
+    const verificationKey = await getVerificationKey(header.kid);
+    if (!verificationKey) {
+      console.warn('[JWT] No JWKS key for kid:', header.kid);
+      return null;
+    }
+    if (verificationKey.alg !== header.alg) {
+      console.warn('[JWT] Token alg does not match key:', header.kid);
+      return null;
+    }
 
     // Verify signature
-    const signature = base64UrlDecode(signatureB64);
-    const data = `${headerB64}.${payloadB64}`;
-    const expectedSignature = crypto
-      .createHmac('sha256', JWT_SECRET)
-      .update(data)
-      .digest();
-
-    if (!crypto.timingSafeEqual(signature, expectedSignature)) {
+    const valid = crypto.verify(
+      algorithm.hash,
+      Buffer.from(`${headerB64}.${payloadB64}`),
+      { key: verificationKey.key, dsaEncoding: algorithm.dsaEncoding },
+      base64UrlDecode(signatureB64)
+    );
+    if (!valid) {
       console.warn('[JWT] Signature verification failed');
       return null;
     }
@@ -65,9 +173,14 @@ export function verifyAccessToken(token: string): JWTPayload | null {
     const payloadJson = base64UrlDecode(payloadB64).toString('utf-8');
     const payload = JSON.parse(payloadJson) as JWTPayload;
 
+    if (payload.iss !== APP_ISS) {
+      console.warn('[JWT] Unexpected issuer:', payload.iss);
+      return null;
+    }
+
     // Check expiration
     const now = Math.floor(Date.now() / 1000);
-    if (payload.exp && payload.exp < now) {
+    if (!payload.exp || payload.exp < now) {
       console.warn('[JWT] Token expired');
       return null;
     }
@@ -1,30 +1,116 @@
 import { Client } from '@notionhq/client';
-import { NotionTask } from '../types';
+import { NotionTask, TaskPropertyMapping, TaskSnapshot, TaskStep, StepProgress } from '../types';
+import { getNextOccurrence } from './recurrence';
+import { toDateString, getDayRange } from './timezone';
+import {
+  DEFAULT_PROPERTY_MAPPING,
+  findCanonicalValue,
+  findStatusForOption,
+  statusFilter,
+  openStatusFilter,
+  priorityFilter,
+  categoryFilter,
+  dueDateFilter,
+  combineFilters,
+  buildSorts,
+  statusProperty,
+  priorityProperty,
+  categoryProperty,
+  detectPropertyMapping,
+} from './schema';
+import {
+  sleep,
+  acquireRequest,
+  pauseRequests,
+  getRetryAfter,
+  getRetryDelay,
+  isRetryableError,
+} from './rateLimit';
 
 const MAX_RETRIES = 3;
-const RETRY_DELAY = 1000; // 1 second
-
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
+// Alexa gives up on a response after 8 seconds, so don't wait longer than
+// this for a retry
+const MAX_RETRY_WAIT = 3000;
+// Pause when Notion answers 429 without a Retry-After
+const DEFAULT_RATE_LIMIT_PAUSE = 1000;
+// Most tasks one bulk delete archives, so it finishes within Alexa's 8
+// seconds at Notion's three requests per second
+const MAX_BULK_DELETE = 15;
+// Archive requests sent at once during a bulk delete
+const BULK_DELETE_CHUNK_SIZE = 3;
 
 async function withRetry<T>(
   fn: () => Promise<T>,
   retries: number = MAX_RETRIES
 ): Promise<T> {
-  try {
-    return await fn();
-  } catch (error: any) {
-    if (retries > 0 && (error.status === 429 || error.status >= 500)) {
-      await sleep(RETRY_DELAY);
-      return withRetry(fn, retries - 1);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      const delay = getRetryDelay(error, attempt);
+      if (attempt >= retries || !isRetryableError(error) || delay > MAX_RETRY_WAIT) {
+        throw error;
+      }
+      console.warn('[withRetry] Retrying Notion request:', { status: error.status, attempt: attempt + 1, delay });
+      await sleep(delay);
+    }
+  }
+}
+
+type RequestParameters = Parameters<Client['request']>[0];
+
+function isReadRequest({ method, path }: RequestParameters): boolean {
+  return method === 'get' || path === 'search' || /^databases\/[^/]+\/query$/.test(path);
+}
+
+/**
+ * A Notion client that keeps to the per-token rate limit, and shares one
+ * response between identical reads in flight at the same time (e.g. the
+ * same page retrieved twice while handling one request).
+ * The client is kept in session attributes, so its state is in #private
+ * fields that don't end up in the response JSON.
+ */
+class RateLimitedClient extends Client {
+  readonly #rateLimitKey: string;
+  readonly #inFlight = new Map<string, Promise<any>>();
+
+  constructor(accessToken: string) {
+    super({ auth: accessToken });
+    this.#rateLimitKey = accessToken;
+  }
+
+  request<ResponseBody>(args: RequestParameters): Promise<ResponseBody> {
+    if (!isReadRequest(args)) {
+      return this.send<ResponseBody>(args);
+    }
+
+    const key = JSON.stringify([args.method, args.path, args.query, args.body, args.auth]);
+    const pending = this.#inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const response = this.send<ResponseBody>(args).finally(() => this.#inFlight.delete(key));
+    this.#inFlight.set(key, response);
+    return response;
+  }
+
+  private async send<ResponseBody>(args: RequestParameters): Promise<ResponseBody> {
+    await acquireRequest(this.#rateLimitKey);
+    try {
+      return await super.request<ResponseBody>(args);
+    } catch (error: any) {
+      if (error?.status === 429) {
+        // Hold back everything else on this token too, not just this request
+        pauseRequests(this.#rateLimitKey, getRetryAfter(error) ?? DEFAULT_RATE_LIMIT_PAUSE);
+      }
+      throw error;
     }
-    throw error;
   }
 }
 
 export function createNotionClient(accessToken: string): Client {
-  return new Client({ auth: accessToken });
+  return new RateLimitedClient(accessToken);
 }
 
 export async function findDatabaseByName(
@@ -93,6 +179,20 @@ export async function findDatabaseByName(
   }
 }
 
+/**
+ * Work out which properties of an existing Tasks database hold each task
+ * field (see detectPropertyMapping)
+ */
+export async function detectTaskPropertyMapping(
+  client: Client,
+  databaseId: string
+): Promise<TaskPropertyMapping> {
+  const database: any = await withRetry(() =>
+    client.databases.retrieve({ database_id: databaseId })
+  );
+  return detectPropertyMapping(database.properties || {});
+}
+
 export async function addTask(
   client: Client,
   databaseId: string,
@@ -101,42 +201,56 @@ export async function addTask(
   priority: 'LOW' | 'NORMAL' | 'HIGH' = 'NORMAL',
   category: 'PERSONAL' | 'WORK' = 'PERSONAL',
   dueDateTime?: string | null,
-  status: 'TO DO' | 'IN_PROCESS' | 'DONE' = 'TO DO'
+  status: 'TO DO' | 'IN_PROCESS' | 'DONE' = 'TO DO',
+  recurrence?: string | null,
+  steps: string[] = [],
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
 ): Promise<string> {
   const properties: any = {
-    'Task Name': {
+    [mapping.title]: {
       title: [{ text: { content: taskName } }],
     },
-    'Parsed Name': {
-      rich_text: [{ text: { content: parsedName || taskName } }],
-    },
-    Priority: {
-      select: { name: priority },
-    },
-    Status: {
-      select: { name: status },
-    },
-    Category: {
-      select: { name: category },
-    },
+    ...priorityProperty(mapping, priority),
+    ...statusProperty(mapping, status),
+    ...categoryProperty(mapping, category),
   };
 
-  if (dueDateTime) {
-    properties['Due Date Time'] = {
+  if (mapping.parsedName) {
+    properties[mapping.parsedName] = {
+      rich_text: [{ text: { content: parsedName || taskName } }],
+    };
+  }
+
+  if (dueDateTime && mapping.dueDate) {
+    properties[mapping.dueDate] = {
       date: { start: dueDateTime },
     };
   }
 
+  if (recurrence) {
+    properties[mapping.recurrence] = {
+      rich_text: [{ text: { content: recurrence } }],
+    };
+  }
+
   // Store NotionID (will be set after creation)
-  properties.NotionID = {
-    rich_text: [{ text: { content: '' } }], // Will be updated after creation
-  };
+  if (mapping.notionId) {
+    properties[mapping.notionId] = {
+      rich_text: [{ text: { content: '' } }], // Will be updated after creation
+    };
+  }
 
   try {
+    if (recurrence) {
+      await ensureRecurrenceProperty(client, databaseId, mapping.recurrence);
+    }
+
+
     const response = await withRetry(() =>
       client.pages.create({
         parent: { database_id: databaseId },
         properties,
+        children: steps.length > 0 ? buildStepBlocks(steps) : undefined,
       })
     );
     
@@ -154,20 +268,23 @@ export async function addTask(
     });
     
     // Update NotionID property with the page ID
-    try {
-      await withRetry(() =>
-        client.pages.update({
-          page_id: response.id,
-          properties: {
-            NotionID: {
-              rich_text: [{ text: { content: response.id } }],
+    const notionIdProperty = mapping.notionId;
+    if (notionIdProperty) {
+      try {
+        await withRetry(() =>
+          client.pages.update({
+            page_id: response.id,
+            properties: {
+              [notionIdProperty]: {
+                rich_text: [{ text: { content: response.id } }],
+              },
             },
-          },
-        })
-      );
-    } catch (updateError: any) {
-      console.warn('[addTask] Failed to update NotionID property:', updateError?.message);
-      // Don't throw - task was created successfully
+          })
+        );
+      } catch (updateError: any) {
+        console.warn('[addTask] Failed to update NotionID property:', updateError?.message);
+        // Don't throw - task was created successfully
+      }
     }
     
     return response.id;
@@ -184,71 +301,133 @@ export async function addTask(
   }
 }
 
-export async function getTopPriorityTasks(
+// ============================================================================
+// PAGINATED QUERIES
+// ============================================================================
+
+// Largest page the Notion API returns per request
+const MAX_PAGE_SIZE = 100;
+
+export interface QueryOptions {
+  filter?: any;
+  sorts?: any[];
+  limit?: number; // Stop once this many results are collected; all results when omitted
+  startCursor?: string | null; // Continue an earlier query from its nextCursor
+}
+
+export interface QueryPage<T> {
+  results: T[];
+  nextCursor: string | null; // Set when results remain past the limit
+}
+
+/**
+ * Query a database, following next_cursor until the limit is reached or
+ * every matching page has been read
+ */
+export async function queryDatabase(
   client: Client,
   databaseId: string,
-  limit: number = 3
-): Promise<NotionTask[]> {
-  try {
+  options: QueryOptions = {}
+): Promise<QueryPage<any>> {
+  const { filter, sorts, limit } = options;
+  const results: any[] = [];
+  let cursor = options.startCursor || undefined;
+
+  do {
+    const pageSize = limit ? Math.min(MAX_PAGE_SIZE, limit - results.length) : MAX_PAGE_SIZE;
     const response = await withRetry(() =>
       client.databases.query({
         database_id: databaseId,
-        filter: {
-          or: [
-            { property: 'Status', select: { equals: 'TO DO' } },
-            { property: 'Status', select: { equals: 'IN_PROCESS' } },
-          ],
-        },
-        sorts: [
-          { property: 'Priority', direction: 'descending' },
-          { property: 'Due Date Time', direction: 'ascending' },
-        ],
-        page_size: limit,
+        filter: filter && Object.keys(filter).length > 0 ? filter : undefined,
+        sorts: sorts && sorts.length > 0 ? sorts : undefined,
+        start_cursor: cursor,
+        page_size: pageSize,
       })
     );
+    results.push(...response.results);
+    cursor = response.has_more && response.next_cursor ? response.next_cursor : undefined;
+  } while (cursor && (!limit || results.length < limit));
+
+  return { results, nextCursor: cursor || null };
+}
+
+/**
+ * Paginated query returning tasks read through the mapping, plus the cursor
+ * for the next page
+ */
+export async function queryTaskPage(
+  client: Client,
+  databaseId: string,
+  options: QueryOptions = {},
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
+): Promise<QueryPage<NotionTask>> {
+  const page = await queryDatabase(client, databaseId, options);
+  return {
+    results: page.results.map(result => mapPageToTask(result, mapping)),
+    nextCursor: page.nextCursor,
+  };
+}
+
+/**
+ * Every task matching the query (up to options.limit)
+ */
+export async function queryTasks(
+  client: Client,
+  databaseId: string,
+  options: QueryOptions = {},
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
+): Promise<NotionTask[]> {
+  const page = await queryTaskPage(client, databaseId, options, mapping);
+  return page.results;
+}
 
-    return response.results.map(mapPageToTask);
+export async function getTopPriorityTasks(
+  client: Client,
+  databaseId: string,
+  limit: number = 3,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
+): Promise<NotionTask[]> {
+  try {
+    return await queryTasks(client, databaseId, {
+      filter: combineFilters([openStatusFilter(mapping)]),
+      sorts: buildSorts(mapping, [
+        { field: 'priority', direction: 'descending' },
+        { field: 'dueDate', direction: 'ascending' },
+      ]),
+      limit,
+    }, mapping);
   } catch (error) {
     console.error('Error getting priority tasks:', error);
     return [];
   }
 }
 
+/**
+ * Open tasks due today (overdue tasks come from getOverdueTasks)
+ */
 export async function getTodayTasks(
   client: Client,
-  databaseId: string
+  databaseId: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  timeZone?: string
 ): Promise<NotionTask[]> {
-  try {
-    const today = new Date().toISOString().split('T')[0];
-    const tomorrow = new Date(Date.now() + 86400000).toISOString().split('T')[0];
-
-    const response = await withRetry(() =>
-      client.databases.query({
-        database_id: databaseId,
-        filter: {
-          and: [
-            {
-              property: 'Due Date Time',
-              date: {
-                on_or_before: tomorrow,
-              },
-            },
-            {
-              or: [
-                { property: 'Status', select: { equals: 'TO DO' } },
-                { property: 'Status', select: { equals: 'IN_PROCESS' } },
-              ],
-            },
-          ],
-        },
-        sorts: [
-          { property: 'Priority', direction: 'descending' },
-          { property: 'Due Date Time', direction: 'ascending' },
-        ],
-      })
-    );
+  if (!mapping.dueDate) {
+    return [];
+  }
 
-    return response.results.map(mapPageToTask);
+  try {
+    const today = toDateString(new Date(), timeZone);
+
+    return await queryTasks(client, databaseId, {
+      filter: combineFilters([
+        dueDateFilter(mapping, { equals: today }),
+        openStatusFilter(mapping),
+      ]),
+      sorts: buildSorts(mapping, [
+        { field: 'priority', direction: 'descending' },
+        { field: 'dueDate', direction: 'ascending' },
+      ]),
+    }, mapping);
   } catch (error) {
     console.error('Error getting today tasks:', error);
     return [];
@@ -295,82 +474,132 @@ function normalizeCategory(category: string): 'PERSONAL' | 'WORK' {
   return 'PERSONAL';
 }
 
+/**
+ * Read the option name of a select, status or multi-select property value
+ */
+function readOptionNames(value: any): string[] {
+  if (value?.select) {
+    return [value.select.name];
+  }
+  if (value?.status) {
+    return [value.status.name];
+  }
+  if (Array.isArray(value?.multi_select)) {
+    return value.multi_select.map((option: any) => option.name);
+  }
+  return [];
+}
+
+function readCategory(value: any, mapping: TaskPropertyMapping): 'PERSONAL' | 'WORK' {
+  const names = readOptionNames(value);
+  for (const name of names) {
+    const category = findCanonicalValue(mapping.categoryValues, name);
+    if (category) return category;
+  }
+  return normalizeCategory(names[0] || 'PERSONAL');
+}
+
 // Helper function to map page to NotionTask
-export function mapPageToTask(page: any): NotionTask {
+/**
+ * Map a database page to a task. Pass the page's steps (see getTaskSteps)
+ * to include step progress - query results don't contain page content.
+ */
+export function mapPageToTask(
+  page: any,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  steps?: TaskStep[]
+): NotionTask {
   const props = page.properties;
-  const priorityRaw = props.Priority?.select?.name || 'NORMAL';
-  const statusRaw = props.Status?.select?.name || 'TO DO';
-  const categoryRaw = props.Category?.select?.name || 'PERSONAL';
+  const priorityRaw = (mapping.priority && readOptionNames(props[mapping.priority])[0]) || 'NORMAL';
+  const statusRaw = (mapping.status && readOptionNames(props[mapping.status])[0]) || 'TO DO';
+  const title = props[mapping.title]?.title?.[0]?.plain_text || 'Untitled';
   
   return {
     id: page.id,
-    name: props['Task Name']?.title?.[0]?.plain_text || 'Untitled',
-    parsedName: props['Parsed Name']?.rich_text?.[0]?.plain_text || props['Task Name']?.title?.[0]?.plain_text || 'Untitled',
-    priority: normalizePriority(priorityRaw),
-    dueDateTime: props['Due Date Time']?.date?.start || null,
-    status: normalizeStatus(statusRaw),
-    category: normalizeCategory(categoryRaw),
-    notes: props.Notes?.rich_text?.[0]?.plain_text || null,
+    name: title,
+    parsedName: (mapping.parsedName && props[mapping.parsedName]?.rich_text?.[0]?.plain_text) || title,
+    priority: findCanonicalValue(mapping.priorityValues, priorityRaw) || normalizePriority(priorityRaw),
+    dueDateTime: (mapping.dueDate && props[mapping.dueDate]?.date?.start) || null,
+    status: findStatusForOption(mapping, statusRaw) || normalizeStatus(statusRaw),
+    category: mapping.category ? readCategory(props[mapping.category], mapping) : 'PERSONAL',
+    notes: (mapping.notes && props[mapping.notes]?.rich_text?.[0]?.plain_text) || null,
+    recurrence: props[mapping.recurrence]?.rich_text?.[0]?.plain_text || null,
     createdAt: props['Created At']?.created_time || null,
     updatedAt: props['Updated At']?.last_edited_time || null,
-    notionId: props.NotionID?.rich_text?.[0]?.plain_text || page.id,
+    notionId: (mapping.notionId && props[mapping.notionId]?.rich_text?.[0]?.plain_text) || page.id,
+    stepProgress: steps ? getStepProgress(steps) : undefined,
   };
 }
 
-
 /**
- * Get all tasks (excluding done/completed)
+ * Every open task, highest priority and earliest due first. Unlike
+ * getAllTasks, errors are thrown.
  */
+export async function queryOpenTasks(
+  client: Client,
+  databaseId: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
+): Promise<NotionTask[]> {
+  return queryTasks(client, databaseId, {
+    filter: combineFilters([openStatusFilter(mapping)]),
+    sorts: buildSorts(mapping, [
+      { field: 'priority', direction: 'descending' },
+      { field: 'dueDate', direction: 'ascending' },
+    ]),
+  }, mapping);
+}
+
 export async function getAllTasks(
   client: Client,
-  databaseId: string
+  databaseId: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
 ): Promise<NotionTask[]> {
   try {
-    const response = await withRetry(() =>
-      client.databases.query({
-        database_id: databaseId,
-        filter: {
-          or: [
-            { property: 'Status', select: { equals: 'TO DO' } },
-            { property: 'Status', select: { equals: 'IN_PROCESS' } },
-          ],
-        },
-        sorts: [
-          { property: 'Priority', direction: 'descending' },
-          { property: 'Due Date Time', direction: 'ascending' },
-        ],
-      })
-    );
-    return response.results.map(mapPageToTask);
+    return await queryOpenTasks(client, databaseId, mapping);
   } catch (error) {
     console.error('Error getting all tasks:', error);
     return [];
   }
 }
 
+/**
+ * Re-read tasks by page ID (e.g. a page of a list kept in the session).
+ * Pages that can't be read any more are left out.
+ */
+export async function getTasksByIds(
+  client: Client,
+  pageIds: string[],
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
+): Promise<NotionTask[]> {
+  const pages = await Promise.all(pageIds.map(pageId =>
+    withRetry(() => client.pages.retrieve({ page_id: pageId })).catch((error: any) => {
+      console.warn('[getTasksByIds] Could not read page:', { pageId, error: error?.message });
+      return null;
+    })
+  ));
+
+  return pages
+    .filter((page: any) => page && !page.archived)
+    .map(page => mapPageToTask(page, mapping));
+}
+
 /**
  * Get tasks by priority
  */
 export async function getTasksByPriority(
   client: Client,
   databaseId: string,
-  priority: 'LOW' | 'NORMAL' | 'HIGH'
+  priority: 'LOW' | 'NORMAL' | 'HIGH',
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
 ): Promise<NotionTask[]> {
   try {
     const normalizedPriority = normalizePriority(priority);
-    const response = await withRetry(() =>
-      client.databases.query({
-        database_id: databaseId,
-        filter: {
-          property: 'Priority',
-          select: { equals: normalizedPriority },
-        },
-        sorts: [
-          { property: 'Due Date Time', direction: 'ascending' },
-        ],
-      })
-    );
-    return response.results.map(mapPageToTask);
+    return await queryTasks(client, databaseId, {
+      filter: combineFilters([priorityFilter(mapping, normalizedPriority)]),
+      sorts: buildSorts(mapping, [
+        { field: 'dueDate', direction: 'ascending' },
+      ]),
+    }, mapping);
   } catch (error) {
     console.error(`Error getting ${priority} priority tasks:`, error);
     return [];
@@ -383,24 +612,17 @@ export async function getTasksByPriority(
 export async function getTasksByStatus(
   client: Client,
   databaseId: string,
-  status: 'TO DO' | 'IN_PROCESS' | 'DONE'
+  status: 'TO DO' | 'IN_PROCESS' | 'DONE',
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
 ): Promise<NotionTask[]> {
   try {
-    const normalizedStatus = normalizeStatus(status);
-    const response = await withRetry(() =>
-      client.databases.query({
-        database_id: databaseId,
-        filter: {
-          property: 'Status',
-          select: { equals: normalizedStatus },
-        },
-        sorts: [
-          { property: 'Priority', direction: 'descending' },
-          { property: 'Due Date Time', direction: 'ascending' },
-        ],
-      })
-    );
-    return response.results.map(mapPageToTask);
+    return await queryTasks(client, databaseId, {
+      filter: combineFilters([statusFilter(mapping, status)]),
+      sorts: buildSorts(mapping, [
+        { field: 'priority', direction: 'descending' },
+        { field: 'dueDate', direction: 'ascending' },
+      ]),
+    }, mapping);
   } catch (error) {
     console.error(`Error getting ${status} tasks:`, error);
     return [];
@@ -413,24 +635,18 @@ export async function getTasksByStatus(
 export async function getTasksByCategory(
   client: Client,
   databaseId: string,
-  category: 'PERSONAL' | 'WORK'
+  category: 'PERSONAL' | 'WORK',
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
 ): Promise<NotionTask[]> {
   try {
     const normalizedCategory = normalizeCategory(category);
-    const response = await withRetry(() =>
-      client.databases.query({
-        database_id: databaseId,
-        filter: {
-          property: 'Category',
-          select: { equals: normalizedCategory },
-        },
-        sorts: [
-          { property: 'Priority', direction: 'descending' },
-          { property: 'Due Date Time', direction: 'ascending' },
-        ],
-      })
-    );
-    return response.results.map(mapPageToTask);
+    return await queryTasks(client, databaseId, {
+      filter: combineFilters([categoryFilter(mapping, normalizedCategory)]),
+      sorts: buildSorts(mapping, [
+        { field: 'priority', direction: 'descending' },
+        { field: 'dueDate', direction: 'ascending' },
+      ]),
+    }, mapping);
   } catch (error) {
     console.error(`Error getting ${category} tasks:`, error);
     return [];
@@ -442,25 +658,17 @@ export async function getTasksByCategory(
  */
 export async function getPendingTasks(
   client: Client,
-  databaseId: string
+  databaseId: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
 ): Promise<NotionTask[]> {
   try {
-    const response = await withRetry(() =>
-      client.databases.query({
-        database_id: databaseId,
-        filter: {
-          or: [
-            { property: 'Status', select: { equals: 'TO DO' } },
-            { property: 'Status', select: { equals: 'IN_PROCESS' } },
-          ],
-        },
-        sorts: [
-          { property: 'Priority', direction: 'descending' },
-          { property: 'Due Date Time', direction: 'ascending' },
-        ],
-      })
-    );
-    return response.results.map(mapPageToTask);
+    return await queryTasks(client, databaseId, {
+      filter: combineFilters([openStatusFilter(mapping)]),
+      sorts: buildSorts(mapping, [
+        { field: 'priority', direction: 'descending' },
+        { field: 'dueDate', direction: 'ascending' },
+      ]),
+    }, mapping);
   } catch (error) {
     console.error('Error getting pending tasks:', error);
     return [];
@@ -472,33 +680,25 @@ export async function getPendingTasks(
  */
 export async function getOverdueTasks(
   client: Client,
-  databaseId: string
+  databaseId: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  timeZone?: string
 ): Promise<NotionTask[]> {
+  if (!mapping.dueDate) {
+    return [];
+  }
+
   try {
-    const today = new Date().toISOString().split('T')[0];
-    const response = await withRetry(() =>
-      client.databases.query({
-        database_id: databaseId,
-        filter: {
-          and: [
-            {
-              property: 'Due Date Time',
-              date: { before: today },
-            },
-            {
-              or: [
-                { property: 'Status', select: { equals: 'TO DO' } },
-                { property: 'Status', select: { equals: 'IN_PROCESS' } },
-              ],
-            },
-          ],
-        },
-        sorts: [
-          { property: 'Due Date Time', direction: 'ascending' },
-        ],
-      })
-    );
-    return response.results.map(mapPageToTask);
+    const today = toDateString(new Date(), timeZone);
+    return await queryTasks(client, databaseId, {
+      filter: combineFilters([
+        dueDateFilter(mapping, { before: today }),
+        openStatusFilter(mapping),
+      ]),
+      sorts: buildSorts(mapping, [
+        { field: 'dueDate', direction: 'ascending' },
+      ]),
+    }, mapping);
   } catch (error) {
     console.error('Error getting overdue tasks:', error);
     return [];
@@ -510,27 +710,12 @@ export async function getOverdueTasks(
  */
 export async function getTasksDueTomorrow(
   client: Client,
-  databaseId: string
+  databaseId: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  timeZone?: string
 ): Promise<NotionTask[]> {
-  try {
-    const tomorrow = new Date(Date.now() + 86400000).toISOString().split('T')[0];
-    const response = await withRetry(() =>
-      client.databases.query({
-        database_id: databaseId,
-        filter: {
-          property: 'Due Date Time',
-          date: { equals: tomorrow },
-        },
-        sorts: [
-          { property: 'Priority', direction: 'descending' },
-        ],
-      })
-    );
-    return response.results.map(mapPageToTask);
-  } catch (error) {
-    console.error('Error getting tasks due tomorrow:', error);
-    return [];
-  }
+  const tomorrow = toDateString(getDayRange(new Date(), timeZone, 1).start, timeZone);
+  return getTasksByDate(client, databaseId, tomorrow, mapping);
 }
 
 /**
@@ -542,22 +727,20 @@ export async function getTasksDueTomorrow(
 export async function getTasksByDate(
   client: Client,
   databaseId: string,
-  date: string
+  date: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
 ): Promise<NotionTask[]> {
+  if (!mapping.dueDate) {
+    return [];
+  }
+
   try {
-    const response = await withRetry(() =>
-      client.databases.query({
-        database_id: databaseId,
-        filter: {
-          property: 'Due Date Time',
-          date: { equals: date },
-        },
-        sorts: [
-          { property: 'Priority', direction: 'descending' },
-        ],
-      })
-    );
-    return response.results.map(mapPageToTask);
+    return await queryTasks(client, databaseId, {
+      filter: combineFilters([dueDateFilter(mapping, { equals: date })]),
+      sorts: buildSorts(mapping, [
+        { field: 'priority', direction: 'descending' },
+      ]),
+    }, mapping);
   } catch (error) {
     console.error('Error getting tasks by date:', error);
     return [];
@@ -569,33 +752,27 @@ export async function getTasksByDate(
  */
 export async function getTasksDueThisWeek(
   client: Client,
-  databaseId: string
+  databaseId: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  timeZone?: string
 ): Promise<NotionTask[]> {
+  if (!mapping.dueDate) {
+    return [];
+  }
+
   try {
-    const today = new Date().toISOString().split('T')[0];
-    const nextWeek = new Date(Date.now() + 7 * 86400000).toISOString().split('T')[0];
-    const response = await withRetry(() =>
-      client.databases.query({
-        database_id: databaseId,
-        filter: {
-          and: [
-            {
-              property: 'Due Date Time',
-              date: { on_or_after: today },
-            },
-            {
-              property: 'Due Date Time',
-              date: { on_or_before: nextWeek },
-            },
-          ],
-        },
-        sorts: [
-          { property: 'Due Date Time', direction: 'ascending' },
-          { property: 'Priority', direction: 'descending' },
-        ],
-      })
-    );
-    return response.results.map(mapPageToTask);
+    const today = toDateString(new Date(), timeZone);
+    const nextWeek = toDateString(getDayRange(new Date(), timeZone, 7).start, timeZone);
+    return await queryTasks(client, databaseId, {
+      filter: combineFilters([
+        dueDateFilter(mapping, { on_or_after: today }),
+        dueDateFilter(mapping, { on_or_before: nextWeek }),
+      ]),
+      sorts: buildSorts(mapping, [
+        { field: 'dueDate', direction: 'ascending' },
+        { field: 'priority', direction: 'descending' },
+      ]),
+    }, mapping);
   } catch (error) {
     console.error('Error getting tasks due this week:', error);
     return [];
@@ -603,44 +780,34 @@ export async function getTasksDueThisWeek(
 }
 
 /**
- * Get completed tasks (optionally filtered by time range)
- */
-export async function getCompletedTasks(
-  client: Client,
-  databaseId: string,
-  timeRange?: { start: string; end: string }
-): Promise<NotionTask[]> {
-  try {
-    let filter: any = {
-      property: 'Status',
-      select: { equals: 'DONE' },
-    };
-
-    if (timeRange) {
-      filter = {
-        and: [
-          { property: 'Status', select: { equals: 'DONE' } },
-          {
-            property: 'Due Date Time',
-            date: {
-              on_or_after: timeRange.start,
-              on_or_before: timeRange.end,
-            },
-          },
-        ],
-      };
-    }
+ * Get completed tasks (optionally filtered by time range)
+ */
+export async function getCompletedTasks(
+  client: Client,
+  databaseId: string,
+  timeRange?: { start: string; end: string },
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  limit?: number
+): Promise<NotionTask[]> {
+  if (!mapping.status) {
+    return [];
+  }
 
-    const response = await withRetry(() =>
-      client.databases.query({
-        database_id: databaseId,
-        filter,
-        sorts: [
-          { property: 'Due Date Time', direction: 'descending' },
-        ],
-      })
-    );
-    return response.results.map(mapPageToTask);
+  try {
+    const filter = combineFilters([
+      statusFilter(mapping, 'DONE'),
+      timeRange
+        ? dueDateFilter(mapping, { on_or_after: timeRange.start, on_or_before: timeRange.end })
+        : null,
+    ]);
+
+    return await queryTasks(client, databaseId, {
+      filter,
+      sorts: buildSorts(mapping, [
+        { field: 'dueDate', direction: 'descending' },
+      ]),
+      limit,
+    }, mapping);
   } catch (error) {
     console.error('Error getting completed tasks:', error);
     return [];
@@ -653,37 +820,37 @@ export async function getCompletedTasks(
 export async function getTasksByDateRange(
   client: Client,
   databaseId: string,
-  date: string
+  date: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
 ): Promise<NotionTask[]> {
-  return getTasksByDate(client, databaseId, date);
+  return getTasksByDate(client, databaseId, date, mapping);
 }
 
 /**
- * Get completed tasks for deletion
+ * Get completed tasks for deletion, at most MAX_BULK_DELETE of them
  */
 export async function getCompletedTasksForDeletion(
   client: Client,
-  databaseId: string
+  databaseId: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
 ): Promise<NotionTask[]> {
-  return getCompletedTasks(client, databaseId);
+  return getCompletedTasks(client, databaseId, undefined, mapping, MAX_BULK_DELETE);
 }
 
 
 /**
- * Update task status
+ * Write the Status property without any side effects
  */
-export async function updateTaskStatus(
+async function writeTaskStatus(
   client: Client,
   pageId: string,
-  status: 'TO DO' | 'IN_PROCESS' | 'DONE'
+  status: 'TO DO' | 'IN_PROCESS' | 'DONE',
+  mapping: TaskPropertyMapping
 ): Promise<void> {
-  const normalizedStatus = normalizeStatus(status);
-  
-  const properties: any = {
-    Status: {
-      select: { name: normalizedStatus },
-    },
-  };
+  const properties = statusProperty(mapping, normalizeStatus(status));
+  if (Object.keys(properties).length === 0) {
+    return;
+  }
 
   await withRetry(() =>
     client.pages.update({
@@ -694,45 +861,84 @@ export async function updateTaskStatus(
 }
 
 /**
- * Update task with multiple fields (status, priority, dueDateTime)
+ * Update task status
+ * Completing a recurring task generates its next occurrence.
  */
-export async function updateTask(
+export async function updateTaskStatus(
   client: Client,
   pageId: string,
-  updates: {
-    status?: 'TO DO' | 'IN_PROCESS' | 'DONE';
-    priority?: 'LOW' | 'NORMAL' | 'HIGH';
-    dueDateTime?: string | null;
+  status: 'TO DO' | 'IN_PROCESS' | 'DONE',
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  timeZone?: string
+): Promise<NextOccurrence | null> {
+  await writeTaskStatus(client, pageId, status, mapping);
+
+  if (normalizeStatus(status) === 'DONE') {
+    return scheduleNextOccurrence(client, pageId, mapping, timeZone);
   }
-): Promise<void> {
+  return null;
+}
+
+/**
+ * Build Notion property values for a partial task update
+ */
+function buildTaskProperties(updates: TaskSnapshot, mapping: TaskPropertyMapping): any {
   const properties: any = {};
   
   if (updates.status !== undefined) {
-    properties.Status = {
-      select: { name: updates.status },
-    };
+    Object.assign(properties, statusProperty(mapping, updates.status));
   }
   
   if (updates.priority !== undefined) {
-    properties.Priority = {
-      select: { name: updates.priority },
-    };
+    Object.assign(properties, priorityProperty(mapping, updates.priority));
   }
   
-  if (updates.dueDateTime !== undefined) {
+  if (updates.dueDateTime !== undefined && mapping.dueDate) {
     if (updates.dueDateTime) {
-      properties['Due Date Time'] = {
+      properties[mapping.dueDate] = {
         date: { start: updates.dueDateTime },
       };
     } else {
-      properties['Due Date Time'] = {
+      properties[mapping.dueDate] = {
         date: null,
       };
     }
   }
   
+  if (updates.recurrence !== undefined) {
+    properties[mapping.recurrence] = {
+      rich_text: updates.recurrence
+        ? [{ text: { content: updates.recurrence } }]
+        : [],
+    };
+  }
+
+  return properties;
+}
+
+/**
+ * Update task with multiple fields (status, priority, dueDateTime)
+ */
+export async function updateTask(
+  client: Client,
+  pageId: string,
+  updates: TaskSnapshot,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  timeZone?: string
+): Promise<NextOccurrence | null> {
+  const properties = buildTaskProperties(updates, mapping);
+  
   if (Object.keys(properties).length === 0) {
-    return; // No updates to make
+    return null; // No updates to make
+  }
+
+  if (updates.recurrence) {
+    const page: any = await withRetry(() =>
+      client.pages.retrieve({ page_id: pageId })
+    );
+    if (page.parent?.database_id) {
+      await ensureRecurrenceProperty(client, page.parent.database_id, mapping.recurrence);
+    }
   }
 
   await withRetry(() =>
@@ -741,13 +947,20 @@ export async function updateTask(
       properties,
     })
   );
+
+  if (updates.status === 'DONE') {
+    return scheduleNextOccurrence(client, pageId, mapping, timeZone);
+  }
+  return null;
 }
 
 export async function markTaskComplete(
   client: Client,
-  pageId: string
-): Promise<void> {
-  await updateTaskStatus(client, pageId, 'DONE');
+  pageId: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  timeZone?: string
+): Promise<NextOccurrence | null> {
+  return updateTaskStatus(client, pageId, 'DONE', mapping, timeZone);
 }
 
 /**
@@ -756,20 +969,142 @@ export async function markTaskComplete(
 export async function markTasksCompleteBatch(
   client: Client,
   databaseId: string,
-  taskIds: string[]
+  taskIds: string[],
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  timeZone?: string
 ): Promise<void> {
   await Promise.all(
-    taskIds.map(pageId => markTaskComplete(client, pageId))
+    taskIds.map(pageId => markTaskComplete(client, pageId, mapping, timeZone))
   );
 }
 
+// ============================================================================
+// RECURRING TASKS
+// ============================================================================
+
+export interface NextOccurrence {
+  pageId: string;
+  dueDateTime: string;
+}
+
+/**
+ * Add the Recurrence property to databases created before recurring tasks
+ * were supported. No-op when the property already exists.
+ */
+export async function ensureRecurrenceProperty(
+  client: Client,
+  databaseId: string,
+  propertyName: string = DEFAULT_PROPERTY_MAPPING.recurrence
+): Promise<void> {
+  try {
+    const database: any = await withRetry(() =>
+      client.databases.retrieve({ database_id: databaseId })
+    );
+    if (database.properties?.[propertyName]) {
+      return;
+    }
+
+    console.log('[ensureRecurrenceProperty] Adding recurrence property to database:', { databaseId, propertyName });
+    await withRetry(() =>
+      client.databases.update({
+        database_id: databaseId,
+        properties: {
+          [propertyName]: { rich_text: {} },
+        } as any,
+      })
+    );
+  } catch (error: any) {
+    console.warn('[ensureRecurrenceProperty] Could not verify recurrence property:', error?.message);
+  }
+}
+
+/**
+ * Create the next occurrence of a recurring task that was just completed.
+ * The rule moves to the new page so completing the old one twice can't
+ * generate duplicates. Returns null for non-recurring tasks.
+ */
+export async function scheduleNextOccurrence(
+  client: Client,
+  pageId: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  timeZone?: string
+): Promise<NextOccurrence | null> {
+  try {
+    const page: any = await withRetry(() =>
+      client.pages.retrieve({ page_id: pageId })
+    );
+    const task = mapPageToTask(page, mapping);
+    const databaseId = page.parent?.database_id;
+
+    if (!task.recurrence || !databaseId) {
+      return null;
+    }
+
+    const isDateOnly = !!task.dueDateTime && !task.dueDateTime.includes('T');
+    const base = task.dueDateTime ? new Date(task.dueDateTime) : new Date();
+    // Date-only due dates have no time zone; timed ones repeat on the user's clock
+    const next = getNextOccurrence(task.recurrence, base, new Date(), isDateOnly ? 'UTC' : timeZone);
+
+    if (!next) {
+      console.warn('[scheduleNextOccurrence] Unrecognised recurrence rule:', task.recurrence);
+      return null;
+    }
+
+    const dueDateTime = isDateOnly ? next.toISOString().split('T')[0] : next.toISOString();
+
+    // The next occurrence starts with the same checklist, all unchecked
+    const steps = await getTaskSteps(client, pageId).catch(() => [] as TaskStep[]);
+
+    const newPageId = await addTask(
+      client,
+      databaseId,
+      task.name,
+      task.parsedName,
+      task.priority,
+      task.category,
+      dueDateTime,
+      'TO DO',
+      task.recurrence,
+      steps.map(step => step.text),
+      mapping
+    );
+
+    await withRetry(() =>
+      client.pages.update({
+        page_id: pageId,
+        properties: {
+          [mapping.recurrence]: { rich_text: [] },
+        } as any,
+      })
+    );
+
+    console.log('[scheduleNextOccurrence] Created next occurrence:', {
+      completedPageId: pageId,
+      newPageId,
+      rule: task.recurrence,
+      dueDateTime,
+    });
+
+    return { pageId: newPageId, dueDateTime };
+  } catch (error: any) {
+    console.error('[scheduleNextOccurrence] Error creating next occurrence:', {
+      pageId,
+      message: error?.message,
+      status: error?.status,
+      code: error?.code,
+    });
+    return null;
+  }
+}
+
 /**
  * Delete task (soft delete - mark as done, or hard delete the page)
  */
 export async function deleteTask(
   client: Client,
   pageId: string,
-  hardDelete: boolean = false
+  hardDelete: boolean = false,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
 ): Promise<void> {
   if (hardDelete) {
     // Actually delete the page from Notion
@@ -780,22 +1115,26 @@ export async function deleteTask(
       })
     );
   } else {
-    // Soft delete - mark as done
-    await updateTaskStatus(client, pageId, 'DONE');
+    // Soft delete - mark as done (without generating the next occurrence)
+    await writeTaskStatus(client, pageId, 'DONE', mapping);
   }
 }
 
 /**
- * Delete multiple tasks (batch operation)
+ * Delete multiple tasks (batch operation) by archiving their pages, a few
+ * at a time
  */
 export async function deleteTasksBatch(
   client: Client,
   databaseId: string,
-  taskIds: string[]
+  taskIds: string[],
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
 ): Promise<void> {
-  await Promise.all(
-    taskIds.map(pageId => deleteTask(client, pageId))
-  );
+  for (let i = 0; i < taskIds.length; i += BULK_DELETE_CHUNK_SIZE) {
+    await Promise.all(
+      taskIds.slice(i, i + BULK_DELETE_CHUNK_SIZE).map(pageId => deleteTask(client, pageId, true, mapping))
+    );
+  }
 }
 
 /**
@@ -803,17 +1142,169 @@ export async function deleteTasksBatch(
  */
 export async function deleteCompletedTasks(
   client: Client,
-  databaseId: string
+  databaseId: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
 ): Promise<number> {
-  const completedTasks = await getCompletedTasksForDeletion(client, databaseId);
+  const completedTasks = await getCompletedTasksForDeletion(client, databaseId, mapping);
   if (completedTasks.length === 0) {
     return 0;
   }
   const taskIds = completedTasks.map(task => task.id);
-  await deleteTasksBatch(client, databaseId, taskIds);
+  await deleteTasksBatch(client, databaseId, taskIds, mapping);
   return completedTasks.length;
 }
 
+// ============================================================================
+// STEPS (CHECKLIST ITEMS)
+// ============================================================================
+
+function buildStepBlocks(steps: string[]): any[] {
+  return steps.map(text => ({
+    object: 'block',
+    type: 'to_do',
+    to_do: {
+      rich_text: [{ type: 'text', text: { content: text } }],
+      checked: false,
+    },
+  }));
+}
+
+/**
+ * Count checked steps; undefined when the task has no steps
+ */
+export function getStepProgress(steps: TaskStep[]): StepProgress | undefined {
+  if (steps.length === 0) {
+    return undefined;
+  }
+  return { done: steps.filter(step => step.checked).length, total: steps.length };
+}
+
+/**
+ * Get the to-do blocks inside a task page, in page order
+ */
+export async function getTaskSteps(
+  client: Client,
+  pageId: string
+): Promise<TaskStep[]> {
+  const steps: TaskStep[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const response: any = await withRetry(() =>
+      client.blocks.children.list({
+        block_id: pageId,
+        start_cursor: cursor,
+        page_size: 100,
+      })
+    );
+
+    for (const block of response.results) {
+      if (block.type === 'to_do') {
+        steps.push({
+          id: block.id,
+          text: (block.to_do.rich_text || []).map((t: any) => t.plain_text).join(''),
+          checked: !!block.to_do.checked,
+        });
+      }
+    }
+
+    cursor = response.has_more ? response.next_cursor : undefined;
+  } while (cursor);
+
+  return steps;
+}
+
+/**
+ * Append steps as unchecked to-do blocks at the end of a task page.
+ * Returns the new block IDs.
+ */
+export async function addTaskSteps(
+  client: Client,
+  pageId: string,
+  steps: string[]
+): Promise<string[]> {
+  if (steps.length === 0) {
+    return [];
+  }
+
+  const response = await withRetry(() =>
+    client.blocks.children.append({
+      block_id: pageId,
+      children: buildStepBlocks(steps),
+    })
+  );
+
+  return response.results.map(block => block.id);
+}
+
+// ============================================================================
+// UNDO
+// ============================================================================
+
+/**
+ * Write previous property values back to a task. Unlike updateTask this
+ * never schedules a next occurrence.
+ */
+export async function restoreTaskProperties(
+  client: Client,
+  pageId: string,
+  snapshot: TaskSnapshot,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
+): Promise<void> {
+  const properties = buildTaskProperties(snapshot, mapping);
+  if (Object.keys(properties).length === 0) {
+    return;
+  }
+
+  await withRetry(() =>
+    client.pages.update({
+      page_id: pageId,
+      properties,
+    })
+  );
+}
+
+/**
+ * Archive (trash) a task page
+ */
+export async function archiveTask(
+  client: Client,
+  pageId: string
+): Promise<void> {
+  await withRetry(() =>
+    client.pages.update({
+      page_id: pageId,
+      archived: true,
+    })
+  );
+}
+
+/**
+ * Delete a block (e.g. a step) from a task page
+ */
+export async function removeBlock(
+  client: Client,
+  blockId: string
+): Promise<void> {
+  await withRetry(() =>
+    client.blocks.delete({ block_id: blockId })
+  );
+}
+
+/**
+ * Bring an archived task page back
+ */
+export async function unarchiveTask(
+  client: Client,
+  pageId: string
+): Promise<void> {
+  await withRetry(() =>
+    client.pages.update({
+      page_id: pageId,
+      archived: false,
+    })
+  );
+}
 
 
 /**
@@ -938,6 +1429,7 @@ export async function createPrivacyPage(client: Client): Promise<string | null>
 
 /**
  * Create Tasks database on a parent page
+ * The layout matches DEFAULT_PROPERTY_MAPPING.
  */
 export async function createTasksDatabase(
   client: Client,
@@ -1016,6 +1508,9 @@ export async function createTasksDatabase(
           Notes: {
             rich_text: {},
           },
+          Recurrence: {
+            rich_text: {},
+          },
           NotionID: {
             rich_text: {},
           },
@@ -1044,50 +1539,18 @@ export async function createTasksDatabase(
 export async function getTaskCount(
   client: Client,
   databaseId: string,
-  status?: 'TO DO' | 'IN_PROCESS' | 'DONE'
+  status?: 'TO DO' | 'IN_PROCESS' | 'DONE',
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
 ): Promise<number> {
   try {
-    let filter: any = {};
-    if (status) {
-      filter = {
-        property: 'Status',
-        select: { equals: normalizeStatus(status) },
-      };
-    } else {
-      // Count all non-done tasks
-      filter = {
-        or: [
-          { property: 'Status', select: { equals: 'TO DO' } },
-          { property: 'Status', select: { equals: 'IN_PROCESS' } },
-        ],
-      };
-    }
-
-    const response = await withRetry(() =>
-      client.databases.query({
-        database_id: databaseId,
-        filter,
-        page_size: 1, // We only need the count
-      })
-    );
-
-    // Get total count by paginating through all results
-    let total = response.results.length;
-    let nextCursor: string | null = response.next_cursor;
-
-    while (nextCursor) {
-      const nextResponse = await withRetry(() =>
-        client.databases.query({
-          database_id: databaseId,
-          filter,
-          start_cursor: nextCursor!,
-        })
-      );
-      total += nextResponse.results.length;
-      nextCursor = nextResponse.next_cursor;
-    }
-
-    return total;
+    // Without a status argument, count all non-done tasks
+    const filter = combineFilters([
+      status ? statusFilter(mapping, normalizeStatus(status)) : openStatusFilter(mapping),
+    ]);
+
+    // The API has no count, so page through every match
+    const { results } = await queryDatabase(client, databaseId, { filter });
+    return results.length;
   } catch (error) {
     console.error('Error getting task count:', error);
     return 0;
@@ -1096,46 +1559,39 @@ export async function getTaskCount(
 
 export async function getCompletedCount(
   client: Client,
-  databaseId: string
+  databaseId: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING
 ): Promise<number> {
-  return getTaskCount(client, databaseId, 'DONE');
+  if (!mapping.status) {
+    return 0;
+  }
+  return getTaskCount(client, databaseId, 'DONE', mapping);
 }
 
 export async function getNextDeadline(
   client: Client,
-  databaseId: string
+  databaseId: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  timeZone?: string
 ): Promise<NotionTask | null> {
-  try {
-    const today = new Date().toISOString().split('T')[0];
-    const response = await withRetry(() =>
-      client.databases.query({
-        database_id: databaseId,
-        filter: {
-          and: [
-            {
-              property: 'Due Date Time',
-              date: { on_or_after: today },
-            },
-            {
-              or: [
-                { property: 'Status', select: { equals: 'TO DO' } },
-                { property: 'Status', select: { equals: 'IN_PROCESS' } },
-              ],
-            },
-          ],
-        },
-        sorts: [
-          { property: 'Due Date Time', direction: 'ascending' },
-        ],
-        page_size: 1,
-      })
-    );
-
-    if (response.results.length === 0) {
-      return null;
-    }
+  if (!mapping.dueDate) {
+    return null;
+  }
 
-    return mapPageToTask(response.results[0]);
+  try {
+    const today = toDateString(new Date(), timeZone);
+    const [next] = await queryTasks(client, databaseId, {
+      filter: combineFilters([
+        dueDateFilter(mapping, { on_or_after: today }),
+        openStatusFilter(mapping),
+      ]),
+      sorts: buildSorts(mapping, [
+        { field: 'dueDate', direction: 'ascending' },
+      ]),
+      limit: 1,
+    }, mapping);
+
+    return next || null;
   } catch (error) {
     console.error('Error getting next deadline:', error);
     return null;
@@ -1144,7 +1600,9 @@ export async function getNextDeadline(
 
 export async function getSummary(
   client: Client,
-  databaseId: string
+  databaseId: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  timeZone?: string
 ): Promise<{
   totalTasks: number;
   completedTasks: number;
@@ -1152,18 +1610,17 @@ export async function getSummary(
   overdueTasks: number;
   nextDeadline: NotionTask | null;
 }> {
-  const [totalTasks, completedTasks, pendingTasks, overdueTasks, nextDeadline] = await Promise.all([
-    getTaskCount(client, databaseId),
-    getCompletedCount(client, databaseId),
-    getTaskCount(client, databaseId), // Pending = total - completed
-    getOverdueTasks(client, databaseId).then(tasks => tasks.length),
-    getNextDeadline(client, databaseId),
+  const [pendingTasks, completedTasks, overdueTasks, nextDeadline] = await Promise.all([
+    getTaskCount(client, databaseId, undefined, mapping), // Without a status, counts open tasks
+    getCompletedCount(client, databaseId, mapping),
+    getOverdueTasks(client, databaseId, mapping, timeZone).then(tasks => tasks.length),
+    getNextDeadline(client, databaseId, mapping, timeZone),
   ]);
 
   return {
-    totalTasks,
+    totalTasks: pendingTasks + completedTasks,
     completedTasks,
-    pendingTasks: totalTasks - completedTasks,
+    pendingTasks,
     overdueTasks,
     nextDeadline,
   };
@@ -1,4 +1,16 @@
 import * as chrono from 'chrono-node';
+import { parseRecurrence, getFirstOccurrence } from './recurrence';
+import { TaskPropertyMapping } from '../types';
+import {
+  DEFAULT_PROPERTY_MAPPING,
+  statusFilter,
+  priorityFilter,
+  categoryFilter,
+  dueDateFilter,
+  combineFilters,
+} from './schema';
+import { getParsingReference, getDayRange, getWeekRange } from './timezone';
+import { DEFAULT_LOCALE, getLanguage } from './i18n';
 
 export interface ParsedTask {
   taskName: string;
@@ -7,6 +19,8 @@ export interface ParsedTask {
   status?: 'TO DO' | 'IN_PROCESS' | 'DONE';
   category?: 'PERSONAL' | 'WORK';
   priority?: 'LOW' | 'NORMAL' | 'HIGH';
+  recurrence?: string | null; // RRULE-style rule, e.g. "FREQ=WEEKLY;BYDAY=TU"
+  steps?: string[]; // Checklist items, e.g. "pack for trip: passport, charger, tickets"
 }
 
 export interface QueryFilter {
@@ -15,38 +29,274 @@ export interface QueryFilter {
   keyword?: string;
 }
 
+type TaskStatus = NonNullable<ParsedTask['status']>;
+type TaskCategory = NonNullable<ParsedTask['category']>;
+type TaskPriority = NonNullable<ParsedTask['priority']>;
+
+// Text (lower case) to look for: a substring, or a pattern for the odd case
+// a substring can't express
+type Phrase = string | RegExp;
+
+/**
+ * The words of one language the parsers look for. Value lists are checked
+ * in order and the first value with a matching phrase wins.
+ */
+interface LanguageKeywords {
+  // Command words around a task name ("add ...", "... to my tasks")
+  prefixes: RegExp[];
+  suffixes: RegExp[];
+  status: [TaskStatus, Phrase[]][];
+  category: [TaskCategory, Phrase[]][];
+  priority: [TaskPriority, Phrase[]][];
+  // Queries ask for "not done" tasks, so "to do" is checked before "done"
+  queryStatus: [TaskStatus, Phrase[]][];
+  queryCategory: [TaskCategory, Phrase[]][];
+  // Date ranges in queries, once chrono has found a date in them
+  queryDates: Record<'today' | 'tomorrow' | 'thisWeek' | 'nextWeek' | 'overdue' | 'before' | 'after', Phrase[]>;
+  // Words left out of keyword searches ("what are my tasks about ...")
+  queryWords: string[];
+  // "delete completed tasks"
+  completedTasks: Phrase[];
+  // Separators between spoken list items ("passport, charger and tickets")
+  listSeparator: RegExp;
+  // Words introducing a list of steps after a task name
+  checklist: RegExp;
+  // "add step X to Y": an add request that is really about a step
+  stepRequest: RegExp;
+  // Command words before and after the step, the words joining it to its
+  // task, and words before the task name
+  stepPrefix: RegExp;
+  stepSuffix?: RegExp;
+  stepConnector: RegExp;
+  stepTaskPrefix: RegExp;
+  // "steps for pack for trip", capturing the task name
+  stepsQuery: RegExp;
+}
+
+const KEYWORDS: Record<string, LanguageKeywords> = {
+  en: {
+    prefixes: [/^add\s+/i, /^create\s+/i, /^remind me to\s+/i, /^set\s+/i, /^update\s+/i, /^change\s+/i, /^modify\s+/i],
+    suffixes: [/\s+to my tasks?$/i, /\s+to my to-do list$/i, /\s+as done$/i, /\s+as complete$/i],
+    status: [
+      ['DONE', ['done', 'complete', 'finished']],
+      ['IN_PROCESS', ['in progress', 'working on', 'doing']],
+      ['TO DO', ['to do', 'todo', 'pending']],
+    ],
+    category: [
+      ['WORK', ['work', 'office', 'business']],
+      ['PERSONAL', ['personal', 'home', 'private']],
+    ],
+    priority: [
+      ['HIGH', ['high priority', 'urgent', 'important']],
+      ['LOW', ['low priority', 'low']],
+      ['NORMAL', ['normal priority', 'medium priority']],
+    ],
+    queryStatus: [
+      ['TO DO', ['to do', 'todo', 'not done', 'incomplete']],
+      ['IN_PROCESS', ['in progress', 'working on', 'ongoing']],
+      ['DONE', ['done', 'complete', 'finished']],
+    ],
+    queryCategory: [
+      ['WORK', [/(?<!home)work/]],
+      ['PERSONAL', ['personal', 'home']],
+    ],
+    queryDates: {
+      today: ['today'],
+      tomorrow: ['tomorrow'],
+      thisWeek: ['this week'],
+      nextWeek: ['next week'],
+      overdue: ['overdue'],
+      before: ['before'],
+      after: ['after'],
+    },
+    queryWords: ['what', 'are', 'my', 'tasks', 'for', 'show', 'me', 'list', 'tell', 'check', 'read', 'do', 'i', 'have', 'about'],
+    completedTasks: ['completed', 'done'],
+    listSeparator: /\s*,\s*(?:and\s+)?|\s+and\s+/i,
+    checklist: /^(.+?)\s+(?:with (?:the )?(?:steps|items)|including|steps|checklist)\s+(.+)$/i,
+    stepRequest: /^(?:a\s+|another\s+)?step\s+/i,
+    stepPrefix: /^(?:add\s+)?(?:a\s+|another\s+)?(?:step|item|checklist item)\s+/i,
+    stepConnector: /^(to|on|for)$/i,
+    stepTaskPrefix: /^(?:the\s+)?(?:task\s+)?/i,
+    stepsQuery: /^(?:what are\s+)?(?:the\s+|my\s+)?(?:remaining\s+)?(?:steps|checklist)(?:\s+left)?\s+(?:for|on|in|of)\s+(?:the\s+|my\s+)?(.+)$/i,
+  },
+  de: {
+    prefixes: [/^füge\s+/i, /^erstelle\s+/i, /^erinnere mich (?:daran,?\s+)?/i, /^setze\s+/i, /^ändere\s+/i],
+    suffixes: [/\s+zu meinen aufgaben$/i, /\s+zu meiner liste$/i, /\s+hinzu$/i, /\s+als erledigt$/i],
+    status: [
+      ['DONE', ['erledigt', 'fertig', 'abgeschlossen', 'abgehakt']],
+      ['IN_PROCESS', ['in arbeit', 'in bearbeitung', 'arbeite an']],
+      ['TO DO', ['zu erledigen', 'offen', 'ausstehend']],
+    ],
+    category: [
+      ['WORK', ['dienstlich', 'beruflich', 'büro', 'geschäftlich', 'für die arbeit']],
+      ['PERSONAL', ['privat', 'persönlich', 'zu hause', 'zuhause']],
+    ],
+    priority: [
+      ['HIGH', ['hohe priorität', 'hoher priorität', 'dringend', 'wichtig']],
+      ['LOW', ['niedrige priorität', 'niedriger priorität']],
+      ['NORMAL', ['normale priorität', 'normaler priorität', 'mittlere priorität']],
+    ],
+    queryStatus: [
+      ['TO DO', ['zu erledigen', 'offen', 'nicht erledigt', 'unerledigt']],
+      ['IN_PROCESS', ['in arbeit', 'in bearbeitung']],
+      ['DONE', ['erledigt', 'fertig', 'abgeschlossen']],
+    ],
+    queryCategory: [
+      ['WORK', ['arbeit', 'dienstlich', 'beruflich', 'büro']],
+      ['PERSONAL', ['privat', 'persönlich', 'zu hause']],
+    ],
+    queryDates: {
+      today: ['heute'],
+      tomorrow: ['morgen'],
+      thisWeek: ['diese woche', 'dieser woche'],
+      nextWeek: ['nächste woche', 'nächsten woche'],
+      overdue: ['überfällig'],
+      before: ['vor ', 'bevor'],
+      after: ['nach '],
+    },
+    queryWords: ['was', 'sind', 'meine', 'mein', 'aufgaben', 'für', 'zeig', 'zeige', 'mir', 'liste', 'sag', 'prüfe', 'lies', 'habe', 'ich', 'über', 'die', 'der', 'das', 'welche', 'gibt'],
+    completedTasks: ['erledigt', 'abgeschlossen'],
+    listSeparator: /\s*,\s*(?:und\s+)?|\s+und\s+/i,
+    checklist: /^(.+?)\s+(?:mit (?:den )?(?:schritten|punkten)|inklusive|schritte|checkliste)\s+(.+)$/i,
+    stepRequest: /^(?:(?:noch\s+)?einen\s+)?schritt\s+/i,
+    stepPrefix: /^(?:füge\s+)?(?:(?:noch\s+)?einen\s+)?(?:schritt|punkt)\s+/i,
+    stepSuffix: /\s+hinzu$/i,
+    stepConnector: /^(zu|bei|für)$/i,
+    stepTaskPrefix: /^(?:der\s+)?(?:aufgabe\s+)?/i,
+    stepsQuery: /^(?:was sind\s+|welche\s+)?(?:die\s+|meine\s+)?(?:restlichen\s+|übrigen\s+)?(?:schritte|checkliste)\s+(?:für|von|bei|zu)\s+(?:der\s+aufgabe\s+)?(.+?)(?:\s+übrig)?$/i,
+  },
+  es: {
+    prefixes: [/^(?:añade|agrega|añadir|agregar)\s+/i, /^crea\s+/i, /^recuérdame\s+(?:que\s+)?/i, /^pon\s+/i, /^cambia\s+/i],
+    suffixes: [/\s+a mis tareas$/i, /\s+a mi lista$/i, /\s+como hech[oa]$/i, /\s+como terminad[oa]$/i],
+    status: [
+      ['DONE', ['hecho', 'hecha', 'terminado', 'terminada', 'completado', 'completada']],
+      ['IN_PROCESS', ['en curso', 'en progreso', 'en proceso', 'trabajando en']],
+      ['TO DO', ['por hacer', 'pendiente']],
+    ],
+    category: [
+      ['WORK', ['trabajo', 'oficina', 'negocio']],
+      ['PERSONAL', ['personal', 'en casa', 'privado', 'privada']],
+    ],
+    priority: [
+      ['HIGH', ['prioridad alta', 'alta prioridad', 'urgente', 'importante']],
+      ['LOW', ['prioridad baja', 'baja prioridad']],
+      ['NORMAL', ['prioridad normal', 'prioridad media']],
+    ],
+    queryStatus: [
+      ['TO DO', ['por hacer', 'pendiente', 'sin terminar', 'no terminad', 'no hech']],
+      ['IN_PROCESS', ['en curso', 'en progreso', 'en proceso']],
+      ['DONE', ['hecho', 'hecha', 'terminad', 'completad']],
+    ],
+    queryCategory: [
+      ['WORK', ['trabajo', 'oficina']],
+      ['PERSONAL', ['personal', 'casa']],
+    ],
+    queryDates: {
+      today: ['hoy'],
+      tomorrow: ['mañana'],
+      thisWeek: ['esta semana'],
+      nextWeek: ['próxima semana', 'semana que viene'],
+      overdue: ['vencid', 'atrasad'],
+      before: ['antes'],
+      after: ['después'],
+    },
+    queryWords: ['qué', 'cuáles', 'son', 'mis', 'tareas', 'para', 'muestra', 'muéstrame', 'lista', 'dime', 'revisa', 'lee', 'tengo', 'sobre', 'las', 'los', 'hay'],
+    completedTasks: ['terminad', 'completad', 'hechas'],
+    listSeparator: /\s*,\s*(?:y\s+)?|\s+y\s+/i,
+    checklist: /^(.+?)\s+(?:con (?:los )?(?:pasos|elementos)|incluyendo|pasos)\s+(.+)$/i,
+    stepRequest: /^(?:el\s+|un\s+|otro\s+)?paso\s+/i,
+    stepPrefix: /^(?:(?:añade|agrega)\s+)?(?:el\s+|un\s+|otro\s+)?(?:paso|elemento)\s+/i,
+    stepConnector: /^(a|en|para)$/i,
+    stepTaskPrefix: /^(?:la\s+)?(?:tarea\s+)?/i,
+    stepsQuery: /^(?:cuáles son\s+|qué\s+)?(?:los\s+|mis\s+)?(?:pasos|elementos)(?:\s+(?:que\s+)?(?:quedan|pendientes|restantes))?\s+(?:de|para|en)\s+(?:la\s+tarea\s+)?(.+)$/i,
+  },
+  fr: {
+    prefixes: [/^ajouter?\s+/i, /^crée\s+/i, /^rappelle-moi\s+(?:de\s+|d'\s*)?/i, /^mets\s+/i, /^change\s+/i],
+    suffixes: [/\s+à mes tâches$/i, /\s+à ma liste$/i, /\s+comme faite?$/i, /\s+comme terminée?$/i],
+    status: [
+      ['DONE', ['terminé', 'fait', 'accompli']],
+      ['IN_PROCESS', ['en cours', 'en progrès']],
+      ['TO DO', ['à faire', 'en attente']],
+    ],
+    category: [
+      ['WORK', ['travail', 'bureau', 'professionnel', 'boulot']],
+      ['PERSONAL', ['personnel', 'maison', 'privé']],
+    ],
+    priority: [
+      ['HIGH', ['priorité haute', 'haute priorité', 'priorité élevée', 'urgent', 'important']],
+      ['LOW', ['priorité basse', 'basse priorité', 'priorité faible']],
+      ['NORMAL', ['priorité normale', 'priorité moyenne']],
+    ],
+    queryStatus: [
+      ['TO DO', ['à faire', 'en attente', 'pas fait', 'pas terminé', 'inachev']],
+      ['IN_PROCESS', ['en cours']],
+      ['DONE', ['terminé', 'fait', 'accompli']],
+    ],
+    queryCategory: [
+      ['WORK', ['travail', 'bureau', 'boulot']],
+      ['PERSONAL', ['personnel', 'maison']],
+    ],
+    queryDates: {
+      today: ['aujourd\'hui'],
+      tomorrow: ['demain'],
+      thisWeek: ['cette semaine'],
+      nextWeek: ['semaine prochaine', 'prochaine semaine'],
+      overdue: ['en retard'],
+      before: ['avant'],
+      after: ['après'],
+    },
+    queryWords: ['quelles', 'quels', 'sont', 'mes', 'mon', 'tâches', 'pour', 'montre', 'moi', 'liste', 'dis', 'vérifie', 'lis', 'j\'ai', 'sur', 'les', 'des', 'est', 'que', 'qu\'est-ce'],
+    completedTasks: ['terminées', 'faites', 'accomplies'],
+    listSeparator: /\s*,\s*(?:et\s+)?|\s+et\s+/i,
+    checklist: /^(.+?)\s+(?:avec (?:les )?(?:étapes|éléments)|incluant|étapes)\s+(.+)$/i,
+    stepRequest: /^(?:l'\s*|une\s+|une autre\s+)?étape\s+/i,
+    stepPrefix: /^(?:ajouter?\s+)?(?:l'\s*|une\s+|une autre\s+)?(?:étape|élément)\s+/i,
+    stepConnector: /^(à|au|pour|dans)$/i,
+    stepTaskPrefix: /^(?:la\s+)?(?:tâche\s+)?/i,
+    stepsQuery: /^(?:quelles sont\s+)?(?:les\s+|mes\s+)?(?:étapes|éléments)(?:\s+restantes)?\s+(?:de|du|pour|dans)\s+(?:la\s+tâche\s+)?(.+)$/i,
+  },
+};
+
+// Date parsers, so "morgen um 17 Uhr" and "mañana a las 5" are understood
+const CHRONO_PARSERS: Record<string, chrono.Chrono> = {
+  en: chrono.casual,
+  de: chrono.de.casual,
+  es: chrono.es.casual,
+  fr: chrono.fr.casual,
+};
+
+function getKeywords(locale: string): LanguageKeywords {
+  return KEYWORDS[getLanguage(locale)] || KEYWORDS.en;
+}
+
+function getChrono(locale: string): chrono.Chrono {
+  return CHRONO_PARSERS[getLanguage(locale)] || chrono.casual;
+}
+
+function matchesPhrase(lower: string, phrases: Phrase[]): boolean {
+  return phrases.some(phrase => typeof phrase === 'string' ? lower.includes(phrase) : phrase.test(lower));
+}
+
+function findValue<T>(text: string, values: [T, Phrase[]][]): T | undefined {
+  const lower = text.toLowerCase();
+  return values.find(([, phrases]) => matchesPhrase(lower, phrases))?.[0];
+}
+
 /**
  * Clean task name by removing date/time references and command words
  */
-function cleanTaskName(raw: string): string {
+function cleanTaskName(raw: string, keywords: LanguageKeywords): string {
   if (!raw) return '';
   
   let text = raw.trim();
   
   // Remove common command prefixes
-  const prefixPatterns = [
-    /^add\s+/i,
-    /^create\s+/i,
-    /^remind me to\s+/i,
-    /^set\s+/i,
-    /^update\s+/i,
-    /^change\s+/i,
-    /^modify\s+/i,
-  ];
-  
-  for (const pattern of prefixPatterns) {
+  for (const pattern of keywords.prefixes) {
     text = text.replace(pattern, '');
   }
   
   // Remove common suffixes
-  const suffixPatterns = [
-    /\s+to my tasks?$/i,
-    /\s+to my to-do list$/i,
-    /\s+as done$/i,
-    /\s+as complete$/i,
-  ];
-  
-  for (const pattern of suffixPatterns) {
+  for (const pattern of keywords.suffixes) {
     text = text.replace(pattern, '');
   }
   
@@ -56,61 +306,140 @@ function cleanTaskName(raw: string): string {
 /**
  * Extract status from natural language
  */
-function extractStatus(text: string): 'TO DO' | 'IN_PROCESS' | 'DONE' | undefined {
-  const lower = text.toLowerCase();
-  
-  if (lower.includes('done') || lower.includes('complete') || lower.includes('finished')) {
-    return 'DONE';
-  }
-  if (lower.includes('in progress') || lower.includes('working on') || lower.includes('doing')) {
-    return 'IN_PROCESS';
-  }
-  if (lower.includes('to do') || lower.includes('todo') || lower.includes('pending')) {
-    return 'TO DO';
-  }
-  
-  return undefined;
+function extractStatus(text: string, keywords: LanguageKeywords): TaskStatus | undefined {
+  return findValue(text, keywords.status);
 }
 
 /**
  * Extract category from natural language
  */
-function extractCategory(text: string): 'PERSONAL' | 'WORK' | undefined {
-  const lower = text.toLowerCase();
-  
-  if (lower.includes('work') || lower.includes('office') || lower.includes('business')) {
-    return 'WORK';
-  }
-  if (lower.includes('personal') || lower.includes('home') || lower.includes('private')) {
-    return 'PERSONAL';
-  }
-  
-  return undefined;
+function extractCategory(text: string, keywords: LanguageKeywords): TaskCategory | undefined {
+  return findValue(text, keywords.category);
 }
 
 /**
  * Extract priority from natural language
  */
-function extractPriority(text: string): 'LOW' | 'NORMAL' | 'HIGH' | undefined {
-  const lower = text.toLowerCase();
-  
-  if (lower.includes('high priority') || lower.includes('urgent') || lower.includes('important')) {
-    return 'HIGH';
+function extractPriority(text: string, keywords: LanguageKeywords): TaskPriority | undefined {
+  return findValue(text, keywords.priority);
+}
+
+/**
+ * Whether a delete request is about all completed tasks ("delete completed tasks")
+ */
+export function mentionsCompletedTasks(text: string, locale: string = DEFAULT_LOCALE): boolean {
+  return matchesPhrase(text.toLowerCase(), getKeywords(locale).completedTasks);
+}
+
+/**
+ * Split a spoken list ("passport, charger and tickets") into items
+ */
+function splitList(text: string, keywords: LanguageKeywords): string[] {
+  return text
+    .split(keywords.listSeparator)
+    .map(item => item.trim().replace(/[.!?]+$/, ''))
+    .filter(item => item.length > 0);
+}
+
+/**
+ * Detect a task followed by a list of steps, e.g.
+ *   "pack for trip: passport, charger, tickets"
+ *   "pack for trip with steps passport, charger and tickets"
+ * Returns null unless at least two steps are found.
+ */
+export function parseChecklist(
+  text: string,
+  locale: string = DEFAULT_LOCALE
+): { text: string; steps: string[] } | null {
+  if (!text) return null;
+
+  const keywords = getKeywords(locale);
+  const patterns = [
+    /^(.+?[^\d\s]):\s*(.+)$/, // Colon not part of a time like 5:30
+    keywords.checklist,
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.trim().match(pattern);
+    if (!match) continue;
+
+    const steps = splitList(match[2], keywords);
+    if (steps.length >= 2) {
+      return { text: match[1].trim(), steps };
+    }
   }
-  if (lower.includes('low priority') || lower.includes('low')) {
-    return 'LOW';
+
+  return null;
+}
+
+/**
+ * Whether an add request is really about a step ("add step X to Y")
+ */
+export function isStepRequest(text: string, locale: string = DEFAULT_LOCALE): boolean {
+  return getKeywords(locale).stepRequest.test(text.trim());
+}
+
+/**
+ * Split "add step X to task Y" requests (slot value "X to Y") into every
+ * possible step / task pair. The word "to" can appear in either part, so
+ * the caller picks the pair whose task name matches a real task.
+ */
+export function parseStepRequest(
+  text: string,
+  locale: string = DEFAULT_LOCALE
+): { step: string; taskName: string }[] {
+  if (!text) return [];
+
+  const keywords = getKeywords(locale);
+  let cleaned = text.trim().replace(keywords.stepPrefix, '');
+  if (keywords.stepSuffix) {
+    cleaned = cleaned.replace(keywords.stepSuffix, '');
   }
-  if (lower.includes('normal priority') || lower.includes('medium priority')) {
-    return 'NORMAL';
+
+  const words = cleaned.split(/\s+/);
+  const pairs: { step: string; taskName: string }[] = [];
+
+  for (let i = 1; i < words.length - 1; i++) {
+    if (!keywords.stepConnector.test(words[i])) continue;
+
+    const step = words.slice(0, i).join(' ');
+    const taskName = words
+      .slice(i + 1)
+      .join(' ')
+      .replace(keywords.stepTaskPrefix, '')
+      .trim();
+
+    if (step && taskName) {
+      pairs.push({ step, taskName });
+    }
   }
-  
-  return undefined;
+
+  return pairs;
+}
+
+/**
+ * Detect a request for a task's steps ("steps for pack for trip",
+ * "remaining steps on pack for trip", "checklist for pack for trip").
+ * Returns the task name, or null for ordinary queries.
+ */
+export function parseStepsQuery(text: string, locale: string = DEFAULT_LOCALE): string | null {
+  if (!text) return null;
+
+  const match = text.trim().match(getKeywords(locale).stepsQuery);
+
+  return match ? match[1].trim() : null;
 }
 
 /**
- * Parse task from userRequest slot (AMAZON.SearchQuery)
+ * Parse task from userRequest slot (AMAZON.SearchQuery).
+ * Dates and times are read in `timeZone` (the device's time zone), words in
+ * the language of `locale`. Recurrence phrases are English only.
  */
-export function parseTaskFromUserRequest(userRequest: string): ParsedTask {
+export function parseTaskFromUserRequest(
+  userRequest: string,
+  timeZone?: string,
+  locale: string = DEFAULT_LOCALE
+): ParsedTask {
   if (!userRequest) {
     return {
       taskName: '',
@@ -121,31 +450,51 @@ export function parseTaskFromUserRequest(userRequest: string): ParsedTask {
     };
   }
   
+  // Split off a list of steps so its items don't end up in the task name
+  const checklist = parseChecklist(userRequest, locale);
+  const taskRequest = checklist ? checklist.text : userRequest;
+  
+  // Detect recurrence phrases ("every Tuesday") before date parsing so chrono
+  // doesn't read the weekday as a one-off due date
+  const recurrence = parseRecurrence(taskRequest);
+  const textWithoutRecurrence = recurrence
+    ? taskRequest.replace(recurrence.matchedText, ' ').replace(/\s+/g, ' ').trim()
+    : taskRequest;
+  
   // Use chrono-node to parse dates/times
-  const parsedDate = chrono.parseDate(userRequest);
+  const keywords = getKeywords(locale);
+  const parser = getChrono(locale);
+  const reference = getParsingReference(timeZone);
+  const parsedDate = parser.parseDate(textWithoutRecurrence, reference);
   let dueDateTime: string | null = null;
-  let textWithoutDate = userRequest;
+  let textWithoutDate = textWithoutRecurrence;
   
   if (parsedDate) {
     dueDateTime = parsedDate.toISOString();
     // Try to remove date references from text
-    const chronoResults = chrono.parse(userRequest);
+    const chronoResults = parser.parse(textWithoutRecurrence, reference);
     if (chronoResults.length > 0) {
       const firstResult = chronoResults[0];
       if (firstResult.text) {
-        textWithoutDate = userRequest.replace(firstResult.text, '').trim();
+        textWithoutDate = textWithoutRecurrence.replace(firstResult.text, '').trim();
       }
     }
   }
   
+  // A recurring task without an explicit date starts at its first occurrence
+  if (recurrence && !dueDateTime) {
+    const firstOccurrence = getFirstOccurrence(recurrence.rule, reference.instant, timeZone);
+    dueDateTime = firstOccurrence ? firstOccurrence.toISOString() : null;
+  }
+  
   // Extract status, category, priority
-  const status = extractStatus(userRequest) || 'TO DO';
-  const category = extractCategory(userRequest) || 'PERSONAL';
-  const priority = extractPriority(userRequest) || 'NORMAL';
+  const status = extractStatus(taskRequest, keywords) || 'TO DO';
+  const category = extractCategory(taskRequest, keywords) || 'PERSONAL';
+  const priority = extractPriority(taskRequest, keywords) || 'NORMAL';
   
   // Clean task name
-  const taskName = textWithoutDate || userRequest;
-  const parsedName = cleanTaskName(taskName);
+  const taskName = textWithoutDate || taskRequest;
+  const parsedName = cleanTaskName(taskName, keywords);
   
   return {
     taskName,
@@ -154,13 +503,22 @@ export function parseTaskFromUserRequest(userRequest: string): ParsedTask {
     status,
     category,
     priority,
+    recurrence: recurrence ? recurrence.rule : null,
+    steps: checklist ? checklist.steps : [],
   };
 }
 
 /**
- * Parse query from userRequest slot to build Notion filter
+ * Parse query from userRequest slot to build Notion filter.
+ * "Today", "this week" etc. are days in `timeZone` (the device's time zone),
+ * said in the language of `locale`.
  */
-export function parseQueryFromUserRequest(userRequest: string): QueryFilter {
+export function parseQueryFromUserRequest(
+  userRequest: string,
+  mapping: TaskPropertyMapping = DEFAULT_PROPERTY_MAPPING,
+  timeZone?: string,
+  locale: string = DEFAULT_LOCALE
+): QueryFilter {
   if (!userRequest) {
     return {
       type: 'keyword',
@@ -169,226 +527,128 @@ export function parseQueryFromUserRequest(userRequest: string): QueryFilter {
   }
   
   const lower = userRequest.toLowerCase();
+  const keywords = getKeywords(locale);
+  const says = (phrases: Phrase[]) => matchesPhrase(lower, phrases);
   const filters: any[] = [];
+  // Conditions on properties the database doesn't have are left out
+  const addFilter = (filter: any | null) => {
+    if (filter) filters.push(filter);
+  };
   let queryType: QueryFilter['type'] = 'keyword';
   let keyword: string | undefined;
   
   // Parse date/time queries using chrono-node
-  const chronoResults = chrono.parse(userRequest);
+  const reference = getParsingReference(timeZone);
+  const chronoResults = getChrono(locale).parse(userRequest, reference);
+  const dates = keywords.queryDates;
   let dateFilter: any = null;
   
   if (chronoResults.length > 0) {
     const result = chronoResults[0];
     const parsedDate = result.start.date();
-    const now = new Date();
+    const now = reference.instant;
     
     // Today
-    if (lower.includes('today')) {
-      const todayStart = new Date(now);
-      todayStart.setHours(0, 0, 0, 0);
-      const todayEnd = new Date(now);
-      todayEnd.setHours(23, 59, 59, 999);
+    if (says(dates.today)) {
+      const today = getDayRange(now, timeZone);
       
-      dateFilter = {
-        property: 'Due Date Time',
-        date: {
-          on_or_after: todayStart.toISOString(),
-          on_or_before: todayEnd.toISOString(),
-        },
-      };
+      dateFilter = dueDateFilter(mapping, {
+        on_or_after: today.start.toISOString(),
+        on_or_before: today.end.toISOString(),
+      });
       queryType = 'time';
     }
     // Tomorrow
-    else if (lower.includes('tomorrow')) {
-      const tomorrow = new Date(now);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      const tomorrowStart = new Date(tomorrow);
-      tomorrowStart.setHours(0, 0, 0, 0);
-      const tomorrowEnd = new Date(tomorrow);
-      tomorrowEnd.setHours(23, 59, 59, 999);
+    else if (says(dates.tomorrow)) {
+      const tomorrow = getDayRange(now, timeZone, 1);
       
-      dateFilter = {
-        property: 'Due Date Time',
-        date: {
-          on_or_after: tomorrowStart.toISOString(),
-          on_or_before: tomorrowEnd.toISOString(),
-        },
-      };
+      dateFilter = dueDateFilter(mapping, {
+        on_or_after: tomorrow.start.toISOString(),
+        on_or_before: tomorrow.end.toISOString(),
+      });
       queryType = 'time';
     }
     // This week
-    else if (lower.includes('this week')) {
-      const weekStart = new Date(now);
-      weekStart.setDate(now.getDate() - now.getDay());
-      weekStart.setHours(0, 0, 0, 0);
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekStart.getDate() + 6);
-      weekEnd.setHours(23, 59, 59, 999);
+    else if (says(dates.thisWeek)) {
+      const week = getWeekRange(now, timeZone);
       
-      dateFilter = {
-        property: 'Due Date Time',
-        date: {
-          on_or_after: weekStart.toISOString(),
-          on_or_before: weekEnd.toISOString(),
-        },
-      };
+      dateFilter = dueDateFilter(mapping, {
+        on_or_after: week.start.toISOString(),
+        on_or_before: week.end.toISOString(),
+      });
       queryType = 'time';
     }
     // Next week
-    else if (lower.includes('next week')) {
-      const nextWeekStart = new Date(now);
-      nextWeekStart.setDate(now.getDate() - now.getDay() + 7);
-      nextWeekStart.setHours(0, 0, 0, 0);
-      const nextWeekEnd = new Date(nextWeekStart);
-      nextWeekEnd.setDate(nextWeekStart.getDate() + 6);
-      nextWeekEnd.setHours(23, 59, 59, 999);
+    else if (says(dates.nextWeek)) {
+      const nextWeek = getWeekRange(now, timeZone, 1);
       
-      dateFilter = {
-        property: 'Due Date Time',
-        date: {
-          on_or_after: nextWeekStart.toISOString(),
-          on_or_before: nextWeekEnd.toISOString(),
-        },
-      };
+      dateFilter = dueDateFilter(mapping, {
+        on_or_after: nextWeek.start.toISOString(),
+        on_or_before: nextWeek.end.toISOString(),
+      });
       queryType = 'time';
     }
     // Overdue
-    else if (lower.includes('overdue')) {
-      dateFilter = {
-        and: [
-          {
-            property: 'Due Date Time',
-            date: {
-              before: now.toISOString(),
-            },
-          },
-          {
-            property: 'Status',
-            select: {
-              does_not_equal: 'DONE',
-            },
-          },
-        ],
-      };
+    else if (says(dates.overdue)) {
+      dateFilter = combineFilters([
+        dueDateFilter(mapping, {
+          before: now.toISOString(),
+        }),
+        statusFilter(mapping, 'DONE', 'does_not_equal'),
+      ]);
       queryType = 'time';
     }
     // Before/After time
-    else if (lower.includes('before') || lower.includes('after')) {
-      const isBefore = lower.includes('before');
+    else if (says(dates.before) || says(dates.after)) {
+      const isBefore = says(dates.before);
       const timeMatch = userRequest.match(/(\d{1,2})\s*(pm|am|:?\d{2})?/i);
       
       if (timeMatch && parsedDate) {
         const timeDate = new Date(parsedDate);
         if (isBefore) {
-          dateFilter = {
-            property: 'Due Date Time',
-            date: {
-              before: timeDate.toISOString(),
-            },
-          };
+          dateFilter = dueDateFilter(mapping, {
+            before: timeDate.toISOString(),
+          });
         } else {
-          dateFilter = {
-            property: 'Due Date Time',
-            date: {
-              on_or_after: timeDate.toISOString(),
-            },
-          };
+          dateFilter = dueDateFilter(mapping, {
+            on_or_after: timeDate.toISOString(),
+          });
         }
         queryType = 'time';
       }
     }
     // Specific date
     else if (parsedDate) {
-      const dateStart = new Date(parsedDate);
-      dateStart.setHours(0, 0, 0, 0);
-      const dateEnd = new Date(parsedDate);
-      dateEnd.setHours(23, 59, 59, 999);
+      const day = getDayRange(parsedDate, timeZone);
       
-      dateFilter = {
-        property: 'Due Date Time',
-        date: {
-          on_or_after: dateStart.toISOString(),
-          on_or_before: dateEnd.toISOString(),
-        },
-      };
+      dateFilter = dueDateFilter(mapping, {
+        on_or_after: day.start.toISOString(),
+        on_or_before: day.end.toISOString(),
+      });
       queryType = 'time';
     }
   }
   
-  if (dateFilter) {
-    filters.push(dateFilter);
-  }
+  addFilter(dateFilter);
   
   // Status queries
-  if (lower.includes('to do') || lower.includes('todo') || lower.includes('not done') || lower.includes('incomplete')) {
-    filters.push({
-      property: 'Status',
-      select: {
-        equals: 'TO DO',
-      },
-    });
-    if (queryType === 'keyword') queryType = 'status';
-  } else if (lower.includes('in progress') || lower.includes('working on') || lower.includes('ongoing')) {
-    filters.push({
-      property: 'Status',
-      select: {
-        equals: 'IN_PROCESS',
-      },
-    });
-    if (queryType === 'keyword') queryType = 'status';
-  } else if (lower.includes('done') || lower.includes('complete') || lower.includes('finished')) {
-    filters.push({
-      property: 'Status',
-      select: {
-        equals: 'DONE',
-      },
-    });
+  const queryStatus = findValue(lower, keywords.queryStatus);
+  if (queryStatus) {
+    addFilter(statusFilter(mapping, queryStatus));
     if (queryType === 'keyword') queryType = 'status';
   }
   
   // Category queries
-  if (lower.includes('work') && !lower.includes('homework')) {
-    filters.push({
-      property: 'Category',
-      select: {
-        equals: 'WORK',
-      },
-    });
-    if (queryType === 'keyword') queryType = 'category';
-  } else if (lower.includes('personal') || lower.includes('home')) {
-    filters.push({
-      property: 'Category',
-      select: {
-        equals: 'PERSONAL',
-      },
-    });
+  const queryCategory = findValue(lower, keywords.queryCategory);
+  if (queryCategory) {
+    addFilter(categoryFilter(mapping, queryCategory));
     if (queryType === 'keyword') queryType = 'category';
   }
   
   // Priority queries
-  if (lower.includes('high priority') || lower.includes('urgent') || lower.includes('important')) {
-    filters.push({
-      property: 'Priority',
-      select: {
-        equals: 'HIGH',
-      },
-    });
-    if (queryType === 'keyword') queryType = 'priority';
-  } else if (lower.includes('low priority') || lower.includes('low')) {
-    filters.push({
-      property: 'Priority',
-      select: {
-        equals: 'LOW',
-      },
-    });
-    if (queryType === 'keyword') queryType = 'priority';
-  } else if (lower.includes('normal priority') || lower.includes('medium priority')) {
-    filters.push({
-      property: 'Priority',
-      select: {
-        equals: 'NORMAL',
-      },
-    });
+  const queryPriority = findValue(lower, keywords.priority);
+  if (queryPriority) {
+    addFilter(priorityFilter(mapping, queryPriority));
     if (queryType === 'keyword') queryType = 'priority';
   }
   
@@ -403,11 +663,10 @@ export function parseQueryFromUserRequest(userRequest: string): QueryFilter {
   }
   
   // Remove query words
-  const queryWords = ['what', 'are', 'my', 'tasks', 'for', 'show', 'me', 'list', 'tell', 'check', 'read', 'do', 'i', 'have', 'about'];
   const keywordWords = keywordText
     .toLowerCase()
     .split(/\s+/)
-    .filter(word => !queryWords.includes(word) && word.length > 2);
+    .filter(word => !keywords.queryWords.includes(word) && word.length > 2);
   
   if (keywordWords.length > 0) {
     keyword = keywordWords.join(' ');
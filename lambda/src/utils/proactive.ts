@@ -0,0 +1,220 @@
+import { NotificationSettings, User } from '../types';
+import { updateUserOverdueNotifiedAt } from './database';
+import { createNotionClient, findDatabaseByName, getOverdueTasks } from './notion';
+import { getTaskMapping } from './schema';
+import { getTimeZone, toDateString, toZonedTime } from './timezone';
+import { SUPPORTED_LOCALES } from './i18n';
+
+// Scope of the skill's client credentials token for sending events
+export const PROACTIVE_EVENTS_SCOPE = 'alexa::proactive_events';
+
+// Amazon drops events it couldn't deliver after this long (24 hours at most)
+const EVENT_LIFETIME_MS = 12 * 60 * 60 * 1000;
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  overdueTasks: false,
+  quietHoursStart: 21,
+  quietHoursEnd: 8,
+};
+
+/**
+ * What the scheduled job did for one user
+ */
+export type OverdueNotificationResult =
+  | 'sent'
+  | 'opted_out'
+  | 'quiet_hours'
+  | 'already_notified'
+  | 'nothing_overdue';
+
+/**
+ * The body sent to the Proactive Events API. Alexa announces it as
+ * "You have N new messages from Voice Planner".
+ */
+export interface ProactiveEvent {
+  timestamp: string;
+  referenceId: string;
+  expiryTime: string;
+  event: {
+    name: 'AMAZON.MessageAlert.Activated';
+    payload: {
+      state: { status: 'UNREAD'; freshness: 'NEW' };
+      messageGroup: { creator: { name: string }; count: number; urgency: 'URGENT' };
+    };
+  };
+  localizedAttributes: { locale: string; source: string }[];
+  relevantAudience: { type: 'Unicast'; payload: { user: string } };
+}
+
+/**
+ * The user's notification settings; settings saved before a field existed
+ * pick up its default
+ */
+export function getNotificationSettings(user: Partial<User> | null | undefined): NotificationSettings {
+  const settings = { ...DEFAULT_NOTIFICATION_SETTINGS, ...(user?.notification_settings || {}) };
+  const isHour = (value: any) => Number.isInteger(value) && value >= 0 && value <= 23;
+  if (!isHour(settings.quietHoursStart)) settings.quietHoursStart = DEFAULT_NOTIFICATION_SETTINGS.quietHoursStart;
+  if (!isHour(settings.quietHoursEnd)) settings.quietHoursEnd = DEFAULT_NOTIFICATION_SETTINGS.quietHoursEnd;
+  return settings;
+}
+
+/**
+ * Whether `now` falls in the user's quiet hours. Quiet hours may wrap past
+ * midnight (21 to 8); equal start and end means there are none.
+ */
+export function isQuietHour(settings: NotificationSettings, timeZone: string, now: Date = new Date()): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = settings;
+  const hour = toZonedTime(now, timeZone).getHours();
+
+  if (start === end) return false;
+  return start < end
+    ? hour >= start && hour < end
+    : hour >= start || hour < end;
+}
+
+export function buildOverdueTasksEvent(
+  amazonUserId: string,
+  overdueCount: number,
+  referenceId: string,
+  now: Date = new Date()
+): ProactiveEvent {
+  return {
+    timestamp: now.toISOString(),
+    referenceId,
+    expiryTime: new Date(now.getTime() + EVENT_LIFETIME_MS).toISOString(),
+    event: {
+      name: 'AMAZON.MessageAlert.Activated',
+      payload: {
+        state: { status: 'UNREAD', freshness: 'NEW' },
+        messageGroup: { creator: { name: 'Voice Planner' }, count: overdueCount, urgency: 'URGENT' },
+      },
+    },
+    // One entry for every language the skill is published in
+    localizedAttributes: SUPPORTED_LOCALES.map(locale => ({ locale, source: 'Voice Planner' })),
+    relevantAudience: { type: 'Unicast', payload: { user: amazonUserId } },
+  };
+}
+
+// ============================================================================
+// PROACTIVE EVENTS API
+// PROACTIVE_EVENTS_STUB=true keeps events in memory instead (tests, local runs)
+// ============================================================================
+
+export const stubProactiveEvents: ProactiveEvent[] = [];
+
+function useStub(): boolean {
+  return process.env.PROACTIVE_EVENTS_STUB === 'true';
+}
+
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+/**
+ * Login with Amazon token for the skill's own client credentials (from
+ * "Permissions" → "Alexa Skill Messaging" in the developer console)
+ */
+async function getAccessToken(): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.value;
+  }
+
+  const clientId = process.env.ALEXA_CLIENT_ID;
+  const clientSecret = process.env.ALEXA_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error('Missing ALEXA_CLIENT_ID or ALEXA_CLIENT_SECRET');
+  }
+
+  const response = await fetch('https://api.amazon.com/auth/o2/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: clientId,
+      client_secret: clientSecret,
+      scope: PROACTIVE_EVENTS_SCOPE,
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Login with Amazon returned ${response.status}`);
+  }
+
+  const data: any = await response.json();
+  // Renew a minute early so a token never expires mid-run
+  cachedToken = { value: data.access_token, expiresAt: Date.now() + (data.expires_in - 60) * 1000 };
+  return cachedToken.value;
+}
+
+/**
+ * Events go to the development stage (the skill's test users) unless
+ * PROACTIVE_EVENTS_STAGE=live
+ */
+function getEventsUrl(): string {
+  const endpoint = process.env.ALEXA_API_ENDPOINT || 'https://api.amazonalexa.com';
+  return process.env.PROACTIVE_EVENTS_STAGE === 'live'
+    ? `${endpoint}/v1/proactiveEvents`
+    : `${endpoint}/v1/proactiveEvents/stages/development`;
+}
+
+export async function sendProactiveEvent(event: ProactiveEvent): Promise<void> {
+  if (useStub()) {
+    stubProactiveEvents.push(event);
+    return;
+  }
+
+  const response = await fetch(getEventsUrl(), {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await getAccessToken()}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(event),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Proactive Events API returned ${response.status}`);
+  }
+}
+
+// ============================================================================
+// OVERDUE TASK NOTIFICATIONS
+// ============================================================================
+
+/**
+ * Tell the user how many tasks are overdue, at most once a day and never
+ * during their quiet hours. Errors are left to the caller.
+ */
+export async function notifyOverdueTasks(user: User, now: Date = new Date()): Promise<OverdueNotificationResult> {
+  const settings = getNotificationSettings(user);
+  if (!settings.overdueTasks || !user.notion_token || !user.amazon_account_id) {
+    return 'opted_out';
+  }
+
+  const timeZone = getTimeZone(user);
+  if (isQuietHour(settings, timeZone, now)) {
+    return 'quiet_hours';
+  }
+
+  const today = toDateString(now, timeZone);
+  if (user.overdue_notified_at && toDateString(new Date(user.overdue_notified_at), timeZone) === today) {
+    return 'already_notified';
+  }
+
+  const notionClient = createNotionClient(user.notion_token);
+  const tasksDbId = user.tasks_db_id || await findDatabaseByName(notionClient, 'Tasks');
+  if (!tasksDbId) {
+    return 'nothing_overdue';
+  }
+
+  const overdue = await getOverdueTasks(notionClient, tasksDbId, getTaskMapping(user), timeZone);
+  if (overdue.length === 0) {
+    return 'nothing_overdue';
+  }
+
+  // One event per user and day
+  const event = buildOverdueTasksEvent(user.amazon_account_id, overdue.length, `overdue-${user.id}-${today}`, now);
+  await sendProactiveEvent(event);
+  await updateUserOverdueNotifiedAt(user.id, now);
+
+  console.log('[notifyOverdueTasks] Sent notification:', { userId: user.id, overdue: overdue.length });
+  return 'sent';
+}
@@ -0,0 +1,116 @@
+// Notion allows an average of three requests per second per integration
+// token, with short bursts above that
+const REQUESTS_PER_SECOND = 3;
+const BURST = 3;
+
+const BASE_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 8000;
+
+// Buckets idle this long are full again and can be dropped
+const IDLE_BUCKET_MS = 60 * 1000;
+const MAX_BUCKETS = 500;
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// One bucket per integration token, shared by every request this Lambda
+// instance serves
+const buckets = new Map<string, TokenBucket>();
+
+export async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function pruneBuckets(now: number): void {
+  if (buckets.size < MAX_BUCKETS) return;
+  for (const [key, bucket] of buckets) {
+    if (now - bucket.updatedAt > IDLE_BUCKET_MS) {
+      buckets.delete(key);
+    }
+  }
+}
+
+function getBucket(key: string, now: number): TokenBucket {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    pruneBuckets(now);
+    bucket = { tokens: BURST, updatedAt: now };
+    buckets.set(key, bucket);
+  }
+
+  const elapsed = Math.max(0, now - bucket.updatedAt);
+  bucket.tokens = Math.min(BURST, bucket.tokens + (elapsed / 1000) * REQUESTS_PER_SECOND);
+  bucket.updatedAt = now;
+  return bucket;
+}
+
+/**
+ * Takes a token from `key`'s bucket and returns how many ms to wait before
+ * using it. The bucket goes negative when it's empty, so callers waiting on
+ * it are spaced out instead of all waking at once.
+ */
+export function reserveRequest(key: string, now: number = Date.now()): number {
+  const bucket = getBucket(key, now);
+  bucket.tokens -= 1;
+  return bucket.tokens >= 0 ? 0 : Math.ceil((-bucket.tokens / REQUESTS_PER_SECOND) * 1000);
+}
+
+/**
+ * Waits until `key` may make another request
+ */
+export async function acquireRequest(key: string): Promise<void> {
+  const wait = reserveRequest(key);
+  if (wait > 0) {
+    await sleep(wait);
+  }
+}
+
+/**
+ * Holds back `key`'s next requests for `ms`, e.g. after Notion answered 429
+ * with a Retry-After
+ */
+export function pauseRequests(key: string, ms: number, now: number = Date.now()): void {
+  const bucket = getBucket(key, now);
+  bucket.tokens = Math.min(bucket.tokens, 0) - (ms / 1000) * REQUESTS_PER_SECOND;
+}
+
+/**
+ * The Retry-After of a Notion error in ms (seconds or an HTTP date), or null
+ * if it doesn't have one
+ */
+export function getRetryAfter(error: any, now: number = Date.now()): number | null {
+  const headers = error?.headers;
+  const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Rate limits and server errors are worth another try
+ */
+export function isRetryableError(error: any): boolean {
+  return error?.status === 429 || error?.status >= 500;
+}
+
+/**
+ * How long to wait before retry number `attempt` (0-based): Notion's
+ * Retry-After if it sent one, otherwise exponential backoff with jitter so
+ * concurrent retries don't line up
+ */
+export function getRetryDelay(error: any, attempt: number, random: () => number = Math.random): number {
+  const retryAfter = getRetryAfter(error);
+  if (retryAfter !== null) {
+    return retryAfter;
+  }
+
+  const backoff = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** attempt);
+  return Math.round(backoff / 2 + random() * (backoff / 2));
+}
@@ -0,0 +1,351 @@
+/**
+ * Recurrence utilities
+ *
+ * Recurring tasks store a small RRULE-style rule in the Notion "Recurrence"
+ * property, e.g. "FREQ=WEEKLY;BYDAY=TU" or "FREQ=MONTHLY;INTERVAL=2".
+ * Only the subset of RFC 5545 that can be spoken is supported:
+ * FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, BYDAY and BYMONTHDAY.
+ */
+
+import { toZonedTime, fromZonedTime } from './timezone';
+import { DEFAULT_LOCALE, translate, joinList } from './i18n';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: string[]; // RRULE weekday codes: MO, TU, WE, TH, FR, SA, SU
+  byMonthDay?: number;
+}
+
+export interface ParsedRecurrence {
+  rule: string; // Serialized rule stored in Notion
+  matchedText: string; // Phrase that was recognised (removed from the task name)
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_NAMES: Record<string, string> = {
+  sunday: 'SU',
+  monday: 'MO',
+  tuesday: 'TU',
+  wednesday: 'WE',
+  thursday: 'TH',
+  friday: 'FR',
+  saturday: 'SA',
+};
+
+const UNIT_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  day: 'DAILY',
+  week: 'WEEKLY',
+  month: 'MONTHLY',
+  year: 'YEARLY',
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+};
+
+const DAY_PATTERN = '(?:sunday|monday|tuesday|wednesday|thursday|friday|saturday)s?';
+
+/**
+ * Serialize a rule to its stored string form
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  }
+  if (rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Parse a stored rule string. Returns null for anything we don't understand,
+ * so a hand-edited value in Notion never breaks task completion.
+ */
+export function parseRecurrenceRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+
+  const fields: Record<string, string> = {};
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    const [key, val] = part.split('=');
+    if (key && val) {
+      fields[key.trim().toUpperCase()] = val.trim().toUpperCase();
+    }
+  }
+
+  const freq = fields.FREQ as RecurrenceFrequency;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    return null;
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: Math.max(1, parseInt(fields.INTERVAL || '1', 10) || 1),
+  };
+
+  if (fields.BYDAY) {
+    const days = fields.BYDAY.split(',').filter(day => WEEKDAY_CODES.includes(day));
+    if (days.length > 0) {
+      rule.byDay = days;
+    }
+  }
+
+  if (fields.BYMONTHDAY) {
+    const day = parseInt(fields.BYMONTHDAY, 10);
+    if (day >= 1 && day <= 31) {
+      rule.byMonthDay = day;
+    }
+  }
+
+  return rule;
+}
+
+function parseInterval(word: string | undefined): number {
+  if (!word) return 1;
+  const lower = word.toLowerCase();
+  if (lower === 'other') return 2;
+  if (NUMBER_WORDS[lower]) return NUMBER_WORDS[lower];
+  const parsed = parseInt(lower, 10);
+  return parsed > 0 ? parsed : 1;
+}
+
+function parseDayList(text: string): string[] {
+  const days: string[] = [];
+  const matches = text.toLowerCase().match(new RegExp(DAY_PATTERN, 'g')) || [];
+  for (const match of matches) {
+    const code = WEEKDAY_NAMES[match.replace(/s$/, '')];
+    if (code && !days.includes(code)) {
+      days.push(code);
+    }
+  }
+  return days.sort((a, b) => WEEKDAY_CODES.indexOf(a) - WEEKDAY_CODES.indexOf(b));
+}
+
+/**
+ * Detect a recurrence phrase in natural language
+ * Examples:
+ *   "take out the trash every Tuesday"   -> FREQ=WEEKLY;BYDAY=TU
+ *   "water plants every other day"       -> FREQ=DAILY;INTERVAL=2
+ *   "pay rent on the 1st of every month" -> FREQ=MONTHLY;BYMONTHDAY=1
+ */
+export function parseRecurrence(text: string): ParsedRecurrence | null {
+  if (!text) return null;
+
+  const matchers: Array<{ pattern: RegExp; build: (m: RegExpMatchArray) => RecurrenceRule | null }> = [
+    {
+      // "every weekday", "on weekdays"
+      pattern: /\b(?:every|each|on)\s+week\s?days?\b/i,
+      build: () => ({ freq: 'WEEKLY', interval: 1, byDay: ['MO', 'TU', 'WE', 'TH', 'FR'] }),
+    },
+    {
+      // "every weekend", "on weekends"
+      pattern: /\b(?:every|each|on)\s+weekends?\b/i,
+      build: () => ({ freq: 'WEEKLY', interval: 1, byDay: ['SU', 'SA'] }),
+    },
+    {
+      // "every tuesday", "every other friday", "every monday and thursday", "on tuesdays"
+      pattern: new RegExp(
+        `\\b(?:(?:every|each)\\s+(other\\s+)?|on\\s+(?=${DAY_PATTERN}s\\b))(${DAY_PATTERN}(?:\\s*(?:,|and|&)\\s*${DAY_PATTERN})*)\\b`,
+        'i'
+      ),
+      build: (m) => {
+        const days = parseDayList(m[2]);
+        if (days.length === 0) return null;
+        return { freq: 'WEEKLY', interval: m[1] ? 2 : 1, byDay: days };
+      },
+    },
+    {
+      // "on the 15th of every month", "every month on the 1st", "every 15th"
+      pattern: /\b(?:on\s+)?the\s+(\d{1,2})(?:st|nd|rd|th)?\s+of\s+every\s+month\b|\bevery\s+month\s+on\s+the\s+(\d{1,2})(?:st|nd|rd|th)?\b|\bevery\s+(\d{1,2})(?:st|nd|rd|th)\b/i,
+      build: (m) => {
+        const day = parseInt(m[1] || m[2] || m[3], 10);
+        if (!(day >= 1 && day <= 31)) return null;
+        return { freq: 'MONTHLY', interval: 1, byMonthDay: day };
+      },
+    },
+    {
+      // "every day", "every 3 days", "every other week", "every two months"
+      pattern: /\b(?:every|each)\s+(?:(other|\d+|two|three|four|five|six)\s+)?(day|week|month|year)s?\b/i,
+      build: (m) => ({ freq: UNIT_FREQUENCIES[m[2].toLowerCase()], interval: parseInterval(m[1]) }),
+    },
+    {
+      // Trailing "daily", "weekly", ... ("call mom weekly", but not "weekly report")
+      pattern: /\b(daily|weekly|monthly|yearly|annually)\s*$/i,
+      build: (m) => {
+        const word = m[1].toLowerCase();
+        const freq: RecurrenceFrequency =
+          word === 'daily' ? 'DAILY' :
+          word === 'weekly' ? 'WEEKLY' :
+          word === 'monthly' ? 'MONTHLY' : 'YEARLY';
+        return { freq, interval: 1 };
+      },
+    },
+  ];
+
+  for (const { pattern, build } of matchers) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const rule = build(match);
+    if (rule) {
+      return {
+        rule: formatRecurrenceRule(rule),
+        matchedText: match[0],
+      };
+    }
+  }
+
+  return null;
+}
+
+function addMonthsClamped(date: Date, months: number, dayOfMonth: number): Date {
+  const result = new Date(date);
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const daysInMonth = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(dayOfMonth, daysInMonth));
+  return result;
+}
+
+function advanceOnce(rule: RecurrenceRule, from: Date): Date {
+  const next = new Date(from);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      next.setDate(next.getDate() + rule.interval);
+      return next;
+
+    case 'WEEKLY': {
+      if (!rule.byDay || rule.byDay.length === 0) {
+        next.setDate(next.getDate() + 7 * rule.interval);
+        return next;
+      }
+      // Walk forward to the next listed weekday. When we wrap past the end of
+      // the week, skip (interval - 1) additional weeks.
+      const wanted = rule.byDay.map(code => WEEKDAY_CODES.indexOf(code));
+      for (let offset = 1; offset <= 7; offset++) {
+        const candidate = new Date(from);
+        candidate.setDate(from.getDate() + offset);
+        if (wanted.includes(candidate.getDay())) {
+          const wrapped = candidate.getDay() <= from.getDay();
+          if (wrapped && rule.interval > 1) {
+            candidate.setDate(candidate.getDate() + 7 * (rule.interval - 1));
+          }
+          return candidate;
+        }
+      }
+      next.setDate(next.getDate() + 7 * rule.interval);
+      return next;
+    }
+
+    case 'MONTHLY':
+      return addMonthsClamped(from, rule.interval, rule.byMonthDay || from.getDate());
+
+    case 'YEARLY':
+      return addMonthsClamped(from, 12 * rule.interval, from.getDate());
+  }
+}
+
+/**
+ * Compute the next occurrence after `from`, keeping the time of day.
+ * Occurrences that would land before `notBefore` (e.g. an overdue daily task
+ * completed a week late) are skipped so the new task is never already overdue.
+ * Weekdays and days of the month are counted in `timeZone` when given,
+ * otherwise on the Lambda's own clock.
+ */
+export function getNextOccurrence(
+  ruleValue: string | RecurrenceRule,
+  from: Date,
+  notBefore: Date = new Date(),
+  timeZone?: string
+): Date | null {
+  const rule = typeof ruleValue === 'string' ? parseRecurrenceRule(ruleValue) : ruleValue;
+  if (!rule || isNaN(from.getTime())) return null;
+
+  const startOfDay = toZonedTime(notBefore, timeZone);
+  startOfDay.setHours(0, 0, 0, 0);
+
+  let next = advanceOnce(rule, toZonedTime(from, timeZone));
+  // Guard against runaway loops on very old due dates
+  for (let i = 0; i < 1000 && next < startOfDay; i++) {
+    next = advanceOnce(rule, next);
+  }
+  return fromZonedTime(next, timeZone);
+}
+
+/**
+ * First occurrence on or after `from` (used when a recurring task is created
+ * without an explicit due date, e.g. "take out the trash every Tuesday").
+ */
+export function getFirstOccurrence(ruleValue: string, from: Date = new Date(), timeZone?: string): Date | null {
+  const rule = parseRecurrenceRule(ruleValue);
+  if (!rule) return null;
+
+  const start = toZonedTime(from, timeZone);
+  start.setHours(0, 0, 0, 0);
+
+  if (rule.byDay && rule.byDay.includes(WEEKDAY_CODES[start.getDay()])) {
+    return fromZonedTime(start, timeZone);
+  }
+  if (rule.byMonthDay && start.getDate() === rule.byMonthDay) {
+    return fromZonedTime(start, timeZone);
+  }
+  if (rule.byDay || rule.byMonthDay) {
+    const dayBefore = new Date(start);
+    dayBefore.setDate(start.getDate() - 1);
+    return fromZonedTime(advanceOnce({ ...rule, interval: 1 }, dayBefore), timeZone);
+  }
+  return fromZonedTime(start, timeZone);
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' :
+    n % 10 === 1 ? 'st' :
+    n % 10 === 2 ? 'nd' :
+    n % 10 === 3 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+}
+
+/**
+ * Weekday name in `locale`, e.g. "Tuesday", "Dienstag"
+ */
+function weekdayLabel(code: string, locale: string): string {
+  // 4 January 1970 was a Sunday
+  const day = new Date(Date.UTC(1970, 0, 4 + WEEKDAY_CODES.indexOf(code)));
+  return day.toLocaleDateString(locale, { weekday: 'long', timeZone: 'UTC' });
+}
+
+/**
+ * Describe a rule for speech, e.g. "every Tuesday", "every 2 weeks"
+ */
+export function describeRecurrence(ruleValue: string, locale: string = DEFAULT_LOCALE): string {
+  const rule = parseRecurrenceRule(ruleValue);
+  if (!rule) return '';
+
+  if (rule.byDay && rule.byDay.length > 0) {
+    const joined = rule.byDay.join(',');
+    if (joined === 'MO,TU,WE,TH,FR') return translate(locale, 'recurrence.weekdays');
+    if (joined === 'SU,SA') return translate(locale, 'recurrence.weekends');
+    const days = joinList(rule.byDay.map(code => weekdayLabel(code, locale)), locale);
+    return translate(locale, rule.interval === 2 ? 'recurrence.otherDays' : 'recurrence.days', { days });
+  }
+
+  if (rule.byMonthDay) {
+    return translate(locale, 'recurrence.monthDay', { ordinal: ordinal(rule.byMonthDay), day: rule.byMonthDay });
+  }
+
+  if (rule.interval === 1) return translate(locale, `recurrence.${rule.freq}`);
+  if (rule.interval === 2) return translate(locale, `recurrence.${rule.freq}.other`);
+  return translate(locale, `recurrence.${rule.freq}.interval`, { count: rule.interval });
+}
@@ -0,0 +1,254 @@
+import { HandlerInput } from 'ask-sdk-core';
+import { saveTaskReminder, getTaskReminderId, deleteTaskReminder } from './database';
+import { toZonedTime, formatDueTime } from './timezone';
+import { DEFAULT_LOCALE, translate, t } from './i18n';
+
+// Permission the user grants in the Alexa app so the skill can set reminders
+export const REMINDERS_PERMISSION = 'alexa::alerts:reminders:skill:readwrite';
+
+/**
+ * What happened when a task's reminder was set. 'no_permission' means the
+ * user hasn't allowed reminders yet.
+ */
+export type ReminderResult = 'created' | 'updated' | 'cancelled' | 'skipped' | 'no_permission';
+
+/**
+ * The body sent to the Reminders API
+ */
+export interface ReminderRequest {
+  requestTime: string;
+  trigger: {
+    type: 'SCHEDULED_ABSOLUTE';
+    scheduledTime: string; // Wall-clock time in timeZoneId, without an offset
+    timeZoneId: string;
+  };
+  alertInfo: {
+    spokenInfo: { content: { locale: string; text: string }[] };
+  };
+  pushNotification: { status: 'ENABLED' | 'DISABLED' };
+}
+
+class ReminderPermissionError extends Error {
+  constructor() {
+    super('Reminders permission not granted');
+    this.name = 'ReminderPermissionError';
+  }
+}
+
+export function hasReminderPermission(handlerInput: HandlerInput): boolean {
+  const permissions = handlerInput.requestEnvelope.context?.System?.user?.permissions;
+  const scope = permissions?.scopes?.[REMINDERS_PERMISSION];
+  return scope ? scope.status === 'GRANTED' : !!permissions?.consentToken;
+}
+
+/**
+ * Only due dates with a time of day get a reminder
+ */
+export function hasDueTime(dueDateTime: string | null | undefined, timeZone: string): boolean {
+  return !!dueDateTime && formatDueTime(dueDateTime, timeZone) !== null;
+}
+
+function toLocalDateTime(date: Date, timeZone: string): string {
+  const zoned = toZonedTime(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${zoned.getFullYear()}-${pad(zoned.getMonth() + 1)}-${pad(zoned.getDate())}` +
+    `T${pad(zoned.getHours())}:${pad(zoned.getMinutes())}:${pad(zoned.getSeconds())}`;
+}
+
+export function buildReminderRequest(
+  taskName: string,
+  dueDateTime: string,
+  timeZone: string,
+  locale: string = DEFAULT_LOCALE,
+  now: Date = new Date()
+): ReminderRequest {
+  return {
+    requestTime: now.toISOString(),
+    trigger: {
+      type: 'SCHEDULED_ABSOLUTE',
+      scheduledTime: toLocalDateTime(new Date(dueDateTime), timeZone),
+      timeZoneId: timeZone,
+    },
+    alertInfo: {
+      spokenInfo: { content: [{ locale, text: translate(locale, 'reminders.text', { name: taskName }) }] },
+    },
+    pushNotification: { status: 'ENABLED' },
+  };
+}
+
+// ============================================================================
+// REMINDERS API
+// REMINDERS_STUB=true keeps reminders in memory instead (tests, local runs)
+// ============================================================================
+
+export const stubReminders = new Map<string, ReminderRequest>();
+let stubReminderCount = 0;
+
+function useStub(): boolean {
+  return process.env.REMINDERS_STUB === 'true';
+}
+
+async function callRemindersApi(
+  handlerInput: HandlerInput,
+  method: 'POST' | 'PUT' | 'DELETE',
+  reminderId?: string,
+  body?: ReminderRequest
+): Promise<any> {
+  const system = handlerInput.requestEnvelope.context?.System;
+  if (!system?.apiEndpoint || !system.apiAccessToken) {
+    throw new Error('Alexa API endpoint not available');
+  }
+
+  const url = `${system.apiEndpoint}/v1/alerts/reminders${reminderId ? `/${encodeURIComponent(reminderId)}` : ''}`;
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${system.apiAccessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  // 401 and 403 mean the user hasn't granted (or has revoked) the permission
+  if (response.status === 401 || response.status === 403) {
+    throw new ReminderPermissionError();
+  }
+  // Already gone, e.g. the user deleted it in the Alexa app
+  if (response.status === 404 && method !== 'POST') {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Reminders API returned ${response.status}`);
+  }
+
+  return method === 'DELETE' ? null : response.json();
+}
+
+async function createReminder(handlerInput: HandlerInput, request: ReminderRequest): Promise<string> {
+  if (useStub()) {
+    const reminderId = `stub-reminder-${++stubReminderCount}`;
+    stubReminders.set(reminderId, request);
+    return reminderId;
+  }
+  const result = await callRemindersApi(handlerInput, 'POST', undefined, request);
+  return result.alertToken;
+}
+
+/**
+ * Returns false when the reminder no longer exists
+ */
+async function updateReminder(handlerInput: HandlerInput, reminderId: string, request: ReminderRequest): Promise<boolean> {
+  if (useStub()) {
+    if (!stubReminders.has(reminderId)) return false;
+    stubReminders.set(reminderId, request);
+    return true;
+  }
+  return !!(await callRemindersApi(handlerInput, 'PUT', reminderId, request));
+}
+
+async function deleteReminder(handlerInput: HandlerInput, reminderId: string): Promise<void> {
+  if (useStub()) {
+    stubReminders.delete(reminderId);
+    return;
+  }
+  await callRemindersApi(handlerInput, 'DELETE', reminderId);
+}
+
+// ============================================================================
+// TASK REMINDERS
+// Reminder failures are logged but never fail the task change itself
+// ============================================================================
+
+/**
+ * Create or move the reminder for a task due at a time of day. A task whose
+ * due date no longer has a time loses its reminder.
+ */
+export async function scheduleTaskReminder(
+  handlerInput: HandlerInput,
+  userId: string,
+  task: { id: string; name: string; dueDateTime: string | null },
+  timeZone: string
+): Promise<ReminderResult> {
+  if (!userId) {
+    return 'skipped';
+  }
+
+  try {
+    const existingId = await getTaskReminderId(userId, task.id);
+
+    if (!hasDueTime(task.dueDateTime, timeZone) || new Date(task.dueDateTime!) <= new Date()) {
+      if (!existingId) return 'skipped';
+      return await cancelTaskReminder(handlerInput, userId, task.id);
+    }
+
+    if (!useStub() && !hasReminderPermission(handlerInput)) {
+      return 'no_permission';
+    }
+
+    const locale = (handlerInput.requestEnvelope.request as any).locale || DEFAULT_LOCALE;
+    const request = buildReminderRequest(task.name, task.dueDateTime!, timeZone, locale);
+
+    if (existingId && await updateReminder(handlerInput, existingId, request)) {
+      console.log('[scheduleTaskReminder] Updated reminder:', { pageId: task.id, reminderId: existingId });
+      return 'updated';
+    }
+
+    const reminderId = await createReminder(handlerInput, request);
+    await saveTaskReminder(userId, task.id, reminderId);
+    console.log('[scheduleTaskReminder] Created reminder:', { pageId: task.id, reminderId });
+    return 'created';
+  } catch (error: any) {
+    if (error instanceof ReminderPermissionError) {
+      return 'no_permission';
+    }
+    console.error('[scheduleTaskReminder] Could not set reminder:', { pageId: task.id, message: error?.message });
+    return 'skipped';
+  }
+}
+
+/**
+ * Cancel a task's reminder, if it has one (e.g. the task was completed or deleted)
+ */
+export async function cancelTaskReminder(
+  handlerInput: HandlerInput,
+  userId: string,
+  pageId: string
+): Promise<ReminderResult> {
+  if (!userId) {
+    return 'skipped';
+  }
+
+  try {
+    const reminderId = await getTaskReminderId(userId, pageId);
+    if (!reminderId) {
+      return 'skipped';
+    }
+
+    await deleteReminder(handlerInput, reminderId);
+    await deleteTaskReminder(userId, pageId);
+    console.log('[cancelTaskReminder] Cancelled reminder:', { pageId, reminderId });
+    return 'cancelled';
+  } catch (error: any) {
+    if (error instanceof ReminderPermissionError) {
+      return 'no_permission';
+    }
+    console.error('[cancelTaskReminder] Could not cancel reminder:', { pageId, message: error?.message });
+    return 'skipped';
+  }
+}
+
+/**
+ * Ask the user to allow reminders, at most once per session. Adds the
+ * consent card to the response and returns the sentence to say, or ''.
+ */
+export function askForReminderPermission(handlerInput: HandlerInput): string {
+  const attributes = handlerInput.attributesManager.getSessionAttributes();
+  if (attributes.reminderPermissionAsked) {
+    return '';
+  }
+
+  attributes.reminderPermissionAsked = true;
+  handlerInput.attributesManager.setSessionAttributes(attributes);
+  handlerInput.responseBuilder.withAskForPermissionsConsentCard([REMINDERS_PERMISSION]);
+  return ` ${t(handlerInput, 'reminders.askPermission')}`;
+}
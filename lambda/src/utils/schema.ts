@@ -0,0 +1,361 @@
+import { NotionTask, TaskPropertyMapping, User } from '../types';
+
+type TaskStatus = NotionTask['status'];
+type TaskPriority = NotionTask['priority'];
+type TaskCategory = NotionTask['category'];
+
+/**
+ * The layout of the Tasks database the skill creates itself
+ */
+export const DEFAULT_PROPERTY_MAPPING: TaskPropertyMapping = {
+  title: 'Task Name',
+  parsedName: 'Parsed Name',
+  status: 'Status',
+  statusType: 'select',
+  priority: 'Priority',
+  category: 'Category',
+  categoryType: 'select',
+  dueDate: 'Due Date Time',
+  notes: 'Notes',
+  recurrence: 'Recurrence',
+  notionId: 'NotionID',
+  statusValues: { 'TO DO': 'TO DO', IN_PROCESS: 'IN_PROCESS', DONE: 'DONE' },
+  statusOptions: {},
+  priorityValues: { LOW: 'LOW', NORMAL: 'NORMAL', HIGH: 'HIGH' },
+  categoryValues: { PERSONAL: 'PERSONAL', WORK: 'WORK' },
+};
+
+/**
+ * Fill gaps in a stored mapping with the defaults
+ */
+export function resolvePropertyMapping(
+  stored?: Partial<TaskPropertyMapping> | null
+): TaskPropertyMapping {
+  if (!stored) {
+    return DEFAULT_PROPERTY_MAPPING;
+  }
+
+  return {
+    ...DEFAULT_PROPERTY_MAPPING,
+    ...stored,
+    statusValues: { ...DEFAULT_PROPERTY_MAPPING.statusValues, ...stored.statusValues },
+    statusOptions: { ...stored.statusOptions },
+    priorityValues: { ...DEFAULT_PROPERTY_MAPPING.priorityValues, ...stored.priorityValues },
+    categoryValues: { ...DEFAULT_PROPERTY_MAPPING.categoryValues, ...stored.categoryValues },
+  };
+}
+
+/**
+ * The mapping to use for a user's Tasks database
+ */
+export function getTaskMapping(user: Partial<User> | null | undefined): TaskPropertyMapping {
+  return resolvePropertyMapping(user?.tasks_db_mapping);
+}
+
+/**
+ * Which of the skill's statuses a status option counts as
+ */
+export function findStatusForOption(
+  mapping: TaskPropertyMapping,
+  optionName: string
+): TaskStatus | undefined {
+  return mapping.statusOptions[optionName] || findCanonicalValue(mapping.statusValues, optionName);
+}
+
+/**
+ * All option names that count as a status - the written value first
+ */
+export function getStatusOptionNames(mapping: TaskPropertyMapping, status: TaskStatus): string[] {
+  const names = [mapping.statusValues[status]];
+  for (const [name, value] of Object.entries(mapping.statusOptions)) {
+    if (value === status && !names.includes(name)) {
+      names.push(name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Find which of the skill's values an option name stands for
+ */
+export function findCanonicalValue<T extends string>(
+  values: Record<T, string>,
+  optionName: string
+): T | undefined {
+  const lower = optionName.toLowerCase();
+  return (Object.keys(values) as T[]).find(key => values[key].toLowerCase() === lower);
+}
+
+// ============================================================================
+// FILTERS AND SORTS
+// ============================================================================
+// Builders return null when the database has no matching property, so the
+// condition is left out instead of failing the whole query.
+
+function statusCondition(mapping: TaskPropertyMapping, operator: string, name: string): any {
+  return { property: mapping.status, [mapping.statusType]: { [operator]: name } };
+}
+
+/**
+ * Match (or exclude) every option that counts as the given status.
+ * Notion only compares single options, so several become an or/and group.
+ */
+export function statusFilter(
+  mapping: TaskPropertyMapping,
+  status: TaskStatus,
+  operator: 'equals' | 'does_not_equal' = 'equals'
+): any | null {
+  if (!mapping.status) {
+    return null;
+  }
+  const conditions = getStatusOptionNames(mapping, status).map(name => statusCondition(mapping, operator, name));
+  if (conditions.length === 1) {
+    return conditions[0];
+  }
+  return operator === 'equals' ? { or: conditions } : { and: conditions };
+}
+
+/**
+ * Tasks that are still to do or in progress. Kept as one flat "or" so it
+ * can be nested inside an "and" within Notion's nesting limit.
+ */
+export function openStatusFilter(mapping: TaskPropertyMapping): any | null {
+  if (!mapping.status) {
+    return null;
+  }
+  return {
+    or: [
+      ...getStatusOptionNames(mapping, 'TO DO'),
+      ...getStatusOptionNames(mapping, 'IN_PROCESS'),
+    ].map(name => statusCondition(mapping, 'equals', name)),
+  };
+}
+
+export function priorityFilter(mapping: TaskPropertyMapping, priority: TaskPriority): any | null {
+  if (!mapping.priority) {
+    return null;
+  }
+  return { property: mapping.priority, select: { equals: mapping.priorityValues[priority] } };
+}
+
+export function categoryFilter(mapping: TaskPropertyMapping, category: TaskCategory): any | null {
+  if (!mapping.category) {
+    return null;
+  }
+  const value = mapping.categoryValues[category];
+  return mapping.categoryType === 'multi_select'
+    ? { property: mapping.category, multi_select: { contains: value } }
+    : { property: mapping.category, select: { equals: value } };
+}
+
+/**
+ * Due date condition, e.g. dueDateFilter(mapping, { before: today })
+ */
+export function dueDateFilter(
+  mapping: TaskPropertyMapping,
+  condition: Record<string, string>
+): any | null {
+  if (!mapping.dueDate) {
+    return null;
+  }
+  return { property: mapping.dueDate, date: condition };
+}
+
+/**
+ * AND together the conditions that apply; undefined when none do
+ */
+export function combineFilters(filters: (any | null)[]): any | undefined {
+  const present = filters.filter(filter => !!filter);
+  if (present.length === 0) {
+    return undefined;
+  }
+  return present.length === 1 ? present[0] : { and: present };
+}
+
+export function buildSorts(
+  mapping: TaskPropertyMapping,
+  sorts: { field: 'dueDate' | 'priority'; direction: 'ascending' | 'descending' }[]
+): any[] {
+  return sorts
+    .filter(sort => !!mapping[sort.field])
+    .map(sort => ({ property: mapping[sort.field] as string, direction: sort.direction }));
+}
+
+// ============================================================================
+// PROPERTY VALUES
+// ============================================================================
+
+export function statusProperty(mapping: TaskPropertyMapping, status: TaskStatus): Record<string, any> {
+  if (!mapping.status) {
+    return {};
+  }
+  return { [mapping.status]: { [mapping.statusType]: { name: mapping.statusValues[status] } } };
+}
+
+export function priorityProperty(mapping: TaskPropertyMapping, priority: TaskPriority): Record<string, any> {
+  if (!mapping.priority) {
+    return {};
+  }
+  return { [mapping.priority]: { select: { name: mapping.priorityValues[priority] } } };
+}
+
+export function categoryProperty(mapping: TaskPropertyMapping, category: TaskCategory): Record<string, any> {
+  if (!mapping.category) {
+    return {};
+  }
+  const name = mapping.categoryValues[category];
+  return {
+    [mapping.category]: mapping.categoryType === 'multi_select'
+      ? { multi_select: [{ name }] }
+      : { select: { name } },
+  };
+}
+
+// ============================================================================
+// AUTO-DETECTION
+// ============================================================================
+
+const STATUS_PATTERNS: Record<TaskStatus, RegExp> = {
+  'TO DO': /^(to[\s_-]?do|not started|backlog|open|pending)$/i,
+  IN_PROCESS: /^(in[\s_-]?pro(cess|gress)|doing|started|active|ongoing)$/i,
+  DONE: /^(done|complete|completed|finished|closed)$/i,
+};
+
+// Groups of Notion's native status property (To-do / In progress / Complete)
+const STATUS_GROUP_PATTERNS: Record<TaskStatus, RegExp> = {
+  'TO DO': /to[\s_-]?do|not started/i,
+  IN_PROCESS: /progress/i,
+  DONE: /complete|done/i,
+};
+
+const PRIORITY_PATTERNS: Record<TaskPriority, RegExp> = {
+  LOW: /^(low|p3|minor)$/i,
+  NORMAL: /^(normal|medium|p2)$/i,
+  HIGH: /^(high|urgent|critical|p1)$/i,
+};
+
+const CATEGORY_PATTERNS: Record<TaskCategory, RegExp> = {
+  PERSONAL: /^(personal|home|private|life)$/i,
+  WORK: /^(work|job|office|business)$/i,
+};
+
+function findProperty(
+  properties: Record<string, any>,
+  types: string[],
+  patterns: RegExp[]
+): string | null {
+  const names = Object.keys(properties).filter(name => types.includes(properties[name]?.type));
+  for (const pattern of patterns) {
+    const match = names.find(name => pattern.test(name));
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+}
+
+function matchOptions<T extends string>(
+  property: any,
+  patterns: Record<T, RegExp>,
+  defaults: Record<T, string>
+): Record<T, string> {
+  const options: string[] = (property?.[property.type]?.options || []).map((option: any) => option.name);
+  const values = { ...defaults };
+
+  for (const key of Object.keys(patterns) as T[]) {
+    const match = options.find(option => option.toLowerCase() === defaults[key].toLowerCase())
+      || options.find(option => patterns[key].test(option.trim()));
+    if (match) {
+      values[key] = match;
+    }
+  }
+  return values;
+}
+
+/**
+ * Map every option of a status property onto the skill's statuses.
+ * Native status properties are mapped by group, so custom options such as
+ * "Blocked" inside "In progress" count as IN_PROCESS.
+ */
+function detectStatusOptions(
+  property: any
+): Pick<TaskPropertyMapping, 'statusValues' | 'statusOptions'> {
+  const statusValues = matchOptions(property, STATUS_PATTERNS, DEFAULT_PROPERTY_MAPPING.statusValues);
+  const grouped: Record<string, TaskStatus> = {};
+
+  if (property.type === 'status') {
+    const options: any[] = property.status?.options || [];
+    const groups: any[] = property.status?.groups || [];
+    const canonical = Object.keys(STATUS_GROUP_PATTERNS) as TaskStatus[];
+
+    groups.forEach((group, index) => {
+      const status = canonical.find(key => STATUS_GROUP_PATTERNS[key].test(group.name)) || canonical[index];
+      if (!status) {
+        return;
+      }
+      const names = options
+        .filter(option => (group.option_ids || []).includes(option.id))
+        .map(option => option.name);
+      names.forEach(name => { grouped[name] = status; });
+
+      // Write the first option of the group unless a better match was found
+      if (names.length > 0 && !names.includes(statusValues[status])) {
+        statusValues[status] = names[0];
+      }
+    });
+  } else {
+    for (const option of property.select?.options || []) {
+      const status = (Object.keys(STATUS_PATTERNS) as TaskStatus[])
+        .find(key => STATUS_PATTERNS[key].test(option.name.trim()));
+      if (status) {
+        grouped[option.name] = status;
+      }
+    }
+  }
+
+  // Only keep the options that aren't already written values
+  const statusOptions: Record<string, TaskStatus> = {};
+  for (const [name, status] of Object.entries(grouped)) {
+    if (statusValues[status] !== name) {
+      statusOptions[name] = status;
+    }
+  }
+
+  return { statusValues, statusOptions };
+}
+
+/**
+ * Guess the mapping from a database's properties (databases.retrieve).
+ * Options that can't be matched keep the default names.
+ */
+export function detectPropertyMapping(properties: Record<string, any>): TaskPropertyMapping {
+  const title = Object.keys(properties).find(name => properties[name]?.type === 'title')
+    || DEFAULT_PROPERTY_MAPPING.title;
+  const status = findProperty(properties, ['select', 'status'], [/^status$/i, /status|state|stage/i]);
+  const priority = findProperty(properties, ['select'], [/^priority$/i, /priority|importance/i]);
+  const category = findProperty(properties, ['select', 'multi_select'], [/^category$/i, /categor|tags?$|area|context/i]);
+
+  return {
+    title,
+    parsedName: findProperty(properties, ['rich_text'], [/^parsed name$/i]),
+    status,
+    statusType: status && properties[status].type === 'status' ? 'status' : 'select',
+    priority,
+    category,
+    categoryType: category && properties[category].type === 'multi_select' ? 'multi_select' : 'select',
+    dueDate: findProperty(properties, ['date'], [/^due date time$/i, /due/i, /deadline|date/i]),
+    notes: findProperty(properties, ['rich_text'], [/^notes?$/i, /notes?|description/i]),
+    recurrence: findProperty(properties, ['rich_text'], [/^recurrence$/i, /recurr|repeat/i])
+      || DEFAULT_PROPERTY_MAPPING.recurrence,
+    notionId: findProperty(properties, ['rich_text'], [/^notion\s?id$/i]),
+    ...(status
+      ? detectStatusOptions(properties[status])
+      : { statusValues: DEFAULT_PROPERTY_MAPPING.statusValues, statusOptions: {} }),
+    priorityValues: priority
+      ? matchOptions(properties[priority], PRIORITY_PATTERNS, DEFAULT_PROPERTY_MAPPING.priorityValues)
+      : DEFAULT_PROPERTY_MAPPING.priorityValues,
+    categoryValues: category
+      ? matchOptions(properties[category], CATEGORY_PATTERNS, DEFAULT_PROPERTY_MAPPING.categoryValues)
+      : DEFAULT_PROPERTY_MAPPING.categoryValues,
+  };
+}
@@ -0,0 +1,58 @@
+import { HandlerInput } from 'ask-sdk-core';
+import { Response } from 'ask-sdk-model';
+import { buildResponse } from './alexa';
+import { t, MessageKey } from './i18n';
+
+/**
+ * OAuth scopes a linked device's token carries, approved by the user on the
+ * web login's consent screen (web-login/lib/scopes.ts). Tokens issued before
+ * scopes existed carry "alexa", which still means full access.
+ */
+export const TASK_SCOPES = ['tasks:read', 'tasks:write', 'tasks:delete'] as const;
+
+export type TaskScope = typeof TASK_SCOPES[number];
+
+const LEGACY_SCOPE = 'alexa';
+
+// What Alexa says when a handler needs a scope the token doesn't have
+const MISSING_SCOPE_MESSAGES: Record<TaskScope, MessageKey> = {
+  'tasks:read': 'scope.missingRead',
+  'tasks:write': 'scope.missingWrite',
+  'tasks:delete': 'scope.missingDelete',
+};
+
+/**
+ * The task scopes in a token's space-separated scope string. The legacy
+ * "alexa" scope means all of them; no scope grants nothing.
+ */
+export function parseScopes(scope?: string | null): TaskScope[] {
+  const granted = (scope || '').split(/\s+/).filter(Boolean);
+  if (granted.includes(LEGACY_SCOPE)) {
+    return [...TASK_SCOPES];
+  }
+  return TASK_SCOPES.filter(taskScope => granted.includes(taskScope));
+}
+
+/**
+ * Whether this session's token grants `scope`. AuthInterceptor stores the
+ * granted scopes; sessions found without a token (legacy lookup) have none
+ * stored and keep full access.
+ */
+export function hasScope(handlerInput: HandlerInput, scope: TaskScope): boolean {
+  const scopes = handlerInput.attributesManager.getSessionAttributes().scopes;
+  return !Array.isArray(scopes) || scopes.includes(scope);
+}
+
+/**
+ * A spoken refusal when the session's token lacks `scope`, else null:
+ *
+ *   const denied = requireScope(handlerInput, 'tasks:delete');
+ *   if (denied) return denied;
+ */
+export function requireScope(handlerInput: HandlerInput, scope: TaskScope): Response | null {
+  if (hasScope(handlerInput, scope)) {
+    return null;
+  }
+  console.warn('[Scopes] Missing scope:', scope);
+  return buildResponse(handlerInput, t(handlerInput, MISSING_SCOPE_MESSAGES[scope]), t(handlerInput, 'common.whatElse'));
+}
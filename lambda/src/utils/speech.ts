@@ -0,0 +1,268 @@
+import { BriefingSettings, NotionTask } from '../types';
+import { toDateString, toZonedTime, formatDueTime, getDueDay } from './timezone';
+import { PAGE_SIZE, NumberedTask } from './tasklist';
+import { DailyBriefing } from './briefing';
+import { DEFAULT_LOCALE, translate, joinList } from './i18n';
+
+// Pause between list items, so names don't run into each other
+export const ITEM_PAUSE = '<break time="400ms"/>';
+
+/**
+ * Escape text from Notion (task names, notes) before it goes into SSML.
+ * A bare "&" or "<" makes Alexa reject the whole response.
+ */
+export function escapeSSML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function numberWord(count: number, locale: string): string {
+  return translate(locale, 'speech.numberWords').split(' ')[count] || String(count);
+}
+
+export function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * A due date as SSML, e.g. "<say-as interpret-as="date">????0305</say-as> at 9:00 AM".
+ * The year is left out ("????") unless it isn't the current one.
+ */
+export function sayDueDate(
+  dueDateTime: string,
+  timeZone: string,
+  now: Date = new Date(),
+  locale: string = DEFAULT_LOCALE
+): string {
+  const [year, month, day] = getDueDay(dueDateTime, timeZone).split('-');
+  const spokenYear = year === toDateString(now, timeZone).slice(0, 4) ? '????' : year;
+  const date = `<say-as interpret-as="date">${spokenYear}${month}${day}</say-as>`;
+
+  const time = formatDueTime(dueDateTime, timeZone, locale);
+  return time ? translate(locale, 'speech.dateAtTime', { date, time }) : date;
+}
+
+/**
+ * How many of the tasks are due today or overdue, e.g. "three are due today,
+ * two are overdue". Empty when none are.
+ */
+export function describeTaskGroups(
+  tasks: NotionTask[],
+  timeZone: string,
+  now: Date = new Date(),
+  locale: string = DEFAULT_LOCALE
+): string {
+  const today = toDateString(now, timeZone);
+  let dueToday = 0;
+  let overdue = 0;
+
+  for (const task of tasks) {
+    if (!task.dueDateTime || task.status === 'DONE') continue;
+    const dueDay = getDueDay(task.dueDateTime, timeZone);
+    if (dueDay === today) dueToday++;
+    else if (dueDay < today) overdue++;
+  }
+
+  const groups: string[] = [];
+  if (dueToday > 0) {
+    groups.push(translate(locale, 'speech.dueToday', { count: dueToday, number: numberWord(dueToday, locale) }));
+  }
+  if (overdue > 0) {
+    groups.push(translate(locale, 'speech.overdue', { count: overdue, number: numberWord(overdue, locale) }));
+  }
+  return groups.join(', ');
+}
+
+// ============================================================================
+// TASK READOUTS
+// All functions return SSML fragments; buildResponse wraps them in <speak>
+// ============================================================================
+
+function speakTaskHeadline(task: NotionTask, timeZone: string, now: Date, locale: string): string {
+  let speech = escapeSSML(task.parsedName || task.name);
+  if (task.dueDateTime) {
+    speech += translate(locale, 'speech.due', { date: sayDueDate(task.dueDateTime, timeZone, now, locale) });
+  }
+  if (task.priority === 'HIGH') {
+    speech += translate(locale, 'speech.highPriority');
+  }
+  return speech;
+}
+
+/**
+ * One task in detail, e.g. "Pack for trip, due March 5th at 9:00 AM, high
+ * priority, 2 of 3 steps done"
+ */
+export function speakTask(
+  task: NotionTask,
+  timeZone: string,
+  now: Date = new Date(),
+  locale: string = DEFAULT_LOCALE
+): string {
+  let speech = speakTaskHeadline(task, timeZone, now, locale);
+  if (task.stepProgress) {
+    speech += translate(locale, 'speech.stepProgress', { ...task.stepProgress });
+  }
+  return speech;
+}
+
+/**
+ * A page of the list, numbered through the whole list, with a pause between items
+ */
+export function speakTaskPage(
+  tasks: NumberedTask[],
+  timeZone: string,
+  now: Date = new Date(),
+  locale: string = DEFAULT_LOCALE
+): string {
+  return tasks
+    .map(({ number, task }) => `${number}. ${speakTaskHeadline(task, timeZone, now, locale)}`)
+    .join(`.${ITEM_PAUSE} `);
+}
+
+/**
+ * The answer to a task query. Longer lists are read a page at a time;
+ * "next" continues.
+ */
+export function speakTaskList(
+  tasks: NotionTask[],
+  timeZone: string,
+  now: Date = new Date(),
+  locale: string = DEFAULT_LOCALE
+): string {
+  if (tasks.length === 0) {
+    return translate(locale, 'speech.noMatches');
+  }
+
+  if (tasks.length === 1) {
+    return `${speakTask(tasks[0], timeZone, now, locale)}.`;
+  }
+
+  const groups = describeTaskGroups(tasks, timeZone, now, locale);
+  const intro = translate(locale, 'speech.taskCount', { count: tasks.length }) + (groups ? ` ${capitalize(groups)}.` : '');
+  const page = speakTaskPage(
+    tasks.slice(0, PAGE_SIZE).map((task, index) => ({ number: index + 1, task })),
+    timeZone,
+    now,
+    locale
+  );
+
+  if (tasks.length > PAGE_SIZE) {
+    const firstPage = translate(locale, 'speech.firstPage', { count: PAGE_SIZE });
+    return `${intro} ${firstPage}${ITEM_PAUSE} ${page}.${ITEM_PAUSE} ${translate(locale, 'list.sayNext')}`;
+  }
+
+  return `${intro}${ITEM_PAUSE} ${page}.`;
+}
+
+/**
+ * A short overview of the user's open tasks, e.g. "You have 5 open tasks.
+ * Three are due today, two are overdue."
+ */
+export function speakSummary(
+  tasks: NotionTask[],
+  timeZone: string,
+  now: Date = new Date(),
+  locale: string = DEFAULT_LOCALE
+): string {
+  const open = tasks.filter(task => task.status !== 'DONE');
+  if (open.length === 0) {
+    return translate(locale, 'speech.caughtUp');
+  }
+
+  const groups = describeTaskGroups(open, timeZone, now, locale);
+  return translate(locale, 'speech.openTasks', { count: open.length }) + (groups ? ` ${capitalize(groups)}.` : '');
+}
+
+// ============================================================================
+// DAILY BRIEFING
+// ============================================================================
+
+function greeting(timeZone: string, now: Date, locale: string): string {
+  const hour = toZonedTime(now, timeZone).getHours();
+  if (hour < 12) return translate(locale, 'briefing.morning');
+  if (hour < 18) return translate(locale, 'briefing.afternoon');
+  return translate(locale, 'briefing.evening');
+}
+
+/**
+ * "a, b and c", with pauses, reading at most `max` items and counting the rest
+ */
+function joinItems(items: string[], max: number, locale: string): string {
+  const read = items.slice(0, max);
+  const rest = items.length - read.length;
+  if (rest > 0) {
+    read.push(translate(locale, 'briefing.more', { count: rest }));
+  }
+  return joinList(read, locale, `,${ITEM_PAUSE} `);
+}
+
+function speakBriefingItem(task: NotionTask, timeZone: string, now: Date, withDate: boolean, locale: string): string {
+  let speech = escapeSSML(task.parsedName || task.name);
+  if (task.dueDateTime) {
+    const time = formatDueTime(task.dueDateTime, timeZone, locale);
+    if (withDate) {
+      speech += translate(locale, 'speech.due', { date: sayDueDate(task.dueDateTime, timeZone, now, locale) });
+    } else if (time) {
+      speech += translate(locale, 'briefing.atTime', { time });
+    }
+  }
+  if (task.priority === 'HIGH') {
+    speech += translate(locale, 'speech.highPriority');
+  }
+  return speech;
+}
+
+/**
+ * The daily briefing: overdue first, then today, tomorrow and the next
+ * deadline, each with high priority tasks read first
+ */
+export function speakBriefing(
+  briefing: DailyBriefing,
+  settings: BriefingSettings,
+  timeZone: string,
+  now: Date = new Date(),
+  locale: string = DEFAULT_LOCALE
+): string {
+  const max = settings.maxTasksPerSection;
+  const sections: string[] = [];
+  const items = (tasks: NotionTask[], withDate: boolean) =>
+    joinItems(tasks.map(task => speakBriefingItem(task, timeZone, now, withDate, locale)), max, locale);
+
+  if (briefing.overdue.length > 0) {
+    const count = briefing.overdue.length;
+    sections.push(translate(locale, 'briefing.overdue', {
+      count,
+      number: numberWord(count, locale),
+      items: items(briefing.overdue, true),
+    }));
+  }
+  if (briefing.today.length > 0) {
+    sections.push(translate(locale, 'briefing.today', { items: items(briefing.today, false) }));
+  }
+  if (briefing.tomorrow.length > 0) {
+    sections.push(translate(locale, 'briefing.tomorrow', { items: items(briefing.tomorrow, false) }));
+  }
+
+  // Only mention the next deadline when it isn't one of the tasks already read
+  const next = briefing.nextDeadline;
+  const alreadyRead = [...briefing.today, ...briefing.tomorrow].some(task => task.id === next?.id);
+  if (next && next.dueDateTime && !alreadyRead && briefing.today.length === 0) {
+    sections.push(translate(locale, 'briefing.nextDeadline', { item: speakBriefingItem(next, timeZone, now, true, locale) }));
+  }
+
+  if (sections.length === 0) {
+    sections.push(translate(locale, 'briefing.nothingDue'));
+  }
+
+  if (briefing.summary) {
+    sections.push(translate(locale, 'briefing.summary', {
+      count: briefing.summary.pendingTasks,
+      done: briefing.summary.completedTasks,
+    }));
+  }
+
+  return `${greeting(timeZone, now, locale)} ${sections.join(ITEM_PAUSE + ' ')}`;
+}
@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import { HandlerInput } from 'ask-sdk-core';
+import { Client } from '@notionhq/client';
+import { CachedTaskList, NotionTask, User } from '../types';
+import { getAllTasks, queryOpenTasks } from './notion';
+import { getTaskMapping } from './schema';
+import { getTaskCacheEntry, saveTaskCacheEntry, deleteTaskCacheEntry } from './database';
+
+const DEFAULT_TTL_SECONDS = 60;
+
+// Older snapshots are never used, however little time is left
+const MAX_STALE_MS = 10 * 60 * 1000;
+
+// Alexa waits 8 seconds for a response. With less than REFRESH_TIME_NEEDED_MS
+// of that left, an older snapshot answers and Notion is read in the background.
+const RESPONSE_BUDGET_MS = 8000;
+const REFRESH_TIME_NEEDED_MS = 3000;
+
+const MAX_MEMORY_ENTRIES = 200;
+
+/**
+ * Where task snapshots are kept, by cache key. Entries are kept for `ttlMs`;
+ * whether they are still fresh is decided from `fetchedAt`. A Redis (or any
+ * key/value store with expiry) implementation can be plugged in with
+ * setSharedTaskCacheStore.
+ */
+export interface TaskCacheStore {
+  get(key: string): Promise<CachedTaskList | null>;
+  set(key: string, entry: CachedTaskList, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export function createMemoryTaskCacheStore(maxEntries: number = MAX_MEMORY_ENTRIES): TaskCacheStore {
+  const entries = new Map<string, { entry: CachedTaskList; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const cached = entries.get(key);
+      if (!cached) return null;
+      if (cached.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return cached.entry;
+    },
+
+    async set(key, entry, ttlMs) {
+      // Re-inserted so the Map stays in least recently written order
+      entries.delete(key);
+      entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * The task_cache table, shared by every Lambda instance
+ */
+export function createSupabaseTaskCacheStore(): TaskCacheStore {
+  return {
+    get: key => getTaskCacheEntry(key),
+    set: (key, entry, ttlMs) => saveTaskCacheEntry(key, entry, new Date(Date.now() + ttlMs)),
+    delete: key => deleteTaskCacheEntry(key),
+  };
+}
+
+// Warm Lambda instances keep their own snapshots; the shared store (if any)
+// lets a cold instance start from another one's
+const memoryStore = createMemoryTaskCacheStore();
+let sharedStore: TaskCacheStore | null =
+  process.env.TASK_CACHE_STORE === 'supabase' ? createSupabaseTaskCacheStore() : null;
+
+// When this instance last invalidated each user's snapshots, so a read that
+// started before a write can't put the old tasks back. Kept in invalidation
+// order and dropped after MAX_STALE_MS, when every snapshot they could reject
+// is gone.
+const invalidatedAt = new Map<string, number>();
+
+function pruneInvalidations(now: number): void {
+  for (const [key, at] of invalidatedAt) {
+    if (now - at <= MAX_STALE_MS) break;
+    invalidatedAt.delete(key);
+  }
+}
+
+export function setSharedTaskCacheStore(store: TaskCacheStore | null): void {
+  sharedStore = store;
+}
+
+/**
+ * How long a snapshot is fresh (TASK_CACHE_TTL_SECONDS, default 60; 0 turns
+ * the cache off)
+ */
+export function getTaskCacheTtlMs(): number {
+  const configured = parseInt(process.env.TASK_CACHE_TTL_SECONDS ?? '', 10);
+  return (configured >= 0 ? configured : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+/**
+ * Time left before Alexa stops waiting for this request's response
+ */
+export function getTimeRemaining(handlerInput: HandlerInput, now: number = Date.now()): number {
+  const requestTime = Date.parse((handlerInput.requestEnvelope?.request as any)?.timestamp);
+  return isNaN(requestTime) ? RESPONSE_BUDGET_MS : requestTime + RESPONSE_BUDGET_MS - now;
+}
+
+/**
+ * Snapshots are kept per user and field mapping, so tasks read with an old
+ * mapping aren't served after the user saves a new one on the web login
+ */
+export function getTaskCacheKey(user: Partial<User>): string {
+  const mappingHash = crypto
+    .createHash('sha256')
+    .update(JSON.stringify(getTaskMapping(user)))
+    .digest('hex')
+    .slice(0, 16);
+  return `${user.id}:${mappingHash}`;
+}
+
+async function readCache(key: string, userId: string, databaseId: string): Promise<CachedTaskList | null> {
+  let entry = await memoryStore.get(key);
+
+  if (!entry && sharedStore) {
+    try {
+      entry = await sharedStore.get(key);
+      if (entry) {
+        await memoryStore.set(key, entry, MAX_STALE_MS);
+      }
+    } catch (error: any) {
+      console.warn('[taskCache] Could not read shared cache:', error?.message);
+    }
+  }
+
+  if (!entry || entry.databaseId !== databaseId || entry.fetchedAt < (invalidatedAt.get(userId) ?? 0)) {
+    return null;
+  }
+  return entry;
+}
+
+async function refreshCache(
+  key: string,
+  client: Client,
+  databaseId: string,
+  user: User
+): Promise<NotionTask[]> {
+  const fetchedAt = Date.now();
+  const tasks = await queryOpenTasks(client, databaseId, getTaskMapping(user));
+  if (fetchedAt < (invalidatedAt.get(user.id) ?? 0)) {
+    return tasks;
+  }
+
+  const entry: CachedTaskList = { databaseId, tasks, fetchedAt };
+  await memoryStore.set(key, entry, MAX_STALE_MS);
+  if (sharedStore) {
+    await sharedStore.set(key, entry, MAX_STALE_MS).catch((error: any) => {
+      console.warn('[taskCache] Could not write shared cache:', error?.message);
+    });
+  }
+  return tasks;
+}
+
+/**
+ * The user's open tasks (as getAllTasks), from a snapshot when one was read
+ * in the last TASK_CACHE_TTL_SECONDS. An older snapshot still answers when
+ * there isn't time left to read Notion; it is then refreshed in the
+ * background for the next request.
+ */
+export async function getOpenTasks(
+  handlerInput: HandlerInput,
+  client: Client,
+  user: User,
+  databaseId: string
+): Promise<NotionTask[]> {
+  const ttl = getTaskCacheTtlMs();
+  if (!user?.id || ttl === 0) {
+    return getAllTasks(client, databaseId, getTaskMapping(user));
+  }
+
+  const key = getTaskCacheKey(user);
+  const now = Date.now();
+  const cached = await readCache(key, user.id, databaseId);
+  const age = cached ? now - cached.fetchedAt : Infinity;
+
+  if (cached && age < ttl) {
+    return cached.tasks;
+  }
+
+  if (cached && age < MAX_STALE_MS && getTimeRemaining(handlerInput, now) < REFRESH_TIME_NEEDED_MS) {
+    console.log('[taskCache] Answering from a snapshot to meet the response deadline:', { age });
+    // Not awaited: finishes while this instance is still warm
+    refreshCache(key, client, databaseId, user).catch((error: any) => {
+      console.warn('[taskCache] Background refresh failed:', error?.message);
+    });
+    return cached.tasks;
+  }
+
+  try {
+    return await refreshCache(key, client, databaseId, user);
+  } catch (error: any) {
+    console.error('[taskCache] Could not read tasks:', error?.message);
+    return cached ? cached.tasks : [];
+  }
+}
+
+/**
+ * Drop the user's snapshot after this skill changed their tasks
+ */
+export async function invalidateTaskCache(user: Partial<User> | undefined): Promise<void> {
+  if (!user?.id) return;
+
+  const now = Date.now();
+  pruneInvalidations(now);
+  invalidatedAt.delete(user.id);
+  invalidatedAt.set(user.id, now);
+
+  const key = getTaskCacheKey(user);
+  await memoryStore.delete(key);
+  if (sharedStore) {
+    await sharedStore.delete(key).catch((error: any) => {
+      console.warn('[taskCache] Could not clear shared cache:', error?.message);
+    });
+  }
+}
@@ -0,0 +1,191 @@
+import { HandlerInput } from 'ask-sdk-core';
+import { Intent } from 'ask-sdk-model';
+import { NotionTask } from '../types';
+import { ParsedTask, parseTaskFromUserRequest } from './parsing';
+import { fromZonedTime, toDateString, getDayRange } from './timezone';
+import { DEFAULT_LOCALE, MessageKey, translate } from './i18n';
+
+/**
+ * The next step of the AddTaskIntent dialog: a slot to ask for, or the
+ * finished task (to confirm first if some of it was guessed)
+ */
+export interface TaskDialogStep {
+  parsed: ParsedTask;
+  // Slot to ask for next; null once the task is complete
+  elicit: { slot: string; prompt: string; reprompt: string } | null;
+  // True when a due date or time was guessed, e.g. "today" for "at 5"
+  needsConfirmation: boolean;
+}
+
+// Times used for AMAZON.TIME's periods ("in the morning", "tonight")
+const TIME_PERIODS: Record<string, string> = {
+  MO: '09:00',
+  AF: '14:00',
+  EV: '18:00',
+  NI: '20:00',
+};
+
+const ELICIT_PROMPTS: Record<string, { prompt: MessageKey; reprompt: MessageKey }> = {
+  taskName: { prompt: 'dialog.taskName', reprompt: 'dialog.taskNameReprompt' },
+  dueDate: { prompt: 'dialog.dueDate', reprompt: 'dialog.dueDateReprompt' },
+  ambiguousDueDate: { prompt: 'dialog.ambiguousDueDate', reprompt: 'dialog.ambiguousDueDateReprompt' },
+  priority: { prompt: 'dialog.priority', reprompt: 'dialog.priorityReprompt' },
+  category: { prompt: 'dialog.category', reprompt: 'dialog.categoryReprompt' },
+};
+
+function getSlotValue(intent: Intent, slotName: string): string | null {
+  return intent.slots?.[slotName]?.value?.trim() || null;
+}
+
+/**
+ * The id of the custom slot value the user's words resolved to, or null
+ * when they matched none (or the slot is empty)
+ */
+export function getResolvedId(intent: Intent, slotName: string): string | null {
+  const authorities = intent.slots?.[slotName]?.resolutions?.resolutionsPerAuthority || [];
+  const match = authorities.find(authority => authority.status.code === 'ER_SUCCESS_MATCH');
+  return match?.values[0]?.value.id || null;
+}
+
+/**
+ * A copy of the intent with one slot emptied, for asking for it again
+ */
+export function clearSlot(intent: Intent, slotName: string): Intent {
+  return {
+    ...intent,
+    slots: {
+      ...(intent.slots || {}),
+      [slotName]: { name: slotName, confirmationStatus: 'NONE' },
+    },
+  };
+}
+
+/**
+ * AMAZON.DATE value as a single day (YYYY-MM-DD). Weeks, weekends, months
+ * and the like ("next week") return null, as do unknown values.
+ */
+export function parseDateSlot(value: string, timeZone: string, now: Date = new Date()): string | null {
+  if (value === 'PRESENT_REF') {
+    return toDateString(now, timeZone);
+  }
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+}
+
+/**
+ * AMAZON.TIME value as HH:MM. Periods of the day ("in the morning") become
+ * a typical time and are marked as a guess.
+ */
+export function parseTimeSlot(value: string): { time: string; guessed: boolean } | null {
+  if (/^\d{2}:\d{2}$/.test(value)) {
+    return { time: value, guessed: false };
+  }
+  return TIME_PERIODS[value] ? { time: TIME_PERIODS[value], guessed: true } : null;
+}
+
+function toDueDateTime(day: string, time: string, timeZone: string): string {
+  const [year, month, date] = day.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return fromZonedTime(new Date(year, month - 1, date, hours, minutes), timeZone).toISOString();
+}
+
+/**
+ * Work out what AddTaskIntent's typed slots say so far. The task name is
+ * parsed like a free-form request too, so "call mom tomorrow" still picks up
+ * its date; the typed slots win where both say something.
+ * `dueDateDeclined` is set once the user said the task has no due date.
+ */
+export function resolveTaskDialog(
+  intent: Intent,
+  timeZone: string,
+  dueDateDeclined: boolean = false,
+  now: Date = new Date(),
+  locale: string = DEFAULT_LOCALE
+): TaskDialogStep {
+  const taskName = getSlotValue(intent, 'taskName');
+  const parsed = parseTaskFromUserRequest(taskName || '', timeZone, locale);
+  const elicit = (slot: string, prompts: string = slot): TaskDialogStep => ({
+    parsed,
+    elicit: {
+      slot,
+      prompt: translate(locale, ELICIT_PROMPTS[prompts].prompt),
+      reprompt: translate(locale, ELICIT_PROMPTS[prompts].reprompt),
+    },
+    needsConfirmation: false,
+  });
+
+  if (!taskName || !parsed.parsedName) {
+    return elicit('taskName');
+  }
+
+  if (getSlotValue(intent, 'priority')) {
+    const priority = getResolvedId(intent, 'priority');
+    if (!priority) return elicit('priority');
+    parsed.priority = priority as NotionTask['priority'];
+  }
+
+  if (getSlotValue(intent, 'category')) {
+    const category = getResolvedId(intent, 'category');
+    if (!category) return elicit('category');
+    parsed.category = category as NotionTask['category'];
+  }
+
+  const dateValue = getSlotValue(intent, 'dueDate');
+  const timeValue = getSlotValue(intent, 'dueTime');
+  let day = dateValue ? parseDateSlot(dateValue, timeZone, now) : null;
+  const time = timeValue ? parseTimeSlot(timeValue) : null;
+  let needsConfirmation = !!time?.guessed;
+
+  if (dateValue && !day) {
+    return elicit('dueDate', 'ambiguousDueDate');
+  }
+
+  if (!day && time) {
+    // A time on its own means its next occurrence: today, or tomorrow if it has passed
+    day = toDateString(now, timeZone);
+    if (new Date(toDueDateTime(day, time.time, timeZone)) <= now) {
+      day = toDateString(getDayRange(now, timeZone, 1).start, timeZone);
+    }
+    needsConfirmation = true;
+  }
+
+  if (day) {
+    parsed.dueDateTime = time ? toDueDateTime(day, time.time, timeZone) : day;
+  } else if (!parsed.dueDateTime && !dueDateDeclined) {
+    return elicit('dueDate');
+  }
+
+  return { parsed, elicit: null, needsConfirmation };
+}
+
+/**
+ * Whether the intent came from the typed-slot samples (or "add a new task")
+ * rather than the free-form userRequest ones
+ */
+export function isTaskDialogRequest(intent: Intent): boolean {
+  return !getSlotValue(intent, 'userRequest');
+}
+
+// ============================================================================
+// SESSION STATE
+// While Alexa asks "when is it due?", "no" arrives as AMAZON.NoIntent, so the
+// intent being filled in is kept in the session until then
+// ============================================================================
+
+const SESSION_KEY = 'pendingAddTask';
+
+export function storePendingAddTask(handlerInput: HandlerInput, intent: Intent): void {
+  const attributes = handlerInput.attributesManager.getSessionAttributes();
+  attributes[SESSION_KEY] = intent;
+  handlerInput.attributesManager.setSessionAttributes(attributes);
+}
+
+export function getPendingAddTask(handlerInput: HandlerInput): Intent | null {
+  const attributes = handlerInput.attributesManager.getSessionAttributes();
+  return attributes[SESSION_KEY] || null;
+}
+
+export function clearPendingAddTask(handlerInput: HandlerInput): void {
+  const attributes = handlerInput.attributesManager.getSessionAttributes();
+  delete attributes[SESSION_KEY];
+  handlerInput.attributesManager.setSessionAttributes(attributes);
+}
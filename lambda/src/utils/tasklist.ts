@@ -0,0 +1,58 @@
+import { HandlerInput } from 'ask-sdk-core';
+import { NotionTask } from '../types';
+
+// Tasks read per turn; "next" continues with the following page
+export const PAGE_SIZE = 10;
+
+/**
+ * The result of the last query, kept in session attributes so follow-ups
+ * like "next" or "mark number 3 done" can refer to it. Only page IDs are
+ * stored to keep the session small; tasks are re-read when needed.
+ */
+export interface TaskListSession {
+  taskIds: string[];
+  position: number; // Index of the first task on the page read last
+}
+
+/**
+ * A task read out as part of the list, with its number in the whole list
+ */
+export interface NumberedTask {
+  number: number;
+  task: NotionTask;
+}
+
+const SESSION_KEY = 'taskList';
+
+export function storeTaskList(handlerInput: HandlerInput, taskIds: string[], position: number = 0): void {
+  const attributes = handlerInput.attributesManager.getSessionAttributes();
+  attributes[SESSION_KEY] = { taskIds, position } as TaskListSession;
+  handlerInput.attributesManager.setSessionAttributes(attributes);
+}
+
+export function getTaskList(handlerInput: HandlerInput): TaskListSession | null {
+  const attributes = handlerInput.attributesManager.getSessionAttributes();
+  return attributes[SESSION_KEY] || null;
+}
+
+export function clearTaskList(handlerInput: HandlerInput): void {
+  const attributes = handlerInput.attributesManager.getSessionAttributes();
+  delete attributes[SESSION_KEY];
+  handlerInput.attributesManager.setSessionAttributes(attributes);
+}
+
+/**
+ * IDs of the page starting at `position`
+ */
+export function getPageIds(list: TaskListSession, position: number): string[] {
+  return list.taskIds.slice(position, position + PAGE_SIZE);
+}
+
+/**
+ * Page ID for a spoken item number. Numbers count through the whole list,
+ * so "number 12" is the second task on the second page.
+ */
+export function getTaskIdByNumber(list: TaskListSession, itemNumber: number): string | null {
+  if (!Number.isInteger(itemNumber) || itemNumber < 1) return null;
+  return list.taskIds[itemNumber - 1] || null;
+}
@@ -0,0 +1,243 @@
+import { HandlerInput } from 'ask-sdk-core';
+import { User } from '../types';
+import { DEFAULT_LOCALE } from './i18n';
+
+// Used until the device's time zone is known
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The user's cached device time zone, or the default when unknown
+ */
+export function getTimeZone(user?: User | null): string {
+  return user?.time_zone && isValidTimeZone(user.time_zone) ? user.time_zone : DEFAULT_TIME_ZONE;
+}
+
+// ============================================================================
+// WALL-CLOCK CONVERSION
+// Without a time zone these fall back to the Lambda's own clock
+// ============================================================================
+
+/**
+ * The wall-clock time in `timeZone` as a Date whose local fields (getDate,
+ * getHours, ...) read that time. Date arithmetic done on the result with
+ * setDate/setHours happens in the user's zone, not the Lambda's.
+ */
+export function toZonedTime(date: Date, timeZone?: string): Date {
+  if (!timeZone) return new Date(date);
+
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return new Date(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    date.getMilliseconds()
+  );
+}
+
+/**
+ * Minutes `timeZone` is ahead of UTC at `date`
+ */
+export function getTimeZoneOffset(date: Date, timeZone?: string): number {
+  if (!timeZone) return -date.getTimezoneOffset();
+
+  const zoned = toZonedTime(date, timeZone);
+  const asUtc = Date.UTC(
+    zoned.getFullYear(),
+    zoned.getMonth(),
+    zoned.getDate(),
+    zoned.getHours(),
+    zoned.getMinutes(),
+    zoned.getSeconds(),
+    zoned.getMilliseconds()
+  );
+  return Math.round((asUtc - date.getTime()) / 60000);
+}
+
+/**
+ * Inverse of toZonedTime: the instant at which the clock in `timeZone`
+ * shows the local fields of `zoned`
+ */
+export function fromZonedTime(zoned: Date, timeZone?: string): Date {
+  if (!timeZone) return new Date(zoned);
+
+  const asUtc = Date.UTC(
+    zoned.getFullYear(),
+    zoned.getMonth(),
+    zoned.getDate(),
+    zoned.getHours(),
+    zoned.getMinutes(),
+    zoned.getSeconds(),
+    zoned.getMilliseconds()
+  );
+  // The offset can change between the guess and the result around DST
+  // transitions, so check it a second time
+  const offset = getTimeZoneOffset(new Date(asUtc), timeZone);
+  const corrected = getTimeZoneOffset(new Date(asUtc - offset * 60000), timeZone);
+  return new Date(asUtc - corrected * 60000);
+}
+
+// ============================================================================
+// DAY BOUNDARIES
+// ============================================================================
+
+/**
+ * The calendar date (YYYY-MM-DD) of `date` in `timeZone`
+ */
+export function toDateString(date: Date, timeZone?: string): string {
+  const zoned = toZonedTime(date, timeZone);
+  const month = String(zoned.getMonth() + 1).padStart(2, '0');
+  const day = String(zoned.getDate()).padStart(2, '0');
+  return `${zoned.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * First and last instant of the day `date` falls on in `timeZone`, moved
+ * `days` days ahead (e.g. 1 for tomorrow)
+ */
+export function getDayRange(date: Date, timeZone?: string, days: number = 0): { start: Date; end: Date } {
+  const start = toZonedTime(date, timeZone);
+  start.setDate(start.getDate() + days);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setHours(23, 59, 59, 999);
+  return { start: fromZonedTime(start, timeZone), end: fromZonedTime(end, timeZone) };
+}
+
+/**
+ * First and last instant of the Sunday-to-Saturday week `date` falls on in
+ * `timeZone`, moved `weeks` weeks ahead
+ */
+export function getWeekRange(date: Date, timeZone?: string, weeks: number = 0): { start: Date; end: Date } {
+  const zoned = toZonedTime(date, timeZone);
+  const start = getDayRange(date, timeZone, 7 * weeks - zoned.getDay()).start;
+  const end = getDayRange(date, timeZone, 7 * weeks - zoned.getDay() + 6).end;
+  return { start, end };
+}
+
+/**
+ * Reference for chrono so "today" and "at 5pm" are read in the user's zone
+ */
+export function getParsingReference(timeZone?: string, instant: Date = new Date()): { instant: Date; timezone: number } {
+  return { instant, timezone: getTimeZoneOffset(instant, timeZone) };
+}
+
+// ============================================================================
+// SPEECH
+// ============================================================================
+
+function isDateOnly(dueDateTime: string): boolean {
+  return !dueDateTime.includes('T');
+}
+
+/**
+ * Speak a due date as the user's calendar sees it, e.g. "Mar 5".
+ * Date-only values have no time zone and are read as written.
+ */
+export function formatDueDate(
+  dueDateTime: string,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' },
+  locale: string = DEFAULT_LOCALE
+): string {
+  return new Date(dueDateTime).toLocaleDateString(locale, {
+    ...options,
+    timeZone: isDateOnly(dueDateTime) ? 'UTC' : timeZone,
+  });
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) a due date falls on in `timeZone`.
+ * Date-only values are read as written.
+ */
+export function getDueDay(dueDateTime: string, timeZone: string): string {
+  return isDateOnly(dueDateTime) ? dueDateTime.slice(0, 10) : toDateString(new Date(dueDateTime), timeZone);
+}
+
+/**
+ * Time of day of a due date in `timeZone`, e.g. "5:30 PM", or null for
+ * date-only values and midnight
+ */
+export function formatDueTime(
+  dueDateTime: string,
+  timeZone: string,
+  locale: string = DEFAULT_LOCALE
+): string | null {
+  if (isDateOnly(dueDateTime)) return null;
+
+  const zoned = toZonedTime(new Date(dueDateTime), timeZone);
+  if (zoned.getHours() === 0 && zoned.getMinutes() === 0) return null;
+
+  // 12 or 24 hour clock as the locale has it ("5:30 PM", "17:30")
+  return zoned.toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' });
+}
+
+// ============================================================================
+// ALEXA SETTINGS API
+// ============================================================================
+
+/**
+ * Look up the device's time zone with the Alexa Settings API.
+ * DEVICE_TIME_ZONE stands in for the API in tests and local runs.
+ */
+export async function fetchDeviceTimeZone(handlerInput: HandlerInput): Promise<string | null> {
+  const override = process.env.DEVICE_TIME_ZONE;
+  if (override) {
+    return isValidTimeZone(override) ? override : null;
+  }
+
+  const system = handlerInput.requestEnvelope.context?.System;
+  const deviceId = system?.device?.deviceId;
+  if (!system?.apiEndpoint || !system.apiAccessToken || !deviceId) {
+    return null;
+  }
+
+  const response = await fetch(
+    `${system.apiEndpoint}/v2/devices/${encodeURIComponent(deviceId)}/settings/System.timeZone`,
+    { headers: { 'Authorization': `Bearer ${system.apiAccessToken}` } }
+  );
+
+  if (!response.ok) {
+    console.warn('[fetchDeviceTimeZone] Settings API returned', response.status);
+    return null;
+  }
+
+  const timeZone = await response.json();
+  return typeof timeZone === 'string' && isValidTimeZone(timeZone) ? timeZone : null;
+}
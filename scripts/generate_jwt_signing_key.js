@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+
+/**
+ * Key Generation Script: New Access Token Signing Key
+ *
+ * This script:
+ * 1. Generates an ES256 (P-256) or RS256 (2048-bit) key pair
+ * 2. Gives it a kid based on today's date
+ * 3. Prints the new JWT_SIGNING_KEYS value: the new key first, followed by
+ *    the current keys (read from JWT_SIGNING_KEYS), so they stay published
+ *
+ * To rotate: set the printed value on Vercel and redeploy. Tokens signed with
+ * the old key keep verifying; once JWT_EXPIRES_IN has passed, remove the old
+ * key from the list.
+ *
+ * The format matches web-login/lib/jwks.ts.
+ *
+ * Usage:
+ *   node scripts/generate_jwt_signing_key.js
+ *   node scripts/generate_jwt_signing_key.js --alg RS256
+ */
+
+const crypto = require('crypto');
+
+// Load environment variables
+require('dotenv').config({ path: '.env.local' });
+
+const algIndex = process.argv.indexOf('--alg');
+const alg = algIndex === -1 ? 'ES256' : process.argv[algIndex + 1];
+
+if (alg !== 'ES256' && alg !== 'RS256') {
+  console.error('❌ --alg must be ES256 or RS256');
+  process.exit(1);
+}
+
+let currentKeys = [];
+if (process.env.JWT_SIGNING_KEYS) {
+  try {
+    currentKeys = JSON.parse(process.env.JWT_SIGNING_KEYS);
+  } catch (error) {
+    console.error('❌ JWT_SIGNING_KEYS is not valid JSON:', error.message);
+    process.exit(1);
+  }
+}
+
+const { privateKey } = alg === 'ES256'
+  ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+  : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const kid = `${new Date().toISOString().slice(0, 10)}-${crypto.randomBytes(4).toString('hex')}`;
+const jwk = { ...privateKey.export({ format: 'jwk' }), kid, alg };
+
+console.error(`✅ Generated ${alg} signing key ${kid}`);
+if (currentKeys.length > 0) {
+  console.error(`   Keeping ${currentKeys.map(key => key.kid).join(', ')} for the overlap period`);
+}
+console.error('\nJWT_SIGNING_KEYS=');
+console.log(JSON.stringify([jwk, ...currentKeys]));
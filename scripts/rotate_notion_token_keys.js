@@ -0,0 +1,280 @@
+#!/usr/bin/env node
+
+/**
+ * Key Rotation Script: Re-encrypt Notion Tokens with the Current Key
+ *
+ * This script:
+ * 1. Reads every users row with a notion_token
+ * 2. Decrypts tokens that are plaintext (saved before encryption) or
+ *    encrypted with a previous key (NOTION_TOKEN_KEK_PREVIOUS)
+ * 3. Re-encrypts them with a new data key wrapped by NOTION_TOKEN_KEK
+ * 4. Logs results and provides preview mode
+ *
+ * To rotate: set NOTION_TOKEN_KEK to the new key and NOTION_TOKEN_KEK_PREVIOUS
+ * to the old one (on Vercel and the Lambda too), run this with --apply, then
+ * remove the old key once no rows use it.
+ *
+ * The format matches lambda/src/utils/tokenCrypto.ts and web-login/lib/token-crypto.ts.
+ *
+ * Usage:
+ *   node scripts/rotate_notion_token_keys.js --preview
+ *   node scripts/rotate_notion_token_keys.js --apply
+ */
+
+const { createClient } = require('@supabase/supabase-js');
+const crypto = require('crypto');
+
+// Load environment variables
+require('dotenv').config({ path: '.env.local' });
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY;
+const PAGE_SIZE = 500;
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+  console.error('❌ Missing Supabase credentials');
+  console.error('Please set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_KEY');
+  process.exit(1);
+}
+
+if (!process.env.NOTION_TOKEN_KEK) {
+  console.error('❌ Missing NOTION_TOKEN_KEK');
+  console.error('Please set NOTION_TOKEN_KEK to the key tokens should be encrypted with');
+  process.exit(1);
+}
+
+/**
+ * Parse a key given as `<id>:<base64 of 32 bytes>`
+ */
+function parseKey(spec) {
+  const separator = spec.indexOf(':');
+  const id = spec.slice(0, separator).trim();
+  const key = Buffer.from(spec.slice(separator + 1).trim(), 'base64');
+
+  if (separator <= 0 || !/^[\w-]+$/.test(id) || key.length !== KEY_BYTES) {
+    throw new Error(`Invalid Notion token key: expected "<id>:<base64 of ${KEY_BYTES} bytes>"`);
+  }
+  return { id, key };
+}
+
+const currentKey = parseKey(process.env.NOTION_TOKEN_KEK);
+const keys = [
+  currentKey,
+  ...(process.env.NOTION_TOKEN_KEK_PREVIOUS || '')
+    .split(',')
+    .map((spec) => spec.trim())
+    .filter(Boolean)
+    .map(parseKey),
+];
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+function seal(key, plaintext) {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, ciphertext, tag: cipher.getAuthTag() };
+}
+
+function open(key, iv, ciphertext, tag) {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function isEncrypted(value) {
+  return value.startsWith('enc:');
+}
+
+function getKeyId(value) {
+  return isEncrypted(value) ? value.split(':')[2] : null;
+}
+
+/**
+ * Encrypt a token with a new data key wrapped by the current key
+ */
+function encryptToken(token) {
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  const wrapped = seal(currentKey.key, dataKey);
+  const sealed = seal(dataKey, Buffer.from(token, 'utf8'));
+
+  return [
+    'enc',
+    'v1',
+    currentKey.id,
+    Buffer.concat([wrapped.iv, wrapped.ciphertext, wrapped.tag]).toString('base64'),
+    sealed.iv.toString('base64'),
+    sealed.ciphertext.toString('base64'),
+    sealed.tag.toString('base64'),
+  ].join(':');
+}
+
+/**
+ * Decrypt a stored token; plaintext tokens are returned as they are
+ */
+function decryptToken(value) {
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  const parts = value.split(':');
+  if (parts.length !== 7 || parts[1] !== 'v1') {
+    throw new Error(`Unsupported Notion token format: ${parts.slice(0, 2).join(':')}`);
+  }
+
+  const [, , kekId, wrappedKey, iv, ciphertext, tag] = parts;
+  const kek = keys.find((key) => key.id === kekId);
+  if (!kek) {
+    throw new Error(`Encrypted with unknown key "${kekId}" (add it to NOTION_TOKEN_KEK_PREVIOUS)`);
+  }
+
+  const wrapped = Buffer.from(wrappedKey, 'base64');
+  const dataKey = open(
+    kek.key,
+    wrapped.subarray(0, IV_BYTES),
+    wrapped.subarray(IV_BYTES, wrapped.length - TAG_BYTES),
+    wrapped.subarray(wrapped.length - TAG_BYTES)
+  );
+
+  return open(
+    dataKey,
+    Buffer.from(iv, 'base64'),
+    Buffer.from(ciphertext, 'base64'),
+    Buffer.from(tag, 'base64')
+  ).toString('utf8');
+}
+
+/**
+ * Main rotation function
+ */
+async function rotateKeys(preview = true) {
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`Rotation Mode: ${preview ? 'PREVIEW' : 'APPLY'}`);
+  console.log(`Current key: ${currentKey.id}`);
+  console.log(`${'='.repeat(60)}\n`);
+
+  const results = {
+    processed: 0,
+    rotated: 0,
+    skipped: 0,
+    errors: 0,
+  };
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: users, error: usersError } = await supabase
+      .from('users')
+      .select('id, email, notion_token')
+      .not('notion_token', 'is', null)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (usersError) {
+      console.error('❌ Error fetching users:', usersError);
+      process.exit(1);
+    }
+
+    for (const user of users) {
+      results.processed++;
+      const keyId = getKeyId(user.notion_token);
+
+      if (keyId === currentKey.id) {
+        results.skipped++;
+        continue;
+      }
+
+      try {
+        const encrypted = encryptToken(decryptToken(user.notion_token));
+        const source = keyId ? `key ${keyId}` : 'plaintext';
+
+        if (preview) {
+          console.log(`📋 Would re-encrypt ${user.email} (${source})`);
+          results.rotated++;
+          continue;
+        }
+
+        // Only if the token hasn't changed since it was read, so a user
+        // reconnecting Notion meanwhile keeps their new token
+        const { data: updated, error: updateError } = await supabase
+          .from('users')
+          .update({ notion_token: encrypted })
+          .eq('id', user.id)
+          .eq('notion_token', user.notion_token)
+          .select('id');
+
+        if (updateError) {
+          console.error(`❌ Error updating ${user.email}:`, updateError.message);
+          results.errors++;
+        } else if (!updated || updated.length === 0) {
+          console.log(`ℹ️  ${user.email} changed while rotating, skipping`);
+          results.skipped++;
+        } else {
+          console.log(`✅ Re-encrypted ${user.email} (${source})`);
+          results.rotated++;
+        }
+      } catch (error) {
+        console.error(`❌ Error processing ${user.email}:`, error.message);
+        results.errors++;
+      }
+    }
+
+    if (users.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  // Print summary
+  console.log(`\n${'='.repeat(60)}`);
+  console.log('Rotation Summary:');
+  console.log(`${'='.repeat(60)}`);
+  console.log(`Processed: ${results.processed}`);
+  console.log(`${preview ? 'To re-encrypt' : 'Re-encrypted'}: ${results.rotated}`);
+  console.log(`Skipped: ${results.skipped}`);
+  console.log(`Errors: ${results.errors}`);
+  console.log(`${'='.repeat(60)}\n`);
+
+  if (preview) {
+    console.log('💡 This was a preview. Run with --apply to actually re-encrypt tokens.\n');
+  } else if (results.errors === 0) {
+    console.log('✅ Rotation complete! Previous keys can be removed from NOTION_TOKEN_KEK_PREVIOUS.\n');
+  } else {
+    console.log('⚠️  Some tokens could not be re-encrypted. Keep the previous keys until they are fixed.\n');
+  }
+
+  return results;
+}
+
+// Main execution
+const args = process.argv.slice(2);
+const preview = !args.includes('--apply');
+
+if (args.includes('--help') || args.includes('-h')) {
+  console.log(`
+Usage: node scripts/rotate_notion_token_keys.js [options]
+
+Options:
+  --preview    Preview rotation without applying (default)
+  --apply      Actually re-encrypt the tokens
+  --help, -h   Show this help message
+
+Environment Variables Required:
+  - NEXT_PUBLIC_SUPABASE_URL or SUPABASE_URL
+  - SUPABASE_SERVICE_KEY
+  - NOTION_TOKEN_KEK (the key to encrypt with, "<id>:<base64 of 32 bytes>")
+  - NOTION_TOKEN_KEK_PREVIOUS (optional, comma separated keys being rotated out)
+  `);
+  process.exit(0);
+}
+
+rotateKeys(preview)
+  .then((results) => {
+    process.exit(results.errors > 0 ? 1 : 0);
+  })
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,97 @@
+// Scope handling and the consent step in the authorization endpoint
+import { NextRequest } from 'next/server';
+import { createFakeSupabase } from '../helpers/fake-supabase';
+import { normalizeScope } from '@/lib/scopes';
+
+let supabase = createFakeSupabase();
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: () => supabase,
+}));
+
+jest.mock('@/lib/jwt', () => ({
+  verifyWebsiteToken: (token: string) =>
+    token === 'session-1' ? { sub: 'user-123', email: 'test@example.com' } : null,
+}));
+
+import { GET as authorize } from '@/app/api/oauth/authorize/route';
+
+const REDIRECT_URI = 'https://layla.amazon.com/api/skill/link/M123';
+
+function authorizeRequest(params: Record<string, string>) {
+  const query = new URLSearchParams({
+    response_type: 'code',
+    client_id: 'alexa',
+    redirect_uri: REDIRECT_URI,
+    state: 'xyz',
+    _session_token: 'session-1',
+    ...params,
+  });
+  return authorize(new NextRequest(`http://localhost/api/oauth/authorize?${query}`));
+}
+
+const location = (response: Response) => new URL(response.headers.get('location')!);
+
+describe('Authorization Endpoint Scopes', () => {
+  beforeEach(() => {
+    process.env.ALEXA_OAUTH_CLIENT_ID = 'alexa';
+    process.env.ALEXA_REDIRECT_URIS = 'https://layla.amazon.com/';
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://supabase.local';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon';
+    process.env.SKIP_LICENSE_CHECK = 'true';
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    supabase = createFakeSupabase({
+      users: [{ id: 'user-123', email: 'test@example.com', notion_token: 'enc:v1:...', notion_setup_complete: true }],
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should normalize requested scopes', () => {
+    expect(normalizeScope('tasks:delete tasks:read')).toBe('tasks:read tasks:delete');
+    expect(normalizeScope('alexa')).toBe('tasks:read tasks:write tasks:delete');
+    expect(normalizeScope(null)).toBe('tasks:read');
+    expect(normalizeScope(' ')).toBe('tasks:read');
+    expect(normalizeScope('tasks:read admin')).toBeNull();
+  });
+
+  it('should reject unknown scopes', async () => {
+    const response = await authorizeRequest({ scope: 'tasks:read tasks:everything' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'invalid_scope' });
+  });
+
+  it('should send the user to the consent screen first', async () => {
+    const response = await authorizeRequest({ scope: 'tasks:write tasks:read' });
+    const consentUrl = location(response);
+
+    expect(consentUrl.pathname).toBe('/alexa/link');
+    expect(consentUrl.searchParams.get('scope')).toBe('tasks:read tasks:write');
+    expect(consentUrl.searchParams.get('state')).toBe('xyz');
+    expect(consentUrl.searchParams.has('_session_token')).toBe(false);
+    expect(supabase.tables.oauth_authorization_codes).toBeUndefined();
+  });
+
+  it('should issue a code for the approved scopes', async () => {
+    const response = await authorizeRequest({ scope: 'tasks:read', consent: 'granted' });
+    const redirectUrl = location(response);
+
+    expect(redirectUrl.toString()).toMatch(new RegExp(`^${REDIRECT_URI}`));
+    expect(redirectUrl.searchParams.get('state')).toBe('xyz');
+    expect(supabase.tables.oauth_authorization_codes).toEqual([
+      expect.objectContaining({ code: redirectUrl.searchParams.get('code'), scope: 'tasks:read' }),
+    ]);
+  });
+
+  it('should report a denial to the client', async () => {
+    const redirectUrl = location(await authorizeRequest({ consent: 'denied' }));
+
+    expect(redirectUrl.searchParams.get('error')).toBe('access_denied');
+    expect(redirectUrl.searchParams.get('state')).toBe('xyz');
+    expect(redirectUrl.searchParams.has('code')).toBe(false);
+  });
+});
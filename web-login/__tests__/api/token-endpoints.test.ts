@@ -0,0 +1,263 @@
+// Conformance tests for token introspection (RFC 7662) and revocation
+// (RFC 7009), against an in-memory Supabase
+import { NextRequest } from 'next/server';
+import { createFakeSupabase } from '../helpers/fake-supabase';
+
+let supabase = createFakeSupabase();
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: () => supabase,
+}));
+
+// Read when lib/jwt is loaded
+process.env.JWT_SECRET = 'test-secret';
+
+import { POST as introspect } from '@/app/api/auth/introspect/route';
+import { POST as revoke } from '@/app/api/auth/revoke/route';
+import { signAccessToken, signWebsiteToken } from '@/lib/jwt';
+
+const HOUR = 60 * 60 * 1000;
+const inAnHour = () => new Date(Date.now() + HOUR).toISOString();
+
+const basic = (id: string, secret: string) =>
+  `Basic ${Buffer.from(`${encodeURIComponent(id)}:${encodeURIComponent(secret)}`).toString('base64')}`;
+
+const ALEXA = basic('alexa', 'alexa-secret');
+const LAMBDA = basic('skill-lambda', 'lambda secret/+');
+
+function post(url: string, params: Record<string, string>, authorization: string | null): NextRequest {
+  const headers: Record<string, string> = { 'content-type': 'application/x-www-form-urlencoded' };
+  if (authorization) headers.authorization = authorization;
+  return new NextRequest(`http://localhost${url}`, {
+    method: 'POST',
+    headers,
+    body: new URLSearchParams(params).toString(),
+  });
+}
+
+const introspectRequest = (params: Record<string, string>, authorization: string | null = LAMBDA) =>
+  introspect(post('/api/auth/introspect', params, authorization));
+
+const revokeRequest = (params: Record<string, string>, authorization: string | null = ALEXA) =>
+  revoke(post('/api/auth/revoke', params, authorization));
+
+describe('Token Endpoints', () => {
+  beforeEach(() => {
+    process.env.ALEXA_OAUTH_CLIENT_ID = 'alexa';
+    process.env.ALEXA_OAUTH_CLIENT_SECRET = 'alexa-secret';
+    process.env.INTROSPECT_CLIENT_ID = 'skill-lambda';
+    process.env.INTROSPECT_CLIENT_SECRET = 'lambda secret/+';
+
+    supabase = createFakeSupabase({
+      users: [{
+        id: 'user-123',
+        email: 'test@example.com',
+        license_key: 'pi_123',
+        tasks_db_id: 'db-1',
+        amazon_account_id: 'amzn-1',
+      }],
+      licenses: [{ stripe_payment_intent_id: 'pi_123', status: 'active' }],
+      oauth_access_tokens: [
+        {
+          token: 'access-1',
+          user_id: 'user-123',
+          client_id: 'alexa',
+          scope: 'alexa',
+          family_id: 'family-1',
+          issued_at: '2024-03-01T12:00:00Z',
+          expires_at: inAnHour(),
+          revoked: false,
+        },
+        {
+          token: 'access-expired',
+          user_id: 'user-123',
+          client_id: 'alexa',
+          scope: 'alexa',
+          expires_at: new Date(Date.now() - HOUR).toISOString(),
+          revoked: false,
+        },
+        {
+          token: 'access-other-client',
+          user_id: 'user-123',
+          client_id: 'other',
+          scope: 'alexa',
+          expires_at: inAnHour(),
+          revoked: false,
+        },
+      ],
+      oauth_refresh_tokens: [
+        { token: 'refresh-1', user_id: 'user-123', client_id: 'alexa', scope: 'alexa', family_id: 'family-1', revoked: false, consumed_at: null },
+        { token: 'refresh-2', user_id: 'user-123', client_id: 'alexa', scope: 'alexa', family_id: 'family-1', revoked: false, consumed_at: null },
+        { token: 'refresh-used', user_id: 'user-123', client_id: 'alexa', scope: 'alexa', family_id: 'family-2', revoked: false, consumed_at: '2024-03-01T12:00:00Z' },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('introspection (RFC 7662)', () => {
+    it('should describe an active access token', async () => {
+      const response = await introspectRequest({ token: 'access-1', token_type_hint: 'access_token' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('cache-control')).toBe('no-store');
+      expect(await response.json()).toEqual({
+        active: true,
+        scope: 'alexa',
+        client_id: 'alexa',
+        sub: 'user-123',
+        exp: Math.floor(new Date(supabase.tables.oauth_access_tokens[0].expires_at).getTime() / 1000),
+        iat: Math.floor(Date.parse('2024-03-01T12:00:00Z') / 1000),
+        token_type: 'Bearer',
+        user_id: 'user-123',
+        email: 'test@example.com',
+        license_active: true,
+        notion_db_id: 'db-1',
+        amazon_account_id: 'amzn-1',
+      });
+    });
+
+    it('should describe refresh tokens, with or without the hint', async () => {
+      const requests: Record<string, string>[] = [{ token: 'refresh-1', token_type_hint: 'refresh_token' }, { token: 'refresh-1' }];
+      for (const params of requests) {
+        const body = await (await introspectRequest(params)).json();
+        expect(body).toMatchObject({ active: true, sub: 'user-123', client_id: 'alexa', scope: 'alexa' });
+        expect(body.token_type).toBeUndefined();
+        expect(body.exp).toBeUndefined();
+      }
+    });
+
+    it('should look past a wrong hint', async () => {
+      const body = await (await introspectRequest({ token: 'access-1', token_type_hint: 'refresh_token' })).json();
+      expect(body).toMatchObject({ active: true, token_type: 'Bearer' });
+    });
+
+    it.each([
+      ['unknown', 'no-such-token'],
+      ['expired', 'access-expired'],
+      ['consumed', 'refresh-used'],
+    ])('should answer only { active: false } for %s tokens', async (_, token) => {
+      const response = await introspectRequest({ token });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ active: false });
+    });
+
+    it('should require client authentication', async () => {
+      for (const authorization of [null, basic('skill-lambda', 'wrong'), basic('nobody', 'x'), 'Basic !!!']) {
+        const response = await introspectRequest({ token: 'access-1' }, authorization);
+        expect(response.status).toBe(401);
+        expect(response.headers.get('www-authenticate')).toMatch(/^Basic/);
+        expect(await response.json()).toMatchObject({ error: 'invalid_client' });
+      }
+    });
+
+    it('should accept client credentials in the body', async () => {
+      const response = await introspectRequest(
+        { token: 'access-1', client_id: 'alexa', client_secret: 'alexa-secret' },
+        null
+      );
+      expect(await response.json()).toMatchObject({ active: true });
+    });
+
+    it('should require the token parameter', async () => {
+      const response = await introspectRequest({ token_type_hint: 'access_token' });
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: 'invalid_request' });
+    });
+
+    it('should still answer older Lambdas presenting the access token as a Bearer header', async () => {
+      const bearer = (token: string) => introspect(new NextRequest('http://localhost/api/auth/introspect', {
+        method: 'POST',
+        headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+      }));
+
+      expect(await (await bearer('access-1')).json()).toMatchObject({ active: true, user_id: 'user-123' });
+      expect(await (await bearer('refresh-1')).json()).toEqual({ active: false });
+    });
+
+    it('should still describe legacy base64 tokens', async () => {
+      const legacy = (claims: object) => Buffer.from(JSON.stringify(claims)).toString('base64');
+
+      const body = await (await introspectRequest({ token: legacy({ amazon_account_id: 'amzn-1', timestamp: 1 }) })).json();
+      expect(body).toMatchObject({ active: true, scope: 'alexa', token_type: 'Bearer', user_id: 'user-123', license_active: true });
+
+      const unknown = await introspectRequest({ token: legacy({ amazon_account_id: 'amzn-unknown' }) });
+      expect(await unknown.json()).toEqual({ active: false });
+    });
+
+    it('should still describe JWT access tokens that were never stored', async () => {
+      const token = signAccessToken({ userId: 'user-123', email: 'test@example.com', scope: 'tasks:read' });
+
+      const body = await (await introspectRequest({ token })).json();
+      expect(body).toMatchObject({ active: true, scope: 'tasks:read', sub: 'user-123', token_type: 'Bearer', notion_db_id: 'db-1' });
+      expect(body.exp).toBeGreaterThan(Date.now() / 1000);
+    });
+
+    it('should not accept website session JWTs or forged ones', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const session = signWebsiteToken({ userId: 'user-123', email: 'test@example.com' });
+      const forged = signAccessToken({ userId: 'user-123', email: 'test@example.com' }).slice(0, -2) + 'xx';
+
+      for (const token of [session, forged]) {
+        expect(await (await introspectRequest({ token })).json()).toEqual({ active: false });
+      }
+    });
+  });
+
+  describe('revocation (RFC 7009)', () => {
+    it('should revoke an access token', async () => {
+      const response = await revokeRequest({ token: 'access-1', token_type_hint: 'access_token' });
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe('');
+      expect(await (await introspectRequest({ token: 'access-1' })).json()).toEqual({ active: false });
+    });
+
+    it('should revoke a refresh token and its family, whatever the hint', async () => {
+      const response = await revokeRequest({ token: 'refresh-1', token_type_hint: 'access_token' });
+
+      expect(response.status).toBe(200);
+      expect(await (await introspectRequest({ token: 'refresh-1' })).json()).toEqual({ active: false });
+      expect(await (await introspectRequest({ token: 'refresh-2' })).json()).toEqual({ active: false });
+      expect(supabase.tables.oauth_refresh_tokens[2].revoked).toBe(false);
+    });
+
+    it('should revoke the access tokens issued with a revoked refresh token', async () => {
+      await revokeRequest({ token: 'refresh-2' });
+
+      expect(await (await introspectRequest({ token: 'access-1' })).json()).toEqual({ active: false });
+      expect(supabase.tables.oauth_access_tokens[2].revoked).toBe(false);
+    });
+
+    it('should answer 200 for unknown tokens', async () => {
+      const response = await revokeRequest({ token: 'no-such-token' });
+      expect(response.status).toBe(200);
+    });
+
+    it('should not revoke tokens issued to another client', async () => {
+      const response = await revokeRequest({ token: 'access-other-client' });
+
+      expect(response.status).toBe(200);
+      expect(supabase.tables.oauth_access_tokens[2].revoked).toBe(false);
+    });
+
+    it('should require client authentication', async () => {
+      const response = await revokeRequest({ token: 'access-1' }, basic('alexa', 'wrong'));
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toMatchObject({ error: 'invalid_client' });
+      expect(supabase.tables.oauth_access_tokens[0].revoked).toBe(false);
+    });
+
+    it('should require the token parameter', async () => {
+      const response = await revokeRequest({});
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: 'invalid_request' });
+    });
+  });
+});
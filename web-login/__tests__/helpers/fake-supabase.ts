@@ -0,0 +1,126 @@
+// In-memory stand-in for the Supabase query builder, covering the calls lib/
+// code makes: select/insert/update/delete with eq/is/gt/lt filters and
+// single/maybeSingle. Rows are plain objects in `tables`.
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+class FakeQuery implements PromiseLike<{ data: any; error: any }> {
+  private op: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private values: any = null;
+  private filters: Filter[] = [];
+  private returning = false;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private rows: Row[]) {}
+
+  select(_columns?: string) {
+    if (this.op !== 'select') this.returning = true;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.op = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  update(values: Row) {
+    this.op = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete() {
+    this.op = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  is(column: string, value: any) {
+    this.filters.push(row => (row[column] ?? null) === value);
+    return this;
+  }
+
+  gt(column: string, value: any) {
+    this.filters.push(row => row[column] > value);
+    return this;
+  }
+
+  lt(column: string, value: any) {
+    this.filters.push(row => row[column] < value);
+    return this;
+  }
+
+  order() {
+    return this;
+  }
+
+  limit() {
+    return this;
+  }
+
+  single() {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then<T1 = { data: any; error: any }, T2 = never>(
+    onFulfilled?: ((value: { data: any; error: any }) => T1 | PromiseLike<T1>) | null,
+    onRejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve(this.execute()).then(onFulfilled, onRejected);
+  }
+
+  private execute(): { data: any; error: any } {
+    const matches = (row: Row) => this.filters.every(filter => filter(row));
+    let result: Row[];
+
+    if (this.op === 'insert') {
+      result = (Array.isArray(this.values) ? this.values : [this.values]).map((row: Row) => ({ ...row }));
+      this.rows.push(...result);
+    } else if (this.op === 'update') {
+      result = this.rows.filter(matches);
+      result.forEach(row => Object.assign(row, this.values));
+    } else if (this.op === 'delete') {
+      result = this.rows.filter(matches);
+      result.forEach(row => this.rows.splice(this.rows.indexOf(row), 1));
+    } else {
+      result = this.rows.filter(matches);
+    }
+
+    if (this.op !== 'select' && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    const data = result.map(row => ({ ...row }));
+    if (this.mode === 'single') {
+      return data.length === 1
+        ? { data: data[0], error: null }
+        : { data: null, error: { code: 'PGRST116', message: `Expected 1 row, got ${data.length}` } };
+    }
+    if (this.mode === 'maybeSingle') {
+      return { data: data[0] ?? null, error: null };
+    }
+    return { data, error: null };
+  }
+}
+
+export function createFakeSupabase(tables: Record<string, Row[]> = {}) {
+  return {
+    tables,
+    from(table: string) {
+      tables[table] = tables[table] || [];
+      return new FakeQuery(tables[table]);
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { signAccessToken, verifyAccessToken } from '@/lib/jwt';
+import { getPublicJwks, getSigningKeys } from '@/lib/jwks';
+import { GET as jwksRoute } from '@/app/.well-known/jwks.json/route';
+
+function generateJwk(kid: string, alg: 'ES256' | 'RS256'): Record<string, any> {
+  const { privateKey } = alg === 'ES256'
+    ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { ...privateKey.export({ format: 'jwk' }), kid, alg };
+}
+
+const publicOnly = ({ d, p, q, dp, dq, qi, ...jwk }: Record<string, any>) => jwk;
+
+const ES_KEY = generateJwk('key-2024-01', 'ES256');
+const RS_KEY = generateJwk('key-2024-06', 'RS256');
+
+const setKeys = (...keys: Record<string, any>[]) => {
+  process.env.JWT_SIGNING_KEYS = JSON.stringify(keys);
+};
+
+const sign = () => signAccessToken({ userId: 'user-123', email: 'test@example.com', scope: 'alexa' });
+
+describe('JWKS Signing Keys', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.JWT_SIGNING_KEYS;
+    jest.restoreAllMocks();
+  });
+
+  it.each([[ES_KEY], [RS_KEY]])('should sign with the current key and its kid', (key) => {
+    setKeys(key);
+    const token = sign();
+
+    expect(jwt.decode(token, { complete: true })?.header).toMatchObject({ alg: key.alg, kid: key.kid });
+    expect(verifyAccessToken(token)).toMatchObject({ sub: 'user-123', scope: 'alexa' });
+  });
+
+  it('should publish only public keys', async () => {
+    setKeys(RS_KEY, publicOnly(ES_KEY));
+
+    const response = await jwksRoute();
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.keys.map((key: any) => [key.kid, key.alg, key.use])).toEqual([
+      ['key-2024-06', 'RS256', 'sig'],
+      ['key-2024-01', 'ES256', 'sig'],
+    ]);
+    expect(JSON.stringify(body)).not.toMatch(/"(d|p|q|dp|dq|qi)":/);
+  });
+
+  it('should keep verifying tokens from the previous key during the overlap', () => {
+    setKeys(ES_KEY);
+    const oldToken = sign();
+
+    setKeys(RS_KEY, publicOnly(ES_KEY));
+    expect(verifyAccessToken(oldToken)).toMatchObject({ sub: 'user-123' });
+    expect(jwt.decode(sign(), { complete: true })?.header.kid).toBe('key-2024-06');
+
+    setKeys(RS_KEY);
+    expect(verifyAccessToken(oldToken)).toBeNull();
+  });
+
+  it('should reject a token whose header names another key\'s algorithm', () => {
+    setKeys(ES_KEY);
+    const [, payload] = sign().split('.');
+    const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT', kid: ES_KEY.kid })).toString('base64url');
+    const secret = crypto.createPublicKey({ key: ES_KEY as crypto.JsonWebKey, format: 'jwk' })
+      .export({ type: 'spki', format: 'pem' });
+    const signature = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+
+    expect(verifyAccessToken(`${header}.${payload}.${signature}`)).toBeNull();
+  });
+
+  it('should refuse misconfigured keys', async () => {
+    setKeys(publicOnly(ES_KEY));
+    expect(() => getSigningKeys()).toThrow(/must be a private key/);
+
+    setKeys({ ...ES_KEY, alg: 'RS256' });
+    expect(() => getSigningKeys()).toThrow(/does not match/);
+
+    setKeys({ ...ES_KEY, alg: 'HS256' });
+    expect(() => getPublicJwks()).toThrow(/unsupported alg/);
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect((await jwksRoute()).status).toBe(500);
+  });
+
+  it('should publish an empty set without signing keys', () => {
+    expect(getPublicJwks()).toEqual({ keys: [] });
+  });
+});
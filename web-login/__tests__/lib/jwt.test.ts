@@ -1,10 +1,10 @@
-import { signAccessToken, verifyAccessToken, isLegacyToken, parseLegacyToken } from '@/lib/jwt';
-
-// Mock environment variables
+// Mock environment variables (read when lib/jwt is loaded)
 process.env.JWT_SECRET = 'test-secret-key-min-32-characters-long';
 process.env.JWT_EXPIRES_IN = '3600';
 process.env.APP_ISS = 'https://test.example.com';
 
+import { signAccessToken, verifyAccessToken, isLegacyToken, parseLegacyToken } from '@/lib/jwt';
+
 describe('JWT Utilities', () => {
   describe('signAccessToken', () => {
     it('should sign a valid JWT token', () => {
@@ -0,0 +1,134 @@
+import { createFakeSupabase } from '../helpers/fake-supabase';
+
+let supabase = createFakeSupabase();
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: () => supabase,
+}));
+
+import { issueAccessToken, consumeRefreshToken } from '@/lib/oauth';
+
+const refreshToken = (token: string, overrides: Record<string, any> = {}) => ({
+  token,
+  user_id: 'user-123',
+  client_id: 'alexa',
+  scope: 'alexa',
+  family_id: 'family-1',
+  parent_token: null,
+  revoked: false,
+  consumed_at: null,
+  ...overrides,
+});
+
+describe('OAuth Refresh Tokens', () => {
+  beforeEach(() => {
+    process.env.REFRESH_TOKEN_ENABLED = 'true';
+    supabase = createFakeSupabase({
+      users: [{ id: 'user-123', email: 'test@example.com' }],
+      oauth_refresh_tokens: [refreshToken('refresh-1')],
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.REFRESH_TOKEN_ENABLED;
+  });
+
+  it('should issue a refresh token in a new family with the access token', async () => {
+    const result = await issueAccessToken('user-123', 'alexa', 'alexa');
+
+    expect(result.refresh_token).toBeDefined();
+    const stored = supabase.tables.oauth_refresh_tokens.find(row => row.token === result.refresh_token);
+    expect(stored).toMatchObject({ user_id: 'user-123', scope: 'alexa', parent_token: null });
+    expect(supabase.tables.oauth_access_tokens[0].family_id).toBe(stored!.family_id);
+  });
+
+  it('should consume a refresh token once', async () => {
+    const consumed = await consumeRefreshToken('refresh-1', 'alexa');
+
+    expect(consumed).toEqual({ userId: 'user-123', scope: 'alexa', familyId: 'family-1' });
+    expect(supabase.tables.oauth_refresh_tokens[0].consumed_at).not.toBeNull();
+  });
+
+  it('should keep rotated tokens in the family', async () => {
+    const result = await issueAccessToken('user-123', 'alexa', 'alexa', undefined, undefined, {
+      familyId: 'family-1',
+      parentToken: 'refresh-1',
+    });
+
+    const stored = supabase.tables.oauth_refresh_tokens.find(row => row.token === result.refresh_token);
+    expect(stored).toMatchObject({ family_id: 'family-1', parent_token: 'refresh-1' });
+  });
+
+  it('should revoke the token\'s family and record an event when a consumed token is replayed', async () => {
+    supabase.tables.oauth_access_tokens = [
+      { token: 'access-1', user_id: 'user-123', family_id: 'family-1', revoked: false },
+      { token: 'access-other-device', user_id: 'user-123', family_id: 'family-2', revoked: false },
+    ];
+    supabase.tables.oauth_refresh_tokens[0].consumed_at = new Date(Date.now() - 5 * 60 * 1000).toISOString();
+    supabase.tables.oauth_refresh_tokens.push(
+      refreshToken('refresh-2', { parent_token: 'refresh-1' }),
+      refreshToken('refresh-other-device', { family_id: 'family-2' })
+    );
+
+    expect(await consumeRefreshToken('refresh-1', 'alexa')).toBeNull();
+
+    expect(supabase.tables.oauth_refresh_tokens.map(row => row.revoked)).toEqual([true, true, false]);
+    expect(supabase.tables.oauth_access_tokens.map(row => row.revoked)).toEqual([true, false]);
+    expect(supabase.tables.security_events).toEqual([
+      expect.objectContaining({ user_id: 'user-123', event_type: 'refresh_token_reuse' }),
+    ]);
+
+    // The replacement issued before the reuse no longer works either
+    expect(await consumeRefreshToken('refresh-2', 'alexa')).toBeNull();
+  });
+
+  it('should give a client retrying a refresh the replacement already issued', async () => {
+    await consumeRefreshToken('refresh-1', 'alexa');
+    const first = await issueAccessToken('user-123', 'alexa', 'alexa', undefined, undefined, {
+      familyId: 'family-1',
+      parentToken: 'refresh-1',
+    });
+
+    const retried = await consumeRefreshToken('refresh-1', 'alexa');
+    expect(retried).toEqual({
+      userId: 'user-123',
+      scope: 'alexa',
+      familyId: 'family-1',
+      replacementToken: first.refresh_token,
+    });
+
+    const second = await issueAccessToken('user-123', 'alexa', 'alexa', undefined, undefined, {
+      familyId: 'family-1',
+      parentToken: 'refresh-1',
+      replacementToken: retried!.replacementToken,
+    });
+    expect(second.refresh_token).toBe(first.refresh_token);
+    expect(supabase.tables.oauth_refresh_tokens).toHaveLength(2);
+    expect(supabase.tables.oauth_refresh_tokens.some(row => row.revoked)).toBe(false);
+    expect(supabase.tables.security_events).toBeUndefined();
+  });
+
+  it('should reject expired refresh tokens', async () => {
+    supabase.tables.oauth_refresh_tokens.push(
+      refreshToken('refresh-expired', { expires_at: new Date(Date.now() - 1000).toISOString() })
+    );
+
+    expect(await consumeRefreshToken('refresh-expired', 'alexa')).toBeNull();
+    expect(supabase.tables.oauth_refresh_tokens[1].consumed_at).toBeNull();
+
+    const issued = await issueAccessToken('user-123', 'alexa', 'alexa');
+    const stored = supabase.tables.oauth_refresh_tokens.find(row => row.token === issued.refresh_token);
+    expect(new Date(stored!.expires_at).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should reject unknown, revoked and other clients\' tokens', async () => {
+    supabase.tables.oauth_refresh_tokens.push(refreshToken('refresh-revoked', { revoked: true }));
+
+    expect(await consumeRefreshToken('unknown', 'alexa')).toBeNull();
+    expect(await consumeRefreshToken('refresh-revoked', 'alexa')).toBeNull();
+    expect(await consumeRefreshToken('refresh-1', 'other-client')).toBeNull();
+
+    expect(supabase.tables.oauth_refresh_tokens[0].consumed_at).toBeNull();
+    expect(supabase.tables.security_events).toBeUndefined();
+  });
+});
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getPublicJwks } from '@/lib/jwks';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * JSON Web Key Set
+ * GET /.well-known/jwks.json
+ *
+ * Public keys for verifying access tokens, looked up by the kid in the token
+ * header. Lists the current signing key and any previous keys still in their
+ * overlap period. Verifiers may cache it briefly and should refetch when they
+ * meet an unknown kid.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(getPublicJwks(), {
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+  } catch (error: any) {
+    console.error('[JWKS] Error:', error);
+    return NextResponse.json(
+      { error: 'server_error', error_description: 'Signing keys are misconfigured' },
+      { status: 500 }
+    );
+  }
+}
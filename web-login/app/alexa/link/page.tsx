@@ -6,11 +6,12 @@ import { supabase } from '@/lib/supabase';
 import { Header } from '@/app/components/Header';
 import { Card } from '@/app/components/Card';
 import { Button } from '@/app/components/Button';
+import { SCOPE_DESCRIPTIONS, parseScope } from '@/lib/scopes';
 
 function AlexaLinkContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const [loading, setLoading] = useState(false);
+  const [loading, setLoading] = useState<'granted' | 'denied' | null>(null);
   const [error, setError] = useState('');
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [checkingAuth, setCheckingAuth] = useState(true);
@@ -20,6 +21,9 @@ function AlexaLinkContent() {
                          searchParams.get('client_id') && 
                          searchParams.get('redirect_uri');
 
+  // What the device asks to do, shown for the user to approve
+  const requestedScopes = parseScope(searchParams.get('scope'));
+
   useEffect(() => {
     checkAuth();
   }, []);
@@ -35,20 +39,27 @@ function AlexaLinkContent() {
     }
   };
 
-  const handleAuthorize = async () => {
+  const handleAuthorize = async (consent: 'granted' | 'denied') => {
     if (!hasAlexaParams) {
       return;
     }
 
-    setLoading(true);
+    setLoading(consent);
     setError('');
 
     try {
-      // Build the authorize URL with all query parameters
+      // Build the authorize URL with all query parameters, the user's answer
+      // and the session token the authorize endpoint authenticates with
       const params = new URLSearchParams();
       searchParams.forEach((value, key) => {
         params.append(key, value);
       });
+      params.set('consent', consent);
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session?.access_token) {
+        params.set('_session_token', session.access_token);
+      }
 
       const authorizeUrl = `/api/oauth/authorize?${params.toString()}`;
       
@@ -56,7 +67,7 @@ function AlexaLinkContent() {
       window.location.href = authorizeUrl;
     } catch (err: any) {
       setError(err.message || 'An error occurred');
-      setLoading(false);
+      setLoading(null);
     }
   };
 
@@ -125,7 +136,7 @@ function AlexaLinkContent() {
       );
     }
 
-    // User is authenticated, proceed with authorization
+    // User is authenticated, ask them to approve the requested scopes
     return (
       <div className="min-h-screen bg-gray-50">
         <Header />
@@ -138,25 +149,46 @@ function AlexaLinkContent() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
                 </svg>
               </div>
-              <h1 className="text-3xl font-bold text-gray-900 mb-2">Linking Your Account</h1>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Link Your Alexa Device</h1>
               <p className="text-gray-600">
-                Please wait while we connect your Alexa device...
+                Alexa is asking to access your Voice Planner tasks. It will be able to:
               </p>
             </div>
 
+            <ul className="mb-6 space-y-2 text-left">
+              {requestedScopes.map(scope => (
+                <li key={scope} className="flex items-start gap-2 text-sm text-gray-700">
+                  <span className="text-green-600">✓</span>
+                  <span>{SCOPE_DESCRIPTIONS[scope]}</span>
+                </li>
+              ))}
+            </ul>
+
             {error && (
               <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">
                 {error}
               </div>
             )}
 
-            <Button
-              onClick={handleAuthorize}
-              className="w-full"
-              isLoading={loading}
-            >
-              Continue Linking
-            </Button>
+            <div className="space-y-3">
+              <Button
+                onClick={() => handleAuthorize('granted')}
+                className="w-full"
+                isLoading={loading === 'granted'}
+                disabled={loading !== null}
+              >
+                Allow
+              </Button>
+              <Button
+                onClick={() => handleAuthorize('denied')}
+                variant="outline"
+                className="w-full"
+                isLoading={loading === 'denied'}
+                disabled={loading !== null}
+              >
+                Deny
+              </Button>
+            </div>
           </Card>
         </div>
       </div>
@@ -1,235 +1,76 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken, isLegacyToken, parseLegacyToken } from '@/lib/jwt';
-import { isTokenRevoked } from '@/lib/oauth';
-import { createServerClient } from '@/lib/supabase';
+import { authenticateClient, introspectToken, readTokenRequestParams } from '@/lib/oauth';
 
 export const dynamic = 'force-dynamic';
 
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
 /**
- * Token Introspection Endpoint
+ * Token Introspection Endpoint (RFC 7662)
  * POST /api/auth/introspect
- * 
- * Headers:
- * - Authorization: Bearer <token>
- * 
- * Returns user info, license status, and notion_db_id
- * Supports both JWT tokens and legacy base64 tokens (for 30-day transition period)
+ *
+ * Client authentication: HTTP Basic, or client_id and client_secret in the body
+ *
+ * Form data:
+ * - token: the token to introspect
+ * - token_type_hint: "access_token" or "refresh_token" (optional)
+ *
+ * Returns { active: false } for unknown, expired, revoked and consumed tokens.
+ * Active tokens also carry scope, client_id, sub, exp and iat, plus the user
+ * fields the skill's Lambda reads (user_id, license_active, notion_db_id, ...).
+ * Legacy base64 tokens and JWTs that were never stored are still described.
+ *
+ * Lambda deployments without INTROSPECT_CLIENT_ID send no client credentials
+ * and present the access token itself as a Bearer header instead.
  */
 export async function POST(request: NextRequest) {
   try {
-    // Get token from Authorization header
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    let params: Record<string, any>;
+    try {
+      params = await readTokenRequestParams(request);
+    } catch {
       return NextResponse.json(
-        { error: 'unauthorized', error_description: 'Missing or invalid Authorization header' },
-        { status: 401 }
+        { error: 'invalid_request', error_description: 'Failed to parse request body' },
+        { status: 400 }
       );
     }
 
-    const token = authHeader.replace('Bearer ', '').trim();
+    const authorization = request.headers.get('authorization');
 
-    if (!token) {
+    if (!params.token && authorization?.startsWith('Bearer ')) {
+      const token = authorization.substring(7).trim();
+      const result = token ? await introspectToken(token, 'access_token') : { active: false };
+      // Only access tokens can be presented this way
       return NextResponse.json(
-        { error: 'unauthorized', error_description: 'Token is required' },
-        { status: 401 }
+        result.token_type === 'Bearer' ? result : { active: false },
+        { headers: NO_STORE }
       );
     }
 
-    const supabase = createServerClient();
-
-    // Check if it's a legacy base64 token
-    if (isLegacyToken(token)) {
-      console.log('[Introspect] Processing legacy base64 token');
-      const legacyData = parseLegacyToken(token);
-
-      if (!legacyData || !legacyData.amazon_account_id) {
-        return NextResponse.json(
-          { error: 'invalid_token', error_description: 'Invalid legacy token format' },
-          { status: 401 }
-        );
-      }
-
-      // Look up user by amazon_account_id
-      const { data: user, error: userError } = await supabase
-        .from('users')
-        .select('*')
-        .eq('amazon_account_id', legacyData.amazon_account_id)
-        .single();
-
-      if (userError || !user) {
-        return NextResponse.json(
-          { error: 'invalid_token', error_description: 'User not found for legacy token' },
-          { status: 401 }
-        );
-      }
-
-      // Check license status
-      let licenseActive = false;
-      if (user.license_key) {
-        const { data: license } = await supabase
-          .from('licenses')
-          .select('status')
-          .eq('license_key', user.license_key)
-          .single();
-        licenseActive = license?.status === 'active';
-      }
-
-      // Return compatibility response
-      return NextResponse.json({
-        active: true,
-        user_id: user.id,
-        email: user.email,
-        license_active: licenseActive,
-        notion_db_id: user.tasks_db_id,
-        amazon_account_id: user.amazon_account_id,
-        token_type: 'legacy',
-      });
-    }
-
-    // Look up opaque token in database (new approach)
-    // First try as opaque token, then fall back to JWT for backward compatibility
-    console.log('[Introspect] Looking up token in database...', {
-      tokenPreview: token.substring(0, 20) + '...',
-      tokenLength: token.length,
-    });
-    
-    const { data: tokenData, error: tokenError } = await supabase
-      .from('oauth_access_tokens')
-      .select('*')
-      .eq('token', token)
-      .maybeSingle();
-
-    console.log('[Introspect] Token lookup result:', {
-      found: !!tokenData,
-      error: tokenError?.code,
-      errorMessage: tokenError?.message,
-      tokenId: tokenData?.token?.substring(0, 20) + '...',
-    });
-
-    if (tokenError && tokenError.code !== 'PGRST116') {
-      // Database error (not "not found")
-      console.error('[Introspect] Database error looking up token:', tokenError);
+    const clientId = authenticateClient(authorization, params);
+    if (!clientId) {
       return NextResponse.json(
-        { error: 'server_error', error_description: 'Database error during token lookup' },
-        { status: 500 }
+        { error: 'invalid_client', error_description: 'Client authentication failed' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Basic realm="introspect"' } }
       );
     }
 
-    if (!tokenData) {
-      // Token not found in DB - try as JWT (backward compatibility)
-      console.log('[Introspect] Token not found in DB, trying as JWT...');
-      const payload = verifyAccessToken(token);
-
-      if (!payload) {
-        return NextResponse.json(
-          { error: 'invalid_token', error_description: 'Token verification failed' },
-          { status: 401 }
-        );
-      }
-
-      // Check if JWT token is revoked
-      const revoked = await isTokenRevoked(token);
-      if (revoked) {
-        return NextResponse.json(
-          { error: 'invalid_token', error_description: 'Token has been revoked' },
-          { status: 401 }
-        );
-      }
-
-      // Get user from database
-      const { data: user, error: userError } = await supabase
-        .from('users')
-        .select('*')
-        .eq('id', payload.sub)
-        .single();
-
-      if (userError || !user) {
-        return NextResponse.json(
-          { error: 'invalid_token', error_description: 'User not found' },
-          { status: 401 }
-        );
-      }
-
-      // Check license status (using license_key for backward compatibility)
-      let licenseActive = false;
-      if (user.license_key) {
-        const { data: license } = await supabase
-          .from('licenses')
-          .select('status')
-          .eq('license_key', user.license_key)
-          .maybeSingle();
-        licenseActive = license?.status === 'active';
-      }
-
-      // Return introspection response for JWT token
-      return NextResponse.json({
-        active: true,
-        user_id: user.id,
-        email: payload.email,
-        license_active: licenseActive,
-        notion_db_id: payload.notion_db_id || user.tasks_db_id,
-        amazon_account_id: payload.amazon_account_id || user.amazon_account_id,
-        scope: payload.scope,
-        exp: payload.exp,
-        iat: payload.iat,
-        token_type: 'Bearer',
-      });
-    }
-
-    // Opaque token found - check if revoked or expired
-    if (tokenData.revoked) {
-      return NextResponse.json(
-        { error: 'invalid_token', error_description: 'Token has been revoked' },
-        { status: 401 }
-      );
-    }
-
-    if (new Date(tokenData.expires_at) < new Date()) {
+    if (!params.token || typeof params.token !== 'string') {
       return NextResponse.json(
-        { error: 'invalid_token', error_description: 'Token has expired' },
-        { status: 401 }
+        { error: 'invalid_request', error_description: 'token is required' },
+        { status: 400 }
       );
     }
 
-    // Get user from database
-    const { data: user, error: userError } = await supabase
-      .from('users')
-      .select('*')
-      .eq('id', tokenData.user_id)
-      .single();
+    const result = await introspectToken(params.token, params.token_type_hint);
 
-    if (userError || !user) {
-      return NextResponse.json(
-        { error: 'invalid_token', error_description: 'User not found' },
-        { status: 401 }
-      );
-    }
-
-    // Check license status (using stripe_payment_intent_id stored in license_key)
-    let licenseActive = false;
-    if (user.license_key) {
-      // license_key now contains stripe_payment_intent_id
-      const { data: license } = await supabase
-        .from('licenses')
-        .select('status')
-        .eq('stripe_payment_intent_id', user.license_key)
-        .maybeSingle();
-      licenseActive = license?.status === 'active';
-    }
-
-    // Return introspection response for opaque token
-    return NextResponse.json({
-      active: true,
-      user_id: user.id,
-      email: user.email,
-      license_active: licenseActive,
-      notion_db_id: user.tasks_db_id,
-      amazon_account_id: user.amazon_account_id,
-      scope: tokenData.scope,
-      exp: Math.floor(new Date(tokenData.expires_at).getTime() / 1000),
-      iat: Math.floor(new Date(tokenData.issued_at).getTime() / 1000),
-      token_type: 'Bearer',
+    console.log('[Introspect] Token introspected:', {
+      client_id: clientId,
+      active: result.active,
+      token_type: result.token_type,
     });
+
+    return NextResponse.json(result, { headers: NO_STORE });
   } catch (error: any) {
     console.error('[Introspect] Error:', error);
     return NextResponse.json(
@@ -238,4 +79,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
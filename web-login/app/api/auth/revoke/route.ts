@@ -1,82 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { revokeToken, revokeUserTokens } from '@/lib/oauth';
-import { createServerClient } from '@/lib/supabase';
+import { authenticateClient, readTokenRequestParams, revokeClientToken } from '@/lib/oauth';
 
 export const dynamic = 'force-dynamic';
 
 /**
- * Token Revocation Endpoint
+ * Token Revocation Endpoint (RFC 7009)
  * POST /api/auth/revoke
- * 
- * Headers:
- * - Authorization: Bearer <admin_token> (or use service role key)
- * 
- * Body:
- * - token: token to revoke (optional)
- * - user_id: user ID to revoke all tokens for (optional)
- * - all: if true, revoke all tokens (admin only)
+ *
+ * Client authentication: HTTP Basic, or client_id and client_secret in the body
+ *
+ * Form data:
+ * - token: the access or refresh token to revoke
+ * - token_type_hint: "access_token" or "refresh_token" (optional)
+ *
+ * Answers 200 with an empty body whether or not the token was known, so
+ * callers can't probe for valid tokens. Revoking a refresh token revokes its
+ * whole family.
  */
 export async function POST(request: NextRequest) {
   try {
-    // Verify admin access (using service role key or admin token)
-    const authHeader = request.headers.get('authorization');
-    const serviceKey = process.env.SUPABASE_SERVICE_KEY;
-
-    if (!authHeader && !serviceKey) {
+    let params: Record<string, any>;
+    try {
+      params = await readTokenRequestParams(request);
+    } catch {
       return NextResponse.json(
-        { error: 'unauthorized', error_description: 'Authorization required' },
-        { status: 401 }
+        { error: 'invalid_request', error_description: 'Failed to parse request body' },
+        { status: 400 }
       );
     }
 
-    // For now, allow service role key or admin token
-    // In production, implement proper admin authentication
-    const isAuthorized = 
-      authHeader?.includes(serviceKey || '') ||
-      authHeader?.includes('admin') ||
-      serviceKey;
-
-    if (!isAuthorized) {
+    const clientId = authenticateClient(request.headers.get('authorization'), params);
+    if (!clientId) {
       return NextResponse.json(
-        { error: 'unauthorized', error_description: 'Insufficient permissions' },
-        { status: 403 }
+        { error: 'invalid_client', error_description: 'Client authentication failed' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Basic realm="revoke"' } }
       );
     }
 
-    const body = await request.json();
-    const { token, user_id, all } = body;
-
-    if (all && serviceKey) {
-      // Revoke all tokens (admin only)
-      const supabase = createServerClient();
-      const { error } = await supabase
-        .from('oauth_access_tokens')
-        .update({ revoked: true, revoked_at: new Date().toISOString() })
-        .eq('revoked', false);
-
-      if (error) {
-        throw error;
-      }
-
-      return NextResponse.json({ success: true, message: 'All tokens revoked' });
-    }
-
-    if (user_id) {
-      // Revoke all tokens for a user
-      await revokeUserTokens(user_id);
-      return NextResponse.json({ success: true, message: `All tokens revoked for user ${user_id}` });
+    if (!params.token || typeof params.token !== 'string') {
+      return NextResponse.json(
+        { error: 'invalid_request', error_description: 'token is required' },
+        { status: 400 }
+      );
     }
 
-    if (token) {
-      // Revoke specific token
-      await revokeToken(token);
-      return NextResponse.json({ success: true, message: 'Token revoked' });
-    }
+    await revokeClientToken(params.token, clientId, params.token_type_hint);
 
-    return NextResponse.json(
-      { error: 'invalid_request', error_description: 'Missing token, user_id, or all parameter' },
-      { status: 400 }
-    );
+    console.log('[Revoke] Revocation request handled for client:', clientId);
+    return new NextResponse(null, { status: 200 });
   } catch (error: any) {
     console.error('[Revoke] Error:', error);
     return NextResponse.json(
@@ -85,4 +56,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
 import { generateAuthorizationCode, storeAuthCode, validateRedirectUri } from '@/lib/oauth';
 import { verifyWebsiteToken } from '@/lib/jwt';
+import { normalizeScope } from '@/lib/scopes';
 import { createClient } from '@supabase/supabase-js';
 
 export const dynamic = 'force-dynamic';
@@ -14,10 +15,15 @@ export const dynamic = 'force-dynamic';
  * - response_type: must be "code"
  * - client_id: Alexa OAuth client ID
  * - redirect_uri: Alexa redirect URI
- * - scope: requested scope (default: "alexa")
+ * - scope: space-separated tasks:read, tasks:write, tasks:delete (default: all three;
+ *   the legacy "alexa" scope means all three too)
  * - state: optional state parameter
  * - code_challenge: optional PKCE code challenge
  * - code_challenge_method: optional PKCE method (default: "S256")
+ * - consent: "granted" or "denied", set by the consent screen (/alexa/link)
+ *
+ * Signed-in users are first sent to the consent screen, which lists the
+ * requested scopes and comes back here with their answer.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -33,7 +39,7 @@ export async function GET(request: NextRequest) {
     const responseType = searchParams.get('response_type');
     const clientId = searchParams.get('client_id')?.trim();
     const redirectUri = searchParams.get('redirect_uri');
-    const scope = searchParams.get('scope') || 'alexa';
+    const scope = normalizeScope(searchParams.get('scope'));
     const state = searchParams.get('state');
     const codeChallenge = searchParams.get('code_challenge');
     const codeChallengeMethod = searchParams.get('code_challenge_method') || 'S256';
@@ -61,6 +67,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (!scope) {
+      return NextResponse.json(
+        { error: 'invalid_scope', error_description: 'Supported scopes are tasks:read, tasks:write and tasks:delete' },
+        { status: 400 }
+      );
+    }
+
     // ============================================================================
     // STEP 1: Authenticate user via Supabase session token ONLY
     // ============================================================================
@@ -241,9 +254,36 @@ export async function GET(request: NextRequest) {
     console.log('[OAuth Authorize] Notion connection validated');
 
     // ============================================================================
-    // STEP 6: Generate and store authorization code
+    // STEP 6: Ask the user to approve the requested scopes
+    // ============================================================================
+    const consent = searchParams.get('consent');
+
+    if (consent === 'denied') {
+      console.log('[OAuth Authorize] User denied access:', { user_id: user.id, scope });
+      const deniedUrl = new URL(redirectUri);
+      deniedUrl.searchParams.set('error', 'access_denied');
+      if (state) {
+        deniedUrl.searchParams.set('state', state);
+      }
+      return NextResponse.redirect(deniedUrl);
+    }
+
+    if (consent !== 'granted') {
+      console.log('[OAuth Authorize] Step 6: Redirecting to consent screen:', { user_id: user.id, scope });
+      const consentUrl = new URL('/alexa/link', request.url);
+      searchParams.forEach((value, key) => {
+        if (key !== '_session_token' && key !== 'consent') {
+          consentUrl.searchParams.set(key, value);
+        }
+      });
+      consentUrl.searchParams.set('scope', scope);
+      return NextResponse.redirect(consentUrl);
+    }
+
+    // ============================================================================
+    // STEP 7: Generate and store authorization code
     // ============================================================================
-    console.log('[OAuth Authorize] Step 6: Generating authorization code...');
+    console.log('[OAuth Authorize] Step 7: Generating authorization code...');
     
     const authCode = generateAuthorizationCode();
 
@@ -270,9 +310,9 @@ export async function GET(request: NextRequest) {
     }
 
     // ============================================================================
-    // STEP 7: Redirect back to Alexa with authorization code
+    // STEP 8: Redirect back to Alexa with authorization code
     // ============================================================================
-    console.log('[OAuth Authorize] Step 7: Redirecting to Alexa...');
+    console.log('[OAuth Authorize] Step 8: Redirecting to Alexa...');
     
     const redirectUrl = new URL(redirectUri);
     redirectUrl.searchParams.set('code', authCode);
@@ -284,6 +324,7 @@ export async function GET(request: NextRequest) {
       user_id: user.id,
       email: user.email,
       redirect_uri: redirectUri,
+      scope,
     });
 
     return NextResponse.redirect(redirectUrl);
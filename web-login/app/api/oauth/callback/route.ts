@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getOAuthSession, deleteOAuthSession } from '../session';
 import { setupNotionWorkspace } from '../notion-setup';
+import { encryptToken } from '@/lib/token-crypto';
 
 // Mark this route as dynamic since it uses searchParams
 export const dynamic = 'force-dynamic';
@@ -182,6 +183,9 @@ export async function GET(request: NextRequest) {
       access_token_preview: access_token ? access_token.substring(0, 20) + '...' : 'null',
     });
 
+    // Stored encrypted; the Lambda decrypts it when it reads the user
+    const storedNotionToken = access_token ? encryptToken(access_token) : null;
+
     // Setup Notion workspace (create Privacy page and databases)
     console.log('Starting Notion workspace setup...');
     const setupResult = await setupNotionWorkspace(access_token);
@@ -309,7 +313,7 @@ export async function GET(request: NextRequest) {
         const updateData: any = {
           email: session.email,
           license_key: session.license_key,
-          notion_token: access_token,
+          notion_token: storedNotionToken,
           notion_setup_complete: hasToken, // True if we have a token (connection successful)
           updated_at: new Date().toISOString(),
         };
@@ -353,7 +357,7 @@ export async function GET(request: NextRequest) {
           amazon_account_id: session.amazon_account_id,
           email: session.email,
           license_key: session.license_key,
-          notion_token: access_token,
+          notion_token: storedNotionToken,
           notion_setup_complete: hasToken, // True if we have a token (connection successful)
         };
         
@@ -484,7 +488,7 @@ export async function GET(request: NextRequest) {
         // notion_setup_complete should be true if we have a token (connection successful)
         const hasToken = !!access_token;
         const updateData: any = {
-          notion_token: access_token,
+          notion_token: storedNotionToken,
           notion_setup_complete: hasToken, // True if we have a token (connection successful)
           updated_at: new Date().toISOString(),
         };
@@ -690,7 +694,7 @@ export async function GET(request: NextRequest) {
             email: session.email,
           provider: 'email', // Default, will be updated on next auth
           email_verified: false,
-            notion_token: access_token,
+            notion_token: storedNotionToken,
             notion_setup_complete: hasToken, // True if we have a token (connection successful)
             license_key: session.license_key || '',
             onboarding_complete: false,
@@ -241,6 +241,9 @@ async function createTasksDatabase(
           Notes: {
             rich_text: {},
           },
+          Recurrence: {
+            rich_text: {},
+          },
           NotionID: {
             rich_text: {},
           },
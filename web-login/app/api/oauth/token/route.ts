@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { validateAuthCode, issueAccessToken } from '@/lib/oauth';
+import { validateAuthCode, issueAccessToken, consumeRefreshToken, isRefreshTokenEnabled } from '@/lib/oauth';
 import { createServerClient } from '@/lib/supabase';
 
 export const dynamic = 'force-dynamic';
@@ -387,11 +387,71 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // TODO: Implement refresh token logic
-      return NextResponse.json(
-        { error: 'unsupported_grant_type', error_description: 'Refresh token grant not yet implemented' },
-        { status: 400 }
-      );
+      if (!isRefreshTokenEnabled()) {
+        return NextResponse.json(
+          { error: 'unsupported_grant_type', error_description: 'Refresh tokens are not enabled' },
+          { status: 400 }
+        );
+      }
+
+      // Each refresh token works once; replaying one later revokes its family
+      let consumed;
+      try {
+        consumed = await consumeRefreshToken(refreshToken, clientId);
+      } catch (consumeError: any) {
+        console.error('[OAuth Token] Refresh token validation error:', {
+          error_message: consumeError?.message,
+          error_stack: consumeError?.stack,
+        });
+        return NextResponse.json(
+          { error: 'server_error', error_description: 'Failed to validate refresh token' },
+          { status: 500 }
+        );
+      }
+
+      if (!consumed) {
+        return NextResponse.json(
+          { error: 'invalid_grant', error_description: 'Invalid, expired or revoked refresh token' },
+          { status: 400 }
+        );
+      }
+
+      // Issue new tokens; the new refresh token replaces the consumed one
+      let tokenResult;
+      try {
+        tokenResult = await issueAccessToken(
+          consumed.userId,
+          clientId,
+          consumed.scope,
+          undefined,
+          undefined,
+          { familyId: consumed.familyId, parentToken: refreshToken, replacementToken: consumed.replacementToken }
+        );
+      } catch (tokenError: any) {
+        console.error('[OAuth Token] Token issuance error on refresh:', {
+          error_message: tokenError?.message,
+          error_stack: tokenError?.stack,
+          user_id: consumed.userId,
+        });
+        return NextResponse.json(
+          { error: 'server_error', error_description: 'Failed to issue access token' },
+          { status: 500 }
+        );
+      }
+
+      console.log('[OAuth Token] Refreshed token for user:', {
+        user_id: consumed.userId,
+        family_id: consumed.familyId,
+        expires_in: tokenResult.expires_in,
+      });
+
+      return NextResponse.json({
+        access_token: tokenResult.access_token,
+        token_type: 'Bearer',
+        expires_in: tokenResult.expires_in,
+        refresh_token: tokenResult.refresh_token,
+        scope: consumed.scope,
+      });
     } else {
       return NextResponse.json(
         { error: 'unsupported_grant_type', error_description: `Grant type "${grantType}" is not supported` },
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { createClient } from '@supabase/supabase-js'
+import { verifyWebsiteToken } from '@/lib/jwt'
+import {
+  DEFAULT_BRIEFING_SETTINGS,
+  validateBriefingSettings,
+  pickBriefingSettings,
+} from '@/lib/briefing'
+
+// Mark route as dynamic
+export const dynamic = 'force-dynamic'
+
+/**
+ * Resolve the user ID from a website JWT or Supabase session token
+ */
+async function getAuthUserId(request: NextRequest): Promise<string | null> {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '')
+  if (!token) {
+    return null
+  }
+
+  const websiteTokenPayload = verifyWebsiteToken(token)
+  if (websiteTokenPayload) {
+    return websiteTokenPayload.sub
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  )
+  const { data: { user: authUser }, error } = await supabase.auth.getUser(token)
+  return error || !authUser ? null : authUser.id
+}
+
+/**
+ * GET - The user's briefing settings, with defaults for anything not saved
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getAuthUserId(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const serverClient = createServerClient()
+    const { data: user, error } = await serverClient
+      .from('users')
+      .select('id, briefing_settings')
+      .eq('id', userId)
+      .single()
+
+    if (error || !user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      settings: { ...DEFAULT_BRIEFING_SETTINGS, ...(user.briefing_settings || {}) },
+    })
+  } catch (error: any) {
+    console.error('[API /users/me/briefing] Error loading settings:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load briefing settings' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT - Save edited briefing settings
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getAuthUserId(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const validationError = validateBriefingSettings(body?.settings)
+    if (validationError) {
+      return NextResponse.json(
+        { error: 'invalid_settings', error_description: validationError },
+        { status: 400 }
+      )
+    }
+
+    const settings = pickBriefingSettings(body.settings)
+    const serverClient = createServerClient()
+    const { error } = await serverClient
+      .from('users')
+      .update({
+        briefing_settings: settings,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId)
+
+    if (error) {
+      throw error
+    }
+
+    console.log('[API /users/me/briefing] Saved settings for user:', userId)
+    return NextResponse.json({ success: true, settings })
+  } catch (error: any) {
+    console.error('[API /users/me/briefing] Error saving settings:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to save briefing settings' },
+      { status: 500 }
+    )
+  }
+}
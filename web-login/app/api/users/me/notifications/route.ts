@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { createClient } from '@supabase/supabase-js'
+import { verifyWebsiteToken } from '@/lib/jwt'
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  validateNotificationSettings,
+  pickNotificationSettings,
+} from '@/lib/notifications'
+
+// Mark route as dynamic
+export const dynamic = 'force-dynamic'
+
+/**
+ * Resolve the user ID from a website JWT or Supabase session token
+ */
+async function getAuthUserId(request: NextRequest): Promise<string | null> {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '')
+  if (!token) {
+    return null
+  }
+
+  const websiteTokenPayload = verifyWebsiteToken(token)
+  if (websiteTokenPayload) {
+    return websiteTokenPayload.sub
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  )
+  const { data: { user: authUser }, error } = await supabase.auth.getUser(token)
+  return error || !authUser ? null : authUser.id
+}
+
+/**
+ * GET - The user's notification settings, with defaults for anything not saved
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getAuthUserId(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const serverClient = createServerClient()
+    const { data: user, error } = await serverClient
+      .from('users')
+      .select('id, notification_settings')
+      .eq('id', userId)
+      .single()
+
+    if (error || !user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      settings: { ...DEFAULT_NOTIFICATION_SETTINGS, ...(user.notification_settings || {}) },
+    })
+  } catch (error: any) {
+    console.error('[API /users/me/notifications] Error loading settings:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load notification settings' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT - Save edited notification settings
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getAuthUserId(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const validationError = validateNotificationSettings(body?.settings)
+    if (validationError) {
+      return NextResponse.json(
+        { error: 'invalid_settings', error_description: validationError },
+        { status: 400 }
+      )
+    }
+
+    const settings = pickNotificationSettings(body.settings)
+    const serverClient = createServerClient()
+    const { error } = await serverClient
+      .from('users')
+      .update({
+        notification_settings: settings,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId)
+
+    if (error) {
+      throw error
+    }
+
+    console.log('[API /users/me/notifications] Saved settings for user:', userId)
+    return NextResponse.json({ success: true, settings })
+  } catch (error: any) {
+    console.error('[API /users/me/notifications] Error saving settings:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to save notification settings' },
+      { status: 500 }
+    )
+  }
+}
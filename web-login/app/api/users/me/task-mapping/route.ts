@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { createClient } from '@supabase/supabase-js'
+import { Client } from '@notionhq/client'
+import { verifyWebsiteToken } from '@/lib/jwt'
+import { decryptToken } from '@/lib/token-crypto'
+import {
+  detectPropertyMapping,
+  listDatabaseProperties,
+  validatePropertyMapping,
+  pickPropertyMapping,
+  DatabaseProperty,
+  DEFAULT_PROPERTY_MAPPING,
+} from '@/lib/task-mapping'
+
+// Mark route as dynamic
+export const dynamic = 'force-dynamic'
+
+/**
+ * Resolve the user ID from a website JWT or Supabase session token
+ */
+async function getAuthUserId(request: NextRequest): Promise<string | null> {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '')
+  if (!token) {
+    return null
+  }
+
+  const websiteTokenPayload = verifyWebsiteToken(token)
+  if (websiteTokenPayload) {
+    return websiteTokenPayload.sub
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  )
+  const { data: { user: authUser }, error } = await supabase.auth.getUser(token)
+  return error || !authUser ? null : authUser.id
+}
+
+/**
+ * Load the user's Tasks database and its properties from Notion
+ */
+async function loadTasksDatabase(userId: string): Promise<
+  | { error: string; status: number }
+  | { user: any; properties: DatabaseProperty[] }
+> {
+  const serverClient = createServerClient()
+  const { data: user, error } = await serverClient
+    .from('users')
+    .select('id, notion_token, tasks_db_id, tasks_db_mapping')
+    .eq('id', userId)
+    .single()
+
+  if (error || !user) {
+    return { error: 'User not found', status: 404 }
+  }
+
+  if (!user.notion_token || !user.tasks_db_id) {
+    return { error: 'Notion is not connected', status: 409 }
+  }
+
+  const notion = new Client({ auth: decryptToken(user.notion_token) ?? undefined })
+  const database: any = await notion.databases.retrieve({ database_id: user.tasks_db_id })
+
+  return { user, properties: listDatabaseProperties(database.properties || {}) }
+}
+
+/**
+ * GET - The stored mapping (or a detected one) plus the database's properties
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getAuthUserId(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await loadTasksDatabase(userId)
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      // Mappings saved before a field existed pick up its default
+      mapping: result.user.tasks_db_mapping
+        ? { ...DEFAULT_PROPERTY_MAPPING, ...result.user.tasks_db_mapping }
+        : detectPropertyMapping(result.properties),
+      detected: !result.user.tasks_db_mapping,
+      properties: result.properties,
+    })
+  } catch (error: any) {
+    console.error('[API /users/me/task-mapping] Error loading mapping:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load task mapping' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT - Save an edited mapping after checking it against the database
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getAuthUserId(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const result = await loadTasksDatabase(userId)
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    const validationError = validatePropertyMapping(body?.mapping, result.properties)
+    if (validationError) {
+      return NextResponse.json(
+        { error: 'invalid_mapping', error_description: validationError },
+        { status: 400 }
+      )
+    }
+
+    const mapping = pickPropertyMapping(body.mapping)
+    const serverClient = createServerClient()
+    const { error } = await serverClient
+      .from('users')
+      .update({
+        tasks_db_mapping: mapping,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId)
+
+    if (error) {
+      throw error
+    }
+
+    console.log('[API /users/me/task-mapping] Saved mapping for user:', userId)
+    return NextResponse.json({ success: true, mapping })
+  } catch (error: any) {
+    console.error('[API /users/me/task-mapping] Error saving mapping:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to save task mapping' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Card } from '@/app/components/Card';
+import { Button } from '@/app/components/Button';
+import { BRIEFING_SECTIONS, BriefingSettings, MAX_TASKS_PER_SECTION } from '@/lib/briefing';
+
+async function getAuthToken(): Promise<string | null> {
+  const websiteAccessToken = localStorage.getItem('website_access_token');
+  const { data: { session } } = await supabase.auth.getSession();
+  return websiteAccessToken || session?.access_token || null;
+}
+
+/**
+ * Lets users choose what "Alexa, ask Voice Planner what my day looks like" reads out
+ */
+export function BriefingCard() {
+  const [settings, setSettings] = useState<BriefingSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const authToken = await getAuthToken();
+      const response = await fetch('/api/users/me/briefing', {
+        cache: 'no-store',
+        headers: { 'Authorization': `Bearer ${authToken}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      setSettings(data.settings);
+    } catch (err: any) {
+      console.error('[BriefingCard] Error loading settings:', err);
+      setError('Could not load your briefing settings.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    setSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const authToken = await getAuthToken();
+      const response = await fetch('/api/users/me/briefing', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({ settings }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error_description || data.error || `HTTP ${response.status}`);
+      }
+      setSettings(data.settings);
+      setMessage('Saved. Your next briefing will use these settings.');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (error && !settings) {
+    return (
+      <Card className="p-8 mt-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Daily Briefing</h2>
+        <p className="text-sm text-red-600">{error}</p>
+      </Card>
+    );
+  }
+
+  if (!settings) {
+    return null;
+  }
+
+  return (
+    <Card className="p-8 mt-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Daily Briefing</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Choose what Alexa reads when you say &quot;Alexa, ask Voice Planner what my day looks like&quot;.
+        Add that phrase to an Alexa Routine to hear it every morning.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {BRIEFING_SECTIONS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings[key] as boolean}
+              onChange={e => setSettings({ ...settings, [key]: e.target.checked })}
+            />
+            {label}
+          </label>
+        ))}
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.highPriorityOnly}
+            onChange={e => setSettings({ ...settings, highPriorityOnly: e.target.checked })}
+          />
+          Only high priority tasks
+        </label>
+      </div>
+
+      <label className="mt-6 block text-sm font-medium text-gray-700 sm:w-1/2">
+        Tasks read per section
+        <select
+          className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          value={settings.maxTasksPerSection}
+          onChange={e => setSettings({ ...settings, maxTasksPerSection: Number(e.target.value) })}
+        >
+          {Array.from({ length: MAX_TASKS_PER_SECTION }, (_, i) => i + 1).map(count => (
+            <option key={count} value={count}>{count}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="mt-6 flex items-center gap-4">
+        <Button onClick={handleSave} isLoading={saving}>
+          Save Briefing
+        </Button>
+        {message && <p className="text-sm text-green-600 font-medium">✓ {message}</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Card } from '@/app/components/Card';
+import { Button } from '@/app/components/Button';
+import { NotificationSettings, formatHour } from '@/lib/notifications';
+
+async function getAuthToken(): Promise<string | null> {
+  const websiteAccessToken = localStorage.getItem('website_access_token');
+  const { data: { session } } = await supabase.auth.getSession();
+  return websiteAccessToken || session?.access_token || null;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+/**
+ * Lets users turn on Alexa notifications for overdue tasks and pick quiet hours
+ */
+export function NotificationsCard() {
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const authToken = await getAuthToken();
+      const response = await fetch('/api/users/me/notifications', {
+        cache: 'no-store',
+        headers: { 'Authorization': `Bearer ${authToken}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      setSettings(data.settings);
+    } catch (err: any) {
+      console.error('[NotificationsCard] Error loading settings:', err);
+      setError('Could not load your notification settings.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    setSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const authToken = await getAuthToken();
+      const response = await fetch('/api/users/me/notifications', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({ settings }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error_description || data.error || `HTTP ${response.status}`);
+      }
+      setSettings(data.settings);
+      setMessage('Saved.');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (error && !settings) {
+    return (
+      <Card className="p-8 mt-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Notifications</h2>
+        <p className="text-sm text-red-600">{error}</p>
+      </Card>
+    );
+  }
+
+  if (!settings) {
+    return null;
+  }
+
+  return (
+    <Card className="p-8 mt-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Notifications</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Once a day, your Echo lights up when tasks are overdue. Say &quot;Alexa, what are my notifications?&quot;
+        to hear about them. Notifications must also be allowed for Voice Planner in the Alexa app.
+      </p>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={settings.overdueTasks}
+          onChange={e => setSettings({ ...settings, overdueTasks: e.target.checked })}
+        />
+        Notify me about overdue tasks
+      </label>
+
+      <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="block text-sm font-medium text-gray-700">
+          Quiet hours from
+          <select
+            className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            value={settings.quietHoursStart}
+            disabled={!settings.overdueTasks}
+            onChange={e => setSettings({ ...settings, quietHoursStart: Number(e.target.value) })}
+          >
+            {HOURS.map(hour => (
+              <option key={hour} value={hour}>{formatHour(hour)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Until
+          <select
+            className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            value={settings.quietHoursEnd}
+            disabled={!settings.overdueTasks}
+            onChange={e => setSettings({ ...settings, quietHoursEnd: Number(e.target.value) })}
+          >
+            {HOURS.map(hour => (
+              <option key={hour} value={hour}>{formatHour(hour)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        Times are in your Alexa device&apos;s time zone. Pick the same hour twice for no quiet hours.
+      </p>
+
+      <div className="mt-6 flex items-center gap-4">
+        <Button onClick={handleSave} isLoading={saving}>
+          Save Notifications
+        </Button>
+        {message && <p className="text-sm text-green-600 font-medium">✓ {message}</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Card } from '@/app/components/Card';
+import { Button } from '@/app/components/Button';
+import { DatabaseProperty, FIELD_TYPES, TaskPropertyMapping, TaskStatus, detectStatusOptions } from '@/lib/task-mapping';
+
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  priority: 'Priority',
+  category: 'Category',
+  dueDate: 'Due date',
+  notes: 'Notes',
+  parsedName: 'Spoken name',
+  recurrence: 'Recurrence',
+  notionId: 'Notion ID',
+};
+
+// Option pickers shown under the property they belong to
+const VALUE_FIELDS: { field: 'status' | 'priority' | 'category'; key: 'statusValues' | 'priorityValues' | 'categoryValues'; labels: Record<string, string> }[] = [
+  { field: 'status', key: 'statusValues', labels: { 'TO DO': 'To do', IN_PROCESS: 'In progress', DONE: 'Done' } },
+  { field: 'priority', key: 'priorityValues', labels: { LOW: 'Low', NORMAL: 'Normal', HIGH: 'High' } },
+  { field: 'category', key: 'categoryValues', labels: { PERSONAL: 'Personal', WORK: 'Work' } },
+];
+
+async function getAuthToken(): Promise<string | null> {
+  const websiteAccessToken = localStorage.getItem('website_access_token');
+  const { data: { session } } = await supabase.auth.getSession();
+  return websiteAccessToken || session?.access_token || null;
+}
+
+/**
+ * Lets users point the skill at the properties of an existing Tasks database
+ */
+export function TaskMappingCard() {
+  const [mapping, setMapping] = useState<TaskPropertyMapping | null>(null);
+  const [properties, setProperties] = useState<DatabaseProperty[]>([]);
+  const [detected, setDetected] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMapping();
+  }, []);
+
+  const loadMapping = async () => {
+    try {
+      const authToken = await getAuthToken();
+      const response = await fetch('/api/users/me/task-mapping', {
+        cache: 'no-store',
+        headers: { 'Authorization': `Bearer ${authToken}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      setMapping(data.mapping);
+      setProperties(data.properties);
+      setDetected(data.detected);
+    } catch (err: any) {
+      console.error('[TaskMappingCard] Error loading mapping:', err);
+      setError('Could not load your Tasks database fields.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!mapping) return;
+    setSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const authToken = await getAuthToken();
+      const response = await fetch('/api/users/me/task-mapping', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({ mapping }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error_description || data.error || `HTTP ${response.status}`);
+      }
+      setMapping(data.mapping);
+      setDetected(false);
+      setMessage('Saved. Alexa will use these fields from now on.');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setField = (field: string, name: string) => {
+    if (!mapping) return;
+    const updated: any = { ...mapping, [field]: name || null };
+    if (field === 'category') {
+      const property = properties.find(p => p.name === name);
+      updated.categoryType = property?.type === 'multi_select' ? 'multi_select' : 'select';
+    }
+    if (field === 'status') {
+      const property = properties.find(p => p.name === name);
+      updated.statusType = property?.type === 'status' ? 'status' : 'select';
+      Object.assign(updated, property ? detectStatusOptions(property) : { statusOptions: {} });
+    }
+    setMapping(updated);
+  };
+
+  // Which of the skill's statuses an extra option (e.g. "Blocked") counts as
+  const setStatusOption = (option: string, status: string) => {
+    if (!mapping) return;
+    const statusOptions = { ...mapping.statusOptions };
+    if (status) {
+      statusOptions[option] = status as TaskStatus;
+    } else {
+      delete statusOptions[option];
+    }
+    setMapping({ ...mapping, statusOptions });
+  };
+
+  const setValue = (key: 'statusValues' | 'priorityValues' | 'categoryValues', value: string, option: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [key]: { ...mapping[key], [value]: option } });
+  };
+
+  if (error && !mapping) {
+    return (
+      <Card className="p-8 mt-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Tasks Database Fields</h2>
+        <p className="text-sm text-red-600">{error}</p>
+      </Card>
+    );
+  }
+
+  if (!mapping) {
+    return null;
+  }
+
+  const selectClass = 'mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm';
+  const titleProperty = properties.find(p => p.type === 'title');
+
+  return (
+    <Card className="p-8 mt-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Tasks Database Fields</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        {detected
+          ? 'We matched these fields automatically. Check them and save if your database uses different names.'
+          : 'Choose which properties of your Tasks database Alexa reads and writes.'}
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="text-sm font-medium text-gray-700">
+          Task name
+          <input className={`${selectClass} bg-gray-50`} value={titleProperty?.name || mapping.title} disabled />
+        </label>
+
+        {Object.keys(FIELD_TYPES).map(field => (
+          <label key={field} className="text-sm font-medium text-gray-700">
+            {FIELD_LABELS[field]}
+            <select
+              className={selectClass}
+              value={(mapping as any)[field] || ''}
+              onChange={e => setField(field, e.target.value)}
+            >
+              {field !== 'recurrence' && <option value="">Not used</option>}
+              {field === 'recurrence' && !properties.some(p => p.name === mapping.recurrence) && (
+                <option value={mapping.recurrence}>{mapping.recurrence} (created when needed)</option>
+              )}
+              {properties
+                .filter(p => FIELD_TYPES[field].includes(p.type))
+                .map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {VALUE_FIELDS.filter(({ field }) => mapping[field]).map(({ field, key, labels }) => {
+        const options = properties.find(p => p.name === mapping[field])?.options || [];
+        return (
+          <div key={key} className="mt-6">
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">{FIELD_LABELS[field]} options</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {Object.keys(labels).map(value => (
+                <label key={value} className="text-sm text-gray-700">
+                  {labels[value]}
+                  <select
+                    className={selectClass}
+                    value={(mapping[key] as Record<string, string>)[value]}
+                    onChange={e => setValue(key, value, e.target.value)}
+                  >
+                    {/* Native status options can't be created from the skill */}
+                    {!options.includes((mapping[key] as Record<string, string>)[value])
+                      && !(field === 'status' && mapping.statusType === 'status') && (
+                      <option value={(mapping[key] as Record<string, string>)[value]}>
+                        {(mapping[key] as Record<string, string>)[value]} (new option)
+                      </option>
+                    )}
+                    {options.map(option => <option key={option} value={option}>{option}</option>)}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {(() => {
+        const statusValues = Object.values(mapping.statusValues);
+        const extraOptions = (properties.find(p => p.name === mapping.status)?.options || [])
+          .filter(option => !statusValues.includes(option));
+        if (!mapping.status || extraOptions.length === 0) return null;
+
+        return (
+          <div className="mt-6">
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Other status options count as</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {extraOptions.map(option => (
+                <label key={option} className="text-sm text-gray-700">
+                  {option}
+                  <select
+                    className={selectClass}
+                    value={mapping.statusOptions[option] || ''}
+                    onChange={e => setStatusOption(option, e.target.value)}
+                  >
+                    <option value="">Ignored</option>
+                    {Object.entries(VALUE_FIELDS[0].labels).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+        );
+      })()}
+
+      <div className="mt-6 flex items-center gap-4">
+        <Button onClick={handleSave} isLoading={saving}>
+          Save Fields
+        </Button>
+        {message && <p className="text-sm text-green-600 font-medium">✓ {message}</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </Card>
+  );
+}
@@ -7,6 +7,9 @@ import { Header } from '@/app/components/Header';
 import { Step } from '@/app/components/Step';
 import { Button } from '@/app/components/Button';
 import { Card } from '@/app/components/Card';
+import { TaskMappingCard } from '@/app/components/TaskMappingCard';
+import { BriefingCard } from '@/app/components/BriefingCard';
+import { NotificationsCard } from '@/app/components/NotificationsCard';
 
 interface User {
   id: string;
@@ -508,6 +511,13 @@ export default function DashboardPage() {
             </Step>
           </div>
         </Card>
+
+        {/* Property mapping for the connected Tasks database */}
+        {(user.notion_setup_complete && !!(user as any).notion_token) && <TaskMappingCard />}
+
+        {/* What the daily briefing reads out */}
+        {(user.notion_setup_complete && !!(user as any).notion_token) && <BriefingCard />}
+        {(user.notion_setup_complete && !!(user as any).notion_token) && <NotificationsCard />}
       </main>
     </div>
   );
@@ -0,0 +1,77 @@
+/**
+ * What the daily briefing ("what's my day look like") covers.
+ * Mirrors BriefingSettings in lambda/src/types/index.ts - keep the two in sync.
+ */
+
+export interface BriefingSettings {
+  overdue: boolean;
+  today: boolean;
+  tomorrow: boolean;
+  nextDeadline: boolean;
+  summary: boolean;
+  // Task names read per section; the rest are counted ("and 2 more")
+  maxTasksPerSection: number;
+  highPriorityOnly: boolean;
+}
+
+export const DEFAULT_BRIEFING_SETTINGS: BriefingSettings = {
+  overdue: true,
+  today: true,
+  tomorrow: true,
+  nextDeadline: true,
+  summary: false,
+  maxTasksPerSection: 3,
+  highPriorityOnly: false,
+};
+
+export const MAX_TASKS_PER_SECTION = 10;
+
+// On/off switches, in the order the briefing reads them
+export const BRIEFING_SECTIONS: { key: keyof BriefingSettings; label: string }[] = [
+  { key: 'overdue', label: 'Overdue tasks' },
+  { key: 'today', label: 'Tasks due today' },
+  { key: 'tomorrow', label: 'Tasks due tomorrow' },
+  { key: 'nextDeadline', label: 'Next deadline (when nothing is due today)' },
+  { key: 'summary', label: 'Open and completed task counts' },
+];
+
+/**
+ * Check settings sent by the dashboard; returns an error message or null
+ */
+export function validateBriefingSettings(settings: any): string | null {
+  if (!settings || typeof settings !== 'object') {
+    return 'Settings are required';
+  }
+
+  for (const { key } of BRIEFING_SECTIONS) {
+    if (typeof settings[key] !== 'boolean') {
+      return `${key} must be true or false`;
+    }
+  }
+
+  if (typeof settings.highPriorityOnly !== 'boolean') {
+    return 'highPriorityOnly must be true or false';
+  }
+
+  const max = settings.maxTasksPerSection;
+  if (!Number.isInteger(max) || max < 1 || max > MAX_TASKS_PER_SECTION) {
+    return `maxTasksPerSection must be a whole number from 1 to ${MAX_TASKS_PER_SECTION}`;
+  }
+
+  return null;
+}
+
+/**
+ * Copy only the known fields, so nothing else ends up in the database
+ */
+export function pickBriefingSettings(settings: BriefingSettings): BriefingSettings {
+  return {
+    overdue: settings.overdue,
+    today: settings.today,
+    tomorrow: settings.tomorrow,
+    nextDeadline: settings.nextDeadline,
+    summary: settings.summary,
+    maxTasksPerSection: settings.maxTasksPerSection,
+    highPriorityOnly: settings.highPriorityOnly,
+  };
+}
@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+
+/**
+ * Asymmetric keys for access token signing.
+ *
+ * JWT_SIGNING_KEYS holds a JSON array of JWKs, each with a kid and an alg
+ * (RS256 or ES256). The first key must be a private key and signs new tokens.
+ * The rest may be private or public only; they are published in the JWKS so
+ * tokens they signed keep verifying until they expire, and a key can be
+ * published ahead of signing with it.
+ *
+ * Rotation: generate a key (scripts/generate_jwt_signing_key.js), put it first
+ * and keep the old one after it, then drop the old one once JWT_EXPIRES_IN has
+ * passed.
+ */
+
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+export interface SigningKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  publicKey: crypto.KeyObject;
+  privateKey: crypto.KeyObject | null;
+}
+
+export interface PublicJwk extends crypto.JsonWebKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  use: 'sig';
+}
+
+const ALGORITHMS: Record<SigningAlgorithm, { kty: string; crv?: string }> = {
+  RS256: { kty: 'RSA' },
+  ES256: { kty: 'EC', crv: 'P-256' },
+};
+
+let cachedSpec: string | undefined;
+let cachedKeys: SigningKey[] = [];
+
+/**
+ * Parse one JWK from JWT_SIGNING_KEYS
+ */
+function parseSigningKey(jwk: any): SigningKey {
+  if (!jwk || typeof jwk.kid !== 'string' || !jwk.kid) {
+    throw new Error('JWT_SIGNING_KEYS entries need a kid');
+  }
+  const algorithm = ALGORITHMS[jwk.alg as SigningAlgorithm];
+  if (!algorithm) {
+    throw new Error(`JWT signing key ${jwk.kid} has unsupported alg ${jwk.alg}, expected RS256 or ES256`);
+  }
+  if (jwk.kty !== algorithm.kty || (algorithm.crv && jwk.crv !== algorithm.crv)) {
+    throw new Error(`JWT signing key ${jwk.kid} does not match its alg ${jwk.alg}`);
+  }
+
+  const privateKey = jwk.d ? crypto.createPrivateKey({ key: jwk, format: 'jwk' }) : null;
+  const publicKey = privateKey
+    ? crypto.createPublicKey(privateKey)
+    : crypto.createPublicKey({ key: jwk, format: 'jwk' });
+
+  return { kid: jwk.kid, alg: jwk.alg, publicKey, privateKey };
+}
+
+/**
+ * All configured keys, current signing key first (empty when
+ * JWT_SIGNING_KEYS is not set)
+ */
+export function getSigningKeys(): SigningKey[] {
+  const spec = process.env.JWT_SIGNING_KEYS || '';
+  if (spec === cachedSpec) {
+    return cachedKeys;
+  }
+
+  const keys = spec ? (JSON.parse(spec) as any[]).map(parseSigningKey) : [];
+  if (keys.length > 0 && !keys[0].privateKey) {
+    throw new Error(`The first JWT_SIGNING_KEYS entry (${keys[0].kid}) must be a private key`);
+  }
+  if (new Set(keys.map(key => key.kid)).size !== keys.length) {
+    throw new Error('JWT_SIGNING_KEYS has duplicate kids');
+  }
+
+  cachedSpec = spec;
+  cachedKeys = keys;
+  return keys;
+}
+
+/**
+ * The key new access tokens are signed with, or null when asymmetric
+ * signing is not configured
+ */
+export function getCurrentSigningKey(): SigningKey | null {
+  return getSigningKeys()[0] || null;
+}
+
+/**
+ * The key with the given kid, for verifying a token
+ */
+export function findSigningKey(kid: string): SigningKey | null {
+  return getSigningKeys().find(key => key.kid === kid) || null;
+}
+
+/**
+ * The public JWKS served at /.well-known/jwks.json
+ */
+export function getPublicJwks(): { keys: PublicJwk[] } {
+  return {
+    keys: getSigningKeys().map(key => ({
+      ...key.publicKey.export({ format: 'jwk' }),
+      kid: key.kid,
+      alg: key.alg,
+      use: 'sig',
+    })),
+  };
+}
@@ -1,7 +1,8 @@
 import jwt from 'jsonwebtoken';
+import { findSigningKey, getCurrentSigningKey } from './jwks';
+import { ALL_TASK_SCOPES } from './scopes';
 
 const JWT_SECRET = process.env.JWT_SECRET || '';
-const JWT_EXPIRES_IN = parseInt(process.env.JWT_EXPIRES_IN || '3600', 10);
 const WEBSITE_JWT_EXPIRES_IN = parseInt(process.env.WEBSITE_JWT_EXPIRES_IN || '3600', 10); // 1 hour default
 const APP_ISS = process.env.APP_ISS || 'https://voice-planner-murex.vercel.app';
 
@@ -21,7 +22,7 @@ export interface JWTPayload {
   email: string;
   iat: number; // Issued at
   exp: number; // Expiration
-  scope: string; // e.g., "alexa"
+  scope: string; // e.g., "tasks:read tasks:write" (see lib/scopes.ts)
   notion_db_id?: string; // Optional: tasks_db_id
   amazon_account_id?: string; // Optional: for legacy compatibility
   type?: string; // Token type: 'website_session' or 'alexa'
@@ -55,17 +56,29 @@ export function signAccessToken(payload: {
   amazonAccountId?: string;
 }): string {
   const now = Math.floor(Date.now() / 1000);
+  const expiresIn = parseInt(process.env.JWT_EXPIRES_IN || '3600', 10);
   const jwtPayload: JWTPayload = {
     iss: APP_ISS,
     sub: payload.userId,
     email: payload.email,
     iat: now,
-    exp: now + JWT_EXPIRES_IN,
-    scope: payload.scope || 'alexa',
+    exp: now + expiresIn,
+    scope: payload.scope || ALL_TASK_SCOPES,
     notion_db_id: payload.notionDbId,
     amazon_account_id: payload.amazonAccountId,
   };
 
+  // Signed with the current JWT_SIGNING_KEYS key, so holders of the public
+  // JWKS (the skill's Lambda) can verify tokens but not mint them. JWT_SECRET
+  // is only used until signing keys are configured.
+  const signingKey = getCurrentSigningKey();
+  if (signingKey) {
+    return jwt.sign(jwtPayload, signingKey.privateKey!, {
+      algorithm: signingKey.alg,
+      keyid: signingKey.kid,
+    });
+  }
+
   return jwt.sign(jwtPayload, requireJwtSecret(), {
     algorithm: 'HS256',
   });
@@ -73,9 +86,23 @@ export function signAccessToken(payload: {
 
 /**
  * Verify and decode a JWT access token
+ * Tokens with a kid are checked against that JWT_SIGNING_KEYS key; tokens
+ * without one were signed with JWT_SECRET.
  */
 export function verifyAccessToken(token: string): JWTPayload | null {
   try {
+    const kid = jwt.decode(token, { complete: true })?.header.kid;
+    if (kid) {
+      const signingKey = findSigningKey(kid);
+      if (!signingKey) {
+        console.warn('[JWT] Unknown signing key:', kid);
+        return null;
+      }
+      return jwt.verify(token, signingKey.publicKey, {
+        algorithms: [signingKey.alg],
+      }) as JWTPayload;
+    }
+
     const decoded = jwt.verify(token, requireJwtSecret(), {
       algorithms: ['HS256'],
     }) as JWTPayload;
@@ -0,0 +1,58 @@
+/**
+ * Push notifications for overdue tasks (Alexa Proactive Events).
+ * Mirrors NotificationSettings in lambda/src/types/index.ts - keep the two in sync.
+ */
+
+export interface NotificationSettings {
+  overdueTasks: boolean;
+  // Hours of the day (0-23, user's time zone) with no notifications; may wrap past midnight
+  quietHoursStart: number;
+  quietHoursEnd: number;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  overdueTasks: false,
+  quietHoursStart: 21,
+  quietHoursEnd: 8,
+};
+
+/**
+ * "9 PM" for 21
+ */
+export function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 === 0 ? 12 : hour % 12} ${suffix}`;
+}
+
+/**
+ * Check settings sent by the dashboard; returns an error message or null
+ */
+export function validateNotificationSettings(settings: any): string | null {
+  if (!settings || typeof settings !== 'object') {
+    return 'Settings are required';
+  }
+
+  if (typeof settings.overdueTasks !== 'boolean') {
+    return 'overdueTasks must be true or false';
+  }
+
+  for (const key of ['quietHoursStart', 'quietHoursEnd']) {
+    const hour = settings[key];
+    if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+      return `${key} must be a whole hour from 0 to 23`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Copy only the known fields, so nothing else ends up in the database
+ */
+export function pickNotificationSettings(settings: NotificationSettings): NotificationSettings {
+  return {
+    overdueTasks: settings.overdueTasks,
+    quietHoursStart: settings.quietHoursStart,
+    quietHoursEnd: settings.quietHoursEnd,
+  };
+}
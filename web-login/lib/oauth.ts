@@ -1,9 +1,20 @@
 import crypto from 'crypto';
 import { createServerClient } from './supabase';
-import { signAccessToken } from './jwt';
+import { signAccessToken, verifyAccessToken, isLegacyToken, parseLegacyToken } from './jwt';
+import { ALL_TASK_SCOPES } from './scopes';
 
 const AUTH_CODE_EXPIRES_IN = 600; // 10 minutes
-const REFRESH_TOKEN_ENABLED = process.env.REFRESH_TOKEN_ENABLED === 'true';
+
+// A consumed refresh token presented again this soon is the client retrying
+// (e.g. after a network timeout), not a replay
+const REFRESH_TOKEN_REUSE_GRACE_MS = 60 * 1000;
+
+/**
+ * Whether the token endpoint issues refresh tokens (REFRESH_TOKEN_ENABLED=true)
+ */
+export function isRefreshTokenEnabled(): boolean {
+  return process.env.REFRESH_TOKEN_ENABLED === 'true';
+}
 
 export interface AuthorizationCode {
   code: string;
@@ -16,6 +27,33 @@ export interface AuthorizationCode {
   expires_at: Date;
 }
 
+/**
+ * The refresh token a new one replaces. Every token issued by refreshing
+ * stays in the family of the one first issued with the authorization code.
+ * `replacementToken` is set when the parent was already exchanged for that
+ * token, which the client gets again instead of a new one.
+ */
+export interface RefreshTokenFamily {
+  familyId: string;
+  parentToken: string;
+  replacementToken?: string;
+}
+
+export interface ConsumedRefreshToken {
+  userId: string;
+  scope: string;
+  familyId: string;
+  replacementToken?: string;
+}
+
+/**
+ * How long a refresh token can be exchanged (REFRESH_TOKEN_EXPIRES_IN
+ * seconds, default 90 days)
+ */
+function getRefreshTokenExpiresIn(): number {
+  return parseInt(process.env.REFRESH_TOKEN_EXPIRES_IN || '7776000', 10);
+}
+
 /**
  * Generate a secure random authorization code
  */
@@ -31,7 +69,7 @@ export async function storeAuthCode(
   userId: string,
   clientId: string,
   redirectUri: string,
-  scope: string = 'alexa',
+  scope: string = ALL_TASK_SCOPES,
   codeChallenge?: string,
   codeChallengeMethod?: string
 ): Promise<void> {
@@ -182,7 +220,8 @@ export async function issueAccessToken(
   clientId: string,
   scope: string,
   notionDbId?: string,
-  amazonAccountId?: string
+  amazonAccountId?: string,
+  refreshFamily?: RefreshTokenFamily
 ): Promise<{
   access_token: string;
   expires_in: number;
@@ -207,6 +246,9 @@ export async function issueAccessToken(
   const expiresIn = parseInt(process.env.ALEXA_TOKEN_EXPIRES_IN || '86400', 10); // 24 hours default
   const expiresAt = new Date(Date.now() + expiresIn * 1000);
 
+  // The grant the token belongs to, so revoking its refresh tokens revokes it too
+  const familyId = refreshFamily?.familyId ?? crypto.randomUUID();
+
   // Store opaque token in database
   const { error: tokenError } = await supabase
     .from('oauth_access_tokens')
@@ -215,6 +257,7 @@ export async function issueAccessToken(
       user_id: userId,
       client_id: clientId,
       scope,
+      family_id: familyId,
       expires_at: expiresAt.toISOString(),
       revoked: false,
     });
@@ -226,9 +269,9 @@ export async function issueAccessToken(
 
   console.log('[OAuth] Issued opaque access token for user:', userId, 'expires:', expiresAt.toISOString());
 
-  // Generate refresh token if enabled
-  let refreshToken: string | undefined;
-  if (REFRESH_TOKEN_ENABLED) {
+  // Generate refresh token if enabled (a new family unless this is a refresh)
+  let refreshToken: string | undefined = refreshFamily?.replacementToken;
+  if (isRefreshTokenEnabled() && !refreshToken) {
     refreshToken = crypto.randomBytes(32).toString('base64url');
     const { error: refreshError } = await supabase
       .from('oauth_refresh_tokens')
@@ -236,9 +279,20 @@ export async function issueAccessToken(
         token: refreshToken,
         user_id: userId,
         client_id: clientId,
+        scope,
+        family_id: familyId,
+        parent_token: refreshFamily?.parentToken ?? null,
+        expires_at: new Date(Date.now() + getRefreshTokenExpiresIn() * 1000).toISOString(),
         revoked: false,
       });
 
+    if (refreshError && refreshFamily) {
+      // The token being refreshed is already consumed, so the client would be
+      // left without one
+      console.error('[OAuth] Error storing rotated refresh token:', refreshError);
+      throw new Error('Failed to store refresh token');
+    }
+
     if (refreshError) {
       console.warn('[OAuth] Failed to store refresh token, continuing without it');
       refreshToken = undefined;
@@ -314,7 +368,7 @@ export async function revokeUserTokens(userId: string): Promise<void> {
   }
 
   // Also revoke refresh tokens if enabled
-  if (REFRESH_TOKEN_ENABLED) {
+  if (isRefreshTokenEnabled()) {
     await supabase
       .from('oauth_refresh_tokens')
       .update({ revoked: true, revoked_at: new Date().toISOString() })
@@ -323,6 +377,197 @@ export async function revokeUserTokens(userId: string): Promise<void> {
   }
 }
 
+/**
+ * Revoke every refresh token in a family and the access tokens issued with
+ * them: everything that came from one authorization code
+ */
+export async function revokeTokenFamily(familyId: string): Promise<void> {
+  const supabase = createServerClient();
+  const revokedAt = new Date().toISOString();
+
+  const { error: refreshError } = await supabase
+    .from('oauth_refresh_tokens')
+    .update({ revoked: true, revoked_at: revokedAt })
+    .eq('family_id', familyId)
+    .eq('revoked', false);
+
+  const { error: accessError } = await supabase
+    .from('oauth_access_tokens')
+    .update({ revoked: true, revoked_at: revokedAt })
+    .eq('family_id', familyId)
+    .eq('revoked', false);
+
+  if (refreshError || accessError) {
+    console.error('[OAuth] Error revoking token family:', refreshError || accessError);
+    throw new Error('Failed to revoke token family');
+  }
+}
+
+/**
+ * Validate and consume a refresh token, so it can be exchanged only once.
+ * A client retrying within REFRESH_TOKEN_REUSE_GRACE_MS gets the replacement
+ * already issued. Later, a consumed token is being replayed: someone else
+ * has a copy of it, so its family is revoked (see handleRefreshTokenReuse).
+ */
+export async function consumeRefreshToken(
+  token: string,
+  clientId: string
+): Promise<ConsumedRefreshToken | null> {
+  const supabase = createServerClient();
+
+  const { data: stored, error: fetchError } = await supabase
+    .from('oauth_refresh_tokens')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (fetchError || !stored) {
+    console.warn('[OAuth] Invalid refresh token:', {
+      token_preview: token.substring(0, 10) + '...',
+      error_message: fetchError?.message,
+    });
+    return null;
+  }
+
+  if (stored.client_id !== clientId) {
+    console.warn('[OAuth] Refresh token presented by another client:', { client_id: clientId });
+    return null;
+  }
+
+  if (stored.consumed_at) {
+    return handleConsumedRefreshToken(stored);
+  }
+
+  if (stored.revoked) {
+    console.warn('[OAuth] Refresh token revoked:', { revoked_at: stored.revoked_at });
+    return null;
+  }
+
+  if (stored.expires_at && new Date(stored.expires_at) < new Date()) {
+    console.warn('[OAuth] Refresh token expired:', { expires_at: stored.expires_at });
+    return null;
+  }
+
+  // Only consumes it if no concurrent request got there first
+  const { data: consumed, error: consumeError } = await supabase
+    .from('oauth_refresh_tokens')
+    .update({ consumed_at: new Date().toISOString() })
+    .eq('token', token)
+    .is('consumed_at', null)
+    .select('revoked');
+
+  if (consumeError) {
+    console.error('[OAuth] Error consuming refresh token:', consumeError);
+    throw new Error('Failed to consume refresh token');
+  }
+
+  if (!consumed || consumed.length === 0) {
+    // A concurrent request consumed it first
+    const { data: current } = await supabase
+      .from('oauth_refresh_tokens')
+      .select('*')
+      .eq('token', token)
+      .maybeSingle();
+    return current ? handleConsumedRefreshToken(current) : null;
+  }
+
+  if (consumed[0].revoked) {
+    return null;
+  }
+
+  return {
+    userId: stored.user_id,
+    scope: stored.scope || 'alexa',
+    familyId: stored.family_id,
+  };
+}
+
+/**
+ * A consumed refresh token was presented again. Shortly after it was
+ * consumed that is the client retrying, which gets the replacement issued
+ * the first time (or nothing, while that request is still running).
+ */
+async function handleConsumedRefreshToken(stored: any): Promise<ConsumedRefreshToken | null> {
+  const consumedAgo = Date.now() - new Date(stored.consumed_at).getTime();
+  if (stored.revoked || consumedAgo > REFRESH_TOKEN_REUSE_GRACE_MS) {
+    await handleRefreshTokenReuse(stored);
+    return null;
+  }
+
+  const supabase = createServerClient();
+  const { data: replacement } = await supabase
+    .from('oauth_refresh_tokens')
+    .select('token, revoked, consumed_at')
+    .eq('parent_token', stored.token)
+    .maybeSingle();
+
+  if (!replacement) {
+    return null;
+  }
+  if (replacement.revoked || replacement.consumed_at) {
+    // The client already moved on to the replacement
+    await handleRefreshTokenReuse(stored);
+    return null;
+  }
+
+  console.warn('[OAuth] Refresh token presented again within the grace window:', { family_id: stored.family_id });
+  return {
+    userId: stored.user_id,
+    scope: stored.scope || 'alexa',
+    familyId: stored.family_id,
+    replacementToken: replacement.token,
+  };
+}
+
+/**
+ * A consumed refresh token was replayed. Either the client or an attacker
+ * holds a stolen copy, and there is no telling which, so the whole family
+ * goes: its refresh tokens and the access tokens issued from them. The
+ * user's other devices keep working.
+ */
+async function handleRefreshTokenReuse(stored: any): Promise<void> {
+  console.error('[OAuth] Refresh token reuse detected, revoking tokens:', {
+    user_id: stored.user_id,
+    family_id: stored.family_id,
+    consumed_at: stored.consumed_at,
+  });
+
+  await recordSecurityEvent(stored.user_id, 'refresh_token_reuse', {
+    family_id: stored.family_id,
+    client_id: stored.client_id,
+    issued_at: stored.issued_at,
+    consumed_at: stored.consumed_at,
+  });
+
+  await revokeTokenFamily(stored.family_id);
+}
+
+/**
+ * Record suspicious activity in security_events. Never throws: the event is
+ * also in the logs.
+ */
+export async function recordSecurityEvent(
+  userId: string | null,
+  eventType: string,
+  details: Record<string, any> = {}
+): Promise<void> {
+  const supabase = createServerClient();
+
+  const { error } = await supabase.from('security_events').insert({
+    user_id: userId,
+    event_type: eventType,
+    details,
+  });
+
+  if (error) {
+    console.error('[OAuth] Error recording security event:', {
+      event_type: eventType,
+      user_id: userId,
+      error_message: error.message,
+    });
+  }
+}
+
 /**
  * Check if token is revoked
  */
@@ -350,3 +595,314 @@ export function validateRedirectUri(redirectUri: string): boolean {
   return allowedUris.some((uri) => redirectUri.startsWith(uri));
 }
 
+
+/**
+ * Token introspection response (RFC 7662). Inactive tokens get only
+ * `{ active: false }`; active ones also carry the fields the skill's Lambda
+ * reads to find the user.
+ */
+export interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  sub?: string;
+  exp?: number;
+  iat?: number;
+  token_type?: string;
+  user_id?: string;
+  email?: string;
+  license_active?: boolean;
+  notion_db_id?: string | null;
+  amazon_account_id?: string | null;
+}
+
+/**
+ * Clients allowed to call the token endpoints, by client ID: Alexa (the
+ * client tokens are issued to) and the skill's Lambda, which only introspects
+ */
+function getRegisteredClients(): Map<string, string> {
+  const clients = new Map<string, string>();
+  const pairs = [
+    [process.env.ALEXA_OAUTH_CLIENT_ID, process.env.ALEXA_OAUTH_CLIENT_SECRET],
+    [process.env.INTROSPECT_CLIENT_ID, process.env.INTROSPECT_CLIENT_SECRET],
+  ];
+  for (const [id, secret] of pairs) {
+    if (id?.trim() && secret?.trim()) {
+      clients.set(id.trim(), secret.trim());
+    }
+  }
+  return clients;
+}
+
+function secretsMatch(received: string, expected: string): boolean {
+  // Hashed first so the comparison takes the same time whatever the lengths
+  const a = crypto.createHash('sha256').update(received).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Authenticate the client calling a token endpoint, by HTTP Basic (client ID
+ * and secret form-encoded, RFC 6749 section 2.3.1) or client_id and
+ * client_secret parameters. Returns the client ID, or null.
+ */
+export function authenticateClient(
+  authorization: string | null,
+  params: Record<string, any>
+): string | null {
+  let clientId: string | undefined;
+  let clientSecret: string | undefined;
+
+  if (authorization?.startsWith('Basic ')) {
+    const credentials = Buffer.from(authorization.substring(6), 'base64').toString('utf-8');
+    const separator = credentials.indexOf(':');
+    if (separator < 0) {
+      return null;
+    }
+    try {
+      clientId = decodeURIComponent(credentials.substring(0, separator).replace(/\+/g, ' '));
+      clientSecret = decodeURIComponent(credentials.substring(separator + 1).replace(/\+/g, ' '));
+    } catch {
+      return null;
+    }
+  } else {
+    clientId = params.client_id;
+    clientSecret = params.client_secret;
+  }
+
+  if (typeof clientId !== 'string' || typeof clientSecret !== 'string') {
+    return null;
+  }
+
+  const expectedSecret = getRegisteredClients().get(clientId.trim());
+  if (!expectedSecret || !secretsMatch(clientSecret.trim(), expectedSecret)) {
+    return null;
+  }
+  return clientId.trim();
+}
+
+/**
+ * Read the parameters of a token endpoint request: form-encoded as the specs
+ * require, or JSON
+ */
+export async function readTokenRequestParams(request: Request): Promise<Record<string, any>> {
+  const text = await request.text();
+  if (request.headers.get('content-type')?.includes('application/json')) {
+    const body = text ? JSON.parse(text) : {};
+    return body && typeof body === 'object' ? body : {};
+  }
+  return Object.fromEntries(new URLSearchParams(text).entries());
+}
+
+const toEpochSeconds = (value: string | null | undefined): number | undefined =>
+  value ? Math.floor(new Date(value).getTime() / 1000) : undefined;
+
+async function describeActiveToken(
+  row: any,
+  claims: Pick<IntrospectionResponse, 'exp' | 'token_type'>
+): Promise<IntrospectionResponse> {
+  const supabase = createServerClient();
+
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('id, email, license_key, tasks_db_id, amazon_account_id')
+    .eq('id', row.user_id)
+    .maybeSingle();
+
+  if (userError) {
+    throw new Error(`Failed to look up token owner: ${userError.message}`);
+  }
+  if (!user) {
+    return { active: false };
+  }
+
+  // license_key holds the Stripe payment intent ID
+  let licenseActive = false;
+  if (user.license_key) {
+    const { data: license } = await supabase
+      .from('licenses')
+      .select('status')
+      .eq('stripe_payment_intent_id', user.license_key)
+      .maybeSingle();
+    licenseActive = license?.status === 'active';
+  }
+
+  return {
+    active: true,
+    scope: row.scope,
+    client_id: row.client_id,
+    sub: user.id,
+    ...claims,
+    iat: toEpochSeconds(row.issued_at),
+    user_id: user.id,
+    email: user.email,
+    license_active: licenseActive,
+    notion_db_id: user.tasks_db_id,
+    amazon_account_id: user.amazon_account_id,
+  };
+}
+
+async function introspectAccessToken(token: string): Promise<IntrospectionResponse | null> {
+  const supabase = createServerClient();
+
+  const { data: row, error } = await supabase
+    .from('oauth_access_tokens')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up access token: ${error.message}`);
+  }
+  if (!row) {
+    return null;
+  }
+  if (row.revoked || new Date(row.expires_at) < new Date()) {
+    return { active: false };
+  }
+  return describeActiveToken(row, { exp: toEpochSeconds(row.expires_at), token_type: 'Bearer' });
+}
+
+async function introspectRefreshToken(token: string): Promise<IntrospectionResponse | null> {
+  const supabase = createServerClient();
+
+  const { data: row, error } = await supabase
+    .from('oauth_refresh_tokens')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up refresh token: ${error.message}`);
+  }
+  if (!row) {
+    return null;
+  }
+  if (row.revoked || row.consumed_at || (row.expires_at && new Date(row.expires_at) < new Date())) {
+    return { active: false };
+  }
+  return describeActiveToken(row, { exp: toEpochSeconds(row.expires_at) });
+}
+
+/**
+ * Access tokens from before opaque tokens: base64 JSON naming the Amazon
+ * account, and JWTs signed by the web login that were never stored. Devices
+ * linked back then keep working until they link again. These can't be
+ * revoked one by one; they carry the legacy full-access scope.
+ */
+async function introspectLegacyToken(token: string): Promise<IntrospectionResponse | null> {
+  const supabase = createServerClient();
+
+  if (isLegacyToken(token)) {
+    const amazonAccountId = parseLegacyToken(token)?.amazon_account_id;
+    if (!amazonAccountId) {
+      return { active: false };
+    }
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('id')
+      .eq('amazon_account_id', amazonAccountId)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to look up legacy token owner: ${error.message}`);
+    }
+    if (!user) {
+      return { active: false };
+    }
+    return describeActiveToken({ user_id: user.id, scope: 'alexa' }, { token_type: 'Bearer' });
+  }
+
+  if (token.split('.').length !== 3) {
+    return null;
+  }
+  const payload = verifyAccessToken(token);
+  // Website session JWTs don't grant a device access
+  if (!payload || payload.type === 'website_session') {
+    return null;
+  }
+  return describeActiveToken(
+    { user_id: payload.sub, scope: payload.scope, issued_at: new Date(payload.iat * 1000).toISOString() },
+    { exp: payload.exp, token_type: 'Bearer' }
+  );
+}
+
+/**
+ * Introspect a token (RFC 7662). `hint` only decides which kind of token is
+ * looked up first; unknown, expired, revoked and consumed tokens are all just
+ * inactive.
+ */
+export async function introspectToken(token: string, hint?: string): Promise<IntrospectionResponse> {
+  const lookups = hint === 'refresh_token'
+    ? [introspectRefreshToken, introspectAccessToken, introspectLegacyToken]
+    : [introspectAccessToken, introspectRefreshToken, introspectLegacyToken];
+
+  for (const lookup of lookups) {
+    const result = await lookup(token);
+    if (result) {
+      return result;
+    }
+  }
+  return { active: false };
+}
+
+async function revokeClientAccessToken(token: string, clientId: string): Promise<boolean> {
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('oauth_access_tokens')
+    .select('token, revoked')
+    .eq('token', token)
+    .eq('client_id', clientId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up access token: ${error.message}`);
+  }
+  if (!data) {
+    return false;
+  }
+  if (!data.revoked) {
+    await revokeToken(token);
+  }
+  return true;
+}
+
+async function revokeClientRefreshToken(token: string, clientId: string): Promise<boolean> {
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('oauth_refresh_tokens')
+    .select('family_id')
+    .eq('token', token)
+    .eq('client_id', clientId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up refresh token: ${error.message}`);
+  }
+  if (!data) {
+    return false;
+  }
+
+  // The whole grant (RFC 7009 section 2.1): the token's replacements and the
+  // access tokens issued with them
+  await revokeTokenFamily(data.family_id);
+  return true;
+}
+
+/**
+ * Revoke a token issued to `clientId` (RFC 7009). Unknown tokens and tokens
+ * issued to other clients are left alone without an error, so the caller
+ * can't tell them apart from revoked ones.
+ */
+export async function revokeClientToken(token: string, clientId: string, hint?: string): Promise<void> {
+  const attempts = hint === 'refresh_token'
+    ? [revokeClientRefreshToken, revokeClientAccessToken]
+    : [revokeClientAccessToken, revokeClientRefreshToken];
+
+  for (const attempt of attempts) {
+    if (await attempt(token, clientId)) {
+      return;
+    }
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * OAuth scopes for linked Alexa devices
+ *
+ * A token carries a space-separated list of these. The skill's Lambda checks
+ * them per handler (lambda/src/utils/scopes.ts). Tokens issued before scopes
+ * existed carry "alexa", which still means full access.
+ */
+
+export const TASK_SCOPES = ['tasks:read', 'tasks:write', 'tasks:delete'] as const;
+
+export type TaskScope = typeof TASK_SCOPES[number];
+
+export const LEGACY_SCOPE = 'alexa';
+
+export const ALL_TASK_SCOPES = TASK_SCOPES.join(' ');
+
+// What a request that names no scope gets
+const DEFAULT_SCOPES: TaskScope[] = ['tasks:read'];
+
+/**
+ * What each scope lets the device do, as shown on the consent screen
+ */
+export const SCOPE_DESCRIPTIONS: Record<TaskScope, string> = {
+  'tasks:read': 'Read your tasks and your daily briefing',
+  'tasks:write': 'Add tasks and steps, and update or complete tasks',
+  'tasks:delete': 'Delete tasks',
+};
+
+/**
+ * The scopes in a scope string, in TASK_SCOPES order. The legacy "alexa"
+ * scope means all of them; no scope means tasks:read only.
+ */
+export function parseScope(scope?: string | null): TaskScope[] {
+  const requested = (scope || '').split(/\s+/).filter(Boolean);
+  if (requested.includes(LEGACY_SCOPE)) {
+    return [...TASK_SCOPES];
+  }
+  if (requested.length === 0) {
+    return [...DEFAULT_SCOPES];
+  }
+  return TASK_SCOPES.filter(taskScope => requested.includes(taskScope));
+}
+
+/**
+ * The canonical scope string to store for a request's scope parameter, or
+ * null when it names a scope we don't know (an invalid_scope error)
+ */
+export function normalizeScope(scope?: string | null): string | null {
+  const requested = (scope || '').split(/\s+/).filter(Boolean);
+  const known = [...TASK_SCOPES, LEGACY_SCOPE] as string[];
+  if (requested.some(value => !known.includes(value))) {
+    return null;
+  }
+  return parseScope(scope).join(' ');
+}
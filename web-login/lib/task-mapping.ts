@@ -0,0 +1,288 @@
+/**
+ * Property mapping for a user's Tasks database.
+ * Mirrors lambda/src/utils/schema.ts - keep the two in sync.
+ */
+
+export type TaskStatus = 'TO DO' | 'IN_PROCESS' | 'DONE';
+export type TaskPriority = 'LOW' | 'NORMAL' | 'HIGH';
+export type TaskCategory = 'PERSONAL' | 'WORK';
+
+export interface TaskPropertyMapping {
+  title: string;
+  parsedName: string | null;
+  status: string | null;
+  statusType: 'select' | 'status';
+  priority: string | null;
+  category: string | null;
+  categoryType: 'select' | 'multi_select';
+  dueDate: string | null;
+  notes: string | null;
+  recurrence: string;
+  notionId: string | null;
+  statusValues: Record<TaskStatus, string>;
+  statusOptions: Record<string, TaskStatus>;
+  priorityValues: Record<TaskPriority, string>;
+  categoryValues: Record<TaskCategory, string>;
+}
+
+/**
+ * A database property as shown in the dashboard editor
+ */
+export interface DatabaseProperty {
+  name: string;
+  type: string;
+  options: string[];
+  // Native status properties only: option names per group
+  groups?: { name: string; options: string[] }[];
+}
+
+export const DEFAULT_PROPERTY_MAPPING: TaskPropertyMapping = {
+  title: 'Task Name',
+  parsedName: 'Parsed Name',
+  status: 'Status',
+  statusType: 'select',
+  priority: 'Priority',
+  category: 'Category',
+  categoryType: 'select',
+  dueDate: 'Due Date Time',
+  notes: 'Notes',
+  recurrence: 'Recurrence',
+  notionId: 'NotionID',
+  statusValues: { 'TO DO': 'TO DO', IN_PROCESS: 'IN_PROCESS', DONE: 'DONE' },
+  statusOptions: {},
+  priorityValues: { LOW: 'LOW', NORMAL: 'NORMAL', HIGH: 'HIGH' },
+  categoryValues: { PERSONAL: 'PERSONAL', WORK: 'WORK' },
+};
+
+// Property types each field may use; title is always the title property
+export const FIELD_TYPES: Record<string, string[]> = {
+  parsedName: ['rich_text'],
+  status: ['select', 'status'],
+  priority: ['select'],
+  category: ['select', 'multi_select'],
+  dueDate: ['date'],
+  notes: ['rich_text'],
+  recurrence: ['rich_text'],
+  notionId: ['rich_text'],
+};
+
+const STATUS_PATTERNS: Record<TaskStatus, RegExp> = {
+  'TO DO': /^(to[\s_-]?do|not started|backlog|open|pending)$/i,
+  IN_PROCESS: /^(in[\s_-]?pro(cess|gress)|doing|started|active|ongoing)$/i,
+  DONE: /^(done|complete|completed|finished|closed)$/i,
+};
+
+const STATUS_GROUP_PATTERNS: Record<TaskStatus, RegExp> = {
+  'TO DO': /to[\s_-]?do|not started/i,
+  IN_PROCESS: /progress/i,
+  DONE: /complete|done/i,
+};
+
+const PRIORITY_PATTERNS: Record<TaskPriority, RegExp> = {
+  LOW: /^(low|p3|minor)$/i,
+  NORMAL: /^(normal|medium|p2)$/i,
+  HIGH: /^(high|urgent|critical|p1)$/i,
+};
+
+const CATEGORY_PATTERNS: Record<TaskCategory, RegExp> = {
+  PERSONAL: /^(personal|home|private|life)$/i,
+  WORK: /^(work|job|office|business)$/i,
+};
+
+/**
+ * Flatten databases.retrieve properties for the editor
+ */
+export function listDatabaseProperties(properties: Record<string, any>): DatabaseProperty[] {
+  return Object.keys(properties).map(name => {
+    const property = properties[name];
+    const options: any[] = property[property.type]?.options || [];
+    const listed: DatabaseProperty = {
+      name,
+      type: property.type,
+      options: options.map(option => option.name),
+    };
+    if (property.type === 'status') {
+      listed.groups = (property.status.groups || []).map((group: any) => ({
+        name: group.name,
+        options: options
+          .filter(option => (group.option_ids || []).includes(option.id))
+          .map(option => option.name),
+      }));
+    }
+    return listed;
+  });
+}
+
+function findProperty(properties: DatabaseProperty[], types: string[], patterns: RegExp[]): DatabaseProperty | null {
+  const candidates = properties.filter(property => types.includes(property.type));
+  for (const pattern of patterns) {
+    const match = candidates.find(property => pattern.test(property.name));
+    if (match) return match;
+  }
+  return null;
+}
+
+function matchOptions<T extends string>(
+  property: DatabaseProperty | null,
+  patterns: Record<T, RegExp>,
+  defaults: Record<T, string>
+): Record<T, string> {
+  const values = { ...defaults };
+  if (!property) return values;
+
+  for (const key of Object.keys(patterns) as T[]) {
+    const match = property.options.find(option => option.toLowerCase() === defaults[key].toLowerCase())
+      || property.options.find(option => patterns[key].test(option.trim()));
+    if (match) values[key] = match;
+  }
+  return values;
+}
+
+/**
+ * Map every status option onto the skill's statuses - by group for native
+ * status properties, by name for selects
+ */
+export function detectStatusOptions(property: DatabaseProperty): Pick<TaskPropertyMapping, 'statusValues' | 'statusOptions'> {
+  const statusValues = matchOptions(property, STATUS_PATTERNS, DEFAULT_PROPERTY_MAPPING.statusValues);
+  const grouped: Record<string, TaskStatus> = {};
+  const canonical = Object.keys(STATUS_PATTERNS) as TaskStatus[];
+
+  if (property.groups) {
+    property.groups.forEach((group, index) => {
+      const status = canonical.find(key => STATUS_GROUP_PATTERNS[key].test(group.name)) || canonical[index];
+      if (!status) return;
+      group.options.forEach(name => { grouped[name] = status; });
+      if (group.options.length > 0 && !group.options.includes(statusValues[status])) {
+        statusValues[status] = group.options[0];
+      }
+    });
+  } else {
+    for (const option of property.options) {
+      const status = canonical.find(key => STATUS_PATTERNS[key].test(option.trim()));
+      if (status) grouped[option] = status;
+    }
+  }
+
+  const statusOptions: Record<string, TaskStatus> = {};
+  for (const [name, status] of Object.entries(grouped)) {
+    if (statusValues[status] !== name) statusOptions[name] = status;
+  }
+  return { statusValues, statusOptions };
+}
+
+/**
+ * Guess the mapping from the database's properties
+ */
+export function detectPropertyMapping(properties: DatabaseProperty[]): TaskPropertyMapping {
+  const title = properties.find(property => property.type === 'title');
+  const status = findProperty(properties, ['select', 'status'], [/^status$/i, /status|state|stage/i]);
+  const priority = findProperty(properties, ['select'], [/^priority$/i, /priority|importance/i]);
+  const category = findProperty(properties, ['select', 'multi_select'], [/^category$/i, /categor|tags?$|area|context/i]);
+
+  return {
+    title: title?.name || DEFAULT_PROPERTY_MAPPING.title,
+    parsedName: findProperty(properties, ['rich_text'], [/^parsed name$/i])?.name || null,
+    status: status?.name || null,
+    statusType: status?.type === 'status' ? 'status' : 'select',
+    priority: priority?.name || null,
+    category: category?.name || null,
+    categoryType: category?.type === 'multi_select' ? 'multi_select' : 'select',
+    dueDate: findProperty(properties, ['date'], [/^due date time$/i, /due/i, /deadline|date/i])?.name || null,
+    notes: findProperty(properties, ['rich_text'], [/^notes?$/i, /notes?|description/i])?.name || null,
+    recurrence: findProperty(properties, ['rich_text'], [/^recurrence$/i, /recurr|repeat/i])?.name
+      || DEFAULT_PROPERTY_MAPPING.recurrence,
+    notionId: findProperty(properties, ['rich_text'], [/^notion\s?id$/i])?.name || null,
+    ...(status
+      ? detectStatusOptions(status)
+      : { statusValues: DEFAULT_PROPERTY_MAPPING.statusValues, statusOptions: {} }),
+    priorityValues: matchOptions(priority, PRIORITY_PATTERNS, DEFAULT_PROPERTY_MAPPING.priorityValues),
+    categoryValues: matchOptions(category, CATEGORY_PATTERNS, DEFAULT_PROPERTY_MAPPING.categoryValues),
+  };
+}
+
+/**
+ * Check a mapping submitted from the dashboard against the database.
+ * Returns an error message, or null when the mapping is usable.
+ */
+export function validatePropertyMapping(mapping: any, properties: DatabaseProperty[]): string | null {
+  if (!mapping || typeof mapping !== 'object') {
+    return 'Mapping is required';
+  }
+
+  const byName = new Map(properties.map(property => [property.name, property]));
+
+  if (byName.get(mapping.title)?.type !== 'title') {
+    return `"${mapping.title}" is not the title property of the database`;
+  }
+
+  for (const field of Object.keys(FIELD_TYPES)) {
+    const name = mapping[field];
+    if (name === null && field !== 'recurrence') continue;
+    if (typeof name !== 'string' || !name) {
+      return `Missing property for ${field}`;
+    }
+    // The skill adds the recurrence property itself when it is missing
+    const property = byName.get(name);
+    if (!property && field === 'recurrence') continue;
+    if (!property || !FIELD_TYPES[field].includes(property.type)) {
+      return `"${name}" can't be used for ${field}`;
+    }
+  }
+
+  if (mapping.category && byName.get(mapping.category)?.type !== mapping.categoryType) {
+    return `categoryType must match the type of "${mapping.category}"`;
+  }
+
+  if (mapping.status && byName.get(mapping.status)?.type !== mapping.statusType) {
+    return `statusType must match the type of "${mapping.status}"`;
+  }
+
+  const statuses = Object.keys(DEFAULT_PROPERTY_MAPPING.statusValues);
+  if (mapping.statusOptions && (typeof mapping.statusOptions !== 'object'
+    || Object.values(mapping.statusOptions).some(status => !statuses.includes(status as string)))) {
+    return 'Status options must map to TO DO, IN_PROCESS or DONE';
+  }
+
+  // Native status options can't be created through the API, so they must exist
+  if (mapping.status && mapping.statusType === 'status') {
+    const options = byName.get(mapping.status)?.options || [];
+    const missing = Object.values(mapping.statusValues || {}).find(name => !options.includes(name as string));
+    if (missing) {
+      return `"${missing}" is not an option of "${mapping.status}"`;
+    }
+  }
+
+  for (const values of ['statusValues', 'priorityValues', 'categoryValues']) {
+    const defaults = (DEFAULT_PROPERTY_MAPPING as any)[values];
+    for (const key of Object.keys(defaults)) {
+      if (typeof mapping[values]?.[key] !== 'string' || !mapping[values][key]) {
+        return `Missing option for ${key}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Keep only the known fields of a validated mapping
+ */
+export function pickPropertyMapping(mapping: TaskPropertyMapping): TaskPropertyMapping {
+  return {
+    title: mapping.title,
+    parsedName: mapping.parsedName,
+    status: mapping.status,
+    statusType: mapping.statusType,
+    priority: mapping.priority,
+    category: mapping.category,
+    categoryType: mapping.categoryType,
+    dueDate: mapping.dueDate,
+    notes: mapping.notes,
+    recurrence: mapping.recurrence,
+    notionId: mapping.notionId,
+    statusValues: { ...mapping.statusValues },
+    statusOptions: { ...mapping.statusOptions },
+    priorityValues: { ...mapping.priorityValues },
+    categoryValues: { ...mapping.categoryValues },
+  };
+}
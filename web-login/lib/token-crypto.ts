@@ -0,0 +1,138 @@
+// Envelope encryption for Notion integration tokens stored in users.notion_token
+// Each token is encrypted with its own random data key; the data key is
+// encrypted ("wrapped") with a key-encryption key (KEK) from the environment.
+// Keep in sync with lambda/src/utils/tokenCrypto.ts and scripts/rotate_notion_token_keys.js
+
+import crypto from 'crypto';
+
+// enc:v1:<kek id>:<wrapped data key>:<iv>:<ciphertext>:<auth tag>, base64 parts
+const PREFIX = 'enc';
+const VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export interface TokenKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Parse a key given as `<id>:<base64 of 32 bytes>`
+ */
+export function parseTokenKey(spec: string): TokenKey {
+  const separator = spec.indexOf(':');
+  const id = spec.slice(0, separator).trim();
+  const key = Buffer.from(spec.slice(separator + 1).trim(), 'base64');
+
+  if (separator <= 0 || !/^[\w-]+$/.test(id) || key.length !== KEY_BYTES) {
+    throw new Error(`Invalid Notion token key: expected "<id>:<base64 of ${KEY_BYTES} bytes>"`);
+  }
+  return { id, key };
+}
+
+/**
+ * The key new tokens are encrypted with (NOTION_TOKEN_KEK), or null if none is set
+ */
+export function getCurrentTokenKey(): TokenKey | null {
+  const spec = process.env.NOTION_TOKEN_KEK;
+  return spec ? parseTokenKey(spec) : null;
+}
+
+/**
+ * Every key tokens may be encrypted with: the current one and those being
+ * rotated out (NOTION_TOKEN_KEK_PREVIOUS, comma separated)
+ */
+export function getTokenKeys(): TokenKey[] {
+  const current = getCurrentTokenKey();
+  const previous = (process.env.NOTION_TOKEN_KEK_PREVIOUS || '')
+    .split(',')
+    .map(spec => spec.trim())
+    .filter(Boolean)
+    .map(parseTokenKey);
+  return current ? [current, ...previous] : previous;
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; ciphertext: Buffer; tag: Buffer } {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, ciphertext, tag: cipher.getAuthTag() };
+}
+
+function open(key: Buffer, iv: Buffer, ciphertext: Buffer, tag: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export function isEncryptedToken(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(`${PREFIX}:`);
+}
+
+/**
+ * Encrypt a Notion token with a new data key wrapped by the current KEK
+ */
+export function encryptToken(token: string, kek: TokenKey | null = getCurrentTokenKey()): string {
+  if (!kek) {
+    throw new Error('NOTION_TOKEN_KEK is not set, cannot encrypt Notion tokens');
+  }
+
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  const wrapped = seal(kek.key, dataKey);
+  const sealed = seal(dataKey, Buffer.from(token, 'utf8'));
+
+  return [
+    PREFIX,
+    VERSION,
+    kek.id,
+    Buffer.concat([wrapped.iv, wrapped.ciphertext, wrapped.tag]).toString('base64'),
+    sealed.iv.toString('base64'),
+    sealed.ciphertext.toString('base64'),
+    sealed.tag.toString('base64'),
+  ].join(':');
+}
+
+/**
+ * Decrypt a stored Notion token. Tokens saved before encryption was turned
+ * on are plaintext and returned as they are.
+ */
+export function decryptToken(value: string | null, keys: TokenKey[] = getTokenKeys()): string | null {
+  if (!value || !isEncryptedToken(value)) {
+    return value;
+  }
+
+  const parts = value.split(':');
+  if (parts.length !== 7 || parts[1] !== VERSION) {
+    throw new Error(`Unsupported Notion token format: ${parts.slice(0, 2).join(':')}`);
+  }
+
+  const [, , kekId, wrappedKey, iv, ciphertext, tag] = parts;
+  const kek = keys.find(key => key.id === kekId);
+  if (!kek) {
+    throw new Error(`Notion token was encrypted with unknown key "${kekId}"`);
+  }
+
+  const wrapped = Buffer.from(wrappedKey, 'base64');
+  const dataKey = open(
+    kek.key,
+    wrapped.subarray(0, IV_BYTES),
+    wrapped.subarray(IV_BYTES, wrapped.length - TAG_BYTES),
+    wrapped.subarray(wrapped.length - TAG_BYTES)
+  );
+
+  return open(
+    dataKey,
+    Buffer.from(iv, 'base64'),
+    Buffer.from(ciphertext, 'base64'),
+    Buffer.from(tag, 'base64')
+  ).toString('utf8');
+}
+
+/**
+ * The id of the KEK a stored token is encrypted with, or null for plaintext
+ */
+export function getTokenKeyId(value: string | null): string | null {
+  return isEncryptedToken(value) ? value!.split(':')[2] ?? null : null;
+}